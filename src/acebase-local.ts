@@ -1,9 +1,14 @@
 import { AceBaseBase, AceBaseBaseSettings } from 'acebase-core';
+import type { QueryFilter } from 'acebase-core';
 import { AceBaseStorage } from './storage/binary';
 import { LocalApi } from './api-local';
-import { IPCClientSettings, StorageSettings, TransactionLogSettings } from './storage';
+import { IPCClientSettings, RestoreToOptions, StorageSettings, StorageTransactionLogSettings, TransactionLogSettings } from './storage';
 import { createLocalStorageInstance, LocalStorageSettings } from './storage/custom/local-storage';
 import { IndexedDBStorageSettings } from './storage/custom/indexed-db/settings';
+import { Trigger } from './storage/triggers';
+import { AggregateOptions } from './query-aggregate';
+import { AceBaseIPCServer, IPCServerSettings } from './ipc';
+import type { IPCDebugEvent, IPCStatus } from './ipc/ipc';
 
 export { LocalStorageSettings, IndexedDBStorageSettings };
 
@@ -33,7 +38,7 @@ export class AceBaseLocalSettings extends AceBaseBaseSettings {
             this.storage = options.storage;
             // If they were set on global settings, copy IPC and transaction settings to storage settings
             if (options.ipc) { this.storage.ipc = options.ipc; }
-            if (options.transactions) { this.storage.transactions = options.transactions; }
+            if (options.transactions) { this.storage.transactions = new StorageTransactionLogSettings(options.transactions); }
         }
     }
 }
@@ -96,8 +101,177 @@ export class AceBase extends AceBaseBase {
             const storage = this.api.storage as AceBaseStorage;
             await storage.repairNodeTree(path);
         },
+
+        /**
+         * BETA: Rolls back a subtree or the entire database to a previous point in time, by replaying the inverse
+         * of all mutations that were logged since then. Requires transaction logging to be enabled.
+         * Use `dryRun: true` to get the changes that would be made, without restoring anything.
+         * @returns the number of reverted mutations and the effective changes per path
+         */
+        restoreTo: async (options: RestoreToOptions) => {
+            await this.ready();
+            return this.api.storage.restoreTo(options);
+        },
+
+        /**
+         * Checks the integrity of the entire database: validates all records reachable from the root record, checks the
+         * Free Space Table for records in use and unreachable records, and compares index contents with the data.
+         * Only supported by the default AceBase binary storage engine
+         * @param options.repair whether to fix found issues: broken records are removed using `repairNode`, free space is
+         * rebuilt from the records in use, and indexes that do not match the data are rebuilt. Default is `false`
+         * @returns a report of all found issues
+         */
+        check: async (options: { repair?: boolean } = {}) => {
+            await this.ready();
+            if (!(this.api.storage instanceof AceBaseStorage)) {
+                throw new Error(`check is not supported with chosen storage engine`);
+            }
+            return await this.api.storage.check(options);
+        },
     };
 
+    public triggers = {
+        /**
+         * Adds a trigger that runs when nodes at given path are written to. A `before` trigger runs while the node is locked,
+         * and can change the new value (eg to add an `updated` timestamp) or reject the write by throwing an error. An `after`
+         * trigger runs once the node was changed, and can perform follow-up writes (eg to keep counters correct).
+         * Triggers only run in the process that performs the write, so add them in all processes that write to the database
+         * @param path Path of the nodes to run the trigger for, can include wildcards or variables. Eg: `'orders/$id'`
+         * @param trigger `before` and/or `after` functions to run
+         * @example
+         * db.triggers.add('orders/$id', {
+         *     before: ({ newValue }) => newValue && { ...newValue, updated: new Date() },
+         *     after: async ({ variables, oldValue, newValue }) => { ... },
+         * });
+         */
+        add: (path: string, trigger: Trigger) => {
+            this.api.storage.triggers.add(path, trigger);
+        },
+
+        /**
+         * Removes 1 or all triggers on a path
+         * @param path Path the trigger(s) were added to
+         * @param trigger Trigger to remove (optional: if omitted all triggers on the path will be removed)
+         */
+        remove: (path: string, trigger?: Trigger) => {
+            this.api.storage.triggers.remove(path, trigger);
+        },
+    };
+
+    public maintenance = {
+        /**
+         * Compacts the database file by moving records into free space closer to the start of the file and truncating it.
+         * Each record is moved while only its parent node is locked, so this and other processes connected through IPC can keep reading and writing.
+         * Only supported by the default AceBase binary storage engine
+         */
+        compact: async () => {
+            await this.ready();
+            if (!(this.api.storage instanceof AceBaseStorage)) {
+                throw new Error(`compact is not supported with chosen storage engine`);
+            }
+            return await this.api.storage.compact();
+        },
+    };
+
+    public ipc = {
+        /**
+         * Gets the IPC state of this process: the peers it knows and when they were last seen, granted and queued locks of all
+         * processes with their holders and age, message throughput, queued messages and average request latency. The locks are
+         * requested from the IPC master, if it does not reply in time only the locks of this process are reported
+         * @param options.timeout how many ms to wait for the IPC master to reply, default is 5000
+         */
+        status: (options?: { timeout?: number }): Promise<IPCStatus> => {
+            return this.api.storage.ipc.status(options);
+        },
+
+        /**
+         * Adds a listener for IPC debug events, fired for each sent and received message, completed request, lock that is
+         * queued, granted or released, peer that is added or removed, and master change
+         * @example
+         * db.ipc.on('debug', event => console.log(event.type, event));
+         */
+        on: (event: 'debug', callback: (event: IPCDebugEvent) => void) => {
+            this.api.storage.ipc.on(event, callback);
+        },
+
+        /**
+         * Removes a previously added listener for IPC debug events, or all listeners if no callback is given
+         */
+        off: (event: 'debug', callback?: (event: IPCDebugEvent) => void) => {
+            this.api.storage.ipc.off(event, callback);
+        },
+    };
+
+    /**
+     * Creates a consistent copy of the running database, including its transaction log, schema definitions and index files.
+     * Writes are blocked while the files are being copied. Only supported by the default AceBase binary storage engine
+     * @param targetPath directory to create the backup in, the files are copied to its `[dbname].acebase` subdirectory.
+     * Use `AceBase.restore` to restore it, or open it directly with `new AceBase(dbname, { storage: { path: targetPath } })`
+     * @returns the directory the backup was created in, and the names of all copied files
+     */
+    async backup(targetPath: string) {
+        await this.ready();
+        if (!(this.api.storage instanceof AceBaseStorage)) {
+            throw new Error(`backup is not supported with chosen storage engine`);
+        }
+        return await this.api.storage.backup(targetPath);
+    }
+
+    /**
+     * Aggregates the values of child nodes without loading them all: counts, sums, averages, lowest and highest values of
+     * all nodes matching optional filters, optionally grouped by the value of a key. If an index on one of the used keys
+     * includes all others, the aggregates are calculated from its entries. Otherwise all children are streamed
+     * @param path path of the object collection to aggregate, can include wildcards if an index can be used
+     * @param options what to aggregate, and optional `filters` to apply to the nodes
+     * @returns the aggregated values of each group, sorted by group value. Returns a single result if `groupBy` is not set
+     * @example
+     * // Number of orders and their total per status
+     * const results = await db.aggregate('orders', { groupBy: 'status', count: true, sum: 'total' });
+     * // [{ group: 'new', count: 5, sum: { total: 120 } }, { group: 'paid', count: 3, sum: { total: 85.5 } }]
+     *
+     * // Sum of totals of this year's orders
+     * const [{ sum }] = await db.aggregate('orders', { sum: 'total', filters: [{ key: 'date', op: '>=', compare: new Date(2022, 0, 1) }] });
+     */
+    async aggregate(path: string, options: AggregateOptions & {
+        /**
+         * Filters nodes must match, like the filters of a query
+         */
+        filters?: QueryFilter[];
+    }) {
+        await this.ready();
+        const { filters, ...aggregate } = options;
+        const { results } = await this.api.aggregate(path, { filters: filters ?? [] }, aggregate);
+        return results;
+    }
+
+    /**
+     * Updates multiple nodes in a single atomic transaction: all paths are locked while the callback runs, and either all
+     * new values are stored, or none. Event subscribers are notified of each change, a single mutation is added to the transaction log.
+     * @param paths paths of the nodes to update, must not overlap
+     * @param callback receives the current values of all paths in the same order, and returns (a promise with) their new values.
+     * Use `undefined` to leave a value unchanged, `null` to remove it. Return nothing to cancel the transaction
+     * @returns the new cursor if transaction logging is enabled
+     * @example
+     * await db.transaction(['queues/pending/job1', 'queues/done/job1', 'stats/done'], ([job, done, count]) => {
+     *     return [null, { ...job, finished: new Date() }, (count || 0) + 1];
+     * });
+     */
+    async transaction(paths: string[], callback: (values: any[]) => any[] | void | Promise<any[] | void>, options: {
+        /**
+         * whether to suppress the execution of event subscriptions
+         * @default false
+         */
+        suppress_events?: boolean;
+        /**
+         * Context to be passed along with data events
+         * @default null
+         */
+        context?: any;
+    } = {}) {
+        await this.ready();
+        return this.api.storage.transactNodes(paths, callback, options);
+    }
+
     async close() {
         // Close the database by calling exit on the ipc channel, which will emit an 'exit' event when the database can be safely closed.
         await this.api.storage.close();
@@ -124,6 +298,33 @@ export class AceBase extends AceBaseBase {
         return db;
     }
 
+    /**
+     * Restores a backup created with `db.backup`, verifying its database file headers before copying its files
+     * to the storage path in `settings`, and opens the restored database. The target database must not exist yet.
+     * @param dbname Name of the database
+     * @param backupPath directory the backup was created in
+     * @param settings optional settings to open the restored database with
+     */
+    static async restore(dbname: string, backupPath: string, settings: Partial<AceBaseLocalSettings> = {}): Promise<AceBase> {
+        const storagePath = settings.storage?.path || '.';
+        await AceBaseStorage.restore(dbname, backupPath, storagePath);
+        const db = new AceBase(dbname, settings);
+        await db.ready();
+        return db;
+    }
+
+    /**
+     * Starts a standalone IPC server that relays messages between AceBase instances running in pm2 or cloud-based clusters.
+     * The instances connect to it with `ipc` storage settings `{ host, port, ssl, token, role }`. Requires the `ws` package
+     * @param settings server settings
+     * @returns the running server, use its `status()` method to get its connected peers and lock statistics
+     */
+    static async startIPCServer(settings: IPCServerSettings): Promise<AceBaseIPCServer> {
+        const server = new AceBaseIPCServer(settings);
+        await server.start();
+        return server;
+    }
+
     /**
      * Creates an AceBase database instance using IndexedDB as storage engine. Only available in browser contexts!
      * @param dbname Name of the database
@@ -1,15 +1,18 @@
 import { AceBaseBase, IStreamLike, Api, EventSubscriptionCallback,
     ReflectionType, IReflectionNodeInfo, IReflectionChildrenInfo,
     StreamReadFunction, StreamWriteFunction, TransactionLogFilter,
-    LoggingLevel, Query, QueryOptions } from 'acebase-core';
+    LoggingLevel, Query } from 'acebase-core';
 import { AceBaseStorage, AceBaseStorageSettings } from './storage/binary';
 import { SQLiteStorage, SQLiteStorageSettings } from './storage/sqlite';
 import { MSSQLStorage, MSSQLStorageSettings } from './storage/mssql';
 import { CustomStorage, CustomStorageSettings } from './storage/custom';
+import { MemoryStorage, MemoryStorageSettings } from './storage/memory';
 import { VALUE_TYPES } from './node-value-types';
-import { executeQuery } from './query';
+import { executeQuery, LocalQueryOptions } from './query';
+import { executeAggregate, AggregateOptions } from './query-aggregate';
 import { Storage, StorageEnv } from './storage';
 import { CreateIndexOptions } from './storage/indexes';
+import { ExportFormat, ImportFormat } from './storage/export-formats';
 import type { BinaryNodeAddress } from './storage/binary/node-address';
 import { AceBaseLocalSettings } from '.';
 import { NodeNotFoundError } from './node-errors';
@@ -33,6 +36,9 @@ export class LocalApi extends Api {
             else if (MSSQLStorageSettings && (init.settings.storage instanceof MSSQLStorageSettings)) { //  || env.settings.storage.type === 'mssql'
                 this.storage = new MSSQLStorage(dbname, init.settings.storage, storageEnv);
             }
+            else if (MemoryStorageSettings && (init.settings.storage instanceof MemoryStorageSettings)) {
+                this.storage = new MemoryStorage(dbname, init.settings.storage, storageEnv);
+            }
             else if (CustomStorageSettings && (init.settings.storage instanceof CustomStorageSettings)) { //  || settings.storage.type === 'custom'
                 this.storage = new CustomStorage(dbname, init.settings.storage as CustomStorageSettings, storageEnv);
             }
@@ -110,7 +116,7 @@ export class LocalApi extends Api {
     }
 
     get transactionLoggingEnabled() {
-        return this.storage.settings.transactions && this.storage.settings.transactions.log === true;
+        return this.storage.transactionLoggingEnabled;
     }
 
     /**
@@ -176,41 +182,29 @@ export class LocalApi extends Api {
         return nodeInfo.exists;
     }
 
-    // query2(path, query, options = { snapshots: false, include: undefined, exclude: undefined, child_objects: undefined }) {
-    //     /*
-
-    //     Now that we're using indexes to filter data and order upon, each query requires a different strategy
-    //     to get the results the quickest.
-
-    //     So, we'll analyze the query first, build a strategy and then execute the strategy
-
-    //     Analyze stage:
-    //     - what path is being queried (wildcard path or single parent)
-    //     - which indexes are available for the path
-    //     - which indexes can be used for filtering
-    //     - which indexes can be used for sorting
-    //     - is take/skip used to limit the result set
-
-    //     Strategy stage:
-    //     - chain index filtering
-    //     - ....
-
-    //     TODO!
-    //     */
-    // }
-
     /**
+     * Executes a query. Indexes to use for filtering and sorting are determined by the query planner, see `./query-planner`.
+     * Set `options.explain` to get an explanation of the executed plan in `explain`
      * @returns Returns a promise that resolves with matching data or paths in `results`
      */
-    async query(path: string, query: Query, options: QueryOptions = { snapshots: false }): ReturnType<Api['query']> {
+    async query(path: string, query: Query, options: LocalQueryOptions = { snapshots: false }): ReturnType<typeof executeQuery> {
         const results = await executeQuery(this, path, query, options);
         return results;
     }
 
+    /**
+     * Aggregates the values of all nodes matching the query filters. Uses an index if it contains all filtered and
+     * aggregated keys, otherwise streams through the children of the path. See `./query-aggregate`
+     * @returns Returns a promise that resolves with the aggregated `results` and an explanation of the used strategy in `explain`
+     */
+    aggregate(path: string, query: Pick<Query, 'filters'>, options: AggregateOptions) {
+        return executeAggregate(this, path, query, options);
+    }
+
     /**
      * Creates an index on key for all child nodes at path
      */
-    createIndex(path: string, key: string, options: CreateIndexOptions) {
+    createIndex(path: string, key: string | string[], options: CreateIndexOptions) {
         return this.storage.indexes.create(path, key, options);
     }
 
@@ -319,7 +313,7 @@ export class LocalApi extends Api {
     }
 
     export(path: string, stream: StreamWriteFunction | IStreamLike, options: {
-        format: string;
+        format: ExportFormat;
         type_safe: boolean;
     } = {
         format: 'json',
@@ -329,7 +323,7 @@ export class LocalApi extends Api {
     }
 
     import(path: string, read: StreamReadFunction, options: {
-        format: 'json';
+        format: ImportFormat;
         suppress_events: boolean;
         method: 'set' | 'update' | 'merge';
     } = {
@@ -360,19 +354,19 @@ export class LocalApi extends Api {
      * Gets all relevant mutations for specific events on a path and since specified cursor
      */
     async getMutations(filter: TransactionLogFilter) {
-        if (typeof (this.storage as AceBaseStorage).getMutations !== 'function') { throw new Error('Used storage type does not support getMutations'); }
+        if (!this.storage.transactionLoggingEnabled) { throw new Error('Transaction logging is not enabled'); }
         if (typeof filter !== 'object') { throw new Error('No filter specified'); }
         if (typeof (filter as any).cursor !== 'string' && typeof (filter as any).timestamp !== 'number') { throw new Error('No cursor or timestamp given'); }
-        return (this.storage as AceBaseStorage).getMutations(filter);
+        return this.storage.getMutations(filter);
     }
 
     /**
      * Gets all relevant effective changes for specific events on a path and since specified cursor
      */
     async getChanges(filter: TransactionLogFilter) {
-        if (typeof (this.storage as AceBaseStorage).getChanges !== 'function') { throw new Error('Used storage type does not support getChanges'); }
+        if (!this.storage.transactionLoggingEnabled) { throw new Error('Transaction logging is not enabled'); }
         if (typeof filter !== 'object') { throw new Error('No filter specified'); }
         if (typeof (filter as any).cursor !== 'string' && typeof (filter as any).timestamp !== 'number') { throw new Error('No cursor or timestamp given'); }
-        return (this.storage as AceBaseStorage).getChanges(filter);
+        return this.storage.getChanges(filter);
     }
 }
@@ -88,6 +88,7 @@ export {
 export { AceBaseStorageSettings } from './storage/binary';
 export { SQLiteStorageSettings } from './storage/sqlite';
 export { MSSQLStorageSettings } from './storage/mssql';
+export { MemoryStorageSettings } from './storage/memory';
 
 export {
     CustomStorageTransaction,
@@ -96,6 +97,7 @@ export {
     ICustomStorageNode,
     ICustomStorageNodeMetaData,
 } from './storage/custom';
+export { IndexBlobStore } from './index-file-system';
 
 export {
     StorageSettings,
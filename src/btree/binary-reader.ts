@@ -1,18 +1,18 @@
 import { Utils } from 'acebase-core';
 import { readByteLength, readSignedNumber } from '../binary';
 import { DetailedError } from '../detailed-error';
-import { pfs } from '../promise-fs';
+import { IndexFileSystem, NodeIndexFileSystem } from '../index-file-system';
 import { assert } from '../assert';
 import { BPlusTree } from './tree';
 const { bytesToNumber } = Utils;
 
-export type ReadFunction = (index: number, length: number) => Promise<Buffer>;
+export type ReadFunction = (index: number, length: number) => Promise<Uint8Array>;
 
 export class BinaryReader {
     public read: ReadFunction;
     public close: () => Promise<void>;
 
-    public data: Buffer = null;
+    public data: Uint8Array = null;
 
     /**
      * offset of loaded data (start index of current chunk in data source)
@@ -28,8 +28,9 @@ export class BinaryReader {
      * BinaryReader is a helper class to make reading binary data easier and faster
      * @param file file name, file descriptor, or an open file, or read function that returns a promise
      * @param chunkSize how many bytes per read. default is 4KB
+     * @param fs file system to read a file name or file descriptor from, default is the Node.js filesystem
      */
-    constructor(file: string | number | ReadFunction, public chunkSize = 4096) {
+    constructor(file: string | number | ReadFunction, public chunkSize = 4096, fs: Pick<IndexFileSystem, 'open' | 'read' | 'close'> = NodeIndexFileSystem) {
         this.chunkSize = chunkSize;
 
         if (typeof file === 'function') {
@@ -47,11 +48,11 @@ export class BinaryReader {
                 // Override this.init to open the file first
                 const init = this.init.bind(this);
                 this.init = async () => {
-                    fd = await pfs.open(file, 'r'); // Open file now
+                    fd = await fs.open(file, 'r'); // Open file now
                     return init(); // Run original this.init
                 };
                 this.close = async () => {
-                    return pfs.close(fd);
+                    return fs.close(fd);
                 };
             }
             else {
@@ -59,9 +60,9 @@ export class BinaryReader {
             }
 
             this.read = async (index, length) => {
-                const buffer = Buffer.alloc(length);
-                const { bytesRead } = await pfs.read(fd, buffer, 0, length, index);
-                if (bytesRead < length) { return buffer.slice(0, bytesRead); }
+                const buffer = new Uint8Array(length);
+                const { bytesRead } = await fs.read(fd, buffer, 0, length, index);
+                if (bytesRead < length) { return buffer.subarray(0, bytesRead); }
                 return buffer;
             };
         }
@@ -69,7 +70,7 @@ export class BinaryReader {
 
     async init() {
         const chunk = await this.read(0, this.chunkSize);
-        assert(chunk instanceof Buffer, 'read function must return a Buffer');
+        assert(chunk instanceof Uint8Array, 'read function must return a Uint8Array or Buffer');
         this.data = chunk;
         this.offset = 0;
         this.index = 0;
@@ -79,14 +80,14 @@ export class BinaryReader {
         const clone = Object.assign(new BinaryReader(this.read, this.chunkSize), this);
         clone.offset = 0;
         clone.index = 0;
-        clone.data = Buffer.alloc(0);
+        clone.data = new Uint8Array(0);
         return clone;
     }
 
-    async get(byteCount: number): Promise<Buffer> {
+    async get(byteCount: number): Promise<Uint8Array> {
         await this.assert(byteCount);
         // const bytes = this.data.slice(this.index, this.index + byteCount);
-        const slice = this.data.slice(this.index, this.index + byteCount); // Buffer.from(this.data.buffer, this.index, byteCount);
+        const slice = this.data.subarray(this.index, this.index + byteCount); // Buffer.from(this.data.buffer, this.index, byteCount);
         if (slice.byteLength !== byteCount) { throw new DetailedError('invalid_byte_length', `Expected to read ${byteCount} bytes from tree, got ${slice.byteLength}`); }
         this.index += byteCount;
         return slice;
@@ -120,15 +121,15 @@ export class BinaryReader {
     async more(chunks = 1) {
         const length = chunks * this.chunkSize;
         const nextChunk = await this.read(this.offset + this.data.length, length);
-        assert(nextChunk instanceof Buffer, 'read function must return a Buffer');
+        assert(nextChunk instanceof Uint8Array, 'read function must return a Uint8Array or Buffer');
 
         // Let go of old data before current index:
-        this.data = this.data.slice(this.index);
+        this.data = this.data.subarray(this.index);
         this.offset += this.index;
         this.index = 0;
 
         // Append new data
-        const newData = Buffer.alloc(this.data.length + nextChunk.length);
+        const newData = new Uint8Array(this.data.length + nextChunk.length);
         newData.set(this.data, 0);
         newData.set(nextChunk, this.data.length);
         this.data = newData;
@@ -193,22 +194,22 @@ export class BinaryReader {
         return this.offset + this.index;
     }
 
-    static readValue(buffer: Buffer, index: number) {
+    static readValue(buffer: Uint8Array, index: number) {
         const arr = buffer as any as number[]; // Hack, getKeyFromBinary will work with a Buffer too
         const val = BPlusTree.getKeyFromBinary(arr, index);
         return { value: val.key, byteLength: val.byteLength };
     }
 
-    static bytesToNumber(buffer: Buffer) {
+    static bytesToNumber(buffer: Uint8Array) {
         const arr = buffer as any as number[]; // Hack, bytesToNumber will work with a Buffer too
         return bytesToNumber(arr);
     }
 
-    static readUint32(buffer: Buffer, index: number) {
+    static readUint32(buffer: Uint8Array, index: number) {
         return readSignedNumber(buffer, index);
     }
 
-    static readInt32(buffer: Buffer, index: number) {
+    static readInt32(buffer: Uint8Array, index: number) {
         return readByteLength(buffer, index);
     }
 }
@@ -22,7 +22,7 @@ export class BinaryBPlusTreeNodeInfo {
     /**
      * data bytes, excluding header & free bytes
      */
-    bytes: Buffer | number[];
+    bytes: Uint8Array | number[];
 
     // /**
     //  * @deprecated use sourceIndex instead
@@ -22,7 +22,7 @@ import { BPlusTree } from './tree';
 import { BPlusTreeBuilder } from './tree-builder';
 import { BPlusTreeLeafEntryValue } from './tree-leaf-entry-value';
 import { TX } from './tx';
-import { _compareBinary, _isEqual, _isLess, _isLessOrEqual, _isMore, _isMoreOrEqual, _isNotEqual } from './typesafe-compare';
+import { _compareBinary, _isEqual, _isLess, _isLessOrEqual, _isMore, _isMoreOrEqual, _isNotEqual, _sortCompare } from './typesafe-compare';
 import { _appendToArray, _checkNewEntryArgs } from './utils';
 const { bigintToBytes } = Utils;
 
@@ -70,6 +70,11 @@ export class BinaryBPlusTree {
     public id: string;
     private debug: DebugLogger;
 
+    /**
+     * Collator used to compare string keys, `undefined` to compare them by their UTF-16 code units
+     */
+    public collator?: Intl.Collator;
+
     public info: {
         headerLength: number;
         byteLength: number;
@@ -111,11 +116,16 @@ export class BinaryBPlusTree {
          * logger instance
          */
         debug: DebugLogger;
+        /**
+         * collator to compare string keys with, must be the same collator the tree was created with
+         */
+        collator?: Intl.Collator;
     }) {
         this._chunkSize = init.chunkSize ?? 1024;
         this._autoGrow = false;
         this.id = init.id;
         this.debug = init.debug;
+        this.collator = init.collator;
         if (init.readFn instanceof Array) {
             let data = init.readFn;
             if (BPlusTree.debugBinary) {
@@ -124,7 +134,7 @@ export class BinaryBPlusTree {
             }
             this._readFn = async (i: number, length: number) => {
                 const slice = data.slice(i, i + length);
-                return Buffer.from(slice);
+                return Uint8Array.from(slice);
             };
         }
         else if (typeof init.readFn === 'function') {
@@ -325,7 +335,7 @@ export class BinaryBPlusTree {
             index += result.byteLength;
             return result.entryValue;
         };
-        const readEntryValue = (bytes: Buffer | number[], index: number) => {
+        const readEntryValue = (bytes: Uint8Array | number[], index: number) => {
             assert(index < bytes.length, 'invalid data');
             if (index >= bytes.length) {
                 throw new Error('invalid data');
@@ -498,7 +508,7 @@ export class BinaryBPlusTree {
                             }
                         },
 
-                        loadFromExtData(allExtData: Buffer) {
+                        loadFromExtData(allExtData: Uint8Array) {
                             const self = (this as IBinaryBPlusTreeLeafEntryExtData);
                             let index = extDataOffset;
                             self._headerLoaded = true;
@@ -870,12 +880,12 @@ export class BinaryBPlusTree {
                 }
                 assert(childInfo.isLeaf, `next leaf is *not* a leaf. Current leaf index: ${leaf.sourceIndex}, next leaf offset: ${nextLeafOffset}, target index: ${leaf.dataIndex + 4 + nextLeafOffset}`);
                 const nextLeaf = await this._getLeaf(childInfo, freshReader, options);
-                assert(nextLeaf.entries.length === 0 || leaf.entries.length === 0 || _isMore(nextLeaf.entries[0].key, leaf.entries[leaf.entries.length-1].key), 'next leaf has lower keys than previous leaf?!');
+                assert(nextLeaf.entries.length === 0 || leaf.entries.length === 0 || _isMore(nextLeaf.entries[0].key, leaf.entries[leaf.entries.length-1].key, this.collator), 'next leaf has lower keys than previous leaf?!');
                 return nextLeaf;
             };
         }
 
-        assert(leaf.entries.every((entry, index, arr) => index === 0 || _isMore(entry.key, arr[index-1].key)), 'Invalid B+Tree: leaf entries are not sorted ok');
+        assert(leaf.entries.every((entry, index, arr) => index === 0 || _isMore(entry.key, arr[index-1].key, this.collator)), 'Invalid B+Tree: leaf entries are not sorted ok');
 
         return leaf;
     }
@@ -887,7 +897,7 @@ export class BinaryBPlusTree {
         // that function writes children too, we don't want that
 
         assert(nodeInfo.entries.length > 0, 'node has no entries!');
-        assert(nodeInfo.entries.every((entry, index, arr) => index === 0 || _isMore(entry.key, arr[index-1].key)), 'Node entries are not sorted ok');
+        assert(nodeInfo.entries.every((entry, index, arr) => index === 0 || _isMore(entry.key, arr[index-1].key, this.collator)), 'Node entries are not sorted ok');
 
         try {
             const builder = new BinaryBPlusTreeBuilder({
@@ -916,7 +926,7 @@ export class BinaryBPlusTree {
     }
 
     private async _writeLeaf(leafInfo: BinaryBPlusTreeLeaf, options: { addFreeSpace?: boolean } = { addFreeSpace: true }): Promise<unknown[]> {
-        assert(leafInfo.entries.every((entry, index, arr) => index === 0 || _isMore(entry.key, arr[index-1].key)), 'Leaf entries are not sorted ok');
+        assert(leafInfo.entries.every((entry, index, arr) => index === 0 || _isMore(entry.key, arr[index-1].key, this.collator)), 'Leaf entries are not sorted ok');
 
         try {
             const builder = new BinaryBPlusTreeBuilder({
@@ -1133,7 +1143,7 @@ export class BinaryBPlusTree {
             const node = this._getNode(nodeInfo, reader);
             if (node.entries.length === 0) { throw new Error('read node has no entries!'); }
 
-            const targetEntry = node.entries.find(entry => _isLess(searchKey, entry.key));
+            const targetEntry = node.entries.find(entry => _isLess(searchKey, entry.key, this.collator));
             if (targetEntry) {
                 nodeInfo = await targetEntry.getLtChild();
             }
@@ -1432,8 +1442,8 @@ export class BinaryBPlusTree {
                 let stop = false;
                 for (let i = 0; i < leaf.entries.length; i++) {
                     const entry = leaf.entries[i];
-                    if (op === '<=' && _isLessOrEqual(entry.key, param)) { add(entry); }
-                    else if (op === '<' && _isLess(entry.key, param)) { add(entry); }
+                    if (op === '<=' && _isLessOrEqual(entry.key, param, this.collator)) { add(entry); }
+                    else if (op === '<' && _isLess(entry.key, param, this.collator)) { add(entry); }
                     else { stop = true; break; }
                 }
                 if (!stop && leaf.getNext) {
@@ -1451,8 +1461,8 @@ export class BinaryBPlusTree {
             const processLeaf = (leaf: BinaryBPlusTreeLeaf): ReturnType<typeof ret> => {
                 for (let i = 0; i < leaf.entries.length; i++) {
                     const entry = leaf.entries[i];
-                    if (op === '>=' && _isMoreOrEqual(entry.key, param)) { add(entry); }
-                    else if (op === '>' && _isMore(entry.key, param)) { add(entry); }
+                    if (op === '>=' && _isMoreOrEqual(entry.key, param, this.collator)) { add(entry); }
+                    else if (op === '>' && _isMore(entry.key, param, this.collator)) { add(entry); }
                 }
                 if (leaf.hasNext) {
                     return leaf.getNext()
@@ -1509,7 +1519,7 @@ export class BinaryBPlusTree {
                     }
                 }
                 let stop = false;
-                if (wildcardIndex > 0 && leaf.entries.length > 0) {
+                if (wildcardIndex > 0 && leaf.entries.length > 0 && !this.collator) {
                     // Check if we can stop. If the last entry does not start with the first part of the string.
                     // Eg: like 'Al*', we can stop if the last entry starts with 'Am'
                     const lastEntry = leaf.entries[leaf.entries.length-1];
@@ -1523,7 +1533,8 @@ export class BinaryBPlusTree {
                     return ret();
                 }
             };
-            if (wildcardIndex === 0) {
+            if (wildcardIndex === 0 || this.collator) {
+                // Keys with the same prefix are not guaranteed to be adjacent if they are sorted with a collation, scan all leafs
                 return this._getFirstLeaf(getLeafOptions)
                     .then(processLeaf);
             }
@@ -1559,7 +1570,7 @@ export class BinaryBPlusTree {
             if (!(param instanceof Array)) {
                 throw new TypeError(`search param value must be an array for operator 'in'`);
             }
-            const sorted = param.slice().sort();
+            const sorted = param.slice().sort((a, b) => _sortCompare(a, b, this.collator));
             let searchKey = sorted.shift();
             const processLeaf = (leaf: BinaryBPlusTreeLeaf): ReturnType<typeof ret> => {
                 while (true) {
@@ -1569,7 +1580,7 @@ export class BinaryBPlusTree {
                     if (!searchKey) {
                         return ret(); // results; //ret(results);
                     }
-                    else if (_isMore(searchKey, leaf.entries[leaf.entries.length-1].key)) {
+                    else if (_isMore(searchKey, leaf.entries[leaf.entries.length-1].key, this.collator)) {
                         return this._findLeaf(searchKey).then(processLeaf);
                     }
                     // Stay in the loop trying more keys on the same leaf
@@ -1605,7 +1616,7 @@ export class BinaryBPlusTree {
                 throw new TypeError(`search param value must be an array for operator 'between'`);
             }
             let bottom = param[0], top = param[1];
-            if (top < bottom) {
+            if (_isLess(top, bottom, this.collator)) {
                 const swap = top;
                 top = bottom;
                 bottom = swap;
@@ -1616,8 +1627,8 @@ export class BinaryBPlusTree {
                     const processLeaf = (leaf: BinaryBPlusTreeLeaf): ReturnType<typeof ret> => {
                         for (let i = 0; i < leaf.entries.length; i++) {
                             const entry = leaf.entries[i];
-                            if (_isMoreOrEqual(entry.key, bottom) && _isLessOrEqual(entry.key, top)) { add(entry); }
-                            if (_isMore(entry.key, top)) { stop = true; break; }
+                            if (_isMoreOrEqual(entry.key, bottom, this.collator) && _isLessOrEqual(entry.key, top, this.collator)) { add(entry); }
+                            if (_isMore(entry.key, top, this.collator)) { stop = true; break; }
                         }
                         if (stop || !leaf.getNext) {
                             return ret(); // results; //ret(results);
@@ -1635,7 +1646,7 @@ export class BinaryBPlusTree {
                 throw new TypeError(`search param value must be an array for operator '!between'`);
             }
             let bottom = param[0], top = param[1];
-            if (top < bottom) {
+            if (_isLess(top, bottom, this.collator)) {
                 const swap = top;
                 top = bottom;
                 bottom = swap;
@@ -1647,7 +1658,7 @@ export class BinaryBPlusTree {
                     const processLeaf = (leaf: BinaryBPlusTreeLeaf): ReturnType<typeof ret> => {
                         for (let i = 0; i < leaf.entries.length; i++) {
                             const entry = leaf.entries[i];
-                            if (_isLess(entry.key, bottom)) { add(entry); }
+                            if (_isLess(entry.key, bottom, this.collator)) { add(entry); }
                             else { stop = true; break; }
                         }
                         if (!stop && leaf.getNext) {
@@ -1664,7 +1675,7 @@ export class BinaryBPlusTree {
                     const processLeaf = (leaf: BinaryBPlusTreeLeaf): ReturnType<typeof ret> => {
                         for (let i = 0; i < leaf.entries.length; i++) {
                             const entry = leaf.entries[i];
-                            if (_isMore(entry.key, top)) { add(entry); }
+                            if (_isMore(entry.key, top, this.collator)) { add(entry); }
                         }
                         if (!leaf.getNext) {
                             return ret(); // results; //ret(results);
@@ -1773,9 +1784,9 @@ export class BinaryBPlusTree {
         const lastKey = lastEntry.key;
 
         // Sort the keys
-        keys = keys.slice().sort();
+        keys = keys.slice().sort((a, b) => _sortCompare(a, b, this.collator));
 
-        if (_isMore(keys[0], lastKey)) {
+        if (_isMore(keys[0], lastKey, this.collator)) {
             // First key to lookup is > lastKey, no need to lookup anything!
             return options.existingOnly ? [] : keys.map(key => ({ key, value: null, totalValues: 0 }));
         }
@@ -1788,7 +1799,7 @@ export class BinaryBPlusTree {
         const firstEntry = firstLeaf.entries[0];
         const firstKey = firstEntry.key;
 
-        if (_isLess(keys.slice(-1)[0], firstKey)) {
+        if (_isLess(keys.slice(-1)[0], firstKey, this.collator)) {
             // Last key to lookup is < firstKey, no need to lookup anything!
             return options.existingOnly ? [] : keys.map(key => ({ key, value: null, totalValues: 0 }));
         }
@@ -1797,7 +1808,7 @@ export class BinaryBPlusTree {
         const lookups = [] as NodeEntryKeyType[];
         for (let i = 0; i < keys.length; i++) {
             const key = keys[i];
-            if (_isLess(key, firstKey) || _isMore(key, lastKey)) {
+            if (_isLess(key, firstKey, this.collator) || _isMore(key, lastKey, this.collator)) {
                 // Out of bounds, no need to lookup
                 options.existingOnly || results.push({ key, value: null, totalValues: 0 });
             }
@@ -1806,12 +1817,12 @@ export class BinaryBPlusTree {
                 lookups.push(key);
             }
         }
-        lookups.sort((a, b) => _isLess(a, b) ? -1 : 1);
+        lookups.sort((a, b) => _isLess(a, b, this.collator) ? -1 : 1);
         for (let i = 0; i < lookups.length;) {
             let key = lookups[i];
             const leaf = await this._findLeaf(key);
             const lastKey = leaf.entries.slice(-1)[0]?.key;
-            const expectedKeysInLeaf = lookups.slice(i).filter(key => _isLessOrEqual(key, lastKey));
+            const expectedKeysInLeaf = lookups.slice(i).filter(key => _isLessOrEqual(key, lastKey, this.collator));
             if (!options.stats && leaf.hasExtData && !leaf.extData.loaded && expectedKeysInLeaf.length > 1) {
                 // Prevent many (small, locking) ext_data reads by _find -> perform 1 whole ext_data read now
                 await leaf.extData.load();
@@ -1831,7 +1842,7 @@ export class BinaryBPlusTree {
                 promises.push(p);
                 key = lookups[++i];
             }
-            while (lastKey && i < lookups.length && _isLessOrEqual(key, lastKey));
+            while (lastKey && i < lookups.length && _isLessOrEqual(key, lastKey, this.collator));
             await Promise.all(promises);
         }
         return results;
@@ -2711,7 +2722,7 @@ export class BinaryBPlusTree {
             const entry = new BinaryBPlusTreeLeafEntry(key, [entryValue]);
 
             // Insert it
-            const insertBeforeIndex = leaf.entries.findIndex(entry => _isMore(entry.key, key));
+            const insertBeforeIndex = leaf.entries.findIndex(entry => _isMore(entry.key, key, this.collator));
             const isLastEntry = insertBeforeIndex === -1;
             if (isLastEntry) {
                 leaf.entries.push(entry);
@@ -2820,7 +2831,7 @@ export class BinaryBPlusTree {
         // let debugThrownError;
         try {
             // Sort the entries
-            operations.sort((a, b) => _isLess(a.key, b.key) ? -1 : 1);
+            operations.sort((a, b) => _isLess(a.key, b.key, this.collator) ? -1 : 1);
 
             // Get first leaf to edit
             let leaf = await this._findLeaf(operations[0].key);
@@ -2895,11 +2906,11 @@ export class BinaryBPlusTree {
                     const pointsThisDirection = (node: BinaryBPlusTreeLeaf | BinaryBPlusTreeNode): boolean => {
                         if (node.parentEntry) {
                             // Parent node's entry has a less than connection to this node/leaf
-                            return _isLess(key, node.parentEntry.key);
+                            return _isLess(key, node.parentEntry.key, this.collator);
                         }
                         else if (node.parentNode) {
                             // Parent node's "greater than" pointer goes to this node/leaf.
-                            if (!_isMoreOrEqual(key, node.parentNode.entries.slice(-1)[0].key)) {
+                            if (!_isMoreOrEqual(key, node.parentNode.entries.slice(-1)[0].key, this.collator)) {
                                 return false; // Does this ever happen?
                             }
                             // Check resursively
@@ -2963,7 +2974,7 @@ export class BinaryBPlusTree {
                         const value = new BinaryBPlusTreeLeafEntryValue(recordPointer, metadata);
                         const entry = new BinaryBPlusTreeLeafEntry(key, [value]);
 
-                        const insertBeforeIndex = leaf.entries.findIndex(entry => _isMore(entry.key, key));
+                        const insertBeforeIndex = leaf.entries.findIndex(entry => _isMore(entry.key, key, this.collator));
                         const isLastEntry = insertBeforeIndex === -1;
                         if (isLastEntry) {
                             leaf.entries.push(entry);
@@ -3238,7 +3249,7 @@ export class BinaryBPlusTree {
      * @returns Promise that resolves with a BPlusTreeBuilder
      */
     async _toTreeBuilder(fillFactor: number) {
-        const treeBuilder = new BPlusTreeBuilder(this.info.isUnique, fillFactor, this.info.metadataKeys);
+        const treeBuilder = new BPlusTreeBuilder(this.info.isUnique, fillFactor, this.info.metadataKeys, this.collator);
         let leaf = await this._getFirstLeaf();
         while (leaf) {
             leaf.entries.forEach(entry => {
@@ -1,4 +1,4 @@
-import type { WriteStream } from 'fs';
+import type { IndexWriteStream } from '../index-file-system';
 import { Uint8ArrayBuilder, writeByteLength, writeSignedNumber, BufferLike } from '../binary';
 import { BinaryBPlusTreeBuilder } from './binary-tree-builder';
 import { Utils } from 'acebase-core';
@@ -6,7 +6,7 @@ import { NodeEntryKeyType } from './entry-key-type';
 import { assert } from '../assert';
 const { numberToBytes, bytesToNumber } = Utils;
 
-type WriteStreamLike = Pick<WriteStream, 'write' | 'end' | 'once' | 'bytesWritten'>;
+type WriteStreamLike = Pick<IndexWriteStream, 'write' | 'end' | 'once' | 'bytesWritten'>;
 type WriteFunction = (data: Uint8Array, position: number) => Promise<void>;
 
 export class BinaryWriter {
@@ -1,10 +0,0 @@
-import { NotSupported } from '../not-supported';
-
-/**
- * Not supported in browser context
- */
-export class BPlusTree extends NotSupported {}
-/**
- * Not supported in browser context
- */
-export class BinaryBPlusTree extends NotSupported {}
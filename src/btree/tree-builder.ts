@@ -1,5 +1,6 @@
 import { assert } from '../assert';
 import { DetailedError } from '../detailed-error';
+import { pfs } from '../promise-fs';
 import { NodeEntryKeyType, NodeEntryValueType } from './entry-key-type';
 import { LeafEntryMetaData } from './leaf-entry-metadata';
 import { LeafEntryRecordPointer } from './leaf-entry-recordpointer';
@@ -20,8 +21,9 @@ export class BPlusTreeBuilder {
      * @param {boolean} uniqueKeys
      * @param {number} [fillFactor=100]
      * @param {string[]} [metadataKeys=[]]
+     * @param {Intl.Collator} [collator] collator to sort string keys with
      */
-    constructor(public uniqueKeys: boolean, public fillFactor = 100, public metadataKeys: string[] = []) {
+    constructor(public uniqueKeys: boolean, public fillFactor = 100, public metadataKeys: string[] = [], public collator?: Intl.Collator) {
     }
 
     add(key: NodeEntryValueType, recordPointer: LeafEntryRecordPointer, metadata?: LeafEntryMetaData) {
@@ -85,7 +87,7 @@ export class BPlusTreeBuilder {
         this.list.clear();
         this.list = null; // Make unusable
         list.sort((a, b) => {
-            return _sortCompare(a.key, b.key);
+            return _sortCompare(a.key, b.key, this.collator);
             // if (_isLess(a.key, b.key)) { return -1; }
             // else if (_isMore(a.key, b.key)) { return 1; }
             // return 0;
@@ -97,7 +99,7 @@ export class BPlusTreeBuilder {
         const entriesPerNode = typeof maxEntries === 'number' ? maxEntries : Math.min(maxNodeSize, Math.max(minNodeSize, Math.ceil(list.length / 10)));
         const entriesPerLeaf = Math.max(minNodeSize, Math.floor(entriesPerNode * (this.fillFactor / 100)));
         const minParentEntries = Math.max(1, Math.floor(entriesPerNode / 2));
-        const tree = new BPlusTree(entriesPerNode, this.uniqueKeys, this.metadataKeys);
+        const tree = new BPlusTree(entriesPerNode, this.uniqueKeys, this.metadataKeys, this.collator);
         tree.fillFactor = this.fillFactor;
 
         const nrOfLeafs = Math.max(1, Math.ceil(list.length / entriesPerLeaf));
@@ -297,8 +299,7 @@ export class BPlusTreeBuilder {
     }
 
     dumpToFile(filename: string) {
-        // eslint-disable-next-line @typescript-eslint/no-var-requires
-        const fs = require('fs');
+        const fs = pfs.fs;
         fs.appendFileSync(filename, this.uniqueKeys + '\n');
         fs.appendFileSync(filename, this.fillFactor + '\n');
         for (const [key, val] of this.list) {
@@ -308,8 +309,7 @@ export class BPlusTreeBuilder {
     }
 
     static fromFile(filename: string) {
-        // eslint-disable-next-line @typescript-eslint/no-var-requires
-        const fs = require('fs');
+        const fs = pfs.fs;
         const entries = (fs.readFileSync(filename, 'utf8') as string)
             .split('\n')
             .map(str => str.length > 0 ? JSON.parse(str) : '');
@@ -74,7 +74,7 @@ export class BPlusTreeLeaf {
         }
         else {
             // Find where to insert sorted
-            const insertIndex = this.entries.findIndex(otherEntry => _isMore(otherEntry.key, entry.key));
+            const insertIndex = this.entries.findIndex(otherEntry => _isMore(otherEntry.key, entry.key, this.tree.collator));
             if (insertIndex < 0) {
                 this.entries.push(entry);
             }
@@ -135,7 +135,7 @@ export class BPlusTreeLeaf {
     async toBinary(keepFreeSpace = false, writer: BinaryWriter) {
         // See BPlusTreeNode.toBinary() for data layout
 
-        assert(this.entries.every((entry, index, arr) => index === 0 || _isMore(entry.key, arr[index-1].key)), 'Leaf entries are not sorted ok');
+        assert(this.entries.every((entry, index, arr) => index === 0 || _isMore(entry.key, arr[index-1].key, this.tree.collator)), 'Leaf entries are not sorted ok');
 
         const bytes: number[] = [];
         const startIndex = writer.length;
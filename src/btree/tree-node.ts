@@ -86,7 +86,7 @@ export class BPlusTreeNode {
                 gtChild.parent = newSibling;
 
                 // Find where to insert moveUp
-                const insertIndex = this.parent.entries.findIndex(entry => _isMore(entry.key, moveUpEntry.key));
+                const insertIndex = this.parent.entries.findIndex(entry => _isMore(entry.key, moveUpEntry.key, this.tree.collator));
                 if (insertIndex < 0) {
                     // Add to the end
                     this.parent.entries.push(moveUpEntry);
@@ -35,8 +35,9 @@ export class BPlusTree {
      * @param maxEntriesPerNode max number of entries per tree node. Working with this instead of m for max number of children, because that makes less sense imho
      * @param uniqueKeys whether the keys added must be unique
      * @param metadataKeys (optional) names of metadata keys that will be included in tree
+     * @param collator (optional) collator to compare string keys with
      */
-    constructor(public maxEntriesPerNode: number, public uniqueKeys: boolean, public metadataKeys: string[] = []) {
+    constructor(public maxEntriesPerNode: number, public uniqueKeys: boolean, public metadataKeys: string[] = [], public collator?: Intl.Collator) {
         this.root = new BPlusTreeLeaf(this);
         this.depth = 1;
         this.fillFactor = 100;
@@ -87,7 +88,7 @@ export class BPlusTree {
             }
             for (let i = 0; i < node.entries.length; i++) {
                 const entry = node.entries[i];
-                if (_isLess(key, entry.key)) {
+                if (_isLess(key, entry.key, this.collator)) {
                     node = entry.ltChild;
                     if (!node) {
                         return null;
@@ -101,7 +102,7 @@ export class BPlusTree {
                 }
             }
             // Still here? key must be >= last entry
-            assert(_isMoreOrEqual(key, node.entries[node.entries.length-1].key));
+            assert(_isMoreOrEqual(key, node.entries[node.entries.length-1].key, this.collator));
             return findLeaf(node.gtChild);
         };
         return findLeaf(this.root);
@@ -160,8 +161,8 @@ export class BPlusTree {
             while(leaf) {
                 for (let i = leaf.entries.length-1; i >= 0; i--) {
                     const entry = leaf.entries[i];
-                    if (op === '<=' && _isLessOrEqual(entry.key, val)) { add(entry); }
-                    else if (op === '<' && _isLess(entry.key, val)) { add(entry); }
+                    if (op === '<=' && _isLessOrEqual(entry.key, val, this.collator)) { add(entry); }
+                    else if (op === '<' && _isLess(entry.key, val, this.collator)) { add(entry); }
                 }
                 leaf = leaf.prevLeaf;
             }
@@ -171,8 +172,8 @@ export class BPlusTree {
             while(leaf) {
                 for (let i = 0; i < leaf.entries.length; i++) {
                     const entry = leaf.entries[i];
-                    if (op === '>=' && _isMoreOrEqual(entry.key, val)) { add(entry); }
-                    else if (op === '>' && _isMore(entry.key, val)) { add(entry); }
+                    if (op === '>=' && _isMoreOrEqual(entry.key, val, this.collator)) { add(entry); }
+                    else if (op === '>' && _isMore(entry.key, val, this.collator)) { add(entry); }
                 }
                 leaf = leaf.nextLeaf;
             }
@@ -229,7 +230,7 @@ export class BPlusTree {
         else if (op === 'between') {
             const keys = val as NodeEntryValueType[];
             let bottom = keys[0], top = keys[1];
-            if (top < bottom) {
+            if (_isLess(top, bottom, this.collator)) {
                 const swap = top;
                 top = bottom;
                 bottom = swap;
@@ -239,8 +240,8 @@ export class BPlusTree {
             while(!stop && leaf) {
                 for (let i = 0; i < leaf.entries.length; i++) {
                     const entry = leaf.entries[i];
-                    if (_isMoreOrEqual(entry.key, bottom) && _isLessOrEqual(entry.key, top)) { add(entry); }
-                    if (_isMore(entry.key, top)) { stop = true; break; }
+                    if (_isMoreOrEqual(entry.key, bottom, this.collator) && _isLessOrEqual(entry.key, top, this.collator)) { add(entry); }
+                    if (_isMore(entry.key, top, this.collator)) { stop = true; break; }
                 }
                 leaf = leaf.nextLeaf;
             }
@@ -249,7 +250,7 @@ export class BPlusTree {
             // Equal to key < bottom || key > top
             const keys = val as NodeEntryValueType[];
             let bottom = keys[0], top = keys[1];
-            if (top < bottom) {
+            if (_isLess(top, bottom, this.collator)) {
                 const swap = top;
                 top = bottom;
                 bottom = swap;
@@ -260,7 +261,7 @@ export class BPlusTree {
             while (leaf && !stop) {
                 for (let i = 0; i < leaf.entries.length; i++) {
                     const entry = leaf.entries[i];
-                    if (_isLess(entry.key, bottom)) { add(entry); }
+                    if (_isLess(entry.key, bottom, this.collator)) { add(entry); }
                     else { stop = true; break; }
                 }
                 leaf = leaf.nextLeaf;
@@ -270,7 +271,7 @@ export class BPlusTree {
             while (leaf) {
                 for (let i = 0; i < leaf.entries.length; i++) {
                     const entry = leaf.entries[i];
-                    if (_isMore(entry.key, top)) { add(entry); }
+                    if (_isMore(entry.key, top, this.collator)) { add(entry); }
                 }
                 leaf = leaf.nextLeaf;
             }
@@ -335,7 +336,7 @@ export class BPlusTree {
             return byte;
         }
     }
-    static getKeyFromBinary(bytes: Buffer | number[], index: number) {
+    static getKeyFromBinary(bytes: Uint8Array | number[], index: number) {
         // key_type:
         const keyType = bytes[index];
         index++;
@@ -539,10 +540,10 @@ export class BPlusTree {
 
     static get typeSafeComparison() {
         return {
-            isMore(val1: unknown, val2: unknown) { return _isMore(val1, val2); },
-            isMoreOrEqual(val1: unknown, val2: unknown) { return _isMoreOrEqual(val1, val2); },
-            isLess(val1: unknown, val2: unknown) { return _isLess(val1, val2); },
-            isLessOrEqual(val1: unknown, val2: unknown) { return _isLessOrEqual(val1, val2); },
+            isMore(val1: unknown, val2: unknown, collator?: Intl.Collator) { return _isMore(val1, val2, collator); },
+            isMoreOrEqual(val1: unknown, val2: unknown, collator?: Intl.Collator) { return _isMoreOrEqual(val1, val2, collator); },
+            isLess(val1: unknown, val2: unknown, collator?: Intl.Collator) { return _isLess(val1, val2, collator); },
+            isLessOrEqual(val1: unknown, val2: unknown, collator?: Intl.Collator) { return _isLessOrEqual(val1, val2, collator); },
             isEqual(val1: unknown, val2: unknown) { return _isEqual(val1, val2); },
             isNotEqual(val1: unknown, val2: unknown) { return _isNotEqual(val1, val2); },
         };
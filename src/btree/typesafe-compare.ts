@@ -1,3 +1,5 @@
+import { compareStrings } from '../collation';
+
 export function _getComparibleValue(val: unknown) {
     if (typeof val === 'undefined' || val === null) { val = null; }
     else if (val instanceof Date) { val = val.getTime(); }
@@ -18,43 +20,47 @@ export function _isNotEqual(val1: unknown, val2: unknown) {
     return val1 != val2;
 }
 
-export function _isLess(val1: unknown, val2: unknown) {
+export function _isLess(val1: unknown, val2: unknown, collator?: Intl.Collator) {
     val1 = _getComparibleValue(val1);
     val2 = _getComparibleValue(val2);
     if (val2 === null) { return false; }
     if (val1 === null) { return val2 !== null; }
     if (typeof val1 !== typeof val2) { return typeof val1 < typeof val2; } // boolean, number (+Dates), string
+    if (collator && typeof val1 === 'string') { return compareStrings(val1, val2 as string, collator) < 0; }
     return val1 < val2;
 }
 
-export function _isLessOrEqual(val1: unknown, val2: unknown) {
+export function _isLessOrEqual(val1: unknown, val2: unknown, collator?: Intl.Collator) {
     val1 = _getComparibleValue(val1);
     val2 = _getComparibleValue(val2);
     if (val1 === null) { return true; }
     else if (val2 === null) { return false; }
     if (typeof val1 !== typeof val2) { return typeof val1 < typeof val2; } // boolean, number (+Dates), string
+    if (collator && typeof val1 === 'string') { return compareStrings(val1, val2 as string, collator) <= 0; }
     return val1 <= val2;
 }
 
-export function _isMore(val1: unknown, val2: unknown) {
+export function _isMore(val1: unknown, val2: unknown, collator?: Intl.Collator) {
     val1 = _getComparibleValue(val1);
     val2 = _getComparibleValue(val2);
     if (val1 === null) { return false; }
     else if (val2 === null) { return true; }
     if (typeof val1 !== typeof val2) { return typeof val1 > typeof val2; } // boolean, number (+Dates), string
+    if (collator && typeof val1 === 'string') { return compareStrings(val1, val2 as string, collator) > 0; }
     return val1 > val2;
 }
 
-export function _isMoreOrEqual(val1: unknown, val2: unknown) {
+export function _isMoreOrEqual(val1: unknown, val2: unknown, collator?: Intl.Collator) {
     val1 = _getComparibleValue(val1);
     val2 = _getComparibleValue(val2);
     if (val1 === null) { return val2 === null; }
     else if (val2 === null) { return true; }
     if (typeof val1 !== typeof val2) { return typeof val1 > typeof val2; } // boolean, number (+Dates), string
+    if (collator && typeof val1 === 'string') { return compareStrings(val1, val2 as string, collator) >= 0; }
     return val1 >= val2;
 }
 
-export function _sortCompare(val1: unknown, val2: unknown) {
+export function _sortCompare(val1: unknown, val2: unknown, collator?: Intl.Collator) {
     val1 = _getComparibleValue(val1);
     val2 = _getComparibleValue(val2);
     if (val1 === null && val2 !== null) { return -1; }
@@ -64,6 +70,7 @@ export function _sortCompare(val1: unknown, val2: unknown) {
         if (typeof val1 < typeof val2) { return -1; }
         if (typeof val1 > typeof val2) { return 1; }
     }
+    if (collator && typeof val1 === 'string') { return compareStrings(val1, val2 as string, collator); }
     if (val1 < val2) { return -1; }
     if (val1 > val2) { return 1; }
     return 0;
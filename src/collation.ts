@@ -0,0 +1,74 @@
+/**
+ * Collation to use for sorting and comparing strings
+ */
+export interface CollationOptions {
+    /**
+     * Locale to sort strings by. Can be a language code (`"de"`, `"sv"` etc), or LCID (`"de-de"`, `"sv-se"` etc).
+     * @default "en"
+     */
+    locale?: string;
+    /**
+     * Which differences between strings lead to a different sort order, see `Intl.Collator`:
+     * - `'base'`: only different base letters (`a ≠ b`, `a = á`, `a = A`)
+     * - `'accent'`: base letters and accents (`a ≠ b`, `a ≠ á`, `a = A`)
+     * - `'case'`: base letters and case (`a ≠ b`, `a = á`, `a ≠ A`)
+     * - `'variant'`: base letters, accents and case (`a ≠ b`, `a ≠ á`, `a ≠ A`)
+     *
+     * Strings that are equal by the collation are sorted by their UTF-16 code units, so equality
+     * filters (`==`, `!=`, `in`) are not affected by the sensitivity
+     * @default 'variant'
+     */
+    sensitivity?: 'base' | 'accent' | 'case' | 'variant';
+    /**
+     * Whether to sort numeric characters by their numeric value, so `"2"` comes before `"10"`
+     * @default false
+     */
+    numeric?: boolean;
+}
+
+const collators = new Map<string, Intl.Collator>();
+
+/**
+ * Gets a string that uniquely identifies the given collation, or `null` if no collation is used
+ */
+export function getCollationKey(collation?: CollationOptions) {
+    if (!collation) { return null; }
+    return `${collation.locale || 'en'}:${collation.sensitivity || 'variant'}${collation.numeric === true ? ':numeric' : ''}`;
+}
+
+/**
+ * Checks if 2 collations sort strings the same way. No collation (binary string comparison) only equals no collation
+ */
+export function isSameCollation(collation1?: CollationOptions, collation2?: CollationOptions) {
+    return getCollationKey(collation1) === getCollationKey(collation2);
+}
+
+/**
+ * Gets a (cached) `Intl.Collator` for the given collation
+ * @returns the collator, or `undefined` if no collation is given
+ */
+export function getCollator(collation?: CollationOptions) {
+    const key = getCollationKey(collation);
+    if (key === null) { return undefined; }
+    let collator = collators.get(key);
+    if (!collator) {
+        collator = new Intl.Collator(collation.locale || 'en', {
+            usage: 'sort',
+            sensitivity: collation.sensitivity || 'variant',
+            numeric: collation.numeric === true,
+        });
+        collators.set(key, collator);
+    }
+    return collator;
+}
+
+/**
+ * Compares 2 strings with a collator. Strings the collator considers equal are compared by their
+ * UTF-16 code units, so only identical strings are equal
+ * @returns negative number if `str1` comes before `str2`, positive number if after, or 0 if equal
+ */
+export function compareStrings(str1: string, str2: string, collator?: Intl.Collator) {
+    const diff = collator ? collator.compare(str1, str2) : 0;
+    if (diff !== 0) { return diff; }
+    return str1 < str2 ? -1 : str1 > str2 ? 1 : 0;
+}
@@ -110,6 +110,23 @@ export class ArrayIndex extends DataIndex {
         return ArrayIndex.validOperators;
     }
 
+    async estimate(op: string, val: IndexableValueOrArray) {
+        if (op !== 'contains') {
+            return null;
+        }
+        const values = val instanceof Array ? val : [val];
+        if (values.length === 0) {
+            // Matches all values, can't estimate without a scan
+            return null;
+        }
+        // A record can only match if it contains the least occurring value
+        const counts = await Promise.all(values.map(value => {
+            const valueOp = typeof value === 'string' && (value.includes('*') || value.includes('?')) ? 'like' : '==';
+            return this.count(valueOp, value) as Promise<number>;
+        }));
+        return Math.min(...counts);
+    }
+
     async query(op: BlacklistingSearchOperator): Promise<IndexQueryResults>;
     async query(op: string, val: IndexableValueOrArray, options?: { filter?: IndexQueryResults; }): Promise<IndexQueryResults>;
     /**
@@ -1,18 +0,0 @@
-import { NotSupported } from '../not-supported';
-
-/**
- * Not supported in browser context
- */
-export class DataIndex extends NotSupported {}
-/**
- * Not supported in browser context
- */
-export class FullTextIndex extends NotSupported {}
-/**
- * Not supported in browser context
- */
-export class GeoIndex extends NotSupported {}
-/**
- * Not supported in browser context
- */
-export class ArrayIndex extends NotSupported {}
@@ -0,0 +1,262 @@
+import { PathInfo } from 'acebase-core';
+import type { Storage } from '../storage';
+import { BlacklistingSearchOperator } from '../btree';
+import { VALUE_TYPES } from '../node-value-types';
+import { DataIndex } from './data-index';
+import { DataIndexOptions } from './options';
+import { IndexQueryResults } from './query-results';
+import { IndexQueryStats } from './query-stats';
+import { IndexableValue, IndexableValueOrArray } from './shared';
+import { TYPE_PREFIX, compareEncodedValues, decodeTuple, encodeValue, getNextTypePrefix, getTypePrefix } from './value-encoding';
+
+function _getValue(obj: unknown, key: string) {
+    return PathInfo.getPathKeys(key).reduce((val, key) => val !== null && typeof val === 'object' && key in val ? (val as any)[key] : undefined, obj);
+}
+
+function _setValue(obj: Record<string, unknown>, key: string, value: unknown) {
+    // Clones all objects along the path so the source value is not changed
+    const keys = PathInfo.getPathKeys(key);
+    const last = keys.pop();
+    const target = keys.reduce((target, key) => {
+        const child = target[key];
+        target[key] = child !== null && typeof child === 'object' ? { ...child } : {};
+        return target[key] as Record<string, unknown>;
+    }, obj);
+    target[last] = value;
+}
+
+export type CompoundIndexRangeOperator = '<' | '<=' | '==' | '>=' | '>' | 'between' | 'exists' | '!exists';
+
+/**
+ * A compound index indexes an ordered tuple of keys, eg `['status', 'created']`. It can be used to query
+ * equality filters on its leading keys, combined with a range filter or sort on the next key.
+ *
+ * Each tuple is stored as a single order-preserving string key, the values of all keys but the first
+ * are also stored as metadata so they can be used for additional filtering and sorting.
+ */
+export class CompoundIndex extends DataIndex {
+    private _keys: string[];
+
+    /**
+     * @param key keys to index, either as array or a comma separated string
+     */
+    constructor(storage: Storage, path: string, key: string | string[], options: DataIndexOptions) {
+        const keys = typeof key === 'string' ? key.split(',') : key;
+        if (!(keys instanceof Array) || keys.length < 2) { throw new Error('Compound index requires at least 2 keys'); }
+        if (keys.includes('{key}')) { throw new Error('Cannot create compound index on node keys'); }
+        if (keys.some((key, i) => keys.indexOf(key) !== i)) { throw new Error('Compound index keys must be unique'); }
+        if (options.collation) { throw new Error('Compound indexes do not support collations, their tuples are compared as encoded strings'); }
+
+        // Values of all but the first key are included as metadata, so they are available during build and record updates
+        let include = options.include ?? [];
+        if (typeof include === 'string') { include = [include]; }
+        include = keys.slice(1).concat(include.filter(key => !keys.includes(key)));
+
+        super(storage, path, keys[0], { ...options, include });
+        this._keys = keys;
+    }
+
+    /**
+     * Ordered keys of the index
+     */
+    get keys() {
+        return this._keys;
+    }
+
+    get type() {
+        return 'compound';
+    }
+
+    get fileName() {
+        if (this._fileName) {
+            // Set by readFromFile
+            return this._fileName;
+        }
+        const dir = `${this.storage.settings.path}/${this.storage.name}.acebase`;
+        const storagePrefix = this.storage.settings.type !== 'data' ? `[${this.storage.settings.type}]-` : '';
+        const escape = (key: string) => key.replace(/\//g, '~').replace(/\*/g, '#');
+        const includes = this.userIncludeKeys.length > 0
+            ? ',' + this.userIncludeKeys.map(key => escape(key)).join(',')
+            : '';
+        return `${dir}/${storagePrefix}${escape(this.path)}-${this.keys.map(key => escape(key)).join('+')}${includes}.compound.idx`;
+    }
+
+    get description() {
+        const keyPath = `/${this.path}/*/[${this.keys.join(',')}]`;
+        const includedKeys = this.userIncludeKeys.length > 0 ? '+' + this.userIncludeKeys.join(',') : '';
+        return `${keyPath}${includedKeys} (compound)`;
+    }
+
+    /**
+     * Included keys that are not part of the compound key
+     */
+    get userIncludeKeys() {
+        return this.includeKeys.filter(key => !this.keys.includes(key));
+    }
+
+    /**
+     * Encodes the values of all keys in given object
+     */
+    private _encodeTuple(obj: unknown) {
+        if (obj === null || typeof obj !== 'object') { return null; }
+        return this.keys.map(key => encodeValue(_getValue(obj, key))).join('');
+    }
+
+    async handleRecordUpdate(path: string, oldValue: unknown, newValue: unknown) {
+        // Replace the first key's value with the encoded tuple
+        const mutated = { old: {} as Record<string, unknown>, new: {} as Record<string, unknown> };
+        oldValue !== null && typeof oldValue === 'object' && Object.assign(mutated.old, oldValue);
+        newValue !== null && typeof newValue === 'object' && Object.assign(mutated.new, newValue);
+        _setValue(mutated.old, this.key, this._encodeTuple(oldValue));
+        _setValue(mutated.new, this.key, this._encodeTuple(newValue));
+        await super.handleRecordUpdate(path, oldValue === null ? null : mutated.old, newValue === null ? null : mutated.new);
+    }
+
+    build() {
+        return super.build({
+            addCallback: (add, value, recordPointer, metadata) => {
+                const tuple = [value].concat(this.keys.slice(1).map(key => metadata[key]));
+                const encoded = tuple.map(value => encodeValue(value)).join('');
+                add(encoded, recordPointer, metadata);
+                return encoded;
+            },
+            // Values that cannot be indexed are stored as null, the same as during record updates
+            valueTypes: Object.values(VALUE_TYPES),
+        });
+    }
+
+    static get validOperators() {
+        return ['<', '<=', '==', '>=', '>', 'between', 'exists', '!exists'];
+    }
+
+    get validOperators() {
+        return CompoundIndex.validOperators;
+    }
+
+    /**
+     * Queries the first key of the index. Use `find` to query multiple keys
+     */
+    async query(op: string | BlacklistingSearchOperator, val?: IndexableValueOrArray, options?: { filter?: IndexQueryResults; }) {
+        if (op instanceof BlacklistingSearchOperator) {
+            throw new Error(`Not implemented: Can't query compound index with blacklisting operator yet`);
+        }
+        if (!CompoundIndex.validOperators.includes(op)) {
+            throw new Error(`Compound indexes can only be queried with operators ${CompoundIndex.validOperators.map(op => `"${op}"`).join(', ')}`);
+        }
+        if (options) {
+            this.storage.debug.warn('Not implemented: query options for compound indexes are ignored');
+        }
+        return this.find([], { op: op as CompoundIndexRangeOperator, val });
+    }
+
+    /**
+     * Estimates how many records match given values and range, see `find`
+     */
+    async estimateFind(values: IndexableValue[], range?: { op: CompoundIndexRangeOperator; val: IndexableValueOrArray }) {
+        const bounds = this._getBounds(values, range);
+        if (bounds.lower >= bounds.upper) { return 0; }
+        return this.count('between', [bounds.lower, bounds.upper]) as Promise<number>;
+    }
+
+    async estimate(op: string, val: IndexableValueOrArray) {
+        if (!CompoundIndex.validOperators.includes(op)) { return null; }
+        return this.estimateFind([], { op: op as CompoundIndexRangeOperator, val });
+    }
+
+    /**
+     * Gets the encoded key range for given values and range: lower bound is inclusive, upper bound is exclusive
+     */
+    private _getBounds(values: IndexableValue[], range?: { op: CompoundIndexRangeOperator; val: IndexableValueOrArray }) {
+        if (values.length > this.keys.length || (range && values.length === this.keys.length)) {
+            throw new Error(`Too many values for compound index ${this.description}`);
+        }
+        // All keys with given prefix are in between prefix and prefix + END
+        const prefix = values.map(value => encodeValue(value)).join('');
+        let bounds = { lower: prefix, upper: prefix + TYPE_PREFIX.END };
+        if (range) {
+            const { op, val } = range;
+            const getTypeBounds = (value: unknown) => {
+                const typePrefix = getTypePrefix(value);
+                return { lower: prefix + typePrefix, upper: prefix + getNextTypePrefix(typePrefix) };
+            };
+            const encode = (value: unknown) => prefix + encodeValue(value);
+            if (op === 'exists') {
+                bounds = { lower: prefix + TYPE_PREFIX.BOOLEAN, upper: prefix + TYPE_PREFIX.END };
+            }
+            else if (op === '!exists') {
+                bounds = getTypeBounds(null);
+            }
+            else if (op === 'between') {
+                if (!(val instanceof Array) || val.length !== 2) {
+                    throw new Error('between operator requires an array with 2 values');
+                }
+                const [from, to] = compareEncodedValues(val[0], val[1]) > 0 ? [val[1], val[0]] : val;
+                bounds = { lower: encode(from), upper: encode(to) + TYPE_PREFIX.END };
+            }
+            else if (val instanceof Array) {
+                throw new Error(`Operator "${op}" requires a single value`);
+            }
+            else if (op === '==') {
+                bounds = { lower: encode(val), upper: encode(val) + TYPE_PREFIX.END };
+            }
+            else if (op === '<') {
+                bounds = { lower: getTypeBounds(val).lower, upper: encode(val) };
+            }
+            else if (op === '<=') {
+                bounds = { lower: getTypeBounds(val).lower, upper: encode(val) + TYPE_PREFIX.END };
+            }
+            else if (op === '>') {
+                bounds = { lower: encode(val) + TYPE_PREFIX.END, upper: getTypeBounds(val).upper };
+            }
+            else if (op === '>=') {
+                bounds = { lower: encode(val), upper: getTypeBounds(val).upper };
+            }
+            else {
+                throw new Error(`Unsupported operator "${op}"`);
+            }
+        }
+        if (!this.caseSensitive) {
+            bounds.lower = bounds.lower.toLocaleLowerCase(this.textLocale);
+            bounds.upper = bounds.upper.toLocaleLowerCase(this.textLocale);
+        }
+
+        return bounds;
+    }
+
+    /**
+     * Finds all records with given values for the leading keys of the index, optionally combined with a range on the next key.
+     * Results are returned in index order.
+     * @param values values of the leading keys, eg `['open']` for an index on `['status', 'created']`
+     * @param range optional condition on the next key, eg `{ op: '>', val: yesterday }`
+     * @param options `ascending`: whether to return the results in ascending order, `true` by default
+     * @example
+     * // Find all open orders created since yesterday:
+     * const results = await index.find(['open'], { op: '>=', val: yesterday });
+     */
+    async find(values: IndexableValue[], range?: { op: CompoundIndexRangeOperator; val: IndexableValueOrArray }, options: { ascending?: boolean } = {}) {
+        const stats = new IndexQueryStats('compound_index_find', { values, range }, true);
+        const bounds = this._getBounds(values, range);
+
+        const results = new IndexQueryResults();
+        results.filterKey = this.key;
+        results.entryValues = [];
+        if (bounds.lower < bounds.upper) {
+            // between operator includes the upper bound, which is exclusive for us
+            const matches = await super.query('between', [bounds.lower, bounds.upper]);
+            stats.steps.push(matches.stats);
+            matches.forEach((match, i) => {
+                if ((match.value as string) >= bounds.upper) { return; }
+                match.value = decodeTuple(match.value as string)[0];
+                results.push(match);
+                results.entryValues.push(matches.entryValues[i]);
+            });
+        }
+        if (options.ascending === false) {
+            results.reverse();
+            results.entryValues.reverse();
+        }
+        stats.stop(results.length);
+        results.stats = stats;
+        return results;
+    }
+}
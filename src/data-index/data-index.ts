@@ -1,7 +1,6 @@
 import { PathInfo, Utils, ID, ColorStyle, Transport } from 'acebase-core';
 import { ThreadSafe } from '../thread-safe';
 import type { Storage } from '../storage';
-import { pfs } from '../promise-fs';
 import { BPlusTreeBuilder, BPlusTree, BinaryBPlusTree, BinaryBPlusTreeLeafEntry, BinaryWriter, BinaryReader, BlacklistingSearchOperator } from '../btree';
 import { DataIndexOptions } from './options';
 import { FileSystemError, IndexableValue, IndexableValueOrArray, IndexMetaData, IndexRecordPointer } from './shared';
@@ -12,6 +11,8 @@ import { IndexQueryStats } from './query-stats';
 import { IndexQueryResult, IndexQueryResults } from './query-results';
 import { BPlusTreeLeafEntryValue } from '../btree/tree-leaf-entry-value';
 import { assert } from '../assert';
+import { compareSortValues } from '../query-cursor';
+import { CollationOptions, getCollationKey, getCollator } from '../collation';
 const { compareValues, getChildValues, numberToBytes, bytesToNumber, encodeString, decodeString } = Utils;
 
 const DISK_BLOCK_SIZE = 4096; // use 512 for older disks
@@ -35,8 +36,16 @@ interface IndexInfo {
     locale: string;
     /** textLocaleKey */
     localeKey: string;
+    /** collation.locale, only stored if a collation is used */
+    col?: string;
+    /** collation.sensitivity */
+    colSens?: CollationOptions['sensitivity'];
+    /** collation.numeric */
+    colNum?: boolean;
     include: string[];
     type: string;
+    /** all indexed keys, only stored for compound indexes */
+    keys?: string[];
     config?: Record<string, IndexInfoPrimitiveValue>;
 }
 
@@ -53,7 +62,7 @@ const INDEX_INFO_VALUE_TYPE = {
 type IndexInfoPrimitiveValue = undefined | string | number | boolean;
 type IndexInfoValue = IndexInfoPrimitiveValue | Array<IndexInfoPrimitiveValue> | Record<string, IndexInfoPrimitiveValue>;
 
-function _createRecordPointer(wildcards: string[], keyOrIndex: string | number) { //, address) {
+export function _createRecordPointer(wildcards: string[], keyOrIndex: string | number) { //, address) {
     // binary layout:
     // record_pointer   = wildcards_info, key_info, DEPRECATED: record_location
     // wildcards_info   = wildcards_length, wildcards
@@ -167,9 +176,13 @@ export class DataIndex {
     public caseSensitive: boolean;
     public textLocale: string;
     public textLocaleKey?: string;
+    /**
+     * Collation of indexed strings, strings are compared by their UTF-16 code units if not set
+     */
+    public collation?: CollationOptions;
     public includeKeys: string[];
     public indexMetadataKeys: string[];
-    private _buildError: Error = null;
+    protected _buildError: Error = null;
     private _updateQueue: Array<{
         path: string;
         oldValue: IndexableValue;
@@ -196,7 +209,7 @@ export class DataIndex {
     };
     private _idx?: { fd: number; tree: BinaryBPlusTree };
 
-    private _fileName?: string;
+    protected _fileName?: string;
 
     /**
      * Creates a new index
@@ -215,6 +228,7 @@ export class DataIndex {
         this.caseSensitive = options.caseSensitive === true;
         this.textLocale = options.textLocale || 'en';
         this.textLocaleKey = options.textLocaleKey;
+        this.collation = options.collation;
         this.includeKeys = options.include || [];
         // this.enableReverseLookup = false;
         this.indexMetadataKeys = [];
@@ -233,6 +247,20 @@ export class DataIndex {
         };
     }
 
+    /**
+     * All indexed keys. Only compound indexes have more than 1
+     */
+    get keys() {
+        return [this.key];
+    }
+
+    /**
+     * Collator used to compare indexed strings, `undefined` if no collation is used
+     */
+    get collator() {
+        return getCollator(this.collation);
+    }
+
     get allMetadataKeys() {
         return this.includeKeys.concat(this.indexMetadataKeys);
     }
@@ -297,12 +325,15 @@ export class DataIndex {
         const idx = await this._getTree('exclusive');
         await idx.close();
         const filePath = this.fileName; // `${this.storage.settings.path}/${this.storage.name}.acebase/${this.fileName}`;
-        await pfs.rm(filePath);
+        await this.fileSystem.rm(filePath);
         this.state = DataIndex.STATE.REMOVED;
         idx.release();
     }
 
     async close() {
+        if (this.state === DataIndex.STATE.CLOSED) {
+            return;
+        }
         const idx = await this._getTree('exclusive');
         await idx.close();
         this.state = DataIndex.STATE.CLOSED;
@@ -313,29 +344,30 @@ export class DataIndex {
      * Reads an existing index from a file
      * @param storage Used storage engine
      * @param fileName
+     * @param fs File system to read the file from, defaults to the storage's index file system
      */
-    static async readFromFile(storage: Storage, fileName: string): Promise<DataIndex> {
+    static async readFromFile(storage: Storage, fileName: string, fs = storage.indexes.fileSystem): Promise<DataIndex> {
         // Read an index from file
         const filePath = fileName.includes('/') ? fileName : `${storage.settings.path}/${storage.name}.acebase/${fileName}`;
-        const fd = await pfs.open(filePath, pfs.flags.read);
+        const fd = await fs.open(filePath, 'r');
         try {
             // Read signature
-            let result = await pfs.read(fd, Buffer.alloc(10));
+            let result = await fs.read(fd, new Uint8Array(10));
             // Check signature
-            if (result.buffer.toString() !== 'ACEBASEIDX') {
+            if (String.fromCharCode(...result.buffer) !== 'ACEBASEIDX') {
                 throw new Error(`File "${filePath}" is not an AceBase index. If you get this error after updating acebase, delete the index file and rebuild it`);
             }
             // Read layout_version
-            result = await pfs.read(fd, Buffer.alloc(1));
+            result = await fs.read(fd, new Uint8Array(1));
             const versionNr = result.buffer[0];
             if (versionNr !== 1) {
                 throw new Error(`Index "${filePath}" version ${versionNr} is not supported by this version of AceBase. npm update your acebase packages`);
             }
             // Read header_length
-            result = await pfs.read(fd, Buffer.alloc(4));
+            result = await fs.read(fd, new Uint8Array(4));
             const headerLength = (result.buffer[0] << 24) | (result.buffer[1] << 16) | (result.buffer[2] << 8) | result.buffer[3];
             // Read header
-            result = await pfs.read(fd, Buffer.alloc(headerLength-11));
+            result = await fs.read(fd, new Uint8Array(headerLength-11));
             // Process header
             const header = Uint8Array.from(result.buffer);
             let index = 0;
@@ -414,12 +446,16 @@ export class DataIndex {
                 textLocale: indexInfo.locale,
                 textLocaleKey: indexInfo.localeKey,
                 include: indexInfo.include,
+                collation: typeof indexInfo.col === 'string'
+                    ? { locale: indexInfo.col, sensitivity: indexInfo.colSens, numeric: indexInfo.colNum }
+                    : undefined,
             };
             if (!(indexInfo.type in DataIndex.KnownIndexTypes)) {
                 throw new Error(`Unknown index type ${indexInfo.type}`);
             }
             const Index = DataIndex.KnownIndexTypes[indexInfo.type];
-            const dataIndex = new Index(storage, indexInfo.path, indexInfo.key, indexOptions);
+            const key = indexInfo.keys?.join(',') ?? indexInfo.key; // Compound indexes accept comma separated keys
+            const dataIndex = new Index(storage, indexInfo.path, key, indexOptions);
             dataIndex._fileName = filePath;
 
             // trees_info:
@@ -442,13 +478,13 @@ export class DataIndex {
                 Object.assign(treeInfo, info); //treeInfo.info = info;
             }
 
-            await pfs.close(fd);
+            await fs.close(fd);
             dataIndex.state = DataIndex.STATE.READY;
             return dataIndex;
         }
         catch(err) {
             storage.debug.error(err);
-            pfs.close(fd);
+            fs.close(fd);
             throw err;
         }
     }
@@ -470,8 +506,16 @@ export class DataIndex {
         const includes = this.includeKeys.length > 0
             ? ',' + this.includeKeys.map(key => escape(key)).join(',')
             : '';
+        const collation = this.collation ? '@' + getCollationKey(this.collation).replace(/:/g, ',') : '';
         const extension = (this.type !== 'normal' ? `${this.type}.` : '') + 'idx';
-        return `${dir}/${storagePrefix}${escapedPath}-${escapedKey}${includes}.${extension}`;
+        return `${dir}/${storagePrefix}${escapedPath}-${escapedKey}${includes}${collation}.${extension}`;
+    }
+
+    /**
+     * File system the index file is stored in
+     */
+    get fileSystem() {
+        return this.storage.indexes.fileSystem;
     }
 
     get description() {
@@ -481,6 +525,9 @@ export class DataIndex {
         if (this.type !== 'normal') {
             description += ` (${this.type})`;
         }
+        if (this.collation) {
+            description += ` (collation ${getCollationKey(this.collation)})`;
+        }
         return description;
     }
 
@@ -514,7 +561,12 @@ export class DataIndex {
     //     return this._updateTree(path, revLookupKey, revLookupKey, oldData, newData, metadata);
     // }
 
-    _updateTree(path: string, oldValue: IndexableValue, newValue: IndexableValue, oldRecordPointer: IndexRecordPointer, newRecordPointer: IndexRecordPointer, metadata: IndexMetaData) {
+    /**
+     * Updates the index entry of a record
+     * @param transaction database transaction of the node write to add the changes to, only used by indexes that store their entries in the database
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _updateTree(path: string, oldValue: IndexableValue, newValue: IndexableValue, oldRecordPointer: IndexRecordPointer, newRecordPointer: IndexRecordPointer, metadata: IndexMetaData, transaction?: unknown) {
         const canBeIndexed = ['number','boolean','string','bigint'].indexOf(typeof newValue) >= 0 || newValue instanceof Date;
         const operations = [];
         if (oldValue !== null) {
@@ -532,7 +584,7 @@ export class DataIndex {
     async _rebuild(idx: { tree: BinaryBPlusTree; close(): Promise<void>; release(): void; }) {
         // Rebuild by writing to temp file
         const newIndexFile = this.fileName + '.tmp';
-        const fd = await pfs.open(newIndexFile, pfs.flags.write);
+        const fd = await this.fileSystem.open(newIndexFile, 'w');
         const treeStatistics = {
             byteLength: 0,
             totalEntries: 0,
@@ -545,7 +597,7 @@ export class DataIndex {
             updateTreeLength: undefined as (treeByteLength: number) => Promise<void>, //Awaited<ReturnType<this['_writeIndexHeader']>>['treeLengthCallback'],
         };
 
-        const writer = async (data: Buffer, index: number) => {
+        const writer = async (data: Uint8Array, index: number) => {
             if (!headerStats.written) {
                 // Write header first, or wait until done
                 if (!headerStats.promise) {
@@ -557,7 +609,7 @@ export class DataIndex {
                 }
                 await headerStats.promise;
             }
-            await pfs.write(fd, data, 0, data.length, headerStats.length + index);
+            await this.fileSystem.write(fd, data, 0, data.length, headerStats.length + index);
         };
         this.state = DataIndex.STATE.REBUILD;
         try {
@@ -568,12 +620,12 @@ export class DataIndex {
             );
             await idx.close();
             await headerStats.updateTreeLength(treeStatistics.byteLength);
-            await pfs.close(fd);
+            await this.fileSystem.close(fd);
 
             const renameFile = async (retry = 0) => {
                 try {
                     // rename new file, overwriting the old file
-                    await pfs.rename(newIndexFile, this.fileName);
+                    await this.fileSystem.rename(newIndexFile, this.fileName);
                 }
                 catch(err) {
                     // Occasionally getting EPERM "operation not permitted" errors lately with Node 16.
@@ -666,7 +718,11 @@ export class DataIndex {
         await Promise.all(promises);
     }
 
-    async handleRecordUpdate(path: string, oldValue: unknown, newValue: unknown, indexMetadata?: IndexMetaData): Promise<void> {
+    /**
+     * Updates the index with the changed values of a record
+     * @param transaction database transaction of the node write, index entries stored in the database are updated in it
+     */
+    async handleRecordUpdate(path: string, oldValue: unknown, newValue: unknown, indexMetadata?: IndexMetaData, transaction?: unknown): Promise<void> {
         this.storage.debug.verbose(`Handling index ${this.description} update request for "/${path}"`);
         const getValues = (key: string, oldValue: unknown, newValue: unknown) =>
             PathInfo.getPathKeys(key).reduce((values, key) =>
@@ -715,7 +771,7 @@ export class DataIndex {
             this._cache.clear();
             // Update the tree
             this.storage.debug.verbose(`Updating index ${this.description} tree for "/${path}"`);
-            return await this._updateTree(path, keyValues.oldValue, keyValues.newValue, recordPointer, recordPointer, metadata);
+            return await this._updateTree(path, keyValues.oldValue, keyValues.newValue, recordPointer, recordPointer, metadata, transaction);
         }
         else {
             this.storage.debug.log(`Queueing index ${this.description} update for "/${path}"`);
@@ -773,7 +829,34 @@ export class DataIndex {
         return result.valueCount;
     }
 
-    async take(skip: number, take: number, options: Partial<{ ascending: boolean; metadataSort: Array<{ key: string; ascending: boolean; }> }> = {}) {
+    /**
+     * Estimates how many records match a query on this index. Counts the values of all matching tree
+     * entries without loading them, used by the query planner to determine which index is most selective.
+     * @returns the estimated amount of matching records, or `null` if the query can't be estimated by this index
+     */
+    async estimate(op: string, val: IndexableValueOrArray): Promise<number | null> {
+        if (this.type !== 'normal' || !DataIndex.validOperators.includes(op)) {
+            return null;
+        }
+        return this.count(op, val);
+    }
+
+    /**
+     * Takes records in the order of the indexed values
+     * @param skip number of records to skip
+     * @param take number of records to take
+     * @param options.ascending whether to take them in ascending order of the indexed values
+     * @param options.metadataSort additional sort on included keys, for records with the same indexed value. String values
+     * are compared using the collation of their sort entry
+     * @param options.after position of a previously taken record to continue after (its indexed value, values of the `metadataSort` keys
+     * and path), used for cursor based paging. Records with the same values are then ordered by their path, use `null` to start
+     * at the first record in that same order
+     */
+    async take(skip: number, take: number, options: Partial<{
+        ascending: boolean;
+        metadataSort: Array<{ key: string; ascending: boolean; collation?: CollationOptions }>;
+        after: { value: IndexableValue; metadata: IndexableValue[]; path: string } | null;
+    }> = {}) {
         const ascending = options.ascending !== false;
         const sort = options.metadataSort?.length > 0 ? options.metadataSort : [];
         sort.forEach(s => {
@@ -781,6 +864,8 @@ export class DataIndex {
                 throw new Error(`Cannot sort on metadata key ${s.key} because it is not present in index ${this.fileName}`);
             }
         });
+        const after = options.after ?? null;
+        const sortByPath = typeof options.after !== 'undefined';
 
         const cacheKey = JSON.stringify({ skip, take, options });
         const cache = this.cache('take', cacheKey);
@@ -793,34 +878,47 @@ export class DataIndex {
         const idx = await this._getTree('shared');
         const results = new IndexQueryResults(); //[];
         results.filterKey = this.key;
+        type ValuePosition = { metadata: IndexMetaData; path: string };
+        const comparePositions = (a: ValuePosition, b: ValuePosition) => {
+            for (const { key, ascending, collation } of sort) {
+                const diff = compareSortValues(a.metadata[key], b.metadata[key], getCollator(collation));
+                if (diff !== 0) { return ascending ? diff : -diff; }
+            }
+            if (!sortByPath || a.path === b.path) { return 0; }
+            return a.path < b.path ? -1 : 1;
+        };
+        const afterPosition = after && {
+            metadata: sort.reduce((metadata, s, i) => (metadata[s.key] = after.metadata[i], metadata), {} as IndexMetaData),
+            path: after.path,
+        };
         let skipped = 0;
-        let leaf = await (ascending ? idx.tree.getFirstLeaf() : idx.tree.getLastLeaf());
+        let leaf = await (after ? idx.tree.findLeaf(after.value) : ascending ? idx.tree.getFirstLeaf() : idx.tree.getLastLeaf());
         do {
             if (!ascending) { leaf.entries.reverse(); }
             for (let i = 0; i < leaf.entries.length && results.length < take; i++) {
                 const entry = leaf.entries[i];
                 const value = entry.key;
-                if (sort.length > 0 && entry.totalValues > 1 && skipped + entry.totalValues > skip) {
-                    // Sort values on given metadata first
-                    if (leaf.hasExtData && !leaf.extData.loaded) {
-                        await leaf.extData.load();
-                    }
-                    const applySort = (index: number, a: typeof entry.values[0], b: typeof entry.values[0]): number => {
-                        const { key, ascending } = sort[index];
-                        if (a.metadata[key] < b.metadata[key]) {
-                            return ascending ? -1 : 1;
-                        }
-                        else if (a.metadata[key] > b.metadata[key]) {
-                            return ascending ? 1 : -1;
-                        }
-                        else if (index + 1 === sort.length) {
-                            return 1;
-                        }
-                        return applySort(index + 1, a, b);
-                    };
-                    entry.values.sort((a, b) => applySort(0, a, b));
+                // Compare with the value of the cursor position, skip entries before it
+                const afterDiff = after ? compareSortValues(value, after.value, this.collator) * (ascending ? 1 : -1) : 1;
+                if (afterDiff < 0) {
+                    continue;
+                }
+                if (leaf.hasExtData && !leaf.extData.loaded && (afterDiff === 0 || skipped + entry.totalValues > skip)) {
+                    await leaf.extData.load();
+                }
+                const positions = new Map<typeof entry.values[0], ValuePosition>();
+                const getPosition = (v: typeof entry.values[0]) => {
+                    !positions.has(v) && positions.set(v, { metadata: v.metadata, path: _parseRecordPointer(this.path, v.recordPointer).path });
+                    return positions.get(v);
+                };
+                if ((sort.length > 0 || sortByPath) && entry.totalValues > 1 && (afterDiff === 0 || skipped + entry.totalValues > skip)) {
+                    // Sort values on given metadata (and paths) first
+                    entry.values.sort((a, b) => comparePositions(getPosition(a), getPosition(b)) || 1);
                 }
                 for (let j = 0; j < entry.totalValues && results.length < take; j++) {
+                    if (afterDiff === 0 && comparePositions(getPosition(entry.values[j]), afterPosition) <= 0) {
+                        continue;
+                    }
                     if (skipped < skip) {
                         skipped++;
                         continue;
@@ -850,6 +948,30 @@ export class DataIndex {
         return results;
     }
 
+    /**
+     * Iterates all entries of the index in ascending order without loading any indexed records, used for aggregations
+     * @param callback receives each indexed value with the number of records that have it, and their metadata if requested
+     * @param options.metadata whether to load the metadata (included keys) of all records
+     */
+    async forEachEntry(callback: (value: IndexableValue, count: number, metadata?: IndexMetaData[]) => void, options: { metadata?: boolean } = {}) {
+        const idx = await this._getTree('shared');
+        try {
+            let leaf = await idx.tree.getFirstLeaf();
+            while (leaf) {
+                if (options.metadata && leaf.hasExtData && !leaf.extData.loaded) {
+                    await leaf.extData.load();
+                }
+                for (const entry of leaf.entries) {
+                    callback(entry.key, entry.totalValues, options.metadata ? entry.values.map(value => value.metadata) : undefined);
+                }
+                leaf = await leaf.getNext?.();
+            }
+        }
+        finally {
+            idx.release();
+        }
+    }
+
     static get validOperators() {
         return ['<','<=','==','!=','>=','>','exists','!exists','between','!between','like','!like','matches','!matches','in','!in'];
     }
@@ -1060,7 +1182,7 @@ export class DataIndex {
         const buildFile = this.fileName + '.build';
         const createBuildFile = () => {
             return new Promise((resolve, reject) => {
-                const buildWriteStream = pfs.fs.createWriteStream(buildFile, { flags: pfs.flags.readAndAppendAndCreate });
+                const buildWriteStream = this.fileSystem.createWriteStream(buildFile, { flags: 'ax+' });
                 const streamState = { wait: false, chunks: [] as number[][] };
                 buildWriteStream.on('error', (err) => {
                     console.error(err);
@@ -1111,7 +1233,7 @@ export class DataIndex {
                         assert(streamState.chunks.length < 100000, 'Something going wrong here');
                     }
                     else {
-                        streamState.wait = !buildWriteStream.write(Buffer.from(bytes), err => {
+                        streamState.wait = !buildWriteStream.write(Uint8Array.from(bytes), err => {
                             assert(!err, `Failed to write to stream: ${err && err.message}`);
                         });
                     }
@@ -1365,23 +1487,22 @@ export class DataIndex {
             if (indexedValues === 0) {
                 // Remove build file, nothing else to do
                 // eslint-disable-next-line @typescript-eslint/no-empty-function
-                return await pfs.rm(buildFile).catch(err => {});
+                return await this.fileSystem.rm(buildFile).catch(err => {});
             }
 
             try {
-                const exists = await pfs.exists(mergeFile);
+                const exists = await this.fileSystem.exists(mergeFile);
                 if (exists) {
                     const err = new Error('File already exists');
                     (err as FileSystemError).code = 'EEXIST';
                     throw err;
                 }
 
-                const fd = await pfs.open(buildFile, pfs.flags.readAndWrite);
+                const fd = await this.fileSystem.open(buildFile, 'r+');
                 const writer = BinaryWriter.forFunction(async (data, position) => {
-                    const buffer = data instanceof Buffer ? data : Buffer.from(data);
-                    await pfs.write(fd, buffer, 0, buffer.byteLength, position);
+                    await this.fileSystem.write(fd, data, 0, data.byteLength, position);
                 });
-                const reader = new BinaryReader(fd, 512 * 1024); // Read 512KB chunks
+                const reader = new BinaryReader(fd, 512 * 1024, this.fileSystem); // Read 512KB chunks
                 await reader.init();
 
                 // const maxKeys = 10000; // Work with max 10.000 in-memory keys at a time
@@ -1391,7 +1512,7 @@ export class DataIndex {
                     // Read next from file
                     try {
                         let processed = true;
-                        /** @type {Buffer} */
+                        /** @type {Uint8Array} */
                         let buffer;
                         /** @type {number} */
                         let entryIndex;
@@ -1448,7 +1569,7 @@ export class DataIndex {
 
                 // Find out how many written batches there are already (if process was terminated while building, we can resume)
                 const path = buildFile.slice(0, buildFile.lastIndexOf('/'));
-                const entries = await pfs.readdir(path);
+                const entries = await this.fileSystem.readdir(path);
                 let high = 0;
                 const checkFile = buildFile.slice(path.length + 1) + '.';
                 entries.forEach(entry => {
@@ -1505,13 +1626,13 @@ export class DataIndex {
 
                     // sort the map keys
                     const sortedKeys = quickSort([...map.keys()], (a, b) => {
-                        if (BPlusTree.typeSafeComparison.isLess(a, b)) { return -1; }
-                        if (BPlusTree.typeSafeComparison.isMore(a, b)) { return 1; }
+                        if (BPlusTree.typeSafeComparison.isLess(a, b, this.collator)) { return -1; }
+                        if (BPlusTree.typeSafeComparison.isMore(a, b, this.collator)) { return 1; }
                         return 0;
                     });
 
                     // write batch
-                    const batchStream = pfs.fs.createWriteStream(`${buildFile}.${batchNr}`, { flags: pfs.flags.appendAndCreate });
+                    const batchStream = this.fileSystem.createWriteStream(`${buildFile}.${batchNr}`, { flags: 'ax' });
                     for (const key of sortedKeys) {
                         const values = map.get(key);
                         const isDateKey = values.dateKey === true;
@@ -1562,8 +1683,8 @@ export class DataIndex {
                     });
                 }
 
-                await pfs.close(fd);        // Close build file
-                await pfs.rm(buildFile);    // Remove build file
+                await this.fileSystem.close(fd);        // Close build file
+                await this.fileSystem.rm(buildFile);    // Remove build file
 
                 // Now merge-sort all keys, by reading keys from each batch,
                 // taking the smallest value from each batch a time
@@ -1575,7 +1696,7 @@ export class DataIndex {
                 }
 
                 // create write stream for merged data
-                const outputStream = pfs.fs.createWriteStream(mergeFile, { flags: pfs.flags.writeAndCreate });
+                const outputStream = this.fileSystem.createWriteStream(mergeFile, { flags: 'wx' });
                 // const outputStream = BinaryWriter.forFunction((data, position) => {
                 //     return pfs.write(fd, data, 0, data.byteLength, position);
                 // });
@@ -1584,7 +1705,7 @@ export class DataIndex {
                 const readers = [] as BinaryReader[];
                 const bufferChunkSize = Math.max(10240, Math.round((10 * 1024 * 1024) / batches)); // 10MB dedicated memory to divide between readers, with a minimum of 10KB per reader
                 for (let i = 0; i < batches; i++) {
-                    const reader = new BinaryReader(`${buildFile}.${i+1}`, bufferChunkSize);
+                    const reader = new BinaryReader(`${buildFile}.${i+1}`, bufferChunkSize, this.fileSystem);
                     readers.push(reader);
                 }
                 await Promise.all(readers.map(reader => reader.init()));
@@ -1636,7 +1757,7 @@ export class DataIndex {
                             let newSortEntryIndex = oldSortEntryIndex; // The newly read value >= previous value, because they are stored sorted in the batch file
                             while(
                                 newSortEntryIndex < sortedEntryIndexes.length
-                                && BPlusTree.typeSafeComparison.isMore(entry.key, sortedEntryIndexes[newSortEntryIndex].key))
+                                && BPlusTree.typeSafeComparison.isMore(entry.key, sortedEntryIndexes[newSortEntryIndex].key, this.collator))
                             {
                                 newSortEntryIndex++;
                             }
@@ -1667,8 +1788,8 @@ export class DataIndex {
                 // Populate sortedEntryIndexes
                 sortedEntryIndexes = entriesPerBatch.map((entry, index) => ({ index, key: entry.key }))
                     .sort((a, b) => {
-                        if (BPlusTree.typeSafeComparison.isLess(a.key, b.key)) { return -1; }
-                        if (BPlusTree.typeSafeComparison.isMore(a.key, b.key)) { return 1; }
+                        if (BPlusTree.typeSafeComparison.isLess(a.key, b.key, this.collator)) { return -1; }
+                        if (BPlusTree.typeSafeComparison.isMore(a.key, b.key, this.collator)) { return 1; }
                         return 0; // happens when a key had too many values (and were split into multiple batches)
                     });
 
@@ -1730,7 +1851,7 @@ export class DataIndex {
                 // Delete all batch files
                 const dbfPromises = [];
                 for(let i = 1; i <= batches; i++) {
-                    dbfPromises.push(pfs.rm(`${buildFile}.${i}`));
+                    dbfPromises.push(this.fileSystem.rm(`${buildFile}.${i}`));
                 }
                 await Promise.all(dbfPromises);
             }
@@ -1761,8 +1882,8 @@ export class DataIndex {
             // Open merge file for reading, index file for writing
             this.storage.debug.log(`done writing merge file ${mergeFile}`);
             const [ readFD, writeFD ] = await Promise.all([
-                indexedValues === 0 ? -1 : pfs.open(mergeFile, pfs.flags.read),
-                pfs.open(this.fileName, pfs.flags.write),
+                indexedValues === 0 ? -1 : this.fileSystem.open(mergeFile, 'r'),
+                this.fileSystem.open(this.fileName, 'w'),
             ]);
 
             // create index from entry stream
@@ -1788,18 +1909,18 @@ export class DataIndex {
                             headerStats.length = result.length;
                             headerStats.updateTreeLength = result.treeLengthCallback;
                             if (this.state === DataIndex.STATE.REBUILD) {
-                                await pfs.truncate(this.fileName, headerStats.length);
+                                await this.fileSystem.truncate(this.fileName, headerStats.length);
                             }
                         });
                     }
                     await headerStats.promise;
                 }
-                await pfs.write(writeFD, data, 0, data.length, headerStats.length + index);
+                await this.fileSystem.write(writeFD, data, 0, data.length, headerStats.length + index);
             });
 
             const reader = indexedValues > 0
-                ? new BinaryReader(readFD)
-                : new BinaryReader(async (index, length) => Buffer.from([]));
+                ? new BinaryReader(readFD, undefined, this.fileSystem)
+                : new BinaryReader(async (index, length) => new Uint8Array(0));
             await BinaryBPlusTree.createFromEntryStream(
                 reader,
                 writer,
@@ -1815,12 +1936,12 @@ export class DataIndex {
             );
 
             await Promise.all([
-                pfs.fsync(writeFD).then(() => pfs.close(writeFD)),
-                indexedValues > 0 && pfs.close(readFD),
+                this.fileSystem.fsync(writeFD).then(() => this.fileSystem.close(writeFD)),
+                indexedValues > 0 && this.fileSystem.close(readFD),
             ]);
 
             if (indexedValues > 0) {
-                await pfs.rm(mergeFile);
+                await this.fileSystem.rm(mergeFile);
             }
 
             const doneTime = Date.now();
@@ -1952,7 +2073,7 @@ export class DataIndex {
             0, 0, 0, 0,
         ];
         // info:
-        const indexInfo = {
+        const indexInfo: Record<string, IndexInfoValue> = {
             type: this.type,
             version: 1, // TODO: implement this.versionNr
             path: this.path,
@@ -1964,6 +2085,14 @@ export class DataIndex {
             // Don't store:
             // config: this.config,
         };
+        if (this.keys.length > 1) {
+            indexInfo.keys = this.keys;
+        }
+        if (this.collation) {
+            indexInfo.col = this.collation.locale || 'en';
+            indexInfo.colSens = this.collation.sensitivity || 'variant';
+            indexInfo.colNum = this.collation.numeric === true;
+        }
         addInfoBytes(header, indexInfo);
 
         // const treeNames = Object.keys(this.trees);
@@ -2025,7 +2154,7 @@ export class DataIndex {
 
     private async _writeIndexHeader(fd: number, treeStatistics: { totalEntries: number, totalValues: number }) {
         const { header, headerLength, treeRefIndex } = this._getIndexHeaderBytes(treeStatistics);
-        await pfs.write(fd, Buffer.from(header));
+        await this.fileSystem.write(fd, Uint8Array.from(header));
         return {
             length: headerLength,
             treeLengthCallback: async (treeByteLength: number) => {
@@ -2036,7 +2165,7 @@ export class DataIndex {
                     treeByteLength & 0xff,
                 ];
                 // treeDetails.byteLength = treeByteLength;
-                await pfs.write(fd, Buffer.from(bytes), 0, bytes.length, treeRefIndex + 4);
+                await this.fileSystem.write(fd, Uint8Array.from(bytes), 0, bytes.length, treeRefIndex + 4);
             },
         };
     }
@@ -2083,14 +2212,14 @@ export class DataIndex {
         // const tree = builder.create();
         // const binary = new Uint8Array(tree.toBinary(true));
 
-        const fd = await pfs.open(this.fileName, pfs.flags.write);
+        const fd = await this.fileSystem.open(this.fileName, 'w');
         const { header, headerLength, treeRefIndex, treeDetails } = this._getIndexHeaderBytes({ totalEntries, totalValues });
 
         try {
-            await pfs.write(fd, Buffer.from(header));
+            await this.fileSystem.write(fd, Uint8Array.from(header));
             // append binary tree data
             const tree = builder.create();
-            const stream = pfs.fs.createWriteStream(null, { fd, autoClose: false });
+            const stream = this.fileSystem.createWriteStream(null, { fd, autoClose: false });
             const references = [] as Array<{ data: Uint8Array; position: number }>;
             const writer = new BinaryWriter(stream, async (data, position) => {
                 references.push({ data, position });
@@ -2100,7 +2229,7 @@ export class DataIndex {
             // Update all references
             while (references.length > 0) {
                 const ref = references.shift();
-                await pfs.write(fd, ref.data, 0, ref.data.byteLength, headerLength + ref.position);
+                await this.fileSystem.write(fd, ref.data, 0, ref.data.byteLength, headerLength + ref.position);
             }
 
             // Update default tree byte_length:
@@ -2112,10 +2241,10 @@ export class DataIndex {
                 treeByteLength & 0xff,
             ];
             treeDetails.byteLength = treeByteLength;
-            await pfs.write(fd, Buffer.from(bytes), 0, bytes.length, treeRefIndex+4);
+            await this.fileSystem.write(fd, Uint8Array.from(bytes), 0, bytes.length, treeRefIndex+4);
 
             // return pfs.write(fd, binary);
-            await pfs.close(fd);
+            await this.fileSystem.close(fd);
         }
         catch(err) {
             this.storage.debug.error(err);
@@ -2135,18 +2264,16 @@ export class DataIndex {
         const lock = await this._lock(lockMode);
         if (!this._idx) {
             // File being opened for the first time (or after a rebuild)
-            const fd = await pfs.open(this.fileName, pfs.flags.readAndWrite);
+            const fd = await this.fileSystem.open(this.fileName, 'r+');
             const reader = async (index: number, length: number) => {
-                const buffer = Buffer.alloc(length);
-                const { bytesRead } = await pfs.read(fd, buffer, 0, length, this.trees.default.fileIndex + index);
-                if (bytesRead < length) { return buffer.slice(0, bytesRead); }
+                const buffer = new Uint8Array(length);
+                const { bytesRead } = await this.fileSystem.read(fd, buffer, 0, length, this.trees.default.fileIndex + index);
+                if (bytesRead < length) { return buffer.subarray(0, bytesRead); }
                 return buffer;
             };
-            const writer = async (data: Buffer | Uint8Array, index: number) => {
-                const buffer = data.constructor === Uint8Array
-                    ? Buffer.from(data.buffer, data.byteOffset, data.byteLength)
-                    : Buffer.from(data);
-                const result = await pfs.write(fd, buffer, 0, data.length, this.trees.default.fileIndex + index);
+            const writer = async (data: number[] | Uint8Array, index: number) => {
+                const buffer = data instanceof Uint8Array ? data : Uint8Array.from(data);
+                const result = await this.fileSystem.write(fd, buffer, 0, data.length, this.trees.default.fileIndex + index);
                 return result;
             };
             const tree = new BinaryBPlusTree({
@@ -2155,6 +2282,7 @@ export class DataIndex {
                 writeFn: writer,
                 debug: this.storage.debug,
                 id: ID.generate(), // For tree locking
+                collator: this.collator,
             });
             tree.autoGrow = true; // Allow the tree to grow. DISABLE THIS IF THERE ARE MULTIPLE TREES IN THE INDEX FILE LATER! (which is not implemented yet)
 
@@ -2166,7 +2294,7 @@ export class DataIndex {
             close: async () => {
                 const fd = this._idx.fd;
                 this._idx = null;
-                await pfs.close(fd)
+                await this.fileSystem.close(fd)
                     .catch(err => {
                         this.storage.debug.warn(`Could not close index file "${this.fileName}":`, err);
                     });
@@ -2,8 +2,11 @@ import { DataIndex } from './data-index';
 import { FullTextIndex } from './fulltext-index';
 import { GeoIndex } from './geo-index';
 import { ArrayIndex } from './array-index';
+import { CompoundIndex } from './compound-index';
+import { TableDataIndex } from './table-index';
 
-export { DataIndex, FullTextIndex, GeoIndex, ArrayIndex };
+export { DataIndex, FullTextIndex, GeoIndex, ArrayIndex, CompoundIndex, TableDataIndex };
+export { IndexTableStore, IndexTableRow, IndexTableRange } from './table-index';
 export { IndexQueryResults } from './query-results';
 
 DataIndex.KnownIndexTypes = {
@@ -11,4 +14,5 @@ DataIndex.KnownIndexTypes = {
     fulltext: FullTextIndex,
     geo: GeoIndex,
     array: ArrayIndex,
+    compound: CompoundIndex,
 };
@@ -1,3 +1,5 @@
+import type { CollationOptions } from '../collation';
+
 export interface DataIndexOptions {
     /**
      * if strings in the index should be indexed case-sensitive. defaults to `false`
@@ -20,6 +22,12 @@ export interface DataIndexOptions {
      */
     textLocaleKey?: string;
 
+    /**
+     * Collation to sort and compare indexed strings with, instead of comparing them by their UTF-16 code units.
+     * Range queries and sorting can only use the index if they use the same collation. Not supported by compound indexes
+     */
+    collation?: CollationOptions;
+
     /**
      * Other keys' data to include in the index, for faster sorting topN (`.limit.order`) query results
      */
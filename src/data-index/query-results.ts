@@ -2,6 +2,7 @@ import { BPlusTreeLeafEntryValue } from '../btree/tree-leaf-entry-value';
 import { IndexQueryHint } from './query-hint';
 import { IndexQueryStats } from './query-stats';
 import { IndexableValue, IndexableValueOrArray, IndexMetaData } from './shared';
+import { CollationOptions, compareStrings, getCollator } from '../collation';
 
 export class IndexQueryResult {
     public values: BPlusTreeLeafEntryValue[];
@@ -37,7 +38,11 @@ export class IndexQueryResults extends Array<IndexQueryResult> {
     //     return super.filter(callback);
     // }
 
-    filterMetadata(key: string | number, op: string, compare: IndexableValueOrArray) {
+    /**
+     * Filters the results on their indexed value or metadata
+     * @param collation collation to compare strings with in range filters
+     */
+    filterMetadata(key: string | number, op: string, compare: IndexableValueOrArray, collation?: CollationOptions) {
         if (typeof compare === 'undefined') {
             compare = null; // compare with null so <, <=, > etc will get the right results
         }
@@ -45,11 +50,28 @@ export class IndexQueryResults extends Array<IndexQueryResult> {
             op = op === 'exists' ? '!=' : '==';
             compare = null;
         }
+        const collator = getCollator(collation);
         const filtered = this.filter(result => {
             let value = key === this.filterKey ? result.value : result.metadata ? result.metadata[key] : null;
             if (typeof value === 'undefined') {
                 value = null; // compare with null
             }
+            if (collator && typeof value === 'string') {
+                const str = value;
+                const diff = (other: unknown) => typeof other === 'string' ? compareStrings(str, other, collator) : NaN;
+                if (op === '<') { return diff(compare) < 0; }
+                if (op === '<=') { return diff(compare) <= 0; }
+                if (op === '>') { return diff(compare) > 0; }
+                if (op === '>=') { return diff(compare) >= 0; }
+                if ((op === 'between' || op === '!between') && compare instanceof Array) {
+                    let [bottom, top] = compare;
+                    if (typeof bottom === 'string' && typeof top === 'string' && compareStrings(top, bottom, collator) < 0) {
+                        [bottom, top] = [top, bottom];
+                    }
+                    const isBetween = diff(bottom) >= 0 && diff(top) <= 0;
+                    return op === 'between' ? isBetween : !isBetween;
+                }
+            }
             if (op === '<') { return value < compare; }
             if (op === '<=') { return value <= compare; }
             if (op === '>') { return value > compare; }
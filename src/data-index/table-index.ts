@@ -0,0 +1,549 @@
+import { PathInfo, ID, ColorStyle, Transport } from 'acebase-core';
+import type { Storage } from '../storage';
+import { BlacklistingSearchOperator } from '../btree';
+import { BPlusTreeLeafEntryValue } from '../btree/tree-leaf-entry-value';
+import { VALUE_TYPES } from '../node-value-types';
+import { compareSortValues } from '../query-cursor';
+import { getCollator } from '../collation';
+import { DataIndex, _createRecordPointer } from './data-index';
+import { DataIndexOptions } from './options';
+import { IndexQueryResult, IndexQueryResults } from './query-results';
+import { IndexQueryStats } from './query-stats';
+import { IndexableValue, IndexableValueOrArray, IndexMetaData, IndexRecordPointer } from './shared';
+import { TYPE_PREFIX, encodeValue } from './value-encoding';
+
+/**
+ * Stored index entry, there is 1 entry for each indexed record
+ */
+export interface IndexTableRow {
+    /** path of the indexed record */
+    path: string;
+    /** encoded indexed value. Entries must be sorted by comparing these by their code points (binary collation) */
+    sortKey: string;
+    /** serialized indexed value */
+    value: string;
+    /** serialized values of the included keys */
+    metadata: string;
+}
+
+/**
+ * Range of sort keys, bounds that are not set are not checked
+ */
+export interface IndexTableRange {
+    gt?: string;
+    gte?: string;
+    lt?: string;
+    lte?: string;
+}
+
+/**
+ * Stores index entries in a table of the database, so they are kept in the same database as the indexed data and can be
+ * queried with sorted range queries. Implemented by storages that are able to do this, such as SQLite and MSSQL
+ */
+export interface IndexTableStore {
+    /**
+     * Gets the names of all stored indexes
+     */
+    list(): Promise<string[]>;
+    /**
+     * Gets the serialized definition of an index
+     * @returns the definition, or `null` if the index does not exist
+     */
+    get(name: string): Promise<string | null>;
+    /**
+     * Creates an index, or removes all entries of an existing index with the same name
+     */
+    create(name: string, definition: string): Promise<void>;
+    /**
+     * Removes an index and all its entries
+     */
+    remove(name: string): Promise<void>;
+    /**
+     * Removes the entries of records with given paths, and adds new entries in a single transaction
+     * @param transaction transaction of a node write in progress, the changes are committed with the node if given
+     */
+    update(name: string, changes: { remove: string[]; add: IndexTableRow[] }, transaction?: unknown): Promise<void>;
+    /**
+     * Counts the entries that are in any of the given ranges
+     */
+    count(name: string, ranges: IndexTableRange[]): Promise<number>;
+    /**
+     * Selects entries that are in any of the given ranges, sorted by their `sortKey` in requested order, then by `path` ascending
+     */
+    select(name: string, ranges: IndexTableRange[], options: { ascending: boolean; skip: number; take: number }): Promise<IndexTableRow[]>;
+}
+
+interface IndexTableDefinition {
+    path: string;
+    key: string;
+    include: string[];
+    caseSensitive: boolean;
+    textLocale: string;
+    textLocaleKey?: string;
+}
+
+interface IndexTableSearch {
+    ranges: IndexTableRange[];
+    /** additional check on values in the ranges */
+    filter?: (value: IndexableValue) => boolean;
+}
+
+const serialize = (val: unknown) => JSON.stringify(Transport.serialize2(val));
+const deserialize = (json: string) => Transport.deserialize2(JSON.parse(json));
+
+function _getIndexName(fileName: string) {
+    return fileName.slice(fileName.lastIndexOf('/') + 1);
+}
+
+function _getSortKey(value: unknown) {
+    // Single values do not need the string terminator used in tuples
+    return encodeValue(value).replace(/\u0000$/, '');
+}
+
+function _isIndexable(value: unknown) {
+    return typeof value === 'undefined' || ['string','number','boolean','bigint'].includes(typeof value) || value instanceof Date;
+}
+
+/**
+ * Index that stores its entries in a table of the database instead of in an index file. Used for normal indexes
+ * (without collation) if the storage provides an `IndexTableStore`
+ */
+export class TableDataIndex extends DataIndex {
+
+    /**
+     * Reads an existing index from the storage's index tables
+     * @returns the index, or `null` if it is not stored in a table
+     */
+    static async readFromTable(storage: Storage, fileName: string): Promise<TableDataIndex | null> {
+        const definition = await storage.indexes.tableStore.get(_getIndexName(fileName));
+        if (definition === null) {
+            return null;
+        }
+        const info = JSON.parse(definition) as IndexTableDefinition;
+        const index = new TableDataIndex(storage, info.path, info.key, {
+            include: info.include,
+            caseSensitive: info.caseSensitive,
+            textLocale: info.textLocale,
+            textLocaleKey: info.textLocaleKey,
+        });
+        index.state = DataIndex.STATE.READY;
+        return index;
+    }
+
+    constructor(storage: Storage, path: string, key: string, options: DataIndexOptions = {}) {
+        if (options.collation) { throw new Error('Indexes stored in tables do not support collations'); }
+        super(storage, path, key, options);
+    }
+
+    get tableStore() {
+        return this.storage.indexes.tableStore;
+    }
+
+    /**
+     * Name the index is stored with in the table store
+     */
+    get indexName() {
+        return _getIndexName(this.fileName);
+    }
+
+    private _toLowerCase<T>(val: T) {
+        if (this.caseSensitive) { return val; }
+        if (typeof val === 'string') { return val.toLocaleLowerCase(this.textLocale) as T; }
+        if (val instanceof Array) { return val.map(val => typeof val === 'string' ? val.toLocaleLowerCase(this.textLocale) : val) as T; }
+        return val;
+    }
+
+    private _createRow(path: string, value: IndexableValue, metadata: IndexMetaData, locale = this.textLocale): IndexTableRow {
+        const prepare = (value: unknown) => {
+            if (!_isIndexable(value)) { return undefined; }
+            if (typeof value === 'string') {
+                // Use the first 255 chars only, like index files do
+                value = value.slice(0, 255);
+                if (!this.caseSensitive) { value = (value as string).toLocaleLowerCase(locale); }
+            }
+            return value as IndexableValue;
+        };
+        value = prepare(value);
+        metadata = this.includeKeys.reduce((obj, key) => (obj[key] = prepare(metadata[key]), obj), {} as IndexMetaData);
+        return { path, sortKey: _getSortKey(value), value: serialize({ value }), metadata: serialize(metadata) };
+    }
+
+    private _parseRow(row: IndexTableRow) {
+        const { value } = deserialize(row.value) as { value: IndexableValue };
+        const metadata = deserialize(row.metadata) as IndexMetaData;
+        this.includeKeys.forEach(key => !(key in metadata) && (metadata[key] = undefined));
+        const key = PathInfo.get(row.path).key;
+        return { path: row.path, key, value, metadata };
+    }
+
+    private _getRecordPointer(path: string, key: string | number): IndexRecordPointer {
+        return _createRecordPointer(this._getWildcardKeys(path), key);
+    }
+
+    /**
+     * Translates a query on the indexed values to ranges of sort keys
+     */
+    private _getSearch(op: string, val: unknown): IndexTableSearch {
+        if (['in','!in','between','!between'].includes(op) && !(val instanceof Array)) {
+            throw new TypeError(`param must be an array when using operator ${op}`);
+        }
+        const key = _getSortKey(val);
+        switch (op) {
+            case '==': return { ranges: [{ gte: key, lte: key }] };
+            case '!=': return { ranges: [{ lt: key }, { gt: key }] };
+            case '<': return { ranges: [{ lt: key }] };
+            case '<=': return { ranges: [{ lte: key }] };
+            case '>': return { ranges: [{ gt: key }] };
+            case '>=': return { ranges: [{ gte: key }] };
+            case 'exists': return { ranges: [{ gt: TYPE_PREFIX.NULL }] };
+            case '!exists': return { ranges: [{ gte: TYPE_PREFIX.NULL, lte: TYPE_PREFIX.NULL }] };
+            case 'in':
+            case '!in': {
+                const keys = [...new Set((val as IndexableValue[]).map(_getSortKey))].sort();
+                if (op === 'in') {
+                    return { ranges: keys.map(key => ({ gte: key, lte: key })) };
+                }
+                if (keys.length === 0) {
+                    return { ranges: [{}] };
+                }
+                // All ranges in between the given values
+                const ranges = keys.map((key, i) => i === 0 ? { lt: key } : { gt: keys[i - 1], lt: key }) as IndexTableRange[];
+                ranges.push({ gt: keys[keys.length - 1] });
+                return { ranges };
+            }
+            case 'between':
+            case '!between': {
+                const [bottom, top] = (val as IndexableValue[]).map(_getSortKey).sort();
+                return { ranges: op === 'between' ? [{ gte: bottom, lte: top }] : [{ lt: bottom }, { gt: top }] };
+            }
+            case 'like':
+            case '!like': {
+                if (typeof val !== 'string') {
+                    throw new TypeError(`search param value must be a string for operator '${op}'`);
+                }
+                const pattern = '^' + val.replace(/\*/g, '.*').replace(/\?/g, '.') + '$';
+                const re = new RegExp(pattern, 'i');
+                if (op === '!like') {
+                    return { ranges: [{}], filter: value => !re.test(String(value)) };
+                }
+                const wildcardIndex = val.search(/[*?]/);
+                const prefix = wildcardIndex < 0 ? val : val.slice(0, wildcardIndex);
+                if (prefix.length === 0) {
+                    return { ranges: [{}], filter: value => re.test(String(value)) };
+                }
+                // Only strings starting with the text before the first wildcard can match
+                const prefixKey = _getSortKey(prefix);
+                return { ranges: [{ gte: prefixKey, lt: prefixKey + '\uffff' }], filter: value => re.test(String(value)) };
+            }
+            case 'matches':
+            case '!matches': {
+                if (!(val instanceof RegExp)) {
+                    throw new TypeError(`search param value must be a RegExp for operator 'matches' and '!matches'`);
+                }
+                return { ranges: [{}], filter: value => val.test(String(value)) === (op === 'matches') };
+            }
+        }
+    }
+
+    /**
+     * Iterates the entries matching a search in batches, until the callback returns `false`
+     */
+    private async _forEachRow(search: IndexTableSearch, ascending: boolean, callback: (row: IndexTableRow) => boolean | void) {
+        if (search.ranges.length === 0) { return; }
+        const take = 1000;
+        let skip = 0;
+        let rows: IndexTableRow[];
+        do {
+            rows = await this.tableStore.select(this.indexName, search.ranges, { ascending, skip, take });
+            skip += rows.length;
+            for (const row of rows) {
+                if (search.filter && !search.filter(this._parseRow(row).value)) {
+                    continue;
+                }
+                if (callback(row) === false) {
+                    return;
+                }
+            }
+        }
+        while (rows.length === take);
+    }
+
+    /**
+     * Iterates the entries matching a search grouped by indexed value, until the callback returns `false`
+     */
+    private async _forEachValue(search: IndexTableSearch, ascending: boolean, callback: (rows: IndexTableRow[]) => boolean | void) {
+        let group = [] as IndexTableRow[];
+        let stopped = false;
+        await this._forEachRow(search, ascending, row => {
+            if (group.length > 0 && group[0].sortKey !== row.sortKey) {
+                stopped = callback(group) === false;
+                group = [];
+                if (stopped) { return false; }
+            }
+            group.push(row);
+        });
+        if (!stopped && group.length > 0) {
+            callback(group);
+        }
+    }
+
+    /**
+     * Iterates all records to index, and gets the values needed to index them
+     */
+    private async _forEachRecord(callback: (path: string, value: unknown) => Promise<void>) {
+        const keys = PathInfo.getPathKeys(this.path);
+        const include = [this.key, ...this.includeKeys].concat(this.textLocaleKey ? [this.textLocaleKey] : []).filter(key => key !== '{key}');
+        const tid = ID.generate();
+        const getAll = async (path: string, keyIndex: number): Promise<void> => {
+            while (keyIndex < keys.length && keys[keyIndex] !== '*') {
+                path = PathInfo.getChildPath(path, keys[keyIndex]);
+                keyIndex++;
+            }
+            const childKeys = [] as Array<string | number>;
+            try {
+                await this.storage.getChildren(path).next(child => {
+                    if (child.address && child.type === VALUE_TYPES.OBJECT) {
+                        childKeys.push(typeof child.index === 'number' ? child.index : child.key);
+                    }
+                });
+            }
+            catch (reason) {
+                // Record doesn't exist? No biggy
+                this.storage.debug.warn(`Could not get children of "/${path}": ${reason.message}`);
+            }
+            for (const childKey of childKeys) {
+                const childPath = PathInfo.getChildPath(path, childKey);
+                if (keyIndex < keys.length) {
+                    // Go deeper
+                    await getAll(childPath, keyIndex + 1);
+                }
+                else {
+                    const { value } = include.length > 0 ? await this.storage.getNode(childPath, { include, tid }) : { value: {} };
+                    await callback(childPath, value);
+                }
+            }
+        };
+        await getAll('', 0);
+    }
+
+    async build() {
+        if ([DataIndex.STATE.BUILD, DataIndex.STATE.REBUILD].includes(this.state)) {
+            throw new Error('Index is already being built');
+        }
+        this.state = this.state === DataIndex.STATE.READY ? DataIndex.STATE.REBUILD : DataIndex.STATE.BUILD;
+        this._buildError = null;
+        this.storage.debug.log(`Index build ${this.description} started`.colorize(ColorStyle.blue));
+        const startTime = Date.now();
+        const lock = await this._lock('exclusive', 24 * 60 * 60 * 1000);
+        try {
+            const definition: IndexTableDefinition = {
+                path: this.path,
+                key: this.key,
+                include: this.includeKeys,
+                caseSensitive: this.caseSensitive,
+                textLocale: this.textLocale,
+                textLocaleKey: this.textLocaleKey,
+            };
+            await this.tableStore.create(this.indexName, JSON.stringify(definition));
+
+            let batch = [] as IndexTableRow[];
+            let indexedValues = 0;
+            const flush = async () => {
+                const add = batch;
+                batch = [];
+                indexedValues += add.length;
+                add.length > 0 && await this.tableStore.update(this.indexName, { remove: [], add });
+            };
+            const getValue = (obj: unknown, key: string) =>
+                PathInfo.getPathKeys(key).reduce((val, key) => val !== null && typeof val === 'object' && key in val ? (val as any)[key] : undefined, obj);
+            await this._forEachRecord(async (path, record) => {
+                const value = this.key === '{key}' ? PathInfo.get(path).key : getValue(record, this.key);
+                if (!_isIndexable(value)) {
+                    return;
+                }
+                const locale = this.textLocaleKey ? getValue(record, this.textLocaleKey) : undefined;
+                const metadata = this.includeKeys.reduce((obj, key) => (obj[key] = getValue(record, key) as IndexableValue, obj), {} as IndexMetaData);
+                batch.push(this._createRow(path, value as IndexableValue, metadata, typeof locale === 'string' ? locale : this.textLocale));
+                if (batch.length >= 500) {
+                    await flush();
+                }
+            });
+            await flush();
+
+            this.clearCache(this.path);
+            const duration = Math.round((Date.now() - startTime) / 1000);
+            this.storage.debug.log(`Index ${this.description} was built successfully with ${indexedValues} values, took ${duration} seconds`.colorize(ColorStyle.green));
+            this.state = DataIndex.STATE.READY;
+        }
+        catch (err) {
+            this.storage.debug.error(`Error building index ${this.description}: ${err?.message || err}`);
+            this.state = DataIndex.STATE.ERROR;
+            this._buildError = err;
+            throw err;
+        }
+        finally {
+            lock.release();
+        }
+        this._processUpdateQueue(); // Process updates queued during build
+        return this;
+    }
+
+    async _updateTree(path: string, oldValue: IndexableValue, newValue: IndexableValue, oldRecordPointer: IndexRecordPointer, newRecordPointer: IndexRecordPointer, metadata: IndexMetaData, transaction?: unknown) {
+        // Replace the record's entry, if it had one
+        const add = newValue !== null && _isIndexable(newValue) ? [this._createRow(path, newValue, metadata ?? {})] : [];
+        await this.tableStore.update(this.indexName, { remove: [path], add }, transaction);
+        this.storage.debug.verbose(`Index ${this.description} was updated successfully for "/${path}"`.colorize(ColorStyle.green));
+
+        // Process any queued updates
+        return await this._processUpdateQueue();
+    }
+
+    async count(op: string, val: IndexableValueOrArray) {
+        val = this._toLowerCase(val);
+        const cacheKey = op + '{count}';
+        const cache = this.cache(cacheKey, val);
+        if (cache) {
+            return cache;
+        }
+        const search = this._getSearch(op, val);
+        let count = 0;
+        if (search.filter) {
+            await this._forEachRow(search, true, () => { count++; });
+        }
+        else if (search.ranges.length > 0) {
+            count = await this.tableStore.count(this.indexName, search.ranges);
+        }
+        this.cache(cacheKey, val, count);
+        return count;
+    }
+
+    async take(skip: number, take: number, options: Parameters<DataIndex['take']>[2] = {}) {
+        const ascending = options.ascending !== false;
+        const sort = options.metadataSort?.length > 0 ? options.metadataSort : [];
+        sort.forEach(s => {
+            if (!this.allMetadataKeys.includes(s.key)) {
+                throw new Error(`Cannot sort on metadata key ${s.key} because it is not present in index ${this.fileName}`);
+            }
+        });
+        const after = options.after ?? null;
+
+        const cacheKey = JSON.stringify({ skip, take, options });
+        const cache = this.cache('take', cacheKey);
+        if (cache) {
+            return cache;
+        }
+
+        const stats = new IndexQueryStats('take', { skip, take, ascending }, true);
+        const results = new IndexQueryResults();
+        results.filterKey = this.key;
+        const addResult = (row: IndexTableRow) => {
+            const { key, path, value, metadata } = this._parseRow(row);
+            results.push(new IndexQueryResult(key, path, value, metadata));
+        };
+
+        if (sort.length === 0 && typeof options.after === 'undefined') {
+            // Entries with the same value are stored in path order, no need to sort them ourselves
+            const rows = await this.tableStore.select(this.indexName, [{}], { ascending, skip, take });
+            rows.forEach(addResult);
+        }
+        else {
+            // Sort entries with the same value on given metadata and paths, and continue after the cursor position
+            type ValuePosition = { metadata: IndexMetaData; path: string };
+            const comparePositions = (a: ValuePosition, b: ValuePosition) => {
+                for (const { key, ascending, collation } of sort) {
+                    const diff = compareSortValues(a.metadata[key], b.metadata[key], getCollator(collation));
+                    if (diff !== 0) { return ascending ? diff : -diff; }
+                }
+                return a.path === b.path ? 0 : a.path < b.path ? -1 : 1;
+            };
+            const afterKey = after && _getSortKey(this._toLowerCase(after.value));
+            const afterPosition = after && {
+                metadata: sort.reduce((metadata, s, i) => (metadata[s.key] = after.metadata[i], metadata), {} as IndexMetaData),
+                path: after.path,
+            };
+            const search = { ranges: [afterKey === null ? {} : ascending ? { gte: afterKey } : { lte: afterKey }] };
+            let skipped = 0;
+            await this._forEachValue(search, ascending, rows => {
+                const positions = rows.map(row => ({ row, position: { metadata: this._parseRow(row).metadata, path: row.path } }));
+                positions.sort((a, b) => comparePositions(a.position, b.position));
+                for (const { row, position } of positions) {
+                    if (row.sortKey === afterKey && comparePositions(position, afterPosition) <= 0) {
+                        continue;
+                    }
+                    if (skipped < skip) {
+                        skipped++;
+                        continue;
+                    }
+                    addResult(row);
+                    if (results.length === take) {
+                        return false;
+                    }
+                }
+            });
+        }
+
+        stats.stop(results.length);
+        results.stats = stats;
+        this.cache('take', cacheKey, results);
+        return results;
+    }
+
+    async forEachEntry(callback: (value: IndexableValue, count: number, metadata?: IndexMetaData[]) => void, options: { metadata?: boolean } = {}) {
+        await this._forEachValue({ ranges: [{}] }, true, rows => {
+            const entries = rows.map(row => this._parseRow(row));
+            callback(entries[0].value, entries.length, options.metadata ? entries.map(entry => entry.metadata) : undefined);
+        });
+    }
+
+    async query(op: BlacklistingSearchOperator): Promise<IndexQueryResults>;
+    async query(op: string, val: IndexableValueOrArray, options?: {
+        /** previous results to filter upon */
+        filter?: IndexQueryResults
+    }): Promise<IndexQueryResults>;
+    async query(op: string | BlacklistingSearchOperator, val?: unknown, options: { filter?: IndexQueryResults } = { }): Promise<IndexQueryResults> {
+        if (op instanceof BlacklistingSearchOperator || !DataIndex.validOperators.includes(op)) {
+            throw new TypeError(`Cannot use operator "${op}" to query index "${this.description}"`);
+        }
+        val = this._toLowerCase(val);
+
+        const stats = new IndexQueryStats('query', { op, val }, true);
+
+        let rows = this.cache(op, val) as IndexTableRow[];
+        if (!rows) {
+            const matches = [] as IndexTableRow[];
+            await this._forEachRow(this._getSearch(op, val), true, row => { matches.push(row); });
+            rows = matches;
+            this.cache(op, val, rows);
+        }
+
+        if (options.filter) {
+            const filterStep = new IndexQueryStats('filter', { entryValues: rows.length, filterValues: options.filter.length }, true);
+            stats.steps.push(filterStep);
+            const paths = new Set(options.filter.map(result => result.path));
+            rows = rows.filter(row => paths.has(row.path));
+            filterStep.stop({ results: rows.length, values: rows.length });
+        }
+
+        const results = new IndexQueryResults();
+        results.filterKey = this.key;
+        results.entryValues = [];
+        rows.forEach(row => {
+            const { key, path, value, metadata } = this._parseRow(row);
+            results.push(new IndexQueryResult(key, path, value, metadata));
+            results.entryValues.push(new BPlusTreeLeafEntryValue(this._getRecordPointer(path, key), metadata));
+        });
+
+        stats.stop(results.length);
+        results.stats = stats;
+        return results;
+    }
+
+    async delete() {
+        await this.tableStore.remove(this.indexName);
+        this.state = DataIndex.STATE.REMOVED;
+    }
+
+    async close() {
+        this.state = DataIndex.STATE.CLOSED;
+    }
+}
@@ -0,0 +1,106 @@
+import { IndexableValue } from './shared';
+
+/**
+ * Type prefixes of encoded tuple values, ordered the same way the B+tree compares
+ * values of different types: null, boolean, number (+Dates), string
+ */
+export const TYPE_PREFIX = {
+    NULL: '0',
+    BOOLEAN: '1',
+    NUMBER: '2',
+    STRING: '4',
+    /** Higher than any other type prefix, used as exclusive upper bound */
+    END: '5',
+};
+
+export function getTypePrefix(value: unknown) {
+    if (typeof value === 'boolean') { return TYPE_PREFIX.BOOLEAN; }
+    if (typeof value === 'number' || typeof value === 'bigint' || value instanceof Date) { return TYPE_PREFIX.NUMBER; }
+    if (typeof value === 'string') { return TYPE_PREFIX.STRING; }
+    return TYPE_PREFIX.NULL;
+}
+
+export function getNextTypePrefix(prefix: string) {
+    return String.fromCharCode(prefix.charCodeAt(0) + (prefix === TYPE_PREFIX.NUMBER ? 2 : 1));
+}
+
+/**
+ * Encodes a single tuple value to a string that sorts the same way as the value itself
+ */
+export function encodeValue(value: unknown): string {
+    const prefix = getTypePrefix(value);
+    switch (prefix) {
+        case TYPE_PREFIX.BOOLEAN: {
+            return prefix + (value ? '1' : '0');
+        }
+        case TYPE_PREFIX.NUMBER: {
+            // Order-preserving IEEE 754 representation: flip the sign bit of positive numbers,
+            // flip all bits of negative numbers
+            const n = value instanceof Date ? value.getTime() : Number(value);
+            const view = new DataView(new ArrayBuffer(8));
+            view.setFloat64(0, n === 0 ? 0 : n); // Prevents -0
+            const negative = (view.getUint8(0) & 0x80) === 0x80;
+            let hex = '';
+            for (let i = 0; i < 8; i++) {
+                const byte = view.getUint8(i);
+                const encoded = negative ? ~byte & 0xff : i === 0 ? byte | 0x80 : byte;
+                hex += encoded.toString(16).padStart(2, '0');
+            }
+            return prefix + hex;
+        }
+        case TYPE_PREFIX.STRING: {
+            // Escape \u0000 and \u0001 so \u0000 can be used as terminator
+            return prefix + (value as string).replace(/\u0001/g, '\u0001\u0002').replace(/\u0000/g, '\u0001\u0001') + '\u0000';
+        }
+        default: {
+            return prefix;
+        }
+    }
+}
+
+export function compareEncodedValues(val1: unknown, val2: unknown) {
+    const a = encodeValue(val1), b = encodeValue(val2);
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Decodes an encoded tuple back into its values. Dates are decoded as numbers.
+ * Decoding stops at the first incomplete value (which can happen if the key was truncated)
+ */
+export function decodeTuple(encoded: string) {
+    const values = [] as IndexableValue[];
+    let i = 0;
+    while (i < encoded.length) {
+        const prefix = encoded[i];
+        i++;
+        if (prefix === TYPE_PREFIX.NULL) {
+            values.push(null);
+        }
+        else if (prefix === TYPE_PREFIX.BOOLEAN) {
+            if (i >= encoded.length) { break; }
+            values.push(encoded[i] === '1');
+            i++;
+        }
+        else if (prefix === TYPE_PREFIX.NUMBER) {
+            if (i + 16 > encoded.length) { break; }
+            const view = new DataView(new ArrayBuffer(8));
+            const negative = (parseInt(encoded.slice(i, i + 2), 16) & 0x80) === 0;
+            for (let j = 0; j < 8; j++) {
+                const byte = parseInt(encoded.slice(i + j * 2, i + j * 2 + 2), 16);
+                view.setUint8(j, negative ? ~byte & 0xff : j === 0 ? byte & 0x7f : byte);
+            }
+            values.push(view.getFloat64(0));
+            i += 16;
+        }
+        else if (prefix === TYPE_PREFIX.STRING) {
+            const end = encoded.indexOf('\u0000', i);
+            if (end < 0) { break; }
+            values.push(encoded.slice(i, end).replace(/\u0001\u0001/g, '\u0000').replace(/\u0001\u0002/g, '\u0001'));
+            i = end + 1;
+        }
+        else {
+            break;
+        }
+    }
+    return values;
+}
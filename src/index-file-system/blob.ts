@@ -0,0 +1,361 @@
+import type { IndexFileSystem, IndexWriteStream } from '.';
+
+/**
+ * Binary blob store to persist index files in, eg an IndexedDB object store.
+ * Blobs are stored by their full file path
+ */
+export interface IndexBlobStore {
+    /**
+     * Gets a stored blob
+     * @returns the stored data, or `null` if the blob does not exist
+     */
+    get(name: string): Promise<Uint8Array | null>;
+    /**
+     * Creates or overwrites a blob
+     */
+    set(name: string, data: Uint8Array): Promise<void>;
+    /**
+     * Removes a blob, must not fail if it does not exist
+     */
+    remove(name: string): Promise<void>;
+    /**
+     * Gets the names of all stored blobs
+     */
+    list(): Promise<string[]>;
+}
+
+interface BlobFile {
+    path: string;
+    data: Uint8Array;
+    length: number;
+    openCount: number;
+    dirty: boolean;
+    removed: boolean;
+    persisted: Promise<void>;
+    timeout: ReturnType<typeof setTimeout>;
+}
+
+interface BlobFileHandle {
+    file: BlobFile;
+    position: number;
+    append: boolean;
+}
+
+function fileSystemError(code: string, message: string) {
+    const err = new Error(`${code}: ${message}`) as Error & { code: string };
+    err.code = code;
+    return err;
+}
+
+/**
+ * Name of the blob that marks the files in a directory as in use, relative to the directory
+ */
+const IN_USE_MARKER = '.in-use';
+
+/**
+ * Index file system that keeps opened files in memory, and persists them to a blob store.
+ * Changed files are persisted after a short delay so consecutive writes are stored at once, and
+ * immediately when they are synced or closed. Files might be missing changes if the app stops before
+ * then, use `markInUse` to detect this the next time
+ */
+export class BlobIndexFileSystem implements IndexFileSystem {
+    private files = new Map<string, BlobFile>();
+    private handles = new Map<number, BlobFileHandle>();
+    private lastFd = 0;
+
+    /**
+     * @param store blob store to persist index files in
+     * @param persistDelay how many ms to wait before persisting a changed file
+     */
+    constructor(private store: IndexBlobStore, private persistDelay = 1000) {}
+
+    private async load(path: string) {
+        if (this.files.has(path)) {
+            return this.files.get(path);
+        }
+        const data = await this.store.get(path);
+        if (this.files.has(path)) {
+            // Loaded or created while the store was being read
+            return this.files.get(path);
+        }
+        if (!data) {
+            return null;
+        }
+        const file = this.createFile(path, data);
+        this.files.set(path, file);
+        return file;
+    }
+
+    private createFile(path: string, data = new Uint8Array(0)): BlobFile {
+        return { path, data, length: data.byteLength, openCount: 0, dirty: false, removed: false, persisted: Promise.resolve(), timeout: null };
+    }
+
+    private getHandle(fd: number) {
+        const handle = this.handles.get(fd);
+        if (!handle) { throw fileSystemError('EBADF', `bad file descriptor ${fd}`); }
+        return handle;
+    }
+
+    private changed(file: BlobFile) {
+        file.dirty = true;
+        if (file.timeout) { return; }
+        file.timeout = setTimeout(() => {
+            file.timeout = null;
+            this.persist(file).catch(() => {
+                // Try again with the next write, sync or close
+                file.dirty = true;
+            });
+        }, this.persistDelay);
+        file.timeout.unref && file.timeout.unref();
+    }
+
+    private persist(file: BlobFile) {
+        if (file.timeout) {
+            clearTimeout(file.timeout);
+            file.timeout = null;
+        }
+        if (!file.dirty || file.removed) {
+            return file.persisted;
+        }
+        file.dirty = false;
+        const data = file.data.slice(0, file.length);
+        const path = file.path;
+        // eslint-disable-next-line @typescript-eslint/no-empty-function
+        file.persisted = file.persisted.catch(() => {}).then(() => file.removed ? undefined : this.store.set(path, data));
+        return file.persisted;
+    }
+
+    private release(file: BlobFile) {
+        // Unload files that are not open anymore, they will be read from the store again when needed
+        if (file.openCount === 0 && !file.dirty && this.files.get(file.path) === file) {
+            this.files.delete(file.path);
+        }
+    }
+
+    async exists(path: string) {
+        return this.files.has(path) || (await this.store.get(path)) !== null;
+    }
+
+    async open(path: string, flags: string) {
+        let file = await this.load(path);
+        if (file && flags.includes('x')) {
+            throw fileSystemError('EEXIST', `file already exists, open '${path}'`);
+        }
+        if (!file && flags.startsWith('r')) {
+            throw fileSystemError('ENOENT', `no such file, open '${path}'`);
+        }
+        if (!file) {
+            file = this.createFile(path);
+            this.files.set(path, file);
+            this.changed(file);
+        }
+        else if (flags.startsWith('w')) {
+            file.data.fill(0, 0, file.length);
+            file.length = 0;
+            this.changed(file);
+        }
+        file.openCount++;
+        const fd = ++this.lastFd;
+        this.handles.set(fd, { file, position: 0, append: flags.startsWith('a') });
+        return fd;
+    }
+
+    async read<T extends Uint8Array>(fd: number, buffer: T, offset = 0, length = buffer.byteLength - offset, position?: number) {
+        const handle = this.getHandle(fd);
+        const file = handle.file;
+        const start = typeof position === 'number' ? position : handle.position;
+        const bytesRead = Math.max(0, Math.min(length, file.length - start));
+        if (bytesRead > 0) {
+            buffer.set(file.data.subarray(start, start + bytesRead), offset);
+        }
+        if (typeof position !== 'number') {
+            handle.position += bytesRead;
+        }
+        return { bytesRead, buffer };
+    }
+
+    async write(fd: number, data: Uint8Array, offset = 0, length = data.byteLength - offset, position?: number) {
+        const handle = this.getHandle(fd);
+        const file = handle.file;
+        const start = handle.append ? file.length : typeof position === 'number' ? position : handle.position;
+        const end = start + length;
+        if (end > file.data.byteLength) {
+            // Grow the buffer, reserve some room for more writes
+            const grown = new Uint8Array(Math.max(end, file.data.byteLength * 2, 4096));
+            grown.set(file.data.subarray(0, file.length));
+            file.data = grown;
+        }
+        file.data.set(data.subarray(offset, offset + length), start);
+        file.length = Math.max(file.length, end);
+        if (handle.append || typeof position !== 'number') {
+            handle.position = end;
+        }
+        this.changed(file);
+        return { bytesWritten: length };
+    }
+
+    async fsync(fd: number) {
+        await this.persist(this.getHandle(fd).file);
+    }
+
+    async close(fd: number) {
+        const handle = this.getHandle(fd);
+        this.handles.delete(fd);
+        const file = handle.file;
+        file.openCount--;
+        await this.persist(file);
+        this.release(file);
+    }
+
+    async truncate(path: string, length = 0) {
+        const file = await this.load(path);
+        if (!file) {
+            throw fileSystemError('ENOENT', `no such file, truncate '${path}'`);
+        }
+        if (length > file.data.byteLength) {
+            const grown = new Uint8Array(length);
+            grown.set(file.data.subarray(0, file.length));
+            file.data = grown;
+        }
+        else if (length < file.length) {
+            file.data.fill(0, length, file.length);
+        }
+        file.length = length;
+        this.changed(file);
+        await this.persist(file);
+        this.release(file);
+    }
+
+    async rename(oldPath: string, newPath: string) {
+        const file = await this.load(oldPath);
+        if (!file) {
+            throw fileSystemError('ENOENT', `no such file, rename '${oldPath}' -> '${newPath}'`);
+        }
+        const target = this.files.get(newPath);
+        if (target) {
+            // Overwrite target, open handles keep their in-memory copy
+            target.removed = true;
+            clearTimeout(target.timeout);
+            // eslint-disable-next-line @typescript-eslint/no-empty-function
+            await target.persisted.catch(() => {});
+        }
+        this.files.delete(oldPath);
+        file.path = newPath;
+        this.files.set(newPath, file);
+        this.changed(file);
+        await this.persist(file);
+        await this.store.remove(oldPath);
+        this.release(file);
+    }
+
+    async rm(path: string) {
+        const file = this.files.get(path);
+        if (file) {
+            file.removed = true;
+            clearTimeout(file.timeout);
+            this.files.delete(path);
+            // eslint-disable-next-line @typescript-eslint/no-empty-function
+            await file.persisted.catch(() => {});
+        }
+        await this.store.remove(path);
+    }
+
+    /**
+     * Marks the files in a directory as in use, until `unmarkInUse` is called once they are closed
+     * @returns whether the files were still marked as in use by a previous session that did not end properly,
+     * in which case they might be missing changes
+     */
+    async markInUse(dir: string) {
+        const marker = `${dir}/${IN_USE_MARKER}`;
+        const inUse = (await this.store.get(marker)) !== null;
+        await this.store.set(marker, new Uint8Array(0));
+        return inUse;
+    }
+
+    /**
+     * Persists all changed files in a directory, and removes the in use mark set by `markInUse`
+     */
+    async unmarkInUse(dir: string) {
+        const files = [...this.files.values()].filter(file => file.path.startsWith(`${dir}/`));
+        await Promise.all(files.map(file => this.persist(file)));
+        await this.store.remove(`${dir}/${IN_USE_MARKER}`);
+    }
+
+    async readdir(path: string) {
+        const prefix = path.endsWith('/') ? path : `${path}/`;
+        const paths = new Set([...await this.store.list(), ...this.files.keys()]);
+        return [...paths]
+            .filter(name => name.startsWith(prefix) && !name.includes('/', prefix.length))
+            .map(name => name.slice(prefix.length));
+    }
+
+    async mkdir() {
+        // Directories are implicit, file paths are stored as blob names
+    }
+
+    createWriteStream(path: string, options: { flags?: string; fd?: number; autoClose?: boolean }) {
+        return new BlobFileWriteStream(this, path, options);
+    }
+}
+
+/**
+ * Write stream to a file in a `BlobIndexFileSystem`. Writes go to memory, so the stream never needs to be drained
+ */
+class BlobFileWriteStream implements IndexWriteStream {
+    bytesWritten = 0;
+    private listeners = [] as Array<{ event: string; listener: (...args: any[]) => void; once: boolean }>;
+    private fd: Promise<number>;
+    private queue: Promise<void>;
+
+    constructor(private fs: BlobIndexFileSystem, path: string, private options: { flags?: string; fd?: number; autoClose?: boolean }) {
+        this.fd = typeof options.fd === 'number' ? Promise.resolve(options.fd) : fs.open(path, options.flags ?? 'w');
+        this.queue = this.fd.then(
+            fd => { this.emit('open', fd); },
+            err => { this.emit('error', err); },
+        );
+    }
+
+    private emit(event: string, ...args: any[]) {
+        const listeners = this.listeners.filter(l => l.event === event);
+        this.listeners = this.listeners.filter(l => !(l.event === event && l.once));
+        listeners.forEach(l => l.listener(...args));
+    }
+
+    write(data: Uint8Array, callback?: (err?: Error | null) => void) {
+        this.queue = this.queue.then(async () => {
+            const fd = await this.fd.catch(() => null as number);
+            if (fd === null) { return; } // File could not be opened, error was emitted already
+            try {
+                await this.fs.write(fd, data);
+                this.bytesWritten += data.byteLength;
+                callback?.(null);
+            }
+            catch (err) {
+                callback?.(err);
+                this.emit('error', err);
+            }
+        });
+        return true;
+    }
+
+    end(callback?: (...args: any[]) => void) {
+        this.queue = this.queue.then(async () => {
+            const fd = await this.fd.catch(() => null as number);
+            if (fd !== null && this.options.autoClose !== false) {
+                await this.fs.close(fd);
+            }
+            callback?.();
+        });
+        return this;
+    }
+
+    on(event: string, listener: (...args: any[]) => void) {
+        this.listeners.push({ event, listener, once: false });
+        return this;
+    }
+
+    once(event: string, listener: (...args: any[]) => void) {
+        this.listeners.push({ event, listener, once: true });
+        return this;
+    }
+}
@@ -0,0 +1,61 @@
+import { pfs } from '../promise-fs';
+export { BlobIndexFileSystem, IndexBlobStore } from './blob';
+
+/**
+ * Minimal write stream used to sequentially write (large) index build files
+ */
+export interface IndexWriteStream {
+    readonly bytesWritten: number;
+    write(data: Uint8Array, callback?: (err?: Error | null) => void): boolean;
+    end(callback?: (...args: any[]) => void): unknown;
+    on(event: 'open' | 'drain' | 'error', listener: (...args: any[]) => void): unknown;
+    once(event: 'open' | 'drain' | 'error', listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * File system index files are stored in. Mirrors the subset of `pfs` used by indexes, so index files can
+ * be stored on disk in Node.js, or in any other (browser) storage backend that is able to store binary blobs.
+ * File descriptors and flags have the same meaning as they have in Node.js `fs`, failures reject with errors
+ * that have an `fs` error `code` such as `"ENOENT"` or `"EEXIST"`
+ */
+export interface IndexFileSystem {
+    exists(path: string): Promise<boolean>;
+    open(path: string, flags: string): Promise<number>;
+    /**
+     * Reads from an open file. If `position` is not given, data is read from the current file position
+     */
+    read<T extends Uint8Array>(fd: number, buffer: T, offset?: number, length?: number, position?: number): Promise<{ bytesRead: number; buffer: T }>;
+    /**
+     * Writes to an open file. If `position` is not given, data is written at the current file position
+     */
+    write(fd: number, data: Uint8Array, offset?: number, length?: number, position?: number): Promise<{ bytesWritten: number }>;
+    fsync(fd: number): Promise<void>;
+    close(fd: number): Promise<void>;
+    truncate(path: string, length?: number): Promise<void>;
+    rename(oldPath: string, newPath: string): Promise<void>;
+    rm(path: string): Promise<void>;
+    readdir(path: string): Promise<string[]>;
+    mkdir(path: string): Promise<void>;
+    /**
+     * Creates a write stream to a file, or to an already opened file if `options.fd` is given
+     */
+    createWriteStream(path: string, options: { flags?: string; fd?: number; autoClose?: boolean }): IndexWriteStream;
+}
+
+/**
+ * Stores index files in the Node.js filesystem
+ */
+export const NodeIndexFileSystem: IndexFileSystem = {
+    exists: path => pfs.exists(path),
+    open: (path, flags) => pfs.open(path, flags),
+    read: (fd, buffer, offset, length, position) => pfs.read(fd, buffer, offset, length, position),
+    write: (fd, data, offset, length, position) => pfs.write(fd, data, offset, length, position),
+    fsync: fd => pfs.fsync(fd),
+    close: fd => pfs.close(fd),
+    truncate: (path, length) => pfs.truncate(path, length),
+    rename: (oldPath, newPath) => pfs.rename(oldPath, newPath),
+    rm: path => pfs.rm(path),
+    readdir: async path => (await pfs.readdir(path)) as string[],
+    mkdir: path => pfs.mkdir(path),
+    createWriteStream: (path, options) => pfs.fs.createWriteStream(path, options),
+};
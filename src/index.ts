@@ -48,6 +48,7 @@ export {
 export { AceBaseStorageSettings } from './storage/binary';
 export { SQLiteStorageSettings } from './storage/sqlite';
 export { MSSQLStorageSettings } from './storage/mssql';
+export { MemoryStorageSettings } from './storage/memory';
 
 export {
     CustomStorageTransaction,
@@ -63,3 +64,12 @@ export {
     IPCClientSettings,
     SchemaValidationError,
 } from './storage';
+
+export { Trigger, TriggerEvent } from './storage/triggers';
+export { AggregateOptions, AggregateResult } from './query-aggregate';
+export { CollationOptions } from './collation';
+export { LocalQueryOrder, LocalQueryFilter } from './query';
+export { IndexBlobStore } from './index-file-system';
+export { AceBaseIPCServer, IPCServerSettings, IPCServerStatus, IPCServerPeerInfo, IPCServerLockInfo } from './ipc';
+export { IPCStatus, IPCLockStatus, IPCDebugEvent, AceBaseIPCMasterFencedError } from './ipc/ipc';
+export { IPCMessageMetrics, IPCRequestMetrics } from './ipc/metrics';
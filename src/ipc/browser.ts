@@ -1,18 +1,32 @@
 import { ID, Transport } from 'acebase-core';
-import { AceBaseIPCPeer, IAceBaseIPCLock, IHelloMessage, IMessage } from './ipc';
+import { AceBaseIPCPeer, AceBaseIPCMasterChangedError, IHelloMessage, ILockRequestData, IMasterLeaseData, IMessage, IPulseMessage } from './ipc';
 import { Storage } from '../storage';
 import { NotSupported } from '../not-supported';
 
 type MessageEventCallback = (event: MessageEvent) => any;
 
+/** Time in ms the master tab's lease lasts, other tabs elect a new master if it is not renewed by a pulse */
+const leaseTime = 5000;
+
 /**
  * Browser tabs IPC. Database changes and events will be synchronized automatically.
  * Locking of resources will be done by the election of a single locking master:
- * the one with the lowest id.
+ * the one with the lowest id. The master renews its lease with a "pulse" to all tabs. If it leaves, or its lease
+ * expires because its tab crashed or was frozen, the live tab with the lowest id takes over: locks granted by the
+ * previous master are handed over to it, and it only grants these during the first quarter of the lease time.
  */
 export class IPCPeer extends AceBaseIPCPeer {
 
     private channel: BroadcastChannel;
+    private term = 0;
+    /** When the lease of the master tab expires, other tabs start an election after that */
+    private masterLease = 0;
+    /** When our own lease expires if we are the master */
+    private ownLease = 0;
+    /** Set while we are the master but our lease expired */
+    private suspension: { promise: Promise<void>; resume: () => void } = null;
+    /** Resolves once other tabs had time to hand over locks granted by the previous master, after we were elected */
+    private takeover: Promise<void> = null;
 
     constructor(storage: Storage) {
         super(storage, ID.generate());
@@ -100,65 +114,182 @@ export class IPCPeer extends AceBaseIPCPeer {
 
             storage.debug.verbose(`[BroadcastChannel] received: `, message);
 
-            if (message.type === 'hello' && message.from < this.masterPeerId) {
-                // This peer was created before other peer we thought was the master
+            if (message.type === 'hello' && this.term === 0 && message.from < this.masterPeerId) {
+                // This peer was created before other peer we thought was the master. Once a master
+                // was elected because the first one left, we learn who the master is from its pulse
                 this.masterPeerId = message.from;
                 storage.debug.log(`[BroadcastChannel] Tab ${this.masterPeerId} is the master.`);
             }
             else if (message.type === 'bye' && message.from === this.masterPeerId) {
-                // The master tab is leaving
+                // The master tab is leaving, it released its locks already
                 storage.debug.log(`[BroadcastChannel] Master tab ${this.masterPeerId} is leaving`);
-
-                // Elect new master
-                const allPeerIds = this.peers.map(peer => peer.id).concat(this.id).filter(id => id !== this.masterPeerId); // All peers, including us, excluding the leaving master peer
-                this.masterPeerId = allPeerIds.sort()[0];
-
-                storage.debug.log(`[BroadcastChannel] ${this.masterPeerId === this.id ? 'We are' : `tab ${this.masterPeerId} is`} the new master. Requesting ${this._locks.length} locks (${this._locks.filter(r => !r.granted).length} pending)`);
-
-                // Let the new master take over any locks and lock requests.
-                const requests =  this._locks.splice(0); // Copy and clear current lock requests before granted locks are requested again.
-
-                // Request previously granted locks again
-                await Promise.all(requests.filter(req => req.granted).map(async req => {
-                    // Prevent race conditions: if the existing lock is released or moved to parent before it was
-                    // moved to the new master peer, we'll resolve their promises after releasing/moving the new lock
-                    let released:(none?: any) => void, movedToParent:(lock: IAceBaseIPCLock) => void;
-                    req.lock.release = () => { return new Promise(resolve => released = resolve); };
-                    req.lock.moveToParent = () => { return new Promise(resolve => movedToParent = resolve); };
-
-                    // Request lock again:
-                    const lock = await this.lock({ path: req.lock.path, write: req.lock.forWriting, tid: req.lock.tid, comment: req.lock.comment });
-                    if (movedToParent) {
-                        const newLock = await lock.moveToParent();
-                        movedToParent(newLock);
-                    }
-                    if (released) {
-                        await lock.release();
-                        released();
-                    }
-                }));
-
-                // Now request pending locks again
-                await Promise.all(requests.filter(req => !req.granted).map(async req => {
-                    await this.lock(req.request);
-                }));
+                this.electMaster();
             }
 
             return this.handleMessage(message);
         });
 
-        // // Schedule periodic "pulse" to let others know we're still around
-        // setInterval(() => {
-        //     sendMessage(<IPulseMessage>{ from: tabId, type: 'pulse' });
-        // }, 30000);
-
         // Send hello to other peers
         const helloMsg:IHelloMessage = { type: 'hello', from: this.id, data: undefined };
         this.sendMessage(helloMsg);
+
+        this.startPulse();
+    }
+
+    /**
+     * Sends a "pulse" to all tabs every quarter of the lease time, so they know we're still around. If we are the master,
+     * the pulse renews our lease. Starts a master election if the lease of the master expired, eg because its tab crashed
+     * or was frozen by the browser without saying "bye"
+     */
+    private startPulse() {
+        this.masterLease = this.ownLease = Date.now() + leaseTime;
+        const interval: ReturnType<typeof setInterval> = setInterval(() => {
+            if (this._exiting) { return clearInterval(interval); }
+            if (this.isMaster && !this.suspension && this.leaseExpiring) {
+                this.suspend();
+            }
+            this.sendPulse();
+            if ((!this.isMaster || this.suspension) && Date.now() > this.masterLease) {
+                this.storage.debug.warn(`[BroadcastChannel] Lease of master tab ${this.masterPeerId} expired`);
+                this.electMaster();
+            }
+        }, leaseTime / 4);
+    }
+
+    private sendPulse() {
+        const isMaster = this.isMaster && !this.suspension;
+        const pulse: IPulseMessage = { type: 'pulse', from: this.id, data: isMaster ? { term: this.term } : undefined };
+        this.sendMessage(pulse);
+        if (isMaster) {
+            // Posting to the other tabs can't fail, so our pulse renews our lease
+            this.ownLease = Date.now() + leaseTime;
+        }
+    }
+
+    /** Whether our lease as master would expire before the next pulse renews it */
+    private get leaseExpiring() { return Date.now() > this.ownLease - leaseTime / 4; }
+
+    /**
+     * Stops granting locks and handling requests because our lease as master expired, eg because our tab was frozen.
+     * Waits for the pulse of the new master, or starts an election if none is received within the lease time.
+     * Renews the lease instead if there are no other tabs
+     */
+    private suspend() {
+        if (this.peers.length === 0) {
+            // There are no other tabs that could have taken over
+            return this.sendPulse();
+        }
+        this.storage.debug.warn(`[BroadcastChannel] Lease of master tab ${this.id} (us) expired, waiting for a new master`);
+        let resume: () => void;
+        const promise = new Promise<void>(resolve => resume = resolve);
+        this.suspension = { promise, resume };
+        this.masterLease = Date.now() + leaseTime;
+    }
+
+    private resume() {
+        const suspension = this.suspension;
+        this.suspension = null;
+        suspension?.resume();
+    }
+
+    /**
+     * Waits while we are the master but our lease expired
+     */
+    private async fence() {
+        if (this.isFenced()) {
+            await this.suspension.promise;
+        }
+    }
+
+    /**
+     * Whether writes are not allowed because our lease as master expired
+     */
+    public isFenced() {
+        if (!this.isMaster) { return false; }
+        if (!this.suspension && this.leaseExpiring) {
+            // Timer did not run in time, eg because the tab was frozen
+            this.suspend();
+        }
+        return this.suspension !== null;
+    }
+
+    /**
+     * Requests a lock, waits while our lease as master expired, or while tabs hand over their locks after we were elected
+     */
+    public async lock(details: ILockRequestData, peerId = this.id) {
+        await this.fence();
+        if (!this.isMaster && peerId !== this.id) {
+            // We were replaced while suspended, the tab will request the lock from the new master
+            throw new AceBaseIPCMasterChangedError(this.id, this.masterPeerId);
+        }
+        if (this.isMaster && !details.handover) {
+            // Don't grant locks that might conflict with locks granted by the previous master before they are handed over to us
+            await this.takeover;
+        }
+        return super.lock(details, peerId);
+    }
+
+    /**
+     * Elects the live tab with the lowest id as the new master. All tabs elect the same master, because they know the same tabs.
+     * If that's us, we take over the master role and let the others know with a pulse, the others wait for that pulse
+     */
+    private electMaster() {
+        if ((this.isMaster && !this.suspension) || this._exiting) { return; }
+        const now = Date.now();
+        const candidates = this.peers
+            .filter(peer => peer.id !== this.masterPeerId && now - peer.lastSeen < leaseTime)
+            .map(peer => peer.id)
+            .concat(this.id)
+            .sort();
+        const winner = candidates[0];
+        this.storage.debug.log(`[BroadcastChannel] ${winner === this.id ? 'We are' : `tab ${winner} is`} the new master`);
+        this.masterLease = now + leaseTime; // Give the new master time to take over
+        if (winner === this.id) {
+            this.term++;
+            this.takeover = new Promise(resolve => {
+                // Tabs hand over their locks once they receive our pulse
+                setTimeout(resolve, leaseTime / 4);
+            });
+            this.setMaster(this.id);
+            this.resume();
+            this.sendPulse();
+        }
+    }
+
+    private handleMasterPulse(from: string, lease: IMasterLeaseData) {
+        if (lease.term < this.term || (lease.term === this.term && from !== this.masterPeerId && from > this.masterPeerId)) {
+            // Pulse of a master that was replaced, or that lost a simultaneous election.
+            // It will step down once it receives a pulse of the master we know
+            return;
+        }
+        this.term = lease.term;
+        this.masterLease = Date.now() + leaseTime;
+        this.setMaster(from);
+        this.resume();
+    }
+
+    protected async handleMessage(message: IMessage) {
+        if (message.type === 'pulse' && message.data) {
+            this.handleMasterPulse(message.from, message.data);
+        }
+        if (['lock-result', 'unlock-result', 'result'].includes(message.type) && message.from !== this.masterPeerId) {
+            // Late reply of a master that was replaced, the request was sent to the new master
+            return;
+        }
+        if (['lock-request', 'move-lock-request', 'request'].includes(message.type) && message.from !== this.id) {
+            // Don't grant locks or handle requests if our lease as master expired
+            await this.fence();
+        }
+        if (['lock-request', 'unlock-request', 'move-lock-request', 'request'].includes(message.type) && !this.isMaster && message.from !== this.id) {
+            // Request of a tab that does not know we were replaced yet, it will send it to the new master
+            return;
+        }
+        return await super.handleMessage(message);
     }
 
     sendMessage(message: IMessage) {
         this.storage.debug.verbose(`[BroadcastChannel] sending: `, message);
+        this.trackMessage('out', message);
         this.channel.postMessage(message);
     }
 
@@ -171,4 +302,5 @@ export {
     NotSupported as RemoteIPCPeer,
     NotSupported as IPCSocketPeer,
     NotSupported as NetIPCServer,
+    NotSupported as AceBaseIPCServer,
 };
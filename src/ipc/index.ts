@@ -4,6 +4,7 @@ import * as Cluster from 'cluster';
 const cluster = Cluster.default ?? Cluster as any as typeof Cluster.default; // ESM and CJS compatible approach
 export { RemoteIPCPeer, RemoteIPCServerConfig } from './remote';
 export { IPCSocketPeer, NetIPCServer } from './socket';
+export { AceBaseIPCServer, IPCServerSettings, IPCServerStatus, IPCServerPeerInfo, IPCServerLockInfo } from './server';
 
 const masterPeerId = '[master]';
 
@@ -114,6 +115,7 @@ export class IPCPeer extends AceBaseIPCPeer {
     public sendMessage(msg: IMessage) {
         const message = msg as INodeIPCMessage;
         message.dbname = this.dbname;
+        this.trackMessage('out', message);
 
         if (cluster.isMaster) {
             // If we are the master, send the message to the target worker(s)
@@ -1,12 +1,41 @@
 import { ID, SimpleEventEmitter } from 'acebase-core';
 import { NodeLocker, NodeLock, LOCK_STATE } from '../node-lock';
+import { NodeLockIntention } from '../node-transaction';
 import { Storage } from '../storage';
+import { IPCMessageMetrics, IPCMetrics, IPCRequestMetrics } from './metrics';
 
 export class AceBaseIPCPeerExitingError extends Error {
     constructor(message: string) { super(`Exiting: ${message}`); }
 }
 
-type InternalLockInfo = { tid: string, granted: boolean, request: ILockRequestData, lock?: IAceBaseIPCLock };
+/**
+ * Rejects requests that were sent to a master that was replaced before it replied. They are sent to the new master again
+ */
+export class AceBaseIPCMasterChangedError extends Error {
+    constructor(previous: string, current: string) { super(`IPC master changed from ${previous} to ${current}`); }
+}
+
+/**
+ * Rejects writes of a master whose lease expired, another peer might have taken over its role and be writing already
+ */
+export class AceBaseIPCMasterFencedError extends Error {
+    constructor(id: string) { super(`Lease of IPC master ${id} expired, writes are not allowed`); }
+}
+
+type InternalLockInfo = {
+    tid: string,
+    granted: boolean,
+    request: ILockRequestData,
+    lock?: IAceBaseIPCLock,
+    /** Peer the lock was granted to (master only) */
+    peerId?: string,
+    /** Same lock requested from a new master, after the master that granted it was replaced */
+    handover?: Promise<IAceBaseIPCLock>,
+    /** When the lock was requested */
+    requested: number,
+    /** When the lock was granted */
+    acquired?: number,
+};
 
 /**
  * Base class for Inter Process Communication, enables vertical scaling: using more CPU's on the same machine to share workload.
@@ -22,6 +51,7 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
     protected peers: Array<{ id: string, lastSeen: number }> = [];
 
     private _nodeLocker: NodeLocker;
+    private _metrics = new IPCMetrics();
 
     constructor(protected storage: Storage, protected id: string, public dbname: string = storage.name) {
         super();
@@ -80,6 +110,26 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
         });
     }
 
+    /**
+     * Whether writes to the database are not allowed, because we are the master but might have been replaced by another peer.
+     * Only IPC implementations that support master failover fence writes
+     * @param tid transaction id of the write
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public isFenced(tid?: string) {
+        return false;
+    }
+
+    /**
+     * Throws an `AceBaseIPCMasterFencedError` if writes to the database are not allowed, see `isFenced`
+     * @param tid transaction id of the write
+     */
+    public assertNotFenced(tid?: string) {
+        if (this.isFenced(tid)) {
+            throw new AceBaseIPCMasterFencedError(this.id);
+        }
+    }
+
     protected _exiting = false;
     /**
      * Requests the peer to shut down. Resolves once its locks are cleared and 'exit' event has been emitted.
@@ -117,6 +167,7 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
         const peer = this.peers.find(w => w.id === id);
         if (!peer) {
             this.peers.push({ id, lastSeen: Date.now() });
+            this.debugEvent({ type: 'peer-added', peerId: id });
         }
 
         if (sendReply) {
@@ -143,6 +194,7 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
             return;
         }
         this.peers.splice(this.peers.indexOf(peer), 1);
+        this.debugEvent({ type: 'peer-removed', peerId: id });
 
         // Remove their subscriptions
         const subscriptions = this.remoteSubscriptions.filter(sub => sub.for === id);
@@ -197,6 +249,17 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
     }
 
     protected async handleMessage(message: IMessage) {
+        if (message.from !== this.id) {
+            this.trackMessage('in', message);
+        }
+        const peer = this.peers.find(peer => peer.id === message.from);
+        if (peer) {
+            peer.lastSeen = Date.now();
+        }
+        if (this._promoting && message.to === this.id && ['lock-request', 'unlock-request', 'move-lock-request', 'request'].includes(message.type)) {
+            // Wait until we're ready to handle master requests
+            await this._promoting;
+        }
         switch (message.type) {
             case 'hello': return this.addPeer(message.from, message.to !== this.id);
             case 'bye': return this.removePeer(message.from, true);
@@ -228,7 +291,7 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
                 const request = message as ILockRequestMessage;
                 const result: ILockResponseMessage = { type: 'lock-result', id: request.id, from: this.id, to: request.from, ok: true, data: undefined };
                 try {
-                    const lock = await this.lock(request.data);
+                    const lock = await this.lock(request.data, request.from);
                     result.data = {
                         id: lock.id,
                         path: lock.path,
@@ -239,6 +302,10 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
                     };
                 }
                 catch(err) {
+                    if (err instanceof AceBaseIPCMasterChangedError) {
+                        // We were replaced while the lock was requested, the worker will request it from the new master
+                        return;
+                    }
                     result.ok = false;
                     result.reason = err.stack || err.message || err;
                 }
@@ -350,6 +417,11 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
             }
 
             case 'request': {
+                const request = message as ICustomRequestMessage;
+                if (request.data?.type === 'ipc.status' && this.isMaster) {
+                    // Lock table requested by the status() of another peer
+                    return this.replyRequest(request, { locks: this._locks.map(lockInfo => this.getLockStatus(lockInfo)) });
+                }
                 // Custom message received - raise event
                 return this.emit('request', message);
             }
@@ -359,7 +431,9 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
                 const result = message as IResponseMessage;
                 const request = this._requests.get(result.id);
                 if (typeof request !== 'object') {
-                    throw new Error(`Result of unknown request received`);
+                    // Late reply to a request that timed out or was sent to a replaced master
+                    this.storage.debug.warn(`Result of unknown request ${result.id} received from ${result.from}`);
+                    return;
                 }
 
                 if (result.ok) {
@@ -378,12 +452,13 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
     /**
      * Acquires a lock. If this peer is a worker, it will request the lock from the master
      * @param details
+     * @param peerId peer to acquire the lock for, if the master handles a lock request of a worker
      */
-    public async lock(details:ILockRequestData): Promise<IAceBaseIPCLock> { // With methods release(), moveToParent() etc
+    public async lock(details:ILockRequestData, peerId = this.id): Promise<IAceBaseIPCLock> { // With methods release(), moveToParent() etc
 
         if (this._exiting) {
             // Peer is exiting. Do we have an existing lock with requested tid? If not, deny request.
-            const tidApproved = this._locks.find(l => l.tid === details.tid && l.granted);
+            const tidApproved = this._locks.find(l => l.tid === details.tid && l.granted) || this._handoverTids.has(details.tid);
             if (!tidApproved) {
                 // We have no previously granted locks for this transaction. Deny.
                 throw new AceBaseIPCPeerExitingError('new transaction lock denied because the IPC peer is exiting');
@@ -391,7 +466,10 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
         }
 
         const removeLock = (lockDetails: InternalLockInfo) => {
-            this._locks.splice(this._locks.indexOf(lockDetails), 1);
+            const index = this._locks.indexOf(lockDetails);
+            if (index < 0) { return; } // Already removed by a master change
+            this._locks.splice(index, 1);
+            this.debugEvent({ type: 'lock-released', lock: this.getLockStatus(lockDetails) });
             if (this._locks.length === 0) {
                 // this.storage.debug.log(`No more locks in worker ${this.id}`);
                 this.emit('locks-cleared');
@@ -400,11 +478,23 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
 
         if (this.isMaster) {
             // Master
-            const lockInfo: InternalLockInfo = { tid: details.tid, granted: false, request: details, lock: null };
+            const lockInfo: InternalLockInfo = { tid: details.tid, granted: false, request: details, lock: null, peerId, requested: Date.now() };
             this._locks.push(lockInfo);
-            const lock: NodeLock = await this._nodeLocker.lock(details.path, details.tid, details.write, details.comment);
+            this.debugEvent({ type: 'lock-queued', lock: this.getLockStatus(lockInfo) });
+            const intention = details.intention && NodeLockIntention.from(details.intention); // Recreate if it was sent by a worker
+            const lock: NodeLock = await this._nodeLocker.lock(details.path, details.tid, details.write, details.comment, { intention });
+            if (!this.isMaster) {
+                // We were replaced while waiting for the lock, it has to be requested from the new master
+                await lock.release();
+                removeLock(lockInfo);
+                if (peerId !== this.id) {
+                    throw new AceBaseIPCMasterChangedError(this.id, this.masterPeerId);
+                }
+                return this.lock(details);
+            }
             lockInfo.tid = lock.tid;
             lockInfo.granted = true;
+            lockInfo.acquired = Date.now();
 
             const createIPCLock = (lock: NodeLock): IAceBaseIPCLock => {
                 return {
@@ -427,15 +517,18 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
                 };
             };
             lockInfo.lock = createIPCLock(lock);
+            this.debugEvent({ type: 'lock-granted', lock: this.getLockStatus(lockInfo) });
             return lockInfo.lock;
         }
         else {
             // Worker
-            const lockInfo: InternalLockInfo = { tid: details.tid, granted: false, request: details, lock: null };
+            const lockInfo: InternalLockInfo = { tid: details.tid, granted: false, request: details, lock: null, requested: Date.now() };
             this._locks.push(lockInfo);
+            this.debugEvent({ type: 'lock-queued', lock: this.getLockStatus(lockInfo) });
 
             const createIPCLock = (result: ILockResponseData): IAceBaseIPCLock => {
                 lockInfo.granted = true;
+                lockInfo.acquired ??= Date.now();
                 lockInfo.tid = result.tid;
                 lockInfo.lock = {
                     id: result.id,
@@ -447,7 +540,15 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
                     comment: result.comment,
                     release: async () => {
                         const req: IUnlockRequestMessage = { type: 'unlock-request', id: ID.generate(), from: this.id, to: this.masterPeerId, data: { id: lockInfo.lock.id } };
-                        await this.request(req);
+                        try {
+                            await this.request(req);
+                        }
+                        catch (err) {
+                            if (!(err instanceof AceBaseIPCMasterChangedError)) { throw err; }
+                            // Release the lock the new master granted us instead
+                            const lock = await lockInfo.handover;
+                            return lock.release();
+                        }
                         lockInfo.lock.state = LOCK_STATE.DONE;
                         this.storage.debug.verbose(`Worker ${this.id} released lock ${lockInfo.lock.id} (tid ${lockInfo.lock.tid}, ${lockInfo.lock.comment}, "/${lockInfo.lock.path}", ${lockInfo.lock.forWriting ? 'write' : 'read'})`);
                         removeLock(lockInfo);
@@ -459,6 +560,11 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
                             result = await this.request(req) as ILockResponseData;
                         }
                         catch(err) {
+                            if (err instanceof AceBaseIPCMasterChangedError) {
+                                // Move the lock the new master granted us instead
+                                const lock = await lockInfo.handover;
+                                return lock.moveToParent();
+                            }
                             // We didn't get new lock?!
                             lockInfo.lock.state = LOCK_STATE.DONE;
                             removeLock(lockInfo);
@@ -484,9 +590,16 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
             }
             if (err) {
                 removeLock(lockInfo);
+                if (err instanceof AceBaseIPCMasterChangedError) {
+                    // Request the lock from the new master, once it has our previously granted locks
+                    await this._handover;
+                    return this.lock(details);
+                }
                 throw err;
             }
-            return createIPCLock(result);
+            const lock = createIPCLock(result);
+            this.debugEvent({ type: 'lock-granted', lock: this.getLockStatus(lockInfo) });
+            return lock;
         }
     }
 
@@ -494,32 +607,135 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
     private async request(req: IRequestMessage): Promise<any> {
         // Send request, return result promise
         let resolve, reject;
+        const sent = Date.now();
+        const completed = (ok: boolean) => {
+            this._requests.delete(req.id);
+            const latency = Date.now() - sent;
+            this._metrics.request(latency, ok);
+            this.debugEvent({ type: 'request-completed', message: req, ok, latency });
+        };
         const promise = new Promise((rs, rj) => {
             resolve = (result: any) => {
-                this._requests.delete(req.id);
+                completed(true);
                 rs(result);
             };
             reject = (err: Error) => {
-                this._requests.delete(req.id);
+                completed(false);
                 rj(err);
             };
         });
         this._requests.set(req.id, { resolve, reject, request: req });
-        this.sendMessage(req);
+        if (req.to === this.id) {
+            // We are the master ourselves, eg a request that was sent to a master that was replaced by us
+            this.handleMessage(req);
+        }
+        else {
+            this.sendMessage(req);
+        }
         return promise;
     }
 
     protected abstract sendMessage(message: IMessage): any;
 
+    private _roleChangeTasks = [] as Array<(isMaster: boolean) => Promise<void>>;
+    private _promoting: Promise<void> = null;
+    private _handover: Promise<void> = null;
+    /** Transactions whose granted locks are being requested from a new master */
+    private _handoverTids = new Set<string>();
+
+    /**
+     * Registers a task to run when this peer is promoted to master, or demoted to worker by an IPC implementation
+     * that supports master failover. Requests from other peers are not handled until the tasks of a promotion are done,
+     * use this to load or release master-only state
+     */
+    public onRoleChange(task: (isMaster: boolean) => Promise<void>) {
+        this._roleChangeTasks.push(task);
+    }
+
+    /**
+     * Replaces the master peer, eg because the previous master stopped responding. Locks granted by the previous master
+     * are requested again from the new master, pending requests to the previous master are sent to the new master.
+     * @param masterPeerId id of the new master, can be our own id
+     */
+    protected setMaster(masterPeerId: string) {
+        const previous = this.masterPeerId;
+        if (masterPeerId === previous) { return; }
+        const wasMaster = this.isMaster;
+        this.masterPeerId = masterPeerId;
+        this.storage.debug.warn(`IPC master changed from ${previous} to ${masterPeerId}${this.isMaster ? ' (us)' : ''}`);
+        this.debugEvent({ type: 'master-changed', peerId: masterPeerId });
+
+        if (this.isMaster !== wasMaster) {
+            const tasks = Promise.all(this._roleChangeTasks.map(task => task(this.isMaster))).then(
+                () => { /* void */ },
+                err => { this.storage.debug.error(`Failed to change IPC role:`, err); },
+            );
+            const promoting = tasks.then(() => {
+                if (this._promoting === promoting) { this._promoting = null; }
+            });
+            this._promoting = this.isMaster ? promoting : null;
+        }
+
+        // Request our granted locks from the new master. If we were the master ourselves, release
+        // locks we granted to others, they will request them from the new master themselves
+        const granted = this._locks.filter(l => l.granted);
+        this._locks = this._locks.filter(l => !l.granted);
+        granted.filter(l => l.peerId !== undefined && l.peerId !== this.id).forEach(l => {
+            l.lock.release().catch(err => this.storage.debug.error(`Failed to release lock ${l.lock.id}:`, err));
+        });
+        const handedOver = granted.filter(l => l.peerId === undefined || l.peerId === this.id);
+        const tids = handedOver.map(l => l.tid).filter(tid => !this._handoverTids.has(tid));
+        tids.forEach(tid => this._handoverTids.add(tid)); // Allows the locks to be requested if we are exiting
+        const handovers = handedOver.map(lockInfo => {
+            const lock = lockInfo.lock;
+            const release = lock.release;
+            const intention = lock.path === lockInfo.request.path ? lockInfo.request.intention : undefined; // Lock without intention if it was moved
+            lockInfo.handover = this.lock({ path: lock.path, write: lock.forWriting, tid: lock.tid, comment: lock.comment, intention, handover: true });
+            lock.release = async () => {
+                // Nothing to release if the handover failed, eg because the transaction was aborted
+                const handover = await lockInfo.handover.catch(() => null as IAceBaseIPCLock);
+                await handover?.release();
+            };
+            lock.moveToParent = async () => (await lockInfo.handover).moveToParent();
+            if (wasMaster) {
+                // Free the lock in our own node locker
+                release().catch(err => this.storage.debug.error(`Failed to release lock ${lock.id}:`, err));
+            }
+            return lockInfo.handover;
+        });
+        this._handover = Promise.all(handovers)
+            .then(() => {
+                this.storage.debug.log(`Handed over ${handovers.length} locks to IPC master ${masterPeerId}`);
+            })
+            .catch(err => {
+                this.storage.debug.error(`Failed to hand over locks to IPC master ${masterPeerId}:`, err);
+            })
+            .finally(() => {
+                tids.forEach(tid => this._handoverTids.delete(tid));
+            });
+        if (this._locks.length === 0) {
+            this.emit('locks-cleared');
+        }
+
+        // The previous master will not reply to pending requests anymore
+        [...this._requests.values()]
+            .filter(r => r.request.to === previous)
+            .forEach(r => r.reject(new AceBaseIPCMasterChangedError(previous, masterPeerId)));
+    }
+
     /**
      * Sends a custom request to the IPC master
      * @param request
      * @returns
      */
-    public sendRequest(request: any) {
+    public sendRequest(request: any): Promise<any> {
         const req: ICustomRequestMessage = { type: 'request', from: this.id, to: this.masterPeerId, id: ID.generate(), data: request };
         return this.request(req)
             .catch(err => {
+                if (err instanceof AceBaseIPCMasterChangedError) {
+                    // Send to the new master
+                    return this.sendRequest(request);
+                }
                 this.storage.debug.error(err);
                 throw err;
             });
@@ -527,7 +743,13 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
 
     public replyRequest(requestMessage:IRequestMessage, result: any) {
         const reply:IResponseMessage = { type: 'result', id: requestMessage.id, ok: true, from: this.id, to: requestMessage.from, data: result };
-        this.sendMessage(reply);
+        if (reply.to === this.id) {
+            // Request was sent by ourselves
+            this.handleMessage(reply);
+        }
+        else {
+            this.sendMessage(reply);
+        }
     }
 
     /**
@@ -540,6 +762,90 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
         this.sendMessage(msg);
     }
 
+    /**
+     * Must be called by IPC implementations for each message they send, to keep track of message throughput
+     */
+    protected trackMessage(direction: 'in' | 'out', message: IMessage) {
+        this._metrics.message(direction);
+        this.debugEvent({ type: direction === 'in' ? 'message-received' : 'message-sent', message });
+    }
+
+    private debugEvent(event: Omit<IPCDebugEvent, 'time'>) {
+        this.emit('debug', { time: Date.now(), ...event });
+    }
+
+    private getLockStatus(lockInfo: InternalLockInfo): IPCLockStatus {
+        const lock = lockInfo.lock;
+        return {
+            id: lock?.id ?? null,
+            path: lock?.path ?? lockInfo.request.path,
+            write: lock?.forWriting ?? lockInfo.request.write,
+            tid: lockInfo.tid,
+            comment: lock?.comment ?? lockInfo.request.comment,
+            holder: lockInfo.peerId ?? this.id,
+            state: lockInfo.granted ? 'granted' : 'queued',
+            age: Date.now() - (lockInfo.acquired ?? lockInfo.requested),
+        };
+    }
+
+    /**
+     * Gets the amount of messages that are waiting to be sent. Must be overridden by IPC implementations that queue
+     * messages while they are not connected, or that write messages to a connection asynchronously
+     */
+    protected getMessageQueue(): { queued: number; pending: number } {
+        return { queued: 0, pending: 0 };
+    }
+
+    /**
+     * Requests the lock table from the master, falls back to our own locks if the master does not reply in time
+     */
+    private async getLockTable(timeout: number): Promise<{ locks: IPCLockStatus[], lockTable: 'master' | 'local' }> {
+        const local = () => ({ locks: this._locks.map(lockInfo => this.getLockStatus(lockInfo)), lockTable: 'local' as const });
+        if (this.isMaster) {
+            return { ...local(), lockTable: 'master' };
+        }
+        const req: ICustomRequestMessage = { type: 'request', from: this.id, to: this.masterPeerId, id: ID.generate(), data: { type: 'ipc.status' } };
+        const timer = setTimeout(() => {
+            this._requests.get(req.id)?.reject(new Error(`IPC master ${req.to} did not reply within ${timeout}ms`));
+        }, timeout);
+        try {
+            const result: { locks: IPCLockStatus[] } = await this.request(req);
+            return { locks: result.locks, lockTable: 'master' };
+        }
+        catch (err) {
+            if (err instanceof AceBaseIPCMasterChangedError) {
+                // Ask the new master
+                return this.getLockTable(timeout);
+            }
+            this.storage.debug.warn(`Failed to get the lock table of the IPC master:`, err.message);
+            return local();
+        }
+        finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Gets the current state of this peer: known peers, message throughput and request latency, and the locks of all
+     * peers. Workers request the locks from the master, if it does not reply in time only their own locks are reported
+     * @param options.timeout how many ms to wait for the master to reply, default is 5000
+     */
+    public async status(options: { timeout?: number } = {}): Promise<IPCStatus> {
+        const { locks, lockTable } = await this.getLockTable(options.timeout ?? 5000);
+        const queue = this.getMessageQueue();
+        return {
+            type: this.ipcType,
+            id: this.id,
+            master: this.masterPeerId,
+            isMaster: this.isMaster,
+            peers: this.peers.map(peer => ({ id: peer.id, lastSeen: peer.lastSeen })),
+            locks,
+            lockTable,
+            messages: this._metrics.getMessages(queue.queued, queue.pending),
+            requests: this._metrics.getRequests(this._requests.size),
+        };
+    }
+
     private _eventsEnabled = true;
 
     /**
@@ -564,6 +870,52 @@ export abstract class AceBaseIPCPeer extends SimpleEventEmitter {
 //     }
 // }
 
+export interface IPCLockStatus {
+    /** Lock id, `null` if the lock was not granted yet */
+    id: number
+    path: string
+    write: boolean
+    tid: string
+    comment: string
+    /** Id of the peer that requested the lock */
+    holder: string
+    state: 'granted' | 'queued'
+    /** How many ms the lock has been granted, or has been waiting to be granted */
+    age: number
+}
+
+export interface IPCStatus {
+    /** IPC implementation, eg `'node.socket'` or `'browser.bcc'` */
+    type: string
+    /** Our peer id */
+    id: string
+    /** Id of the master peer */
+    master: string
+    isMaster: boolean
+    /** Other peers we know of, and when we last received a message from them */
+    peers: Array<{ id: string, lastSeen: number }>
+    /** Locks of all peers as reported by the master, or only our own locks if `lockTable` is `'local'` */
+    locks: IPCLockStatus[]
+    /** `'local'` if the master did not reply in time */
+    lockTable: 'master' | 'local'
+    messages: IPCMessageMetrics
+    requests: IPCRequestMetrics
+}
+
+export interface IPCDebugEvent {
+    type: 'message-sent' | 'message-received' | 'request-completed' | 'peer-added' | 'peer-removed' | 'master-changed' | 'lock-queued' | 'lock-granted' | 'lock-released'
+    time: number
+    /** Sent or received message, or the request that completed */
+    message?: IMessage
+    /** Peer that was added or removed, or the new master */
+    peerId?: string
+    lock?: IPCLockStatus
+    /** Whether the request was successful */
+    ok?: boolean
+    /** How many ms it took to complete the request */
+    latency?: number
+}
+
 export interface IAceBaseIPCLock {
     id: number
     tid: string
@@ -609,7 +961,17 @@ export interface IByeMessage extends IMessage {
 
 export interface IPulseMessage extends IMessage {
     type: 'pulse'
-    data: void
+    /**
+     * Lease of the master sending the pulse (only used by IPC implementations that support master failover)
+     */
+    data: void | IMasterLeaseData
+}
+
+export interface IMasterLeaseData {
+    /**
+     * Incremented with each new master, pulses of masters with a lower term are ignored
+     */
+    term: number
 }
 
 export interface ICustomNotificationMessage extends IMessage {
@@ -661,6 +1023,14 @@ export interface ILockRequestData {
     write: boolean
     tid: string
     comment: string
+    /**
+     * What the lock will be used for, allows locks on non-overlapping paths to be granted simultaneously
+     */
+    intention?: NodeLockIntention
+    /**
+     * Whether the lock was granted by a previous master, and is requested again from the new master
+     */
+    handover?: boolean
 }
 
 export interface ILockRequestMessage extends IRequestMessage {
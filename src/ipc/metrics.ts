@@ -0,0 +1,96 @@
+const THROUGHPUT_SECONDS = 60;
+
+export interface IPCMessageMetrics {
+    /** Total amount of sent messages */
+    sent: number;
+    /** Total amount of received messages */
+    received: number;
+    /** Average amount of sent messages per second during the last minute */
+    sentPerSecond: number;
+    /** Average amount of received messages per second during the last minute */
+    receivedPerSecond: number;
+    /** Amount of messages waiting for the connection to be established */
+    queued: number;
+    /** Amount of messages that were written to the connection, but not flushed yet */
+    pending: number;
+}
+
+export interface IPCRequestMetrics {
+    /** Amount of requests that are waiting for a reply */
+    pending: number;
+    /** Amount of requests that were replied to successfully */
+    completed: number;
+    /** Amount of requests that failed, or were sent to a master that was replaced */
+    failed: number;
+    /** Average time in ms it took to get a reply */
+    averageLatency: number;
+    /** Longest time in ms it took to get a reply */
+    maxLatency: number;
+}
+
+/**
+ * Keeps track of IPC message throughput and request latency
+ */
+export class IPCMetrics {
+    private started = Date.now();
+    private sent = 0;
+    private received = 0;
+    private seconds = [] as Array<{ second: number; sent: number; received: number }>;
+    private requests = { completed: 0, failed: 0, totalLatency: 0, maxLatency: 0 };
+
+    message(direction: 'in' | 'out') {
+        const second = Math.floor(Date.now() / 1000);
+        let current = this.seconds[this.seconds.length - 1];
+        if (current?.second !== second) {
+            current = { second, sent: 0, received: 0 };
+            this.seconds.push(current);
+            this.seconds = this.seconds.filter(s => s.second > second - THROUGHPUT_SECONDS);
+        }
+        if (direction === 'out') {
+            this.sent++;
+            current.sent++;
+        }
+        else {
+            this.received++;
+            current.received++;
+        }
+    }
+
+    request(latency: number, ok: boolean) {
+        if (ok) {
+            this.requests.completed++;
+            this.requests.totalLatency += latency;
+            this.requests.maxLatency = Math.max(this.requests.maxLatency, latency);
+        }
+        else {
+            this.requests.failed++;
+        }
+    }
+
+    getMessages(queued: number, pending: number): IPCMessageMetrics {
+        const now = Date.now();
+        const second = Math.floor(now / 1000);
+        const recent = this.seconds.filter(s => s.second > second - THROUGHPUT_SECONDS);
+        const elapsed = Math.max(1, Math.min(THROUGHPUT_SECONDS, (now - this.started) / 1000));
+        const sum = (key: 'sent' | 'received') => recent.reduce((total, s) => total + s[key], 0);
+        return {
+            sent: this.sent,
+            received: this.received,
+            sentPerSecond: sum('sent') / elapsed,
+            receivedPerSecond: sum('received') / elapsed,
+            queued,
+            pending,
+        };
+    }
+
+    getRequests(pending: number): IPCRequestMetrics {
+        const { completed, failed, totalLatency, maxLatency } = this.requests;
+        return {
+            pending,
+            completed,
+            failed,
+            averageLatency: completed > 0 ? totalLatency / completed : 0,
+            maxLatency,
+        };
+    }
+}
@@ -1,7 +1,8 @@
 import { ID, Utils } from 'acebase-core';
-import { AceBaseIPCPeer, IMessage } from './ipc';
+import { AceBaseIPCPeer, AceBaseIPCMasterChangedError, AceBaseIPCMasterFencedError, IHelloMessage, ILockRequestData, IMasterLeaseData, IMessage, IPulseMessage } from './ipc';
 import { Storage } from '../storage';
 import * as http from 'http';
+import * as https from 'https';
 
 import type * as wsTypes from 'ws'; // @types/ws must always available
 
@@ -14,32 +15,44 @@ export interface RemoteIPCServerConfig {
     ssl?: boolean,
     token?: string,
     role: 'master'|'worker',
+    failover?: boolean,
+    leaseTime?: number,
 }
 
 const masterPeerId = '[master]';
-const WS_CLOSE_PING_TIMEOUT = 1;
-const WS_CLOSE_PROCESS_EXIT = 2;
-// const WS_CLOSE_UNAUTHORIZED = 3;
-// const WS_CLOSE_WRONG_CLIENT = 4;
-// const WS_CLOSE_SERVER_ERROR = 5;
+// Websocket close codes 4000-4999 are available for applications
+const WS_CLOSE_PING_TIMEOUT = 4001;
+const WS_CLOSE_PROCESS_EXIT = 4002;
+// const WS_CLOSE_UNAUTHORIZED = 4003;
+// const WS_CLOSE_WRONG_CLIENT = 4004;
+// const WS_CLOSE_SERVER_ERROR = 4005;
 
 /**
- * Remote IPC using an external server. Database changes and events will be synchronized automatically.
+ * Remote IPC using an IPC server. Database changes and events will be synchronized automatically.
  * Locking of resources will be done by a single master that needs to be known up front. Preferably, the master
  * is a process that handles no database updates itself and only manages data locking and allocation for workers.
  *
  * To use Remote IPC, you have to start the following processes:
- *  - 1 AceBase IPC Server process
+ *  - 1 AceBase IPC Server process, started with `AceBase.startIPCServer`
  *  - 1 AceBase database master process (optional, used in example 1)
  *  - 1+ AceBase server worker processes
  *
  * NOTE if your IPC server will be running on a public host (not `localhost`), make sure to use `ssl` and a secret
  * `token` in your IPC configuration.
  *
+ * If `failover` is enabled, the master is only the initial master: it sends a "pulse" with its lease to all peers,
+ * and if its lease expires (or the master leaves), the live peer with the lowest id takes over its role. Locks granted by
+ * the previous master are requested again from the new master, and pending requests are sent to the new master. The new
+ * master only grants these handed over locks during the first quarter of the lease time after its election.
+ * The master's lease is only renewed once the IPC server confirmed receiving its pulse. If it can't be renewed in time,
+ * the master stops granting locks, handling requests and writing before it expires, because other peers might elect a new
+ * master. Its transactions that hold write locks are aborted. It resumes if it is elected again, or hands over to the new
+ * master once it receives its pulse.
+ *
  * @example
  * // IPC server process (start-ipc-server.js)
- * const { AceBaseIPCServer } = require('acebase-ipc-server');
- * const server = new AceBaseIPCServer({ host: 'localhost', port: 9163 })
+ * const { AceBase } = require('acebase');
+ * AceBase.startIPCServer({ host: 'localhost', port: 9163 });
  *
  * // Dedicated db master process (start-db-master.js)
  * const { AceBase } = require('acebase');
@@ -76,8 +89,8 @@ const WS_CLOSE_PROCESS_EXIT = 2;
  *  - Multiple instances of your app
  *
  * // IPC server process (start-ipc-server.js)
- * const { AceBaseIPCServer } = require('acebase-ipc-server');
- * const server = new AceBaseIPCServer({ host: 'localhost', port: 9163 })
+ * const { AceBase } = require('acebase');
+ * AceBase.startIPCServer({ host: 'localhost', port: 9163 });
  *
  * // Server worker processes (start-db-server.js)
  * const { AceBaseServer } = require('acebase-server');
@@ -107,7 +120,24 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
         in: string[],
         out: string[]
     } = { in: [], out: [] };
+    /** Amount of messages sent through the websocket that were not flushed yet */
+    private unflushed = 0;
     private maxPayload = 100; // Initial setting, will be overridden by server config once connected
+    private term = 0;
+    /** When the lease of the master expires, other peers start an election after that */
+    private masterLease = 0;
+    /** When our own lease expires if we are the master */
+    private ownLease = 0;
+    /** Times of the master pulses that unanswered pings were sent after, `0` for other pings */
+    private pings = [] as number[];
+    /** When the IPC server last answered a ping */
+    private lastPong = 0;
+    /** Set while we are the master but our lease expired */
+    private suspension: { promise: Promise<void>; resume: () => void } = null;
+    /** Transactions that held write locks when our lease as master expired, they are not allowed to write anymore */
+    private fencedTids = new Set<string>();
+    /** Resolves once other peers had time to hand over locks granted by the previous master, after we were elected */
+    private takeover: Promise<void> = null;
 
     constructor(storage: Storage, private config: RemoteIPCServerConfig) {
         super(storage, config.role === 'master' ? masterPeerId : ID.generate(), config.dbname);
@@ -117,6 +147,208 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
             storage.debug.error(err.message);
             this.exit();
         });
+
+        this.on('locks-cleared', () => {
+            // Fenced transactions released all their locks
+            this.fencedTids.clear();
+        });
+
+        this.once('exit', () => {
+            // Disconnect from the IPC server once our "bye" was sent. Wait for replies to requests that
+            // released our last locks: they are sent after the 'locks-cleared' event that lets us exit
+            setImmediate(() => this.connected && this.ws.close(WS_CLOSE_PROCESS_EXIT));
+        });
+
+        if (config.failover) {
+            this.startPulse();
+        }
+    }
+
+    private get leaseTime() { return this.config.leaseTime ?? 5000; }
+
+    /**
+     * Whether our lease as master would expire before the next pulse renews it. Peers elect a new master once it expired,
+     * so we stop writing a quarter of the lease time before that
+     */
+    private get leaseExpiring() { return Date.now() > this.ownLease - this.leaseTime / 4; }
+
+    private get connected() { return this.ws?.readyState === this.ws?.OPEN; }
+
+    /**
+     * Whether the IPC server answered a ping recently. Peers that can't reach it must not take over the master role,
+     * they might be the only live peer they know because their connection is stalled
+     */
+    private get reachable() { return Date.now() - this.lastPong < this.leaseTime / 2; }
+
+    /**
+     * Sends a "pulse" to all peers every quarter of the lease time, so they know we're still around. If we are the master,
+     * the pulse renews our lease. Starts a master election if the lease of the master expired
+     */
+    private startPulse() {
+        this.masterLease = this.ownLease = Date.now() + this.leaseTime;
+        const interval: ReturnType<typeof setInterval> = setInterval(() => {
+            if (this._exiting) { return clearInterval(interval); }
+            if (this.isMaster && !this.suspension && this.leaseExpiring) {
+                this.suspend();
+            }
+            if (!this.connected) { return; } // Can't tell if the master is alive, other peers will elect a new one if it isn't
+            this.sendPulse();
+            if ((!this.isMaster || this.suspension) && Date.now() > this.masterLease && this.reachable) {
+                this.storage.debug.warn(`Lease of IPC master ${this.masterPeerId} expired`);
+                this.electMaster();
+            }
+        }, this.leaseTime / 4);
+        interval.unref?.();
+    }
+
+    private sendPulse() {
+        const isMaster = this.isMaster && !this.suspension;
+        const pulse: IPulseMessage = { type: 'pulse', from: this.id, data: isMaster ? { term: this.term } : undefined };
+        this.sendMessage(pulse);
+        // The server's pong confirms it received the pulse, that renews our lease if we are the master
+        this.ping(isMaster ? Date.now() : 0);
+    }
+
+    private ping(pulse = 0) {
+        if (!this.connected) { return; }
+        this.pings.push(pulse);
+        this.ws.send('ping');
+    }
+
+    private handlePong() {
+        const pulse = this.pings.shift() ?? 0;
+        this.lastPong = Date.now();
+        if (this.isMaster && !this.suspension) {
+            this.ownLease = Math.max(this.ownLease, pulse + this.leaseTime);
+        }
+    }
+
+    /**
+     * Stops granting locks, handling requests and writing because our lease as master expired, other peers might elect a new master.
+     * Transactions that hold write locks are aborted: they must not continue writing once they got their locks from the new master,
+     * because it does not know about the space they allocated. Waits for the pulse of the new master, or starts an election if
+     * none is received within the lease time
+     */
+    private suspend() {
+        this.storage.debug.warn(`Lease of IPC master ${this.id} (us) expired, waiting for a new master`);
+        this._locks
+            .filter(lock => lock.granted && lock.lock.forWriting && lock.peerId === this.id)
+            .forEach(lock => this.fencedTids.add(lock.tid));
+        let resume: () => void;
+        const promise = new Promise<void>(resolve => resume = resolve);
+        this.suspension = { promise, resume };
+        this.masterLease = Date.now() + this.leaseTime;
+    }
+
+    private resume() {
+        const suspension = this.suspension;
+        this.suspension = null;
+        suspension?.resume();
+    }
+
+    /**
+     * Waits while we are the master but our lease expired
+     */
+    private async fence() {
+        if (this.isFenced()) {
+            await this.suspension.promise;
+        }
+    }
+
+    /**
+     * Whether writes are not allowed because our lease as master expired, or because the transaction held a write lock when it expired
+     * @param tid transaction id of the write
+     */
+    public isFenced(tid?: string) {
+        if (typeof tid === 'string' && this.fencedTids.has(tid)) { return true; }
+        if (!this.config.failover || !this.isMaster) { return false; }
+        if (!this.suspension && this.leaseExpiring) {
+            // Timer did not run in time, eg because the event loop was blocked
+            this.suspend();
+        }
+        return this.suspension !== null;
+    }
+
+    /**
+     * Requests a lock, waits while our lease as master expired, or while peers hand over their locks after we were elected
+     */
+    public async lock(details: ILockRequestData, peerId = this.id) {
+        if (this.fencedTids.has(details.tid)) {
+            // Transaction was aborted because our lease as master expired
+            throw new AceBaseIPCMasterFencedError(this.id);
+        }
+        await this.fence();
+        if (!this.isMaster && peerId !== this.id) {
+            // We were replaced while suspended, the peer will request the lock from the new master
+            throw new AceBaseIPCMasterChangedError(this.id, this.masterPeerId);
+        }
+        if (this.isMaster && !details.handover) {
+            // Don't grant locks that might conflict with locks granted by the previous master before they are handed over to us
+            await this.takeover;
+        }
+        return super.lock(details, peerId);
+    }
+
+    /**
+     * Elects the live peer with the lowest id as the new master. All peers elect the same master, because they know the same peers.
+     * If that's us, we take over the master role and let the others know with a pulse, the others wait for that pulse
+     */
+    private electMaster() {
+        if ((this.isMaster && !this.suspension) || this._exiting) { return; }
+        const now = Date.now();
+        const candidates = this.peers
+            .filter(peer => peer.id !== this.masterPeerId && now - peer.lastSeen < this.leaseTime)
+            .map(peer => peer.id)
+            .concat(this.id)
+            .sort();
+        const winner = candidates[0];
+        this.storage.debug.warn(`${winner === this.id ? 'We are' : `Peer ${winner} is`} the new IPC master`);
+        this.masterLease = now + this.leaseTime; // Give the new master time to take over
+        if (winner === this.id) {
+            this.term++;
+            this.ownLease = now + this.leaseTime;
+            this.takeover = new Promise(resolve => {
+                // Peers hand over their locks once they receive our pulse
+                const timeout = setTimeout(resolve, this.leaseTime / 4);
+                timeout.unref?.();
+            });
+            this.setMaster(this.id);
+            this.resume();
+            this.sendPulse();
+        }
+    }
+
+    private handleMasterPulse(from: string, lease: IMasterLeaseData) {
+        if (lease.term < this.term || (lease.term === this.term && from !== this.masterPeerId && from > this.masterPeerId)) {
+            // Pulse of a master that was replaced, or that lost a simultaneous election.
+            // It will step down once it receives a pulse of the master we know
+            return;
+        }
+        this.term = lease.term;
+        this.masterLease = Date.now() + this.leaseTime;
+        this.setMaster(from);
+        this.resume();
+    }
+
+    protected async handleMessage(message: IMessage) {
+        if (this.config.failover && message.type === 'pulse' && message.data) {
+            this.handleMasterPulse(message.from, message.data);
+        }
+        if (this.config.failover && ['lock-result', 'unlock-result', 'result'].includes(message.type) && message.from !== this.masterPeerId) {
+            // Late reply of a master that was replaced, the request was sent to the new master
+            return;
+        }
+        if (this.config.failover && ['lock-request', 'move-lock-request', 'request'].includes(message.type) && message.from !== this.id) {
+            // Don't grant locks or allocate space if our lease as master expired
+            await this.fence();
+        }
+        if (this.config.failover && ['lock-request', 'unlock-request', 'move-lock-request', 'request'].includes(message.type) && !this.isMaster && message.from !== this.id) {
+            // Request of a peer that does not know we were replaced yet, it will send it to the new master
+            return;
+        }
+        // If the master left (or peers said "bye" on its behalf because it disconnected), its lease has to expire
+        // before a new master is elected: it might still be running and granting locks
+        return await super.handleMessage(message);
     }
 
     private async connect(options?: { maxRetries?: number }) {
@@ -137,10 +369,17 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
                 connected = true;
                 // Send any pending messages
                 this.pending.out.forEach(msg => {
-                    this.ws.send(msg);
+                    this.unflushed++;
+                    this.ws.send(msg, () => { this.unflushed--; });
                 });
                 this.pending.out = [];
                 this.queue = false;
+                this.masterLease = Date.now() + this.leaseTime; // Master pulses were not received while disconnected
+                this.pings = []; // Pings sent over the previous connection will not be answered
+
+                // Let other peers know we're here (again)
+                const helloMsg: IHelloMessage = { type: 'hello', from: this.id, data: undefined };
+                this.sendMessage(helloMsg);
                 resolve();
             });
 
@@ -194,7 +433,7 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
                 }
                 else if (ms > 5000) {
                     // No messages received for 5s. Sending ping to trigger pong response
-                    this.ws.send('ping');
+                    this.ping();
                 }
             }, 500);
             pingInterval.unref?.();
@@ -207,10 +446,10 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
             // Handle disconnect
             this.ws.addEventListener('close', (/*event*/) => {
                 // Disconnected. Try reconnecting immediately
+                clearInterval(pingInterval);
                 if (!connected) { return; } // We weren't connected yet. Don't reconnect here, retries will be executed automatically
                 if (this._exiting) { return; }
                 this.storage.debug.error(`Connection to remote IPC server was lost. Trying to reconnect`);
-                clearInterval(pingInterval);
                 this.storage.invalidateCache?.(true, '', true, 'ipc_ws_disconnect'); // Make sure the entire cache is invalidated (AceBase storage has such cache)
                 this.connect();
             });
@@ -219,10 +458,9 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
             this.ws.addEventListener('message', async event => {
                 lastMessageReceived = Date.now();
                 let str = event.data.toString();
-                console.log(str);
                 if (str === 'pong') {
                     // We got a ping reply from the server
-                    return;
+                    return this.handlePong();
                 }
                 else if (str.startsWith('welcome:')) {
                     // Welcome message with config
@@ -251,7 +489,7 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
                     try {
                         str = await this.fetch('GET', `/${this.config.dbname}/receive?id=${this.id}&msg=${msgId}&t=${this.config.token}`);
                         const msg = JSON.parse(str);
-                        super.handleMessage(msg);
+                        this.handleMessage(msg);
                     }
                     catch (err) {
                         this.storage.debug.error(`Failed to receive message ${msgId}:`, err);
@@ -260,7 +498,7 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
                 else if (str.startsWith('{')) {
                     // Normal message
                     const msg = JSON.parse(str);
-                    super.handleMessage(msg);
+                    this.handleMessage(msg);
                 }
                 else {
                     // Unknown event
@@ -272,6 +510,7 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
 
     sendMessage(message: IMessage) {
         this.storage.debug.verbose(`[RemoteIPC] sending: `, message);
+        this.trackMessage('out', message);
         let json = JSON.stringify(message);
         if (typeof message.to === 'string') {
             // Send to specific peer only
@@ -284,10 +523,15 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
             this.fetch('POST', `/${this.dbname}/send?id=${this.id}&t=${this.config.token}`, json);
         }
         else {
-            this.ws.send(json);
+            this.unflushed++;
+            this.ws.send(json, () => { this.unflushed--; });
         }
     }
 
+    protected getMessageQueue() {
+        return { queued: this.pending.out.length, pending: this.unflushed };
+    }
+
     async fetch(method: 'GET'|'POST', path: string, postData?: string) {
         const options = {
             hostname: this.config.host || 'localhost',
@@ -300,7 +544,7 @@ export class RemoteIPCPeer extends AceBaseIPCPeer {
             },
         };
         return await new Promise<string>((resolve, reject) => {
-            const req = http.request(options, (res) => {
+            const req = (this.config.ssl ? https : http).request(options, (res) => {
                 // console.log(`STATUS: ${res.statusCode}`);
                 // console.log(`HEADERS: ${JSON.stringify(res.headers)}`);
                 res.setEncoding('utf8');
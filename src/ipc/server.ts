@@ -0,0 +1,465 @@
+import { DebugLogger, ID, SimpleEventEmitter } from 'acebase-core';
+import type { LoggingLevel } from 'acebase-core';
+import * as http from 'http';
+import * as https from 'https';
+import type { Duplex } from 'stream';
+import type { IMessage, ILockRequestMessage, ILockResponseMessage, IMoveLockRequestMessage, IUnlockResponseMessage } from './ipc';
+
+import type * as wsTypes from 'ws'; // @types/ws must always available
+
+export interface IPCServerSettings {
+    /**
+     * Host to listen on. Use `'0.0.0.0'` to accept connections from other machines
+     * @default 'localhost'
+     */
+    host?: string;
+    /**
+     * Port to listen on
+     */
+    port: number;
+    /**
+     * Secret token peers must connect with. Peers must use the same `token` in their `ipc` settings
+     */
+    token?: string;
+    /**
+     * Certificate settings to use ssl (wss and https) instead of unsecured connections. Peers must connect with `ssl: true`
+     */
+    ssl?: https.ServerOptions;
+    /**
+     * Max length of messages sent over the websocket. Larger messages are posted to the server and fetched by their recipients over http
+     * @default 65536
+     */
+    maxPayload?: number;
+    /**
+     * Max size in bytes of messages posted over http. Larger messages are rejected, they would take up too much memory of the server
+     * @default 104857600 (100MB)
+     */
+    maxMessageSize?: number;
+    /**
+     * What to log
+     * @default 'log'
+     */
+    logLevel?: LoggingLevel;
+}
+
+export interface IPCServerPeerInfo {
+    dbname: string;
+    id: string;
+    /** When the peer connected */
+    connected: number;
+    /** When the last message was received from the peer */
+    lastSeen: number;
+    messages: { sent: number; received: number };
+}
+
+export interface IPCServerLockInfo {
+    dbname: string;
+    /** Peer that requested or holds the lock */
+    peerId: string;
+    path: string;
+    write: boolean;
+    tid: string;
+    /** When the lock was requested or granted */
+    since: number;
+}
+
+export interface IPCServerStatus {
+    /** When the server was started */
+    started: number;
+    peers: IPCServerPeerInfo[];
+    locks: {
+        /** Lock requests sent to the master that have not been answered yet */
+        pending: IPCServerLockInfo[];
+        /** Locks the master granted to workers that have not been released yet */
+        granted: IPCServerLockInfo[];
+    };
+    /** Total amount of relayed messages */
+    messages: number;
+}
+
+interface ConnectedPeer extends IPCServerPeerInfo {
+    ws: wsTypes.WebSocket;
+    alive: boolean;
+}
+
+interface PendingLockRequest extends IPCServerLockInfo {
+    /** Id of the lock being moved, for move-lock requests */
+    moveLockId?: number;
+}
+
+interface StoredMessage {
+    dbname: string;
+    json: string;
+    recipients: string[];
+    timeout: ReturnType<typeof setTimeout>;
+}
+
+const SUPPORTED_CLIENT_VERSION = 1;
+const MESSAGE_EXPIRY_MS = 60000;
+const HEARTBEAT_INTERVAL_MS = 10000;
+
+/**
+ * Standalone IPC server that relays messages between AceBase peers using websockets. Use this to enable IPC for pm2 or
+ * cloud-based clusters, where processes cannot communicate through Node.js's `cluster` functionality. Peers connect to the server
+ * with `ipc` storage settings `{ host, port, ssl, token, role }`, see `RemoteIPCPeer` for more info. One server can relay
+ * messages for multiple databases.
+ *
+ * @example
+ * // IPC server process (start-ipc-server.js)
+ * const { AceBase } = require('acebase');
+ * const server = await AceBase.startIPCServer({ host: 'localhost', port: 9163, token: 'secret' });
+ *
+ * // Later:
+ * const status = server.status(); // connected peers, pending and granted locks
+ * await server.stop();
+ */
+export class AceBaseIPCServer extends SimpleEventEmitter {
+
+    private debug: DebugLogger;
+    private server: http.Server | https.Server;
+    private wss: wsTypes.WebSocketServer;
+    private heartbeat: ReturnType<typeof setInterval>;
+    private started: number;
+    private relayed = 0;
+    private peers = [] as ConnectedPeer[];
+    private messages = new Map<string, StoredMessage>();
+    private pendingLocks = new Map<string, PendingLockRequest>();
+    private grantedLocks = new Map<string, IPCServerLockInfo>();
+
+    constructor(private settings: IPCServerSettings) {
+        super();
+        this.settings = { host: 'localhost', maxPayload: 65536, maxMessageSize: 104857600, ...settings };
+        this.debug = new DebugLogger(this.settings.logLevel ?? 'log', '[IPC server]');
+    }
+
+    get maxPayload() { return this.settings.maxPayload; }
+
+    /**
+     * Starts listening for connections. Resolves once the server is listening
+     */
+    async start() {
+        if (this.server) {
+            throw new Error('IPC server is already running');
+        }
+        const ws = await (async () => {
+            try {
+                return await import('ws');
+            }
+            catch {
+                throw new Error(`ws package is not installed. To fix this, run: npm install ws`);
+            }
+        })();
+        this.wss = new ws.WebSocketServer({ noServer: true });
+        this.server = this.settings.ssl ? https.createServer(this.settings.ssl) : http.createServer();
+        this.server.on('request', (req: http.IncomingMessage, res: http.ServerResponse) => this.handleRequest(req, res));
+        this.server.on('upgrade', (req: http.IncomingMessage, socket: Duplex, head: Buffer) => this.handleUpgrade(req, socket, head));
+
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(this.settings.port, this.settings.host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server.on('error', err => {
+            this.debug.error(`Server error:`, err);
+        });
+
+        // Terminate connections of peers that do not respond to pings anymore
+        this.heartbeat = setInterval(() => {
+            this.peers.forEach(peer => {
+                if (!peer.alive) {
+                    this.debug.warn(`Peer ${peer.id} of database "${peer.dbname}" does not respond, terminating its connection`);
+                    return peer.ws.terminate();
+                }
+                peer.alive = false;
+                peer.ws.ping();
+            });
+        }, HEARTBEAT_INTERVAL_MS);
+        this.heartbeat.unref?.();
+
+        this.started = Date.now();
+        this.debug.log(`Listening on ${this.settings.ssl ? 'wss' : 'ws'}://${this.settings.host}:${this.settings.port}`);
+        this.emit('start');
+    }
+
+    /**
+     * Disconnects all peers and stops the server
+     */
+    async stop() {
+        if (!this.server) { return; }
+        clearInterval(this.heartbeat);
+        this.peers.forEach(peer => peer.ws.terminate());
+        this.messages.forEach(msg => clearTimeout(msg.timeout));
+        this.messages.clear();
+        this.wss.close();
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+        this.server = null;
+        this.debug.log(`Stopped`);
+        this.emit('stop');
+    }
+
+    /**
+     * Gets the connected peers, and the locks that are pending or granted by their masters
+     */
+    status(): IPCServerStatus {
+        const peerInfo = ({ dbname, id, connected, lastSeen, messages }: ConnectedPeer) => ({ dbname, id, connected, lastSeen, messages: { ...messages } });
+        const lockInfo = ({ dbname, peerId, path, write, tid, since }: IPCServerLockInfo) => ({ dbname, peerId, path, write, tid, since });
+        return {
+            started: this.started,
+            peers: this.peers.map(peerInfo),
+            locks: {
+                pending: [...this.pendingLocks.values()].map(lockInfo),
+                granted: [...this.grantedLocks.values()].map(lockInfo),
+            },
+            messages: this.relayed,
+        };
+    }
+
+    private authorize(url: URL) {
+        const token = url.searchParams.get('t');
+        return !this.settings.token || token === this.settings.token;
+    }
+
+    private parseUrl(req: http.IncomingMessage) {
+        const url = new URL(req.url, 'http://localhost');
+        const match = url.pathname.match(/^\/(.+)\/(connect|send|receive)$/);
+        if (!match) { return null; }
+        return { url, dbname: decodeURIComponent(match[1]), action: match[2] as 'connect' | 'send' | 'receive' };
+    }
+
+    private handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer) {
+        const deny = (code: number, status: string) => {
+            socket.end(`HTTP/1.1 ${code} ${status}\r\n\r\n`);
+        };
+        const target = this.parseUrl(req);
+        if (!target || target.action !== 'connect') {
+            return deny(404, 'Not Found');
+        }
+        const { url, dbname } = target;
+        if (!this.authorize(url)) {
+            this.debug.warn(`Denied unauthorized connection for database "${dbname}"`);
+            return deny(403, 'Forbidden');
+        }
+        const version = parseInt(url.searchParams.get('v'));
+        const id = url.searchParams.get('id');
+        if (version !== SUPPORTED_CLIENT_VERSION || !id) {
+            return deny(409, 'Conflict');
+        }
+        this.wss.handleUpgrade(req, socket, head, ws => this.addPeer(dbname, id, ws));
+    }
+
+    private addPeer(dbname: string, id: string, ws: wsTypes.WebSocket) {
+        const existing = this.peers.find(p => p.dbname === dbname && p.id === id);
+        if (existing) {
+            // Peer reconnected before its previous connection was detected to be lost
+            this.removePeer(existing);
+            existing.ws.terminate();
+        }
+        const now = Date.now();
+        const peer: ConnectedPeer = { dbname, id, ws, connected: now, lastSeen: now, alive: true, messages: { sent: 0, received: 0 } };
+        this.peers.push(peer);
+        this.debug.log(`Peer ${id} of database "${dbname}" connected, total peers: ${this.peers.length}`);
+
+        ws.on('pong', () => { peer.alive = true; });
+        ws.on('message', data => {
+            peer.alive = true;
+            peer.lastSeen = Date.now();
+            const str = data.toString();
+            if (str === 'ping') {
+                return ws.send('pong');
+            }
+            peer.messages.received++;
+            this.relay(peer.dbname, peer.id, str, false);
+        });
+        ws.on('close', () => {
+            if (this.peers.includes(peer)) {
+                this.removePeer(peer);
+            }
+        });
+        ws.on('error', err => {
+            this.debug.error(`Connection error for peer ${id} of database "${dbname}":`, err);
+        });
+
+        this.send(peer, `welcome:${JSON.stringify({ maxPayload: this.settings.maxPayload })}`);
+        this.others(dbname, id).forEach(other => this.send(other, `connect:${id}`));
+        this.emit('connect', { dbname, id });
+    }
+
+    private removePeer(peer: ConnectedPeer) {
+        this.peers.splice(this.peers.indexOf(peer), 1);
+        this.debug.log(`Peer ${peer.id} of database "${peer.dbname}" disconnected, total peers: ${this.peers.length}`);
+
+        // Forget about the peer's locks, the master will release them by itself once they expire
+        const removeFrom = (locks: Map<string, IPCServerLockInfo>) => {
+            locks.forEach((lock, key) => {
+                if (lock.dbname === peer.dbname && lock.peerId === peer.id) { locks.delete(key); }
+            });
+        };
+        removeFrom(this.pendingLocks);
+        removeFrom(this.grantedLocks);
+
+        // Let other peers know, they will say "bye" on its behalf if it did not do that itself
+        this.others(peer.dbname, peer.id).forEach(other => this.send(other, `disconnect:${peer.id}`));
+        this.emit('disconnect', { dbname: peer.dbname, id: peer.id });
+    }
+
+    private others(dbname: string, id: string) {
+        return this.peers.filter(p => p.dbname === dbname && p.id !== id);
+    }
+
+    private send(peer: ConnectedPeer, str: string) {
+        peer.messages.sent++;
+        peer.ws.send(str);
+    }
+
+    /**
+     * Relays a message sent by a peer, either to a specific peer (message is prefixed with `"to:[id];"`), or to all other peers of the same database
+     * @param large if the message was posted over http because it is too large. Recipients will be told to fetch it
+     */
+    private relay(dbname: string, from: string, str: string, large: boolean) {
+        let to: string;
+        if (str.startsWith('to:')) {
+            const index = str.indexOf(';');
+            to = str.slice(3, index);
+            str = str.slice(index + 1);
+        }
+        let message: IMessage;
+        try {
+            message = JSON.parse(str);
+        }
+        catch {
+            this.debug.warn(`Ignoring invalid message from peer ${from} of database "${dbname}"`);
+            return;
+        }
+        this.relayed++;
+        this.trackLocks(dbname, message);
+
+        const recipients = to ? this.peers.filter(p => p.dbname === dbname && p.id === to) : this.others(dbname, from);
+        if (!large) {
+            recipients.forEach(peer => this.send(peer, str));
+            return;
+        }
+        if (recipients.length === 0) { return; }
+
+        // Store the message until all recipients fetched it
+        const id = ID.generate();
+        const timeout = setTimeout(() => this.messages.delete(id), MESSAGE_EXPIRY_MS);
+        timeout.unref?.();
+        this.messages.set(id, { dbname, json: str, recipients: recipients.map(p => p.id), timeout });
+        recipients.forEach(peer => this.send(peer, `get:${id}`));
+    }
+
+    /**
+     * Keeps track of lock requests and results sent between workers and their master
+     */
+    private trackLocks(dbname: string, message: IMessage) {
+        const key = (id: string | number) => `${dbname}/${id}`;
+        switch (message.type) {
+            case 'lock-request':
+            case 'move-lock-request': {
+                const request = message as ILockRequestMessage | IMoveLockRequestMessage;
+                const pending: PendingLockRequest = { dbname, peerId: request.from, path: null, write: null, tid: null, since: Date.now() };
+                if (request.type === 'lock-request') {
+                    Object.assign(pending, { path: request.data.path, write: request.data.write, tid: request.data.tid });
+                }
+                else {
+                    const lock = this.grantedLocks.get(key(request.data.id));
+                    Object.assign(pending, { path: lock?.path ?? null, write: lock?.write ?? null, tid: lock?.tid ?? null, moveLockId: request.data.id });
+                }
+                this.pendingLocks.set(key(request.id), pending);
+                break;
+            }
+            case 'lock-result': {
+                const result = message as ILockResponseMessage;
+                const pending = this.pendingLocks.get(key(result.id));
+                if (!pending) { break; }
+                this.pendingLocks.delete(key(result.id));
+                if (typeof pending.moveLockId === 'number') {
+                    this.grantedLocks.delete(key(pending.moveLockId));
+                }
+                if (result.ok) {
+                    const { path, write, tid } = result.data;
+                    this.grantedLocks.set(key(result.data.id), { dbname, peerId: pending.peerId, path, write, tid, since: Date.now() });
+                }
+                break;
+            }
+            case 'unlock-result': {
+                const result = message as IUnlockResponseMessage;
+                if (result.ok) {
+                    this.grantedLocks.delete(key(result.data.id));
+                }
+                break;
+            }
+        }
+    }
+
+    private handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+        const reply = (code: number, body = '') => {
+            res.writeHead(code, { 'Content-Type': 'text/plain' });
+            res.end(body);
+        };
+        const target = this.parseUrl(req);
+        if (!target || target.action === 'connect') {
+            return reply(404, 'Not Found');
+        }
+        const { url, dbname, action } = target;
+        if (!this.authorize(url)) {
+            return reply(403, 'Forbidden');
+        }
+        const peerId = url.searchParams.get('id');
+        const peer = this.peers.find(p => p.dbname === dbname && p.id === peerId);
+        if (!peer) {
+            return reply(409, 'Not connected');
+        }
+
+        if (action === 'send' && req.method === 'POST') {
+            // Large message posted by a peer
+            const { maxMessageSize } = this.settings;
+            const tooLarge = () => {
+                this.debug.warn(`Rejected message of peer ${peer.id} of database "${dbname}" that is larger than ${maxMessageSize} bytes`);
+                res.shouldKeepAlive = false; // Don't receive the rest of the message
+                reply(413, 'Payload Too Large');
+            };
+            if (parseInt(req.headers['content-length']) > maxMessageSize) {
+                return tooLarge();
+            }
+            const chunks = [] as Buffer[];
+            let size = 0;
+            req.on('data', (chunk: Buffer) => {
+                if (res.headersSent) { return; }
+                size += chunk.byteLength;
+                if (size > maxMessageSize) {
+                    chunks.splice(0);
+                    return tooLarge();
+                }
+                chunks.push(chunk);
+            });
+            req.on('end', () => {
+                if (res.headersSent) { return; }
+                peer.lastSeen = Date.now();
+                peer.messages.received++;
+                this.relay(dbname, peer.id, Buffer.concat(chunks).toString('utf8'), true);
+                reply(200, 'ok');
+            });
+        }
+        else if (action === 'receive' && req.method === 'GET') {
+            // Large message fetched by one of its recipients
+            const id = url.searchParams.get('msg');
+            const msg = this.messages.get(id);
+            if (!msg || msg.dbname !== dbname || !msg.recipients.includes(peer.id)) {
+                return reply(404, 'Not Found');
+            }
+            msg.recipients.splice(msg.recipients.indexOf(peer.id), 1);
+            if (msg.recipients.length === 0) {
+                clearTimeout(msg.timeout);
+                this.messages.delete(id);
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(msg.json);
+        }
+        else {
+            reply(405, 'Method Not Allowed');
+        }
+    }
+}
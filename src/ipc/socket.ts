@@ -76,6 +76,16 @@ export class IPCSocketPeer extends AceBaseIPCPeer {
         let connected = false;
         const queue = [] as IMessage[];
 
+        /**
+         * Amount of messages written to sockets that were not flushed yet
+         */
+        let pending = 0;
+        const write = (socket: Socket, buffer: Buffer) => {
+            pending++;
+            socket.write(buffer, () => { pending--; });
+        };
+        this.getMessageQueue = () => ({ queued: queue.length, pending });
+
         /**
          * Maps peers to IPC sockets (master only)
          */
@@ -184,8 +194,9 @@ export class IPCSocketPeer extends AceBaseIPCPeer {
                 });
 
                 bindEventHandler(socket, 'close', (hadError) => {
-                    // Connection to server closed
-                    storage.debug.log(`IPC peer ${this.id} lost its connection to the service${hadError ? ' because of an error' : ''}`);
+                    // Connection to server closed. There is no failover: the service is the master, only it knows which locks it
+                    // granted and which space it allocated, so no other peer can safely take over its role
+                    storage.debug.error(`IPC peer ${this.id} lost its connection to the service${hadError ? ' because of an error' : ''}, the database has to be closed and reopened`);
                 });
 
                 let buffer = Buffer.alloc(0); // Buffer to store incomplete messages
@@ -234,17 +245,19 @@ export class IPCSocketPeer extends AceBaseIPCPeer {
                     .filter(p => p.id !== message.from && (!message.to || p.id === message.to))
                     .forEach(peer => {
                         const socket = peerSockets.get(peer.id);
-                        socket?.write(buffer);
+                        if (socket) { write(socket, buffer); }
                     });
             }
             else if (connected) {
                 // Send the message to the master who will forward it to the target worker(s)
-                socket.write(buffer);
+                write(socket, buffer);
             }
             else {
                 // Not connected yet, queue message
                 queue.push(message);
+                return;
             }
+            this.trackMessage('out', message);
         };
 
         // Send hello to other peers
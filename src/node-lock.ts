@@ -1,5 +1,6 @@
 import { PathInfo, ID, DebugLogger } from 'acebase-core';
 import { assert } from './assert';
+import { NodeLockIntention, INodeLockTarget, lockConflicts } from './node-transaction';
 
 const DEBUG_MODE = false;
 const DEFAULT_LOCK_TIMEOUT = 120; // in seconds
@@ -39,20 +40,24 @@ export class NodeLocker {
         return DEBUG_MODE ? ++this._lastTid : ID.generate();
     }
 
-    _allowLock(path: string, tid: string|number, forWriting: boolean) {
+    _allowLock(targets: INodeLockTarget[], tid: string|number) {
         /**
-         * Disabled path locking because of the following issue:
+         * Locks requested with an intention only conflict with locks of other transactions on overlapping paths,
+         * see `lockConflicts` in node-transaction.ts. Locks requested without an intention target the root node,
+         * so they allow only one transaction write access at the same time (legacy behaviour).
+         *
+         * To prevent the following deadlock, storage engines must lock any higher event path before acquiring
+         * a write lock on a descendant node:
          *
          * Process 1 requests WRITE lock on "/users/ewout", is GRANTED
-         * Process 2 requests READ lock on "", is DENIED (process 1 writing to a descendant)
-         * Process 3 requests WRITE lock on "/posts/post1", is GRANTED
-         * Process 1 requests READ lock on "/" because of bound events, is DENIED (3 is writing to a descendant)
-         * Process 3 requests READ lock on "/" because of bound events, is DENIED (1 is writing to a descendant)
+         * Process 3 requests WRITE lock on "/users/pete", is GRANTED
+         * Process 1 requests READ lock on "/users" because of bound events, is DENIED (3 is writing to a descendant)
+         * Process 3 requests READ lock on "/users" because of bound events, is DENIED (1 is writing to a descendant)
          *
          * --> DEADLOCK!
          *
-         * Now simply makes sure one transaction has write access at the same time,
-         * might change again in the future...
+         * In general, a transaction holding locks must only wait for locks on ancestors of its locked nodes,
+         * or for locks on nodes its current locks already cover.
          */
 
         const conflict = this._locks
@@ -60,7 +65,7 @@ export class NodeLocker {
                 return (
                     otherLock.tid !== tid
                     && otherLock.state === LOCK_STATE.LOCKED
-                    && (forWriting || otherLock.forWriting)
+                    && targets.some(target => otherLock.targets.some(lockTarget => lockConflicts(target, lockTarget)))
                 );
             });
         return { allow: !conflict, conflict };
@@ -118,7 +123,7 @@ export class NodeLocker {
                 return a.requested - b.requested;
             });
         pending.forEach(lock => {
-            const check = this._allowLock(lock.path, lock.tid, lock.forWriting);
+            const check = this._allowLock(lock.targets, lock.tid);
             lock.waitingFor = check.conflict || null;
             if (check.allow) {
                 this.lock(lock)
@@ -133,6 +138,7 @@ export class NodeLocker {
      * @param path path being locked
      * @param tid a unique value to identify your transaction
      * @param forWriting if the record will be written to. Multiple read locks can be granted access at the same time if there is no write lock. Once a write lock is granted, no others can read from or write to it.
+     * @param options.intention what the lock will be used for. Without an intention, a write lock blocks all other transactions from reading or writing anything
      * @returns returns a promise with the lock object once it is granted. It's .release method can be used as a shortcut to .unlock(path, tid) to release the lock
      */
     async lock(
@@ -140,7 +146,7 @@ export class NodeLocker {
         tid: string,
         forWriting?: boolean,
         comment?: string,
-        options?: { withPriority?: boolean; noTimeout?: boolean }
+        options?: { withPriority?: boolean; noTimeout?: boolean; intention?: NodeLockIntention }
     ): Promise<NodeLock>;
     async lock(lock: NodeLock): Promise<NodeLock>;
     async lock(
@@ -148,7 +154,7 @@ export class NodeLocker {
         tid?: string,
         forWriting = true,
         comment = '',
-        options: { withPriority?: boolean; noTimeout?: boolean } = { withPriority: false, noTimeout: false },
+        options: { withPriority?: boolean; noTimeout?: boolean; intention?: NodeLockIntention } = { withPriority: false, noTimeout: false },
     ): Promise<NodeLock> {
         let lock: NodeLock, proceed: boolean;
         if (path instanceof NodeLock) {
@@ -177,10 +183,10 @@ export class NodeLocker {
             // if (duplicateKeys.length > 0) {
             //     console.log(`ALERT: Duplicate keys found in path "/${path}"`.colorize([ColorStyle.dim, ColorStyle.bgRed]);
             // }
-            lock = new NodeLock(this, path, tid, forWriting, options.withPriority === true);
+            lock = new NodeLock(this, path, tid, forWriting, options.withPriority === true, options.intention);
             lock.comment = comment;
             this._locks.push(lock);
-            const check = this._allowLock(path, tid, forWriting);
+            const check = this._allowLock(lock.targets, tid);
             lock.waitingFor = check.conflict || null;
             proceed = check.allow;
         }
@@ -266,8 +272,8 @@ export class NodeLocker {
         return this._locks || [];
     }
 
-    isAllowed(path: string, tid: string | number, forWriting: boolean) {
-        return this._allowLock(path, tid, forWriting).allow;
+    isAllowed(path: string, tid: string | number, forWriting: boolean, intention?: NodeLockIntention) {
+        return this._allowLock([NodeLock.getTarget(path, forWriting, intention)], tid).allow;
     }
 }
 
@@ -289,6 +295,12 @@ export class NodeLock {
     resolve: (lock: NodeLock) => void;
     reject: (err: Error) => void;
 
+    /**
+     * Paths and intentions other locks are checked against. Grows when the lock is moved to its parent,
+     * because the nodes it was previously locked on are still being written to.
+     */
+    targets: INodeLockTarget[];
+
     /**
      * Constructor for a record lock
      * @param {NodeLocker} locker
@@ -296,13 +308,27 @@ export class NodeLock {
      * @param {string} tid
      * @param {boolean} forWriting
      * @param {boolean} priority
+     * @param {NodeLockIntention} [intention]
      */
     constructor(
         private locker: NodeLocker,
         public path: string,
         public tid: string,
         public forWriting: boolean,
-        public priority = false) {
+        public priority = false,
+        public intention?: NodeLockIntention) {
+        this.targets = [NodeLock.getTarget(path, forWriting, intention)];
+    }
+
+    /**
+     * Gets the lock target for given path and intention. Locks without intention target the root node,
+     * reading or overwriting the entire database.
+     */
+    static getTarget(path: string, forWriting: boolean, intention?: NodeLockIntention): INodeLockTarget {
+        if (!intention) {
+            return { pathInfo: PathInfo.get(''), intention: forWriting ? NodeLockIntention.OverwriteNode() : NodeLockIntention.ReadValue() };
+        }
+        return { pathInfo: PathInfo.get(path), intention };
     }
 
     async release(comment?: string) {
@@ -313,15 +339,32 @@ export class NodeLock {
 
     async moveToParent() {
         const parentPath = PathInfo.get(this.path).parentPath; //getPathInfo(this.path).parent;
-        const allowed = this.locker.isAllowed(parentPath, this.tid, this.forWriting); //_allowLock(parentPath, this.tid, this.forWriting);
+        // A lock with intention keeps its current targets and adds the parent node's own record:
+        // only the reference to the child will be updated, or the child will be read from it
+        const intention = this.intention && (this.forWriting ? NodeLockIntention.UpdateNode([]) : NodeLockIntention.ReadValue({ include: [] }));
+        const allowed = this.locker.isAllowed(parentPath, this.tid, this.forWriting, intention); //_allowLock(parentPath, this.tid, this.forWriting);
         if (allowed) {
             DEBUG_MODE && console.error(`moveToParent ALLOWED for ${this.forWriting ? 'write' : 'read'} lock on "${this.path}" by tid ${this.tid} (${this.comment})`);
             this.history.push({ path: this.path, forWriting: this.forWriting, action: 'moving to parent' });
             this.waitingFor = null;
             this.path = parentPath;
+            if (intention) {
+                this.intention = intention;
+                this.targets.push(NodeLock.getTarget(parentPath, this.forWriting, intention));
+            }
             // this.comment = `moved to parent: ${this.comment}`;
             return this;
         }
+        else if (intention) {
+            // Keep this lock while waiting for the parent, others must not write to the nodes it is locked on
+            DEBUG_MODE && console.error(`moveToParent QUEUED for ${this.forWriting ? 'write' : 'read'} lock on "${this.path}" by tid ${this.tid} (${this.comment})`);
+            const newLock = await this.locker.lock(parentPath, this.tid, this.forWriting, this.comment, { withPriority: true, intention });
+            newLock.targets = this.targets.concat(newLock.targets);
+            newLock.history = this.history;
+            newLock.history.push({ path: this.path, forWriting: this.forWriting, action: 'moving to parent through queue (priority)' });
+            this.locker.unlock(this, `moveLockToParent: ${this.comment}`, false);
+            return newLock;
+        }
         else {
             // Unlock without processing the queue
             DEBUG_MODE && console.error(`moveToParent QUEUED for ${this.forWriting ? 'write' : 'read'} lock on "${this.path}" by tid ${this.tid} (${this.comment})`);
@@ -11,6 +11,11 @@ type NodeKey = string|number;
 
 export abstract class NodeLockIntention {
 
+    /**
+     * Type of intention, used to recreate intentions that were serialized to be sent to another process
+     */
+    abstract readonly type: 'read-info' | 'read-value' | 'update-node' | 'overwrite-node';
+
     /**
      * The intention to read a single node for reflection purposes (eg enumerating its children).
      * While lock is granted, this prevents others to write to this node
@@ -36,16 +41,45 @@ export abstract class NodeLockIntention {
      * While lock is granted, this prevents others to read or write to this node and its descendants
      */
     static OverwriteNode() { return new OverwriteNodeIntention(); }
+
+    /**
+     * Recreates an intention from its serialized form, eg after it was sent to the IPC master by a worker
+     * @param intention intention, or its serialized (JSON) form
+     */
+    static from(intention: Pick<NodeLockIntention, 'type'> & { filter?: ReadValueIntention['filter'], keys?: NodeKey[] }): NodeLockIntention {
+        if (intention instanceof NodeLockIntention) { return intention; }
+        switch (intention.type) {
+            case 'read-info': return new ReadInfoIntention();
+            case 'read-value': return new ReadValueIntention(intention.filter);
+            case 'update-node': return new UpdateNodeIntention(intention.keys);
+            case 'overwrite-node': return new OverwriteNodeIntention();
+            default: throw new Error(`Unknown lock intention "${intention.type}"`);
+        }
+    }
 }
 
-class ReadInfoIntention extends NodeLockIntention {}
+class ReadInfoIntention extends NodeLockIntention {
+    readonly type = 'read-info';
+}
 class ReadValueIntention extends NodeLockIntention {
+    readonly type = 'read-value';
     constructor(public filter?: { include?: NodeKey[], exclude?: NodeKey[], child_objects?: boolean }) { super(); }
 }
 class UpdateNodeIntention extends NodeLockIntention {
+    readonly type = 'update-node';
     constructor(public keys: NodeKey[]) { super(); }
 }
-class OverwriteNodeIntention extends NodeLockIntention {}
+class OverwriteNodeIntention extends NodeLockIntention {
+    readonly type = 'overwrite-node';
+}
+
+/**
+ * Path and intention of a granted or requested lock
+ */
+export interface INodeLockTarget {
+    pathInfo: PathInfo
+    intention: NodeLockIntention
+}
 
 interface INodeLockRequest {
     tid: TransactionID
@@ -118,6 +152,211 @@ interface ITransactionManager {
     // releaseTransaction(tid: TransactionID): Promise<void>
     releaseLock(id: LockID): Promise<void>
 }
+/**
+ * Checks if a requested lock conflicts with an existing lock held by another transaction
+ * @param request path and intention of the requested lock
+ * @param lock path and intention of the existing lock
+ * @returns true if the request lock conflicts with given existing lock
+ */
+export function lockConflicts(request: INodeLockTarget, lock: INodeLockTarget) {
+    const requestPath = request.pathInfo;
+    const lockPath = lock.pathInfo;
+    if (request.intention instanceof ReadInfoIntention) {
+        // Requested lock is to read info for a specific node and/or its children for reflection purposes
+
+        if (lock.intention instanceof OverwriteNodeIntention) {
+            // overwrite lock on "users/ewout/address"
+            //      deny info requests for "users/ewout"
+            //      deny info requests for "users/ewout/address(/*)"
+            return requestPath.isParentOf(lockPath) || requestPath.equals(lockPath) || requestPath.isDescendantOf(lockPath);
+        }
+        else if (lock.intention instanceof UpdateNodeIntention) {
+            // update lock on "users/ewout/address" (keys "street", "nr"):
+            //      deny info requests for "users/ewout/address", "users/ewout/address/street(/*)", "users/ewout/address/nr(/*)"
+            //      allow info requests for all else, eg "users/ewout/address/city"
+            return requestPath.equals(lockPath) || (requestPath.isDescendantOf(lockPath) && lock.intention.keys.some(key => requestPath.isOnTrailOf(lockPath.child(key))));
+        }
+        // Other lock is read lock, allowed
+        return false;
+    }
+    else if (request.intention instanceof ReadValueIntention) {
+        // Requested lock is to read the value of a specific node, optionally filtering the children
+
+        if (lock.intention instanceof ReadValueIntention || lock.intention instanceof ReadInfoIntention) {
+            // existing lock is for reading. No conflict
+            return false;
+        }
+
+        const checkPath = (checkPath:PathInfo) => {
+            if (lock.intention instanceof UpdateNodeIntention) {
+                // update lock on "users/ewout/address" (keys "street", "nr"):
+                //      deny value request for paths "", "users", "users/ewout", "users/ewout/address", "users/ewout/address/street(/*)", "users/ewout/address/nr(/*)"
+                //      allow value requests for all else
+                return checkPath.equals(lockPath) || checkPath.isAncestorOf(lockPath) || lock.intention.keys.some(key => checkPath.isOnTrailOf(lockPath.child(key)));
+            }
+            else if (lock.intention instanceof OverwriteNodeIntention) {
+                // overwrite lock on "users/ewout/address":
+                //      deny value request for anything on that trail
+                return checkPath.isOnTrailOf(lockPath);
+            }
+            return false;
+        };
+
+        let conflict = checkPath(requestPath);
+        if (!request.intention.filter) {
+            // Requested lock is unfiltered - all data will be read
+        }
+        if (conflict && request.intention.filter && !requestPath.isDescendantOf(lockPath)) {
+            // Requested lock is filtered - only selected data will be read
+            conflict = false;
+            if (request.intention.filter.include instanceof Array) {
+                // The intention has an include filter to read only specified child keys/paths
+                conflict = requestPath.equals(lockPath) || request.intention.filter.include.some(key => checkPath(requestPath.child(key)));
+            }
+            if (!conflict && request.intention.filter.exclude instanceof Array) {
+                // request intention excludes 1 or more child keys/paths. If the lock is not on any of the excluded children, it is a conflict
+                conflict = requestPath.equals(lockPath) || !request.intention.filter.exclude.some(key => checkPath(requestPath.child(key)));
+            }
+            if (!conflict && request.intention.filter.child_objects === false) {
+                // child objects will not be loaded, so if the lock is writing to requestPath/obj/... that is no problem.
+                const allow = lockPath.isDescendantOf(requestPath.child('*'))
+                    || (lock.intention instanceof UpdateNodeIntention && lockPath.equals(requestPath.child('*')));
+                conflict = !allow;
+            }
+        }
+        return conflict;
+    }
+    else if (request.intention instanceof OverwriteNodeIntention) {
+        // Requested lock is to overwrite a specific node
+
+        if (lock.intention instanceof UpdateNodeIntention) {
+            // update of "users/ewout/address" (keys "street", "nr"):
+            //      deny overwrites on "", "users", "users/ewout", "users/ewout/address", "users/ewout/address/street(/*)", "users/ewout/address/nr(/*)"
+            //      allow overwrite on "users/ewout/address/city"
+            return requestPath.equals(lockPath) || requestPath.isAncestorOf(lockPath) || lock.intention.keys.some(key => requestPath.isOnTrailOf(lockPath.child(key)));
+        }
+        else if (lock.intention instanceof ReadInfoIntention) {
+            // read info of "users/ewout/address"
+            //      deny overwrites on "", "users", "users/ewout", "users/ewout/address(/*)"
+            //      allow overwrites on "users/ewout/address/*/*"
+            return requestPath.equals(lockPath) || requestPath.isAncestorOf(lockPath) || requestPath.isChildOf(lockPath);
+        }
+        else if (lock.intention instanceof ReadValueIntention) {
+            // lock is read value of "users/ewout/address"
+            //      deny requested overwrites on "", "users", "users/ewout", "users/ewout/address(/*)"
+            //  BUT:
+            //      allow requested overwrite on "users/ewout/address/nr" if read does NOT have "nr" in filter.include
+            //      allow requested overwrite on "users/ewout/address/collection/key" if read does NOT have "collection", "collection/*" or "*/key" etc in filter.include
+            //      allow requested overwrite on "users/ewout/address/street" if read has "street" in filter.exclude
+            //      allow requested overwrite on "users/ewout/address/*/*" if read filter.child_objects === false
+            let conflict = requestPath.isOnTrailOf(lockPath);
+
+            if (conflict && lock.intention.filter && requestPath.isDescendantOf(lockPath)) {
+                conflict = false;
+                if (lock.intention.filter.include instanceof Array) {
+                    conflict = lock.intention.filter.include.some(key => {
+                        // read lock on "users/ewout/address", include ["street", "nr"]
+                        // conflict if overwrite request equals or is descendant of "users/ewout/address/street" or "users/ewout/address/nr"
+                        const childLockPath = lockPath.child(key);
+                        return requestPath.equals(childLockPath) || requestPath.isDescendantOf(childLockPath);
+                    });
+                }
+                if (!conflict && lock.intention.filter.exclude instanceof Array) {
+                    conflict = !lock.intention.filter.exclude.some(key => {
+                        // read lock on "users/ewout/address", exclude ["street", "nr"]
+                        // conflict if overwrite request equals or is descendant of "users/ewout/address/street" or "users/ewout/address/nr"
+                        const childLockPath = lockPath.child(key);
+                        return requestPath.equals(childLockPath) || requestPath.isDescendantOf(childLockPath);
+                    });
+                }
+                if (!conflict && lock.intention.filter.child_objects === false) {
+                    // read lock on "users/ewout", no child_objects
+                    // conflict if overwrite request is a child of "users/ewout", eg "users/ewout/address"
+                    conflict = requestPath.isChildOf(lockPath);
+                }
+            }
+            return conflict;
+        }
+        else if (lock.intention instanceof OverwriteNodeIntention) {
+            // overwrite of "users/ewout/address"
+            //      deny overwrites on "", "users", "users/ewout", "users/ewout/address(/*)"
+            return requestPath.isOnTrailOf(lockPath);
+        }
+    }
+    else if (request.intention instanceof UpdateNodeIntention) {
+        // Requested lock is to update a specific node
+
+        if (lock.intention instanceof UpdateNodeIntention) {
+            // update of "users/ewout/address" (keys "street", "nr"):
+            //      deny updates on "" (key "users"), "users" (key "ewout"), "users/ewout" (key "address"), "users/ewout/address" (any key, the same record is rewritten)
+            //      deny updates on "users/ewout/address/street(/*)", "users/ewout/address/nr(/*)"
+            if (requestPath.equals(lockPath)) { return true; }
+
+            const lockedPaths = lock.intention.keys.map(key => lockPath.child(key));
+            // eg: ["users/ewout/address/street", "users/ewout/address/nr"]
+
+            const overwritePaths = request.intention.keys.map(key => requestPath.child(key));
+            // eg: ["users/ewout/address/city" (allow), "users/ewout/address/street" (deny)]
+            // or: ["users/ewout" (deny)]
+
+            return lockedPaths.some(lockedPath => requestPath.equals(lockedPath) || requestPath.isDescendantOf(lockedPath) || overwritePaths.some(overwritePath => overwritePath.isOnTrailOf(lockedPath)))
+                || overwritePaths.some(overwritePath => lockPath.equals(overwritePath) || lockPath.isDescendantOf(overwritePath));
+        }
+        else if (lock.intention instanceof OverwriteNodeIntention) {
+            // overwrite of "users/ewout/address"
+            //      deny updates on "" (key "users"), "users" (key "ewout"), "users/ewout" (key "address"), "users/ewout/address(/*)" (any key)
+
+            const overwritePaths = request.intention.keys.map(key => requestPath.child(key));
+            // eg: ["users/ewout/address/city" (deny), "users/ewout/address/street" (deny)]
+            // or: ["users/ewout/last_login" (allow), "users/ewout/address" (deny)]
+            // or: "users/ewout" (deny)
+            return requestPath.equals(lockPath) || requestPath.isDescendantOf(lockPath) || overwritePaths.some(path => path.isOnTrailOf(lockPath));
+        }
+        else if (lock.intention instanceof ReadInfoIntention) {
+            // read info of "users/ewout/address":
+            //      deny updates on "" (key "users"), "users" (key "ewout"), "users/ewout" (key "address"), "users/ewout/address" (any key)
+            //      allow updates on "users/ewout/address/*/*"
+            const overwritePaths = request.intention.keys.map(key => requestPath.child(key));
+
+            return requestPath.equals(lockPath) || overwritePaths.some(path => path.equals(lockPath) || path.isAncestorOf(lockPath) || path.isChildOf(lockPath));
+        }
+        else if (lock.intention instanceof ReadValueIntention) {
+            // read value lock on "users/ewout/address":
+            // when unfiltered:
+            //      deny requested updates on "" (key "users"), "users" (key "ewout"), "users/ewout" (key "address"), "users/ewout/address(/*)" (any key)
+            const overwritePaths = request.intention.keys.map(key => requestPath.child(key));
+            // eg: ["users/ewout/address/city" (deny), "users/ewout/address/street" (deny)]
+            // or: ["users/ewout/last_login" (allow), "users/ewout/address" (deny)]
+            // or: ["users/ewout"] (deny)
+            // the updated node's own record is written too, deny if that is "users/ewout/address(/*)"
+            let conflict = requestPath.equals(lockPath) || requestPath.isDescendantOf(lockPath) || overwritePaths.some(path => path.isOnTrailOf(lockPath));
+
+            if (conflict && lock.intention.filter && requestPath.isDescendantOf(lockPath)) {
+                conflict = false;
+                const writePaths = [requestPath, ...overwritePaths];
+                if (lock.intention.filter.include instanceof Array) {
+                    // include ["street", "nr"]:
+                    // deny writes on "users/ewout/address/street" and "users/ewout/address/nr"
+                    const readPaths = lock.intention.filter.include.map(key => lockPath.child(key));
+                    conflict = writePaths.some(writePath => readPaths.some(readPath => writePath.isOnTrailOf(readPath)));
+                }
+                if (!conflict && lock.intention.filter.exclude instanceof Array) {
+                    // exclude ["street", "nr"]:
+                    // deny writes on "users/ewout/address/(not street or nr)"
+                    const unreadPaths = lock.intention.filter.exclude.map(key => lockPath.child(key));
+                    conflict = !writePaths.every(writePath => unreadPaths.some(unreadPath => writePath.equals(unreadPath) || writePath.isDescendantOf(unreadPath)));
+                }
+                if (!conflict && lock.intention.filter.child_objects === false) {
+                    // deny writes on direct children of lockPath
+                    conflict = !overwritePaths.every(writePath => lockPath.child('*').isAncestorOf(writePath));
+                }
+            }
+            return conflict;
+        }
+    }
+    return false; // Should not be able to get here?
+}
+
 export class TransactionManager implements ITransactionManager {
 
     private lastTid:TransactionID = 0;
@@ -245,199 +484,8 @@ export class TransactionManager implements ITransactionManager {
     // }
 
     private conflicts(request: INodeLockRequest, lock: NodeLockInfo) {
-        // Returns true if the request lock conflicts with given existing lock
         if (!request.pathInfo) { request.pathInfo = PathInfo.get(request.path); }
-        const requestPath = request.pathInfo;
-        const lockPath = lock.pathInfo;
-        if (request.intention instanceof ReadInfoIntention) {
-            // Requested lock is to read info for a specific node and/or its children for reflection purposes
-
-            if (lock.intention instanceof OverwriteNodeIntention) {
-                // overwrite lock on "users/ewout/address"
-                //      deny info requests for "users/ewout"
-                //      deny info requests for "users/ewout/address(/*)"
-                return requestPath.isParentOf(lockPath) || lock.path === request.path || requestPath.isDescendantOf(lockPath);
-            }
-            else if (lock.intention instanceof UpdateNodeIntention) {
-                // update lock on "users/ewout/address" (keys "street", "nr"):
-                //      deny info requests for "users/ewout/address", "users/ewout/address/street(/*)", "users/ewout/address/nr(/*)"
-                //      allow info requests for all else, eg "users/ewout/address/city"
-                return request.path === lock.path || (requestPath.isDescendantOf(lockPath) && lock.intention.keys.some(key => requestPath.isOnTrailOf(lockPath.child(key))));
-            }
-            // Other lock is read lock, allowed
-            return false;
-        }
-        else if (request.intention instanceof ReadValueIntention) {
-            // Requested lock is to read the value of a specific node, optionally filtering the children
-
-            if (lock.intention instanceof ReadValueIntention || lock.intention instanceof ReadInfoIntention) {
-                // existing lock is for reading. No conflict
-                return false;
-            }
-
-            const checkPath = (checkPath:PathInfo) => {
-                if (lock.intention instanceof UpdateNodeIntention) {
-                    // update lock on "users/ewout/address" (keys "street", "nr"):
-                    //      deny value request for paths "", "users", "users/ewout", "users/ewout/address", "users/ewout/address", "users/ewout/address/street(/*)", "users/ewout/address/nr(/*)"
-                    //      allow value requests for all else
-                    return checkPath.isOnTrailOf(lockPath) || lock.intention.keys.some(key => checkPath.isOnTrailOf(lockPath.child(key)));
-                }
-                else if (lock.intention instanceof OverwriteNodeIntention) {
-                    // overwrite lock on "users/ewout/address":
-                    //      deny value request for anything on that trail
-                    return checkPath.isOnTrailOf(lockPath);
-                }
-                return false;
-            };
-
-            let conflict = checkPath(requestPath);
-            if (!request.intention.filter) {
-                // Requested lock is unfiltered - all data will be read
-            }
-            if (conflict && request.intention.filter && !requestPath.isDescendantOf(lockPath)) {
-                // Requested lock is filtered - only selected data will be read
-                conflict = false;
-                if (request.intention.filter.include instanceof Array) {
-                    // The intention has an include filter to read only specified child keys/paths
-                    conflict = requestPath.equals(lockPath) || request.intention.filter.include.some(key => checkPath(requestPath.child(key)));
-                }
-                if (!conflict && request.intention.filter.exclude instanceof Array) {
-                    // request intention excludes 1 or more child keys/paths. If the lock is not on any of the excluded children, it is a conflict
-                    conflict = requestPath.equals(lockPath) || !request.intention.filter.exclude.some(key => checkPath(requestPath.child(key)));
-                }
-                if (!conflict && request.intention.filter.child_objects === false) {
-                    // child objects will not be loaded, so if the lock is writing to requestPath/obj/... that is no problem.
-                    const allow = lockPath.isDescendantOf(requestPath.child('*'))
-                        || (lock.intention instanceof UpdateNodeIntention && lockPath.equals(requestPath.child('*')));
-                    conflict = !allow;
-                }
-            }
-            return conflict;
-        }
-        else if (request.intention instanceof OverwriteNodeIntention) {
-            // Requested lock is to overwrite a specific node
-
-            if (lock.intention instanceof UpdateNodeIntention) {
-                // update of "users/ewout/address" (keys "street", "nr"):
-                //      deny overwrites on "", "users", "users/ewout", "users/ewout/address", "users/ewout/address/street(/*)", "users/ewout/address/nr(/*)"
-                //      allow overwrite on "users/ewout/address/city"
-                return requestPath.equals(lockPath) || requestPath.isAncestorOf(lockPath) || lock.intention.keys.some(key => requestPath.equals(lockPath.child(key)) || requestPath.isAncestorOf(lockPath.child(key)));
-            }
-            else if (lock.intention instanceof ReadInfoIntention) {
-                // read info of "users/ewout/address"
-                //      deny overwrites on "", "users", "users/ewout", "users/ewout/address(/*)"
-                //      allow overwrites on "users/ewout/address/*/*"
-                return requestPath.equals(lockPath) || requestPath.isAncestorOf(lockPath) || requestPath.isChildOf(lockPath);
-            }
-            else if (lock.intention instanceof ReadValueIntention) {
-                // lock is read value of "users/ewout/address"
-                //      deny requested overwrites on "", "users", "users/ewout", "users/ewout/address(/*)"
-                //  BUT:
-                //      allow requested overwrite on "users/ewout/address/nr" if read does NOT have "nr" in filter.include
-                //      allow requested overwrite on "users/ewout/address/collection/key" if read does NOT have "collection", "collection/*" or "*/key" etc in filter.include
-                //      allow requested overwrite on "users/ewout/address/street" if read has "street" in filter.exclude
-                //      allow requested overwrite on "users/ewout/address/*/*" if read filter.child_objects === false
-                let conflict = requestPath.isOnTrailOf(lockPath);
-
-                if (conflict && lock.intention.filter && requestPath.isDescendantOf(lockPath)) {
-                    conflict = false;
-                    if (lock.intention.filter.include instanceof Array) {
-                        conflict = lock.intention.filter.include.some(key => {
-                            // read lock on "users/ewout/address", include ["street", "nr"]
-                            // conflict if overwrite request equals or is descendant of "users/ewout/address/street" or "users/ewout/address/nr"
-                            const childLockPath = lockPath.child(key);
-                            return requestPath.equals(childLockPath) || requestPath.isDescendantOf(childLockPath);
-                        });
-                    }
-                    if (!conflict && lock.intention.filter.exclude instanceof Array) {
-                        conflict = !lock.intention.filter.exclude.some(key => {
-                            // read lock on "users/ewout/address", exclude ["street", "nr"]
-                            // conflict if overwrite request equals or is descendant of "users/ewout/address/street" or "users/ewout/address/nr"
-                            const childLockPath = lockPath.child(key);
-                            return requestPath.equals(childLockPath) || requestPath.isDescendantOf(childLockPath);
-                        });
-                    }
-                    if (!conflict && lock.intention.filter.child_objects === false) {
-                        // read lock on "users/ewout", no child_objects
-                        // conflict if overwrite request is a child of "users/ewout", eg "users/ewout/address"
-                        conflict = requestPath.isChildOf(lockPath);
-                    }
-                }
-                return conflict;
-            }
-            else if (lock.intention instanceof OverwriteNodeIntention) {
-                // overwrite of "users/ewout/address"
-                //      deny overwrites on "", "users", "users/ewout", "users/ewout/address(/*)"
-                return requestPath.isOnTrailOf(lockPath);
-            }
-        }
-        else if (request.intention instanceof UpdateNodeIntention) {
-            // Requested lock is to update a specific node
-
-            if (lock.intention instanceof UpdateNodeIntention) {
-                // update of "users/ewout/address" (keys "street", "nr"):
-                //      deny updates on "" (key "users"), "users" (key "ewout"), "users/ewout" (key "address"), "users/ewout/address" (keys "street", "nr")
-
-                const lockedPaths = lock.intention.keys.map(key => lockPath.child(key));
-                // eg: ["users/ewout/address/street", "users/ewout/address/nr"]
-
-                const overwritePaths = request.intention.keys.map(key => requestPath.child(key));
-                // eg: ["users/ewout/address/city" (allow), "users/ewout/address/street" (deny)]
-                // or: ["users/ewout" (deny)]
-
-                return lockedPaths.some(lockPath => overwritePaths.some(overwritePath => overwritePath.isOnTrailOf(lockPath)));
-            }
-            else if (lock.intention instanceof OverwriteNodeIntention) {
-                // overwrite of "users/ewout/address"
-                //      deny updates on "" (key "users"), "users" (key "ewout"), "users/ewout" (key "address"), "users/ewout/address(/*)" (any key)
-
-                const overwritePaths = request.intention.keys.map(key => requestPath.child(key));
-                // eg: ["users/ewout/address/city" (deny), "users/ewout/address/street" (deny)]
-                // or: ["users/ewout/last_login" (allow), "users/ewout/address" (deny)]
-                // or: "users/ewout" (deny)
-                return overwritePaths.some(path => path.isOnTrailOf(lockPath));
-            }
-            else if (lock.intention instanceof ReadInfoIntention) {
-                // read info of "users/ewout/address":
-                //      deny updates on "" (key "users"), "users" (key "ewout"), "users/ewout" (key "address"), "users/ewout/address" (any key)
-                //      allow updates on "users/ewout/address/*/*"
-                const overwritePaths = request.intention.keys.map(key => requestPath.child(key));
-
-                return overwritePaths.some(path => path.equals(lockPath) || path.isAncestorOf(lockPath) || path.isChildOf(lockPath));
-            }
-            else if (lock.intention instanceof ReadValueIntention) {
-                // read value lock on "users/ewout/address":
-                // when unfiltered:
-                //      deny requested updates on "" (key "users"), "users" (key "ewout"), "users/ewout" (key "address"), "users/ewout/address(/*)" (any key)
-                const overwritePaths = request.intention.keys.map(key => requestPath.child(key));
-                // eg: ["users/ewout/address/city" (deny), "users/ewout/address/street" (deny)]
-                // or: ["users/ewout/last_login" (allow), "users/ewout/address" (deny)]
-                // or: ["users/ewout"] (deny)
-                let conflict = overwritePaths.some(path => path.isOnTrailOf(lockPath));
-
-                if (conflict && lock.intention.filter && !requestPath.isAncestorOf(lockPath)) {
-                    conflict = false;
-                    if (lock.intention.filter.include instanceof Array) {
-                        // include ["street", "nr"]:
-                        // deny writes on "users/ewout/address/street" and "users/ewout/address/nr"
-                        const readPaths = lock.intention.filter.include.map(key => lockPath.child(key));
-                        conflict = overwritePaths.some(writePath => readPaths.some(readPath => writePath.isOnTrailOf(readPath)));
-                    }
-                    if (!conflict && lock.intention.filter.exclude instanceof Array) {
-                        // exclude ["street", "nr"]:
-                        // deny writes on "users/ewout/address/(not street or nr)"
-                        const unreadPaths = lock.intention.filter.include.map(key => lockPath.child(key));
-                        conflict = !overwritePaths.every(writePath => unreadPaths.some(readPath => writePath.isOnTrailOf(readPath)));
-                    }
-                    if (!conflict && lock.intention.filter.child_objects === false) {
-                        // deny writes on direct children of lockPath
-                        conflict = !overwritePaths.every(writePath => lockPath.child('*').isAncestorOf(writePath));
-                    }
-                }
-                return conflict;
-            }
-        }
-        return false; // Should not be able to get here?
+        return lockConflicts(request as INodeLockTarget, lock);
     }
 }
 
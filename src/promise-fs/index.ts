@@ -299,6 +299,22 @@ export abstract class pfs {
         });
     }
 
+    /**
+     * Asynchronously copies src to dest. By default, dest is overwritten if it already exists
+     * @param src source filename to copy
+     * @param dest destination filename of the copy operation
+     * @param mode optional modifiers for the copy operation, eg fs.constants.COPYFILE_EXCL. default is 0
+     * @returns returns a promise that resolves once the file has been copied
+     */
+    static copyFile(src: string|Buffer|fs.PathLike, dest: string|Buffer|fs.PathLike, mode = 0): Promise<void> {
+        return new Promise((resolve, reject) => {
+            fs.copyFile(src, dest, mode, (err) => {
+                if (err) { reject(err); }
+                else { resolve(); }
+            });
+        });
+    }
+
     /**
      * Asynchronous stat(2) - Get file status
      * @param path A path to a file. If a URL is provided, it must use the file:
@@ -0,0 +1,227 @@
+import { AceBaseBase, PathInfo } from 'acebase-core';
+import type { Api, Query } from 'acebase-core';
+import { VALUE_TYPES } from './node-value-types';
+import { NodeNotFoundError } from './node-errors';
+import { Storage } from './storage';
+import { DataIndex } from './data-index';
+import type { LocalQueryFilter } from './query';
+
+/**
+ * TODO: import once LocalApi has been ported to TypeScript
+ */
+type LocalApi = Api & {
+    db: AceBaseBase;
+    storage: Storage;
+}
+
+export interface AggregateOptions {
+    /**
+     * Key to group the matching nodes by. Nodes without a value for this key are not included.
+     * If not set, all matching nodes are aggregated into a single result
+     */
+    groupBy?: string;
+    /** Whether to count the nodes */
+    count?: boolean;
+    /** Key(s) to sum the numeric values of */
+    sum?: string | string[];
+    /** Key(s) to average the numeric values of */
+    avg?: string | string[];
+    /** Key(s) to get the lowest values of */
+    min?: string | string[];
+    /** Key(s) to get the highest values of */
+    max?: string | string[];
+}
+
+export interface AggregateResult {
+    /** Value of the `groupBy` key, not set if results are not grouped */
+    group?: any;
+    count?: number;
+    sum?: Record<string, number>;
+    avg?: Record<string, number>;
+    min?: Record<string, any>;
+    max?: Record<string, any>;
+}
+
+export interface AggregateExplanation {
+    path: string;
+    /**
+     * How the aggregation was executed:
+     * - `'index'`: answered from the entries and metadata of a single index, no nodes were loaded
+     * - `'scan'`: all children of the path were streamed, only matching nodes were loaded with the keys needed
+     */
+    strategy: 'index' | 'scan';
+    /** Description of the used index, if any */
+    index: string | null;
+    /** Number of checked index entry values or child nodes */
+    checked: number;
+    /** Number of matching nodes */
+    matched: number;
+    duration: number;
+}
+
+/** Filter operators that can be executed on indexed values and metadata */
+const indexableOperators = ['<', '<=', '==', '!=', '>=', '>', 'like', '!like', 'in', '!in', 'matches', '!matches', 'between', '!between', 'exists', '!exists'];
+
+/** Operators that never match nodes without a value for the filtered key. Such filters on an index key can use its entries */
+const valueRequiredOperators = ['<', '<=', '==', '>=', '>', 'like', 'in', 'matches', 'between', 'exists'];
+
+const toArray = (keys: string | string[]) => typeof keys === 'string' ? [keys] : keys instanceof Array ? keys : [];
+
+const getKeyValue = (value: any, key: string) => PathInfo.getPathKeys(key)
+    .reduce((value, key) => value !== null && typeof value === 'object' && key in value ? value[key] : null, value);
+
+/**
+ * Aggregates the values of all nodes matching a query, without building a result set: the query is answered from an index
+ * if a single index contains all filtered and aggregated keys, otherwise by streaming through the children of the path
+ * @param api LocalApi instance
+ * @param path Path of the object collection to aggregate
+ * @param query Query with the filters to apply. `skip`, `take` and `order` are ignored
+ * @param options What to aggregate
+ * @returns Returns a promise that resolves with the aggregated results, one per group, sorted by group value
+ */
+export async function executeAggregate(api: LocalApi, path: string, query: Pick<Query, 'filters'>, options: AggregateOptions) {
+    const startTime = Date.now();
+    const filters = query.filters ?? [];
+    const sumKeys = toArray(options.sum), avgKeys = toArray(options.avg), minKeys = toArray(options.min), maxKeys = toArray(options.max);
+    const valueKeys = [...sumKeys, ...avgKeys, ...minKeys, ...maxKeys].filter((key, i, keys) => keys.indexOf(key) === i);
+    const loadKeys = [...(options.groupBy ? [options.groupBy] : []), ...valueKeys].filter((key, i, keys) => keys.indexOf(key) === i);
+    if (loadKeys.length === 0 && !options.count) {
+        throw new Error('Nothing to aggregate, set count, sum, avg, min or max');
+    }
+
+    type Aggregate = {
+        group: any;
+        count: number;
+        sum: Record<string, number>;
+        numbers: Record<string, number>;
+        min: Record<string, any>;
+        max: Record<string, any>;
+    };
+    const createAggregate = (group: any): Aggregate => ({ group, count: 0, sum: {}, numbers: {}, min: {}, max: {} });
+    const groups = new Map<any, Aggregate>(); // Uses timestamps of Date groups as keys
+    const add = (group: any, getValue: (key: string) => any, count = 1) => {
+        const groupKey = group instanceof Date ? group.getTime() : group;
+        let aggregate = groups.get(groupKey);
+        if (!aggregate) {
+            aggregate = createAggregate(group);
+            groups.set(groupKey, aggregate);
+        }
+        aggregate.count += count;
+        for (const key of valueKeys) {
+            const value = getValue(key);
+            if (value === null || typeof value === 'undefined') { continue; }
+            if (typeof value === 'number') {
+                aggregate.sum[key] = (aggregate.sum[key] ?? 0) + value * count;
+                aggregate.numbers[key] = (aggregate.numbers[key] ?? 0) + count;
+            }
+            if (!(key in aggregate.min) || value < aggregate.min[key]) { aggregate.min[key] = value; }
+            if (!(key in aggregate.max) || value > aggregate.max[key]) { aggregate.max[key] = value; }
+        }
+    };
+
+    const explanation: AggregateExplanation = { path, strategy: 'scan', index: null, checked: 0, matched: 0, duration: 0 };
+    const index = api.storage.indexes.get(path).find(index => {
+        const keys = [index.key, ...index.allMetadataKeys];
+        return index.type === 'normal'
+            && loadKeys.every(key => keys.includes(key))
+            && filters.every(f => keys.includes(f.key as string) && indexableOperators.includes(f.op))
+            && (options.groupBy === index.key || filters.some(f => f.key === index.key && valueRequiredOperators.includes(f.op)));
+    }) as DataIndex;
+
+    if (index) {
+        // Use index entries, their values are the values of the index key and their metadata contains the included keys
+        explanation.strategy = 'index';
+        explanation.index = index.description;
+        const normalize = (value: any) => typeof value === 'string' && !index.caseSensitive ? value.toLocaleLowerCase(index.textLocale) : value;
+        const keyFilters = filters.filter(f => f.key === index.key).map(f => ({ ...f, compare: f.compare instanceof Array ? f.compare.map(normalize) : normalize(f.compare) }));
+        const metadataFilters = filters.filter(f => f.key !== index.key);
+        const loadMetadata = metadataFilters.length > 0 || loadKeys.some(key => key !== index.key);
+        const test = (value: any, f: typeof filters[number]) => {
+            if (f.op === 'exists' || f.op === '!exists') {
+                const exists = value !== null && typeof value !== 'undefined';
+                return f.op === 'exists' ? exists : !exists;
+            }
+            return api.storage.test(value, f.op, f.compare, (f as LocalQueryFilter).collation);
+        };
+        await index.forEachEntry((value, count, metadata) => {
+            explanation.checked += count;
+            if (!keyFilters.every(f => test(value, f))) {
+                return;
+            }
+            const getValue = (metadata: Record<string, any>) => (key: string) => key === index.key ? value : metadata?.[key];
+            if (!loadMetadata) {
+                explanation.matched += count;
+                return add(options.groupBy ? value : undefined, getValue(null), count);
+            }
+            for (const entry of metadata) {
+                if (!metadataFilters.every(f => test(entry[f.key], f))) {
+                    continue;
+                }
+                explanation.matched++;
+                const group = options.groupBy ? getValue(entry)(options.groupBy) : undefined;
+                if (options.groupBy && (group === null || typeof group === 'undefined')) {
+                    continue;
+                }
+                add(group, getValue(entry));
+            }
+        }, { metadata: loadMetadata });
+    }
+    else {
+        const pathInfo = PathInfo.get(path);
+        if (pathInfo.keys.some(key => typeof key === 'string' && (key === '*' || key.startsWith('$')))) {
+            const keys = [...loadKeys, ...filters.map(f => f.key)].filter((key, i, keys) => keys.indexOf(key) === i).map(key => `"${key}"`);
+            throw new Error(`Aggregating wildcard path "/${path}" requires an index on one of the key(s) ${keys.join(', ')} that includes all others`);
+        }
+        // Stream through all children, only load the keys we need of nodes that match. Check max 50 nodes simultaneously
+        const pending = [] as Promise<void>[];
+        const check = async (childPath: string) => {
+            explanation.checked++;
+            const isMatch = await api.storage.matchNode(childPath, filters);
+            if (!isMatch) { return; }
+            const node = loadKeys.length > 0 ? await api.storage.getNode(childPath, { include: loadKeys }) : { value: {} };
+            if (node.value === null) { return; } // Removed meanwhile
+            const group = options.groupBy ? getKeyValue(node.value, options.groupBy) : undefined;
+            if (group === null) { return; }
+            explanation.matched++;
+            add(group, key => getKeyValue(node.value, key));
+        };
+        try {
+            await api.storage.getChildren(path, { async: true }).next(child => {
+                if (child.type !== VALUE_TYPES.OBJECT || !child.address) {
+                    return;
+                }
+                pending.push(check(child.address.path));
+                if (pending.length >= 50) {
+                    // Pause child iteration until these are done
+                    return Promise.all(pending.splice(0)).then(() => undefined);
+                }
+            });
+            await Promise.all(pending);
+        }
+        catch (err) {
+            if (!(err instanceof NodeNotFoundError)) {
+                throw err;
+            }
+        }
+    }
+
+    const toResult = (aggregate: Aggregate) => {
+        const result: AggregateResult = {};
+        options.groupBy && (result.group = aggregate.group);
+        options.count && (result.count = aggregate.count);
+        sumKeys.length > 0 && (result.sum = sumKeys.reduce((sum, key) => (sum[key] = aggregate.sum[key] ?? 0, sum), {} as Record<string, number>));
+        avgKeys.length > 0 && (result.avg = avgKeys.reduce((avg, key) => (avg[key] = key in aggregate.numbers ? aggregate.sum[key] / aggregate.numbers[key] : null, avg), {} as Record<string, number>));
+        minKeys.length > 0 && (result.min = minKeys.reduce((min, key) => (min[key] = aggregate.min[key] ?? null, min), {} as Record<string, any>));
+        maxKeys.length > 0 && (result.max = maxKeys.reduce((max, key) => (max[key] = aggregate.max[key] ?? null, max), {} as Record<string, any>));
+        return result;
+    };
+    const results = [...groups.entries()]
+        .sort(([a], [b]) => a === b ? 0 : a < b ? -1 : 1)
+        .map(([, aggregate]) => toResult(aggregate));
+    if (!options.groupBy && results.length === 0) {
+        // Nothing matched, return an empty aggregate
+        results.push(toResult(createAggregate(undefined)));
+    }
+    explanation.duration = Date.now() - startTime;
+    return { results, explain: explanation };
+}
@@ -0,0 +1,100 @@
+import { PathInfo, Transport } from 'acebase-core';
+import { compareStrings, getCollationKey, getCollator } from './collation';
+import type { LocalQueryOrder } from './query';
+
+/**
+ * Position of a query result in a sorted result set: the values of its sort keys, and its path
+ */
+export interface QueryCursorPosition {
+    values: any[];
+    path: string;
+}
+
+/**
+ * Compares 2 sort values, `null` (or missing) values come first
+ * @param collator optional collator to compare strings with
+ * @returns negative number if `left` comes before `right`, positive number if after, or 0 if equal
+ */
+export function compareSortValues(left: any, right: any, collator?: Intl.Collator) {
+    left = left instanceof Date ? left.getTime() : left ?? null;
+    right = right instanceof Date ? right.getTime() : right ?? null;
+    if (left === null) { return right === null ? 0 : -1; }
+    if (right === null) { return 1; }
+    if (collator && typeof left === 'string' && typeof right === 'string') {
+        return compareStrings(left, right, collator);
+    }
+    if (left == right) { return 0; }
+    return left < right ? -1 : 1;
+}
+
+/**
+ * Gets the value of a (nested) sort key from a (partially) loaded value
+ */
+export function getSortValue(value: any, key: string | number) {
+    const trailKeys = PathInfo.getPathKeys(typeof key === 'number' ? `[${key}]` : key);
+    return trailKeys.reduce((val, key) => val !== null && typeof val === 'object' && key in val ? val[key] : null, value);
+}
+
+/**
+ * Compares the positions of 2 results in a result set sorted by given order, results with equal sort values are sorted by path
+ */
+export function comparePositions(order: LocalQueryOrder[], a: QueryCursorPosition, b: QueryCursorPosition) {
+    for (let i = 0; i < order.length; i++) {
+        const diff = compareSortValues(a.values[i], b.values[i], getCollator(order[i].collation));
+        if (diff !== 0) {
+            return order[i].ascending ? diff : -diff;
+        }
+    }
+    return a.path === b.path ? 0 : a.path < b.path ? -1 : 1;
+}
+
+const getOrderSignature = (order: LocalQueryOrder[]) => order.map(o => {
+    const collation = getCollationKey(o.collation);
+    return `${o.key}:${o.ascending ? 'asc' : 'desc'}${collation ? `@${collation}` : ''}`;
+}).join(',');
+
+const toBase64Url = (str: string) => {
+    const base64 = typeof Buffer === 'function'
+        ? Buffer.from(str, 'utf8').toString('base64')
+        : btoa(String.fromCharCode(...new TextEncoder().encode(str)));
+    return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (str: string) => {
+    const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+    return typeof Buffer === 'function'
+        ? Buffer.from(base64, 'base64').toString('utf8')
+        : new TextDecoder().decode(Uint8Array.from(atob(base64), c => c.charCodeAt(0)));
+};
+
+/**
+ * Creates an opaque cursor for a result position, that can be used to continue a query after that result
+ * @param order sort order of the query
+ * @param position values of the sort keys and path of the last result
+ */
+export function createCursor(order: LocalQueryOrder[], position: QueryCursorPosition) {
+    const data = { o: getOrderSignature(order), v: position.values, p: position.path };
+    return toBase64Url(JSON.stringify(Transport.serialize2(data)));
+}
+
+/**
+ * Parses a cursor created by `createCursor`
+ * @param order sort order of the query the cursor is used for, must be the same as the query it was created for
+ * @throws if the cursor is invalid or was created for a query with another sort order
+ */
+export function parseCursor(order: LocalQueryOrder[], cursor: string): QueryCursorPosition {
+    let data: { o: string; v: any[]; p: string };
+    try {
+        data = Transport.deserialize2(JSON.parse(fromBase64Url(cursor)));
+    }
+    catch (err) {
+        throw new Error(`Invalid query cursor "${cursor}"`);
+    }
+    if (typeof data?.p !== 'string' || !(data.v instanceof Array)) {
+        throw new Error(`Invalid query cursor "${cursor}"`);
+    }
+    if (data.o !== getOrderSignature(order)) {
+        throw new Error(`Query cursor was created for a query with another sort order`);
+    }
+    return { values: data.v, path: data.p };
+}
@@ -0,0 +1,341 @@
+import type { Query, QueryFilter, QueryOrder } from 'acebase-core';
+import { DataIndex, CompoundIndex } from './data-index';
+import type { CompoundIndexRangeOperator } from './data-index/compound-index';
+import { CollationOptions, isSameCollation } from './collation';
+
+export type PlannedQueryFilter = QueryFilter & {
+    /** Collation to compare strings with in range filters */
+    collation?: CollationOptions;
+    index?: DataIndex;
+    /**
+     * How the assigned index is used for this filter:
+     * - `undefined`: the filter is executed by querying the index
+     * - `'filter'`: the filter is executed on the metadata of another filter's index results
+     * - `'compound'`: the filter is executed by the compound index query of another filter
+     */
+    indexUsage?: 'filter' | 'sort' | 'compound';
+};
+
+export type PlannedQueryOrder = QueryOrder & { collation?: CollationOptions; index?: DataIndex };
+
+export interface CompoundQueryPlan {
+    index: CompoundIndex;
+    /** All filters executed by the compound index, the first one will execute the index query */
+    filters: PlannedQueryFilter[];
+    /** Equality filters on the leading keys of the index */
+    equalityFilters: PlannedQueryFilter[];
+    /** Optional range filter on the next key of the index */
+    rangeFilter?: PlannedQueryFilter;
+    /** Whether the index can also be used to sort on the next key */
+    sort: boolean;
+    points: number;
+}
+
+export interface QueryPlan {
+    compound?: CompoundQueryPlan;
+    /** Indexes that will be queried */
+    usingIndexes: Array<{ index: DataIndex; description: string }>;
+    /** Estimated amount of results of each filter that will be executed by an index query */
+    estimates: Map<PlannedQueryFilter, number | null>;
+    /** The most selective indexed filter, its results determine the amount of records that have to be checked by other filters */
+    driving?: PlannedQueryFilter;
+}
+
+export interface QueryExplanation {
+    path: string;
+    /**
+     * How the query was executed:
+     * - `'expand'`: the wildcard path was expanded into multiple queries using the filter values on its `$vars`
+     * - `'sort-index'`: results were taken from a sorted index (filterless query using `take`)
+     * - `'index'`: all filters were executed on indexes
+     * - `'index+scan'`: some filters were executed on indexes, others on the records they returned
+     * - `'scan'`: all filters were executed on all child records
+     * - `'or'`: each branch of the `or` filters was executed as a separate query, and their results were merged
+     */
+    strategy: 'expand' | 'sort-index' | 'index' | 'index+scan' | 'scan' | 'or';
+    filters: Array<{
+        key: string | number;
+        op: string;
+        compare: any;
+        /** Description of the index used, or `null` if the filter was executed on the records */
+        index: string | null;
+        /**
+         * - `'index'`: the filter was executed by querying the index
+         * - `'metadata'`: the filter was executed on metadata of another filter's index results
+         * - `'compound'`: the filter was executed by the compound index query of another filter
+         * - `'scan'`: the filter was executed on the records
+         * - `'path'`: the filter was executed by expanding the wildcard path
+         */
+        method: 'index' | 'metadata' | 'compound' | 'scan' | 'path';
+        /** Estimated amount of matches, `null` if not estimated */
+        estimated: number | null;
+        /** Actual amount of results remaining after this step, `null` for filters executed on the records (see `scan`) */
+        actual: number | null;
+    }>;
+    sort: Array<{
+        key: string | number;
+        ascending: boolean;
+        index: string | null;
+        /**
+         * - `'index'`: results were read from the index in sorted order
+         * - `'metadata'`: values were read from index results, and sorted in memory
+         * - `'memory'`: values were loaded from the records, and sorted in memory
+         */
+        method: 'index' | 'metadata' | 'memory';
+    }>;
+    /** Amount of records checked and matched by filters that were executed on the records */
+    scan: { checked: number; matched: number } | null;
+    /** Estimated amount of results before skip and take are applied, `null` if not estimated */
+    estimated: number | null;
+    /** Actual amount of results returned */
+    actual: number;
+    /** Query duration in ms */
+    duration: number;
+    /** Explanations of the queries executed on the expanded paths or for each branch, if `strategy` is `'expand'` or `'or'` */
+    queries?: QueryExplanation[];
+}
+
+/**
+ * Indexed filters with an estimated result count this many times larger than the most selective indexed
+ * filter are executed on the records returned by that index instead. Checking a small set of records is
+ * cheaper than reading (and intersecting) a large set of index results.
+ */
+const DEMOTE_SELECTIVITY_FACTOR = 10;
+
+/**
+ * Matches operators of special indexes (eg `fulltext:contains`, `geo:nearby`), they can only be executed by their index
+ */
+export const specialOpsRegex = /^[a-z]+:/i;
+
+const isIndexableValue = (val: unknown) => val === null || ['string','number','boolean','bigint'].includes(typeof val) || val instanceof Date;
+
+const rangeOperators = ['<', '<=', '>', '>=', 'between', '!between'];
+
+/**
+ * Checks if an index can execute a filter: range filters on strings require the index to use the same collation
+ */
+const isCollationCompatible = (index: DataIndex, filter: PlannedQueryFilter) => {
+    if (!rangeOperators.includes(filter.op)) { return true; }
+    const values = filter.compare instanceof Array ? filter.compare : [filter.compare];
+    return !values.some(val => typeof val === 'string') || isSameCollation(index.collation, filter.collation);
+};
+
+/**
+ * Estimates the amount of results an index query for given filter will yield
+ */
+async function estimateFilter(filter: PlannedQueryFilter, compound?: CompoundQueryPlan) {
+    if (filter === compound?.filters[0]) {
+        return compound.index.estimateFind(
+            compound.equalityFilters.map(f => f.compare),
+            compound.rangeFilter && { op: compound.rangeFilter.op as CompoundIndexRangeOperator, val: compound.rangeFilter.compare },
+        );
+    }
+    return filter.index.estimate(filter.op, filter.compare);
+}
+
+/**
+ * Determines which indexes to use for the filters and sorts of a query. Assigns indexes to the passed `filters`
+ * and `sort` entries, estimates the selectivity of the chosen indexes if there are multiple to choose from (or
+ * `options.estimate` is set), and executes the least selective ones on the records of the most selective one instead.
+ * @param query Query to plan
+ * @param filters Copy of the query filters to assign indexes to
+ * @param sort Copy of the query sort to assign indexes to
+ * @param availableIndexes Indexes available on the query path
+ */
+export async function planQuery(
+    query: Query,
+    filters: PlannedQueryFilter[],
+    sort: PlannedQueryOrder[],
+    availableIndexes: DataIndex[],
+    options: {
+        /** Whether the query is on a wildcard path, which requires all filters to use an index */
+        isWildcardPath: boolean;
+        /** Whether to estimate all indexed filters, even if there is nothing to choose */
+        estimate?: boolean;
+    },
+): Promise<QueryPlan> {
+    const usingIndexes = [] as QueryPlan['usingIndexes'];
+
+    // Check if there is a compound index we can use for equality filters on its leading keys,
+    // combined with a range filter or sort on its next key
+    const compound = availableIndexes
+        .filter(index => index instanceof CompoundIndex)
+        .map((index: CompoundIndex): CompoundQueryPlan => {
+            const equalityFilters = [] as PlannedQueryFilter[];
+            for (const key of index.keys) {
+                const filter = filters.find(f => f.key === key && f.op === '==' && isIndexableValue(f.compare));
+                if (!filter) { break; }
+                equalityFilters.push(filter);
+            }
+            const nextKey = index.keys[equalityFilters.length];
+            const rangeFilter = typeof nextKey === 'undefined' ? undefined : filters.find(f =>
+                f.key === nextKey && index.validOperators.includes(f.op) && isCollationCompatible(index, f)
+                && (f.op === 'between' ? f.compare instanceof Array && f.compare.length === 2 && f.compare.every(isIndexableValue) : isIndexableValue(f.compare)),
+            );
+            const useSort = typeof nextKey !== 'undefined' && sort.length > 0 && sort[0].key === nextKey && isSameCollation(index.collation, sort[0].collation);
+            const planFilters = rangeFilter ? equalityFilters.concat(rangeFilter) : equalityFilters;
+            return { index, filters: planFilters, equalityFilters, rangeFilter, sort: useSort, points: planFilters.length + (useSort ? 1 : 0) };
+        })
+        .filter(plan => plan.filters.length > 0 && plan.points >= 2)
+        .sort((a, b) => b.points - a.points)[0];
+    if (compound) {
+        const { index } = compound;
+        compound.filters.forEach((filter, i) => {
+            filter.index = index;
+            if (i > 0) { filter.indexUsage = 'compound'; } // Executed by the first filter's index query
+        });
+        if (compound.sort) {
+            sort[0].index = index;
+        }
+        usingIndexes.push({ index, description: index.description });
+    }
+
+    filters.forEach(filter => {
+        if (filter.index) {
+            // Index has been assigned already
+            return;
+        }
+
+        // Check if there are indexes on this filter key
+        const indexesOnKey = availableIndexes
+            .filter(index => index.key === filter.key)
+            .filter(index => {
+                return index.validOperators.includes(filter.op) && isCollationCompatible(index, filter);
+            });
+
+        if (indexesOnKey.length >= 1) {
+            // If there are multiple indexes on 1 key (happens when index includes other keys),
+            // use the one that can also be used for the most other filters and sorts
+            const otherFilterKeys = filters.filter(f => f !== filter).map(f => f.key);
+            const sortKeys = sort.map(o => o.key).filter(key => key !== filter.key);
+            const beneficialIndexes = indexesOnKey.map(index => {
+                const availableKeys = index.includeKeys.concat(index.key);
+                const forOtherFilters = availableKeys.filter(key => otherFilterKeys.includes(key));
+                const forSorting = availableKeys.filter(key => sortKeys.includes(key));
+                const forBoth = forOtherFilters.concat(forSorting.filter(index => !forOtherFilters.includes(index)));
+                const points = {
+                    filters: forOtherFilters.length,
+                    sorting: forSorting.length * (query.take !== 0 ? forSorting.length : 1),
+                    both: forBoth.length * forBoth.length,
+                    get total() {
+                        return this.filters + this.sorting + this.both;
+                    },
+                };
+                return { index, points: points.total, filterKeys: forOtherFilters, sortKeys: forSorting };
+            });
+            // Use index with the most points
+            beneficialIndexes.sort((a,b) => a.points > b.points ? -1 : 1);
+            const bestBenificialIndex = beneficialIndexes[0];
+
+            // Assign to this filter
+            filter.index = bestBenificialIndex.index;
+
+            // Assign to other filters and sorts
+            bestBenificialIndex.filterKeys.forEach(key => {
+                filters.filter(f => f !== filter && f.key === key).forEach(f => {
+                    if (!DataIndex.validOperators.includes(f.op)) {
+                        // The used operator for this filter is invalid for use on metadata
+                        // Probably because it is an Array/Fulltext/Geo query operator
+                        return;
+                    }
+                    f.indexUsage = 'filter';
+                    f.index = bestBenificialIndex.index;
+                });
+            });
+            bestBenificialIndex.sortKeys.forEach(key => {
+                sort.filter(s => s.key === key).forEach(s => {
+                    s.index = bestBenificialIndex.index;
+                });
+            });
+        }
+        if (filter.index) {
+            usingIndexes.push({ index: filter.index, description: filter.index.description });
+        }
+    });
+
+    if (sort.length > 0 && query.take !== 0 && filters.length === 0) {
+        // Check if we can use assign an index to sorts in a filterless take & sort query
+        sort.forEach(s => {
+            if (s.index) {
+                // Index has been assigned already
+                return;
+            }
+            s.index = availableIndexes
+                .filter(index => index.key === s.key)
+                .find(index => index.type === 'normal' && isSameCollation(index.collation, s.collation));
+        });
+    }
+
+    // Estimate the selectivity of filters that will query an index
+    const estimates = new Map<PlannedQueryFilter, number | null>();
+    const indexedFilters = filters.filter(f => f.index && typeof f.indexUsage === 'undefined');
+    if (indexedFilters.length === 0 || (indexedFilters.length === 1 && !options.estimate)) {
+        return { compound, usingIndexes, estimates };
+    }
+    const counts = await Promise.all(indexedFilters.map(filter => estimateFilter(filter, compound)));
+    indexedFilters.forEach((filter, i) => estimates.set(filter, counts[i]));
+    const driving = indexedFilters
+        .filter(f => estimates.get(f) !== null)
+        .sort((a, b) => estimates.get(a) - estimates.get(b))[0];
+
+    if (driving && !options.isWildcardPath) {
+        // Execute filters that are a lot less selective than the driving filter on the records
+        // returned by the driving index. Not possible on wildcard paths, those require all filters to be indexed
+        const threshold = estimates.get(driving) * DEMOTE_SELECTIVITY_FACTOR;
+        indexedFilters
+            .filter(f => f !== driving && f !== compound?.filters[0] && !specialOpsRegex.test(f.op) && estimates.get(f) > threshold)
+            .forEach(filter => {
+                const { index } = filter;
+                filter.index = undefined;
+                estimates.delete(filter);
+                const usingIndex = usingIndexes.findIndex(u => u.index === index);
+                if (usingIndex >= 0) {
+                    usingIndexes.splice(usingIndex, 1);
+                }
+                if (indexedFilters.some(f => f.index === index)) {
+                    // Index is still queried for another filter
+                    return;
+                }
+                filters.filter(f => f.index === index).forEach(f => {
+                    // Metadata filter on the index results, must now also be executed on the records
+                    f.index = undefined;
+                    f.indexUsage = undefined;
+                });
+                sort.filter(s => s.index === index).forEach(s => {
+                    s.index = undefined;
+                });
+            });
+    }
+
+    return { compound, usingIndexes, estimates, driving };
+}
+
+/**
+ * Creates an explanation of a query plan. The actual result counts, strategy and sort methods are to be updated
+ * by the query executor
+ */
+export function explainPlan(path: string, filters: PlannedQueryFilter[], sort: PlannedQueryOrder[], plan: QueryPlan): QueryExplanation {
+    return {
+        path,
+        strategy: 'scan',
+        filters: filters.map(f => ({
+            key: f.key,
+            op: f.op,
+            compare: f.compare,
+            index: f.index?.description ?? null,
+            method: !f.index ? 'scan' : f.indexUsage === 'filter' ? 'metadata' : f.indexUsage === 'compound' ? 'compound' : 'index',
+            estimated: plan.estimates.get(f) ?? null,
+            actual: null,
+        })),
+        sort: sort.map(s => ({
+            key: s.key,
+            ascending: s.ascending,
+            index: s.index?.description ?? null,
+            method: 'memory',
+        })),
+        scan: null,
+        estimated: plan.driving ? plan.estimates.get(plan.driving) : null,
+        actual: 0,
+        duration: 0,
+    };
+}
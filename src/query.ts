@@ -1,10 +1,14 @@
 import { AceBaseBase, ID, PathInfo } from 'acebase-core';
-import type { Api, EventSubscriptionCallback, Query, QueryOptions, QueryFilter, QueryOrder } from 'acebase-core';
+import type { Api, EventSubscriptionCallback, Query, QueryFilter, QueryOptions, QueryOrder } from 'acebase-core';
 import { VALUE_TYPES } from './node-value-types';
 import { NodeNotFoundError } from './node-errors';
 import { Storage } from './storage';
-import { DataIndex, FullTextIndex, IndexQueryResults } from './data-index';
+import { FullTextIndex, IndexQueryResults } from './data-index';
 import { AsyncTaskBatch } from './async-task-batch';
+import type { CompoundIndexRangeOperator } from './data-index/compound-index';
+import { planQuery, explainPlan, specialOpsRegex, PlannedQueryFilter, PlannedQueryOrder, QueryExplanation } from './query-planner';
+import { comparePositions, createCursor, getSortValue, parseCursor, QueryCursorPosition } from './query-cursor';
+import type { CollationOptions } from './collation';
 
 /**
  * TODO: import once LocalApi has been ported to TypeScript
@@ -14,9 +18,62 @@ type LocalApi = Api & {
     storage: Storage;
 }
 
+export type LocalQueryOptions = QueryOptions & {
+    /**
+     * Whether to estimate the selectivity of all used indexes, and return an explanation of how
+     * the query was executed in `explain`. Explanations are also emitted as `'explain'` query event
+     * @default false
+     */
+    explain?: boolean;
+    /**
+     * Enables cursor based paging: use `true` for the first page, or the `cursor` returned with the previous page to continue
+     * after its last result. Results are ordered by the query's sort keys and their paths, and a cursor to the last result is
+     * returned in `cursor`. Continuing from a cursor seeks directly to its position if the results are taken from a sort index,
+     * or to its child node if the query has no sort keys
+     */
+    cursor?: boolean | string;
+};
+
+export type LocalQueryOrder = QueryOrder & {
+    /**
+     * Collation to sort strings with, eg `{ locale: 'de' }`. Strings are sorted by their UTF-16 code units if not set.
+     * Range filters on the same key use this collation too, unless they specify their own
+     */
+    collation?: CollationOptions;
+};
+
+export type LocalQueryFilter = QueryFilter & {
+    /**
+     * Collation to compare strings with in range filters (`<`, `<=`, `>`, `>=`, `between` and `!between`)
+     */
+    collation?: CollationOptions;
+};
+
 // eslint-disable-next-line @typescript-eslint/no-empty-function
 const noop = () => {};
 
+/**
+ * Expands `or` filters into branches of filters that must all match: `a AND (b OR (c AND (d OR e)))` becomes
+ * `[a, b]`, `[a, c, d]` and `[a, c, e]`. A node matches the filters if it matches any branch
+ * @param filters query filters, `or` filters must supply an array of filter groups in `compare`
+ */
+function getFilterBranches(filters: QueryFilter[]): QueryFilter[][] {
+    let branches = [[]] as QueryFilter[][];
+    for (const filter of filters) {
+        if (filter.op !== 'or') {
+            branches.forEach(branch => branch.push(filter));
+            continue;
+        }
+        const groups = filter.compare;
+        if (!(groups instanceof Array) || groups.length === 0 || !groups.every(group => group instanceof Array && group.length > 0)) {
+            throw new Error(`or filter must supply an Array compare argument containing at least 1 non-empty Array of filters`);
+        }
+        const groupBranches = (groups as QueryFilter[][]).reduce((all, group) => (all.push(...getFilterBranches(group)), all), [] as QueryFilter[][]);
+        branches = branches.reduce((all, branch) => (all.push(...groupBranches.map(group => [...branch, ...group])), all), [] as QueryFilter[][]);
+    }
+    return branches;
+}
+
 /**
  *
  * @param storage Target storage instance
@@ -29,49 +86,69 @@ export async function executeQuery(
     api: LocalApi,
     path: string,
     query: Query,
-    options: QueryOptions = { snapshots: false, include: undefined, exclude: undefined, child_objects: undefined, eventHandler: noop },
+    options: LocalQueryOptions = { snapshots: false, include: undefined, exclude: undefined, child_objects: undefined, eventHandler: noop },
 ): Promise<{
     results: Array<{ path: string, val: any }> | string[];
     context: any,
-    stop(): Promise<void>
+    stop(): Promise<void>,
+    explain?: QueryExplanation,
+    cursor?: string,
 }> {
     // TODO: Refactor to async
     if (typeof options !== 'object') { options = {}; }
     if (typeof options.snapshots === 'undefined') { options.snapshots = false; }
+    const startTime = Date.now();
 
     const context: any = {};
-    if (api.storage.settings.transactions?.log) {
+    if (api.storage.transactionLoggingEnabled) {
         context.acebase_cursor = ID.generate();
     }
-    const queryFilters: Array<QueryFilter & { index?: DataIndex, indexUsage?: 'filter'|'sort' }> = query.filters.map(f => ({ ...f }));
-    const querySort: Array<QueryOrder & { index?: DataIndex }> = query.order.map(s => ({ ...s }));
+    const getFilterCollation = (f: LocalQueryFilter) => f.collation ?? (query.order as LocalQueryOrder[]).find(o => o.key === f.key)?.collation;
+    const queryFilters: PlannedQueryFilter[] = query.filters.map(f => ({ ...f, collation: getFilterCollation(f) }));
+    const querySort: PlannedQueryOrder[] = query.order.map(s => ({ ...s }));
+    if (options.cursor && query.take < 0) {
+        throw new Error('Query cursors cannot be used with a negative take');
+    }
+    const cursorPosition = typeof options.cursor === 'string' ? parseCursor(query.order, options.cursor) : null;
+    const stepsExecuted = {
+        filtered: queryFilters.length === 0,
+        skipped: query.skip === 0,
+        taken: query.take === 0,
+        sorted: querySort.length === 0 && !options.cursor,
+        preDataLoaded: false,
+        dataLoaded: false,
+    };
 
+    const getPosition = (match: { path: string; val?: any }): QueryCursorPosition => ({
+        values: querySort.map(o => getSortValue(match.val, o.key)),
+        path: match.path,
+    });
     const sortMatches = (matches: Array<any>) => {
-        matches.sort((a, b) => {
-            const compare = (i: number): number => {
-                const o = querySort[i];
-                const trailKeys = PathInfo.getPathKeys(typeof o.key === 'number' ? `[${o.key}]` : o.key);
-                const left = trailKeys.reduce((val, key) => val !== null && typeof val === 'object' && key in val ? val[key] : null, a.val);
-                const right = trailKeys.reduce((val, key) => val !== null && typeof val === 'object' && key in val ? val[key] : null, b.val);
-
-                if (left === null) { return right === null ? 0 : o.ascending ? -1 : 1; }
-                if (right === null) { return o.ascending ? 1 : -1; }
-
-                // TODO: add collation options using Intl.Collator. Note this also has to be implemented in the matching engines (inclusing indexes)
-                // See discussion https://github.com/appy-one/acebase/discussions/27
-                if (left == right) {
-                    if (i < querySort.length - 1) { return compare(i+1); }
-                    else { return a.path < b.path ? -1 : 1; } // Sort by path if property values are equal
-                }
-                else if (left < right) {
-                    return o.ascending ? -1 : 1;
-                }
-                // else if (left > right) {
-                return o.ascending ? 1 : -1;
-                // }
-            };
-            return compare(0);
-        });
+        matches.sort((a, b) => comparePositions(querySort, getPosition(a), getPosition(b)));
+    };
+    const isAfterCursor = (match: { path: string; val?: any }) => !cursorPosition || comparePositions(querySort, getPosition(match), cursorPosition) > 0;
+    const getCursor = async (matches: Array<{ path: string; val?: any }>) => {
+        if (!options.cursor) { return undefined; }
+        if (matches.length === 0) {
+            // Keep the position
+            return cursorPosition ? options.cursor as string : undefined;
+        }
+        let last = matches[matches.length - 1];
+        const sortKeys = querySort.map(o => o.key);
+        const isLoaded = (key: string | number) => {
+            let val = last.val;
+            for (const trailKey of PathInfo.getPathKeys(typeof key === 'number' ? `[${key}]` : key)) {
+                if (val === null || typeof val !== 'object' || !(trailKey in val)) { return false; }
+                val = val[trailKey];
+            }
+            return true;
+        };
+        if (!sortKeys.every(isLoaded)) {
+            // Sort values of the last result were not loaded
+            const node = await api.storage.getNode(last.path, { include: sortKeys });
+            last = { path: last.path, val: node.value };
+        }
+        return createCursor(query.order, getPosition(last));
     };
     const loadResultsData = async (preResults: Array<{ path: string }>, options: { include?: Array<string|number>; exclude?: Array<string|number>; child_objects?: boolean; }) => {
         // Limit the amount of concurrent getValue calls by batching them
@@ -109,14 +186,137 @@ export async function executeQuery(
         return results;
     };
 
+    /**
+     * Sorts and pages the merged results of multiple queries, and loads their data if snapshots are requested
+     * @param results paths, or paths and values with the sort keys loaded
+     */
+    const pageMergedResults = async (results: Array<string | { path: string; val: any }>) => {
+        let matches = results.map(result => typeof result === 'string' ? { path: result } : result) as Array<{ path: string; val?: any }>;
+        if (!stepsExecuted.sorted) {
+            sortMatches(matches);
+        }
+        matches = matches.filter(isAfterCursor);
+        if (query.skip > 0) {
+            matches.splice(0, query.skip);
+        }
+        if (query.take > 0) {
+            matches.splice(query.take);
+        }
+        Object.assign(stepsExecuted, { sorted: true, skipped: true, taken: true }); // Keeps order of loaded results
+        const cursor = await getCursor(matches);
+        if (options.snapshots) {
+            const { include, exclude, child_objects } = options;
+            matches = await loadResultsData(matches, { include, exclude, child_objects });
+        }
+        return { results: (options.snapshots ? matches : matches.map(match => match.path)) as Array<{ path: string, val: any }> | string[], cursor };
+    };
+
     const pathInfo = PathInfo.get(path);
     const isWildcardPath = pathInfo.keys.some(key => key === '*' || key.toString().startsWith('$')); // path.includes('*');
 
     const availableIndexes = api.storage.indexes.get(path);
-    const usingIndexes = [] as Array<{ index: DataIndex; description: string }>;
     // eslint-disable-next-line @typescript-eslint/no-empty-function
     let stop = async () => {};
 
+    if (query.filters.some(f => f.op === 'or')) {
+        // Execute each branch of the boolean expression as a separate query, so each can use its own indexes. Merge results by path
+        const branches = getFilterBranches(query.filters).map(filters => filters.map(f => ({ ...f, collation: getFilterCollation(f) })));
+        const loadData = query.order.length > 0;
+        const resultSets = await Promise.all(branches.map(filters => executeQuery(
+            api,
+            path,
+            { filters, take: 0, skip: 0, order: [] },
+            {
+                snapshots: loadData,
+                cache_mode: options.cache_mode,
+                include: [...(options.include ?? []), ...query.order.map(o => o.key)],
+                exclude: options.exclude,
+                explain: options.explain,
+            }
+        )));
+        const matchedPaths = new Set<string>();
+        const { results, cursor } = await pageMergedResults(resultSets.reduce((results, set) => {
+            for (const result of set.results as any[]) {
+                const resultPath: string = loadData ? result.path : result;
+                if (matchedPaths.has(resultPath)) { continue; }
+                matchedPaths.add(resultPath);
+                results.push(result);
+            }
+            return results;
+        }, [] as any[]));
+
+        if (options.monitor === true) {
+            options.monitor = { add: true, change: true, remove: true };
+        }
+        if (typeof options.monitor === 'object' && (options.monitor.add || options.monitor.change || options.monitor.remove)) {
+            // Realtime query: test changed nodes against the entire expression
+            const monitor = options.monitor;
+            const matches = (value: any, filters: QueryFilter[]): boolean => filters.every(f => {
+                if (f.op === 'or') {
+                    return (f.compare as QueryFilter[][]).some(group => matches(value, group));
+                }
+                if (specialOpsRegex.test(f.op)) {
+                    const index = availableIndexes.find(index => index.key === f.key && index.validOperators.includes(f.op));
+                    return index ? index.test(value, f.op, f.compare) : false;
+                }
+                const childValue = PathInfo.getPathKeys(f.key as string).reduce((val, key) => val !== null && typeof val === 'object' && key in val ? val[key] : null, value);
+                return api.storage.test(childValue, f.op, f.compare, getFilterCollation(f));
+            });
+            const matchedPaths = new Set<string>((results as any[]).map(result => typeof result === 'string' ? result : result.path));
+            const subscriptions = [] as Array<{ event: string; callback: EventSubscriptionCallback }>;
+            const stopMonitoring = () => {
+                subscriptions.forEach(sub => api.unsubscribe(path, sub.event, sub.callback));
+            };
+            stop = async () => { stopMonitoring(); };
+            const check = async (childPath: string, newValue: any, oldValue: any) => {
+                const wasMatch = matchedPaths.has(childPath);
+                const isMatch = newValue !== null && matches(newValue, query.filters);
+                let keepMonitoring = true;
+                if (isMatch) {
+                    matchedPaths.add(childPath);
+                    if (options.snapshots && (options.include || options.exclude || options.child_objects === false)) {
+                        const node = await api.storage.getNode(childPath, { include: options.include, exclude: options.exclude, child_objects: options.child_objects });
+                        newValue = node.value;
+                    }
+                    const value = options.snapshots ? newValue : null;
+                    if (wasMatch && monitor.change) {
+                        keepMonitoring = options.eventHandler({ name: 'change', path: childPath, value }) !== false;
+                    }
+                    else if (!wasMatch && monitor.add) {
+                        keepMonitoring = options.eventHandler({ name: 'add', path: childPath, value }) !== false;
+                    }
+                }
+                else if (wasMatch) {
+                    matchedPaths.delete(childPath);
+                    if (monitor.remove) {
+                        keepMonitoring = options.eventHandler({ name: 'remove', path: childPath, value: options.snapshots ? oldValue : null }) !== false;
+                    }
+                }
+                if (keepMonitoring === false) { stopMonitoring(); }
+            };
+            subscriptions.push(
+                { event: 'child_changed', callback: (err, childPath, newValue, oldValue) => check(childPath, newValue, oldValue) },
+                { event: 'child_added', callback: (err, childPath, newValue) => check(childPath, newValue, null) },
+                { event: 'notify_child_removed', callback: (err, childPath, newValue, oldValue) => check(childPath, null, oldValue) },
+            );
+            subscriptions.forEach(sub => api.subscribe(path, sub.event, sub.callback));
+        }
+
+        const explanation: QueryExplanation = {
+            path,
+            strategy: 'or',
+            filters: [],
+            sort: query.order.map(o => ({ key: o.key, ascending: o.ascending, index: null, method: 'memory' })),
+            scan: null,
+            estimated: null,
+            actual: results.length,
+            duration: Date.now() - startTime,
+            queries: resultSets.map(set => set.explain).filter(explain => explain),
+        };
+        options.eventHandler?.({ name: 'explain', explain: explanation });
+        return { results, context: null, stop, ...(options.explain && { explain: explanation }), ...(cursor && { cursor }) };
+    }
+
     if (isWildcardPath) {
         // Check if path contains $vars with explicit filter values. If so, execute multiple queries and merge results
         const vars = pathInfo.keys.filter(key => typeof key === 'string' && key.startsWith('$'));
@@ -147,7 +347,7 @@ export async function executeQuery(
                 });
             }
             // create queries
-            const filters = query.filters.filter(f => !vars.includes(f.key as string));
+            const filters = query.filters.filter(f => !vars.includes(f.key as string)).map(f => ({ ...f, collation: getFilterCollation(f) }));
             const paths = combinations.map(vars => PathInfo.get(PathInfo.getPathKeys(path).map(key => vars[key] ?? key)).path);
             const loadData = query.order.length > 0;
             const promises = paths.map(path => executeQuery(
@@ -159,24 +359,26 @@ export async function executeQuery(
                     cache_mode: options.cache_mode,
                     include: [...(options.include ?? []), ...query.order.map(o => o.key)],
                     exclude: options.exclude,
+                    explain: options.explain,
                 }
             ));
             const resultSets = await Promise.all(promises);
-            let results = resultSets.reduce((results, set) => (results.push(...set.results), results), [] as any[]);
-            if (loadData) {
-                sortMatches(results);
-            }
-            if (query.skip > 0) {
-                results.splice(0, query.skip);
-            }
-            if (query.take > 0) {
-                results.splice(query.take);
-            }
-            if (options.snapshots && (!loadData || options.include?.length > 0 || options.exclude?.length > 0 || !options.child_objects)) {
-                const { include, exclude, child_objects } = options;
-                results = await loadResultsData(results, { include, exclude, child_objects });
-            }
-            return { results, context: null, stop };
+            const { results, cursor } = await pageMergedResults(resultSets.reduce((results, set) => (results.push(...set.results), results), [] as any[]));
+            const explanation: QueryExplanation = {
+                path,
+                strategy: 'expand',
+                filters: query.filters.filter(f => vars.includes(f.key as string)).map(f => ({
+                    key: f.key, op: f.op, compare: f.compare, index: null, method: 'path', estimated: null, actual: paths.length,
+                })),
+                sort: query.order.map(o => ({ key: o.key, ascending: o.ascending, index: null, method: 'memory' })),
+                scan: null,
+                estimated: null,
+                actual: results.length,
+                duration: Date.now() - startTime,
+                queries: resultSets.map(set => set.explain).filter(explain => explain),
+            };
+            options.eventHandler?.({ name: 'explain', explain: explanation });
+            return { results, context: null, stop, ...(options.explain && { explain: explanation }), ...(cursor && { cursor }) };
             // const results = options.snapshots ? results
         }
         else if (availableIndexes.length === 0) {
@@ -221,92 +423,11 @@ export async function executeQuery(
     //     usingIndexes.push({ index: filter.index, description: filter.index.description});
     // }
 
-    queryFilters.forEach(filter => {
-        if (filter.index) {
-            // Index has been assigned already
-            return;
-        }
-
-        // // Check if there are path indexes we can use
-        // const pathIndexesWithKey = DataIndex.validOperators.includes(filter.op)
-        //     ? indexesOnPath.filter(info => info.index.key === filter.key || info.index.includeKeys.includes(filter.key))
-        //     : [];
-
-        // Check if there are indexes on this filter key
-        const indexesOnKey = availableIndexes
-            .filter(index => index.key === filter.key)
-            .filter(index => {
-                return index.validOperators.includes(filter.op);
-            });
-
-        if (indexesOnKey.length >= 1) {
-            // If there are multiple indexes on 1 key (happens when index includes other keys),
-            // we should check other .filters and .order to determine the best one to use
-            // TODO: Create a good strategy here...
-            const otherFilterKeys = queryFilters.filter(f => f !== filter).map(f => f.key);
-            const sortKeys = querySort.map(o => o.key).filter(key => key !== filter.key);
-            const beneficialIndexes = indexesOnKey.map(index => {
-                const availableKeys = index.includeKeys.concat(index.key);
-                const forOtherFilters = availableKeys.filter(key => otherFilterKeys.includes(key));
-                const forSorting = availableKeys.filter(key => sortKeys.includes(key));
-                const forBoth = forOtherFilters.concat(forSorting.filter(index => !forOtherFilters.includes(index)));
-                const points = {
-                    filters: forOtherFilters.length,
-                    sorting: forSorting.length * (query.take !== 0 ? forSorting.length : 1),
-                    both: forBoth.length * forBoth.length,
-                    get total() {
-                        return this.filters + this.sorting + this.both;
-                    },
-                };
-                return { index, points: points.total, filterKeys: forOtherFilters, sortKeys: forSorting };
-            });
-            // Use index with the most points
-            beneficialIndexes.sort((a,b) => a.points > b.points ? -1 : 1);
-            const bestBenificialIndex = beneficialIndexes[0];
-
-            // Assign to this filter
-            filter.index = bestBenificialIndex.index;
-
-            // Assign to other filters and sorts
-            bestBenificialIndex.filterKeys.forEach(key => {
-                queryFilters.filter(f => f !== filter && f.key === key).forEach(f => {
-                    if (!DataIndex.validOperators.includes(f.op)) {
-                        // The used operator for this filter is invalid for use on metadata
-                        // Probably because it is an Array/Fulltext/Geo query operator
-                        return;
-                    }
-                    f.indexUsage = 'filter';
-                    f.index = bestBenificialIndex.index;
-                });
-            });
-            bestBenificialIndex.sortKeys.forEach(key => {
-                querySort.filter(s => s.key === key).forEach(s => {
-                    s.index = bestBenificialIndex.index;
-                });
-            });
-        }
-        if (filter.index) {
-            usingIndexes.push({ index: filter.index, description: filter.index.description });
-        }
-    });
-
-    if (querySort.length > 0 && query.take !== 0 && queryFilters.length === 0) {
-        // Check if we can use assign an index to sorts in a filterless take & sort query
-        querySort.forEach(sort => {
-            if (sort.index) {
-                // Index has been assigned already
-                return;
-            }
-
-            sort.index = availableIndexes
-                .filter(index => index.key === sort.key)
-                .find(index => index.type === 'normal');
-
-            // if (sort.index) {
-            //     usingIndexes.push({ index: sort.index, description: `${sort.index.description} (for sorting)`});
-            // }
-        });
-    }
+    // Determine which indexes to use for filtering and sorting
+    const plan = await planQuery(query, queryFilters, querySort, availableIndexes, { isWildcardPath, estimate: options.explain === true });
+    const { compound: compoundPlan, usingIndexes } = plan;
+    const explanation = explainPlan(path, queryFilters, querySort, plan);
+    const explainFilter = (filter: PlannedQueryFilter) => explanation.filters[queryFilters.indexOf(filter)];
 
     // const usingIndexes = ourFilters.map(filter => filter.index).filter(index => index);
     const indexDescriptions = usingIndexes.map(index => index.description).join(', ');
@@ -316,7 +437,6 @@ export async function executeQuery(
     const tableScanFilters = queryFilters.filter(filter => !filter.index);
 
     // Check if there are filters that require an index to run (such as "fulltext:contains", and "geo:nearby" etc)
-    const specialOpsRegex = /^[a-z]+:/i;
     if (tableScanFilters.some(filter => specialOpsRegex.test(filter.op))) {
         const f = tableScanFilters.find(filter => specialOpsRegex.test(filter.op));
         const err = new Error(`query contains operator "${f.op}" which requires a special index that was not found on path "${path}", key "${f.key}"`);
@@ -347,10 +467,23 @@ export async function executeQuery(
 
     // Run queries on available indexes
     const indexScanPromises = [] as Promise<IndexQueryResults>[];
+    // If all filters are executed by the compound index, its results are already sorted
+    const compoundSorted = !options.cursor && compoundPlan?.sort && querySort.length === 1 && queryFilters.every(f => compoundPlan.filters.includes(f));
     queryFilters.forEach(filter => {
-        if (filter.index && filter.indexUsage !== 'filter') {
-            let promise = filter.index.query(filter.op, filter.compare)
+        if (filter.index && filter.indexUsage !== 'filter' && filter.indexUsage !== 'compound') {
+            const indexQuery = filter === compoundPlan?.filters[0]
+                ? compoundPlan.index.find(
+                    compoundPlan.equalityFilters.map(f => f.compare),
+                    compoundPlan.rangeFilter && { op: compoundPlan.rangeFilter.op as CompoundIndexRangeOperator, val: compoundPlan.rangeFilter.compare },
+                    { ascending: compoundSorted ? querySort[0].ascending : true },
+                )
+                : filter.index.query(filter.op, filter.compare);
+            let promise = indexQuery
                 .then(results => {
+                    explainFilter(filter).actual = results.length;
+                    if (filter === compoundPlan?.filters[0]) {
+                        compoundPlan.filters.forEach(f => explainFilter(f).actual = results.length);
+                    }
                     options.eventHandler?.({ name: 'stats', type: 'index_query', source: filter.index.description, stats: results.stats });
                     if (results.hints.length > 0) {
                         options.eventHandler?.({ name: 'hints', type: 'index_query', source: filter.index.description, hints: results.hints });
@@ -369,7 +502,8 @@ export async function executeQuery(
                         if (typeof compare === 'string' && !index.caseSensitive) {
                             compare = compare.toLocaleLowerCase(index.textLocale);
                         }
-                        results = results.filterMetadata(key, op, compare);
+                        results = results.filterMetadata(key, op, compare, filter.collation);
+                        explainFilter(filter).actual = results.length;
                     });
                     return results;
                 });
@@ -378,14 +512,10 @@ export async function executeQuery(
         }
     });
 
-    const stepsExecuted = {
-        filtered: queryFilters.length === 0,
-        skipped: query.skip === 0,
-        taken: query.take === 0,
-        sorted: querySort.length === 0,
-        preDataLoaded: false,
-        dataLoaded: false,
-    };
+    if (compoundSorted) {
+        stepsExecuted.sorted = true;
+        explanation.sort[0].method = 'index';
+    }
 
     if (queryFilters.length === 0 && query.take === 0) {
         api.storage.debug.warn(`Filterless queries must use .take to limit the results. Defaulting to 100 for query on path "${path}"`);
@@ -399,9 +529,11 @@ export async function executeQuery(
             api.storage.debug.log(`Using index for sorting: ${sortIndex.description}`);
             const metadataSort = querySort.slice(1).map(s => {
                 s.index = sortIndex; // Assign index to skip later processing of this sort operation
-                return { key: s.key, ascending: s.ascending };
+                return { key: s.key, ascending: s.ascending, collation: s.collation };
             });
-            const promise = sortIndex.take(query.skip, Math.abs(query.take), { ascending, metadataSort })
+            // Seek to the position of the cursor, if given
+            const after = cursorPosition && { value: cursorPosition.values[0], metadata: cursorPosition.values.slice(1), path: cursorPosition.path };
+            const promise = sortIndex.take(query.skip, Math.abs(query.take), options.cursor ? { ascending, metadataSort, after } : { ascending, metadataSort })
                 .then(results => {
                     options.eventHandler?.({ name: 'stats', type: 'sort_index_take', source: sortIndex.description, stats: results.stats });
                     if (results.hints.length > 0) {
@@ -413,6 +545,8 @@ export async function executeQuery(
             stepsExecuted.skipped = true;
             stepsExecuted.taken = true;
             stepsExecuted.sorted = true;
+            explanation.strategy = 'sort-index';
+            explanation.sort.forEach(s => s.method = 'index');
         }
         // else if (queryFilters.every(f => [sortIndex.key, ...sortIndex.includeKeys].includes(f.key))) {
         //  TODO: If an index can be used for sorting, and all filter keys are included in its metadata: query the index!
@@ -464,10 +598,14 @@ export async function executeQuery(
                 if (querySort.length === 0 || querySort.every(o => o.index)) {
                 // No sorting, or all sorts are on indexed keys. We can use current index results
                     stepsExecuted.preDataLoaded = true;
-                    if (!stepsExecuted.sorted && querySort.length > 0) {
+                    if (!stepsExecuted.sorted) {
                         sortMatches(indexedResults);
+                        explanation.sort.forEach(s => s.method = 'metadata');
                     }
                     stepsExecuted.sorted = true;
+                    if (cursorPosition) {
+                        indexedResults = indexedResults.filter(isAfterCursor);
+                    }
                     if (!stepsExecuted.skipped && query.skip > 0) {
                         indexedResults = query.take < 0
                             ? indexedResults.slice(0, -query.skip)
@@ -505,6 +643,9 @@ export async function executeQuery(
                                 sortMatches(results);
                             }
                             stepsExecuted.sorted = true;
+                            if (cursorPosition) {
+                                results = results.filter(isAfterCursor);
+                            }
                             if (query.skip > 0) {
                                 results = query.take < 0
                                     ? results.slice(0, -query.skip)
@@ -534,28 +675,45 @@ export async function executeQuery(
             // If we get here, this is a query on a regular path (no wildcards) with additional non-indexed filters left,
             // we can get child records from a single parent. Merge index results by key
             let indexKeyFilter;
-            if (indexedResults.length > 0) {
+            if (indexScanPromises.length > 0) {
+                if (indexedResults.length === 0) {
+                    // No records matched the indexed filters, no need to check the remaining filters
+                    explanation.scan = { checked: 0, matched: 0 };
+                    return [];
+                }
                 indexKeyFilter = indexedResults.map(result => result.key);
             }
+            const scan = explanation.scan = { checked: 0, matched: 0 };
             type MatchedNode = { path: string; val?: any };
             let matches = [] as MatchedNode[];
             let preliminaryStop = false;
+            // Without sort keys, results are ordered by path. Children of objects can then be enumerated in key order from the
+            // cursor on, and we can stop once enough results have been found
+            const cursorKey = cursorPosition ? PathInfo.get(cursorPosition.path).key : '';
+            const seekKey = options.cursor && querySort.length === 0 && !indexKeyFilter && query.take > 0 && typeof cursorKey === 'string' ? cursorKey : undefined;
+            let ordered = typeof seekKey === 'string';
             const loadPartialData = querySort.length > 0;
             const childOptions = loadPartialData
                 ? { include: querySort.map(order => order.key) }
                 : { include: options.include, exclude: options.exclude, child_objects: options.child_objects };
 
             const batch = {
+                // When seeking, check children in batches of the page size so we can stop once the page is complete
+                size: ordered ? Math.min(1000, query.skip + query.take) : 1000,
                 promises: [] as Promise<void>[],
                 add(promise: Promise<void>) {
                     this.promises.push(promise);
-                    if (this.promises.length >= 1000) {
+                    if (this.promises.length >= this.size) {
                         return Promise.all(this.promises.splice(0)).then(_ => undefined);
                     }
                 },
             };
             try {
-                await api.storage.getChildren(path, { keyFilter: indexKeyFilter, async: true }).next(child => {
+                await api.storage.getChildren(path, { keyFilter: indexKeyFilter, after: seekKey, async: true }).next(child => {
+                    if (typeof child.key !== 'string') {
+                        // Array children are not enumerated in key order
+                        ordered = false;
+                    }
                     if (child.type !== VALUE_TYPES.OBJECT) { return; }
                     if (!child.address) {
                         // Currently only happens if object has no properties
@@ -568,8 +726,10 @@ export async function executeQuery(
                     }
 
                     const matchNode = async () => {
+                        scan.checked++;
                         const isMatch = await api.storage.matchNode(child.address.path, tableScanFilters);
                         if (!isMatch) { return; }
+                        scan.matched++;
 
                         const childPath = child.address.path;
                         let result: MatchedNode;
@@ -585,12 +745,18 @@ export async function executeQuery(
                         // This keeps the memory space used limited to skip + take
                         // TODO: see if we can limit it to the max number of results returned (.take)
 
+                        if (!isAfterCursor(result)) {
+                            // Was on a previous page
+                            return;
+                        }
                         matches.push(result);
                         if (query.take !== 0 && matches.length > Math.abs(query.take) + query.skip) {
-                            if (querySort.length > 0) {
+                            if (querySort.length > 0 || options.cursor) {
                                 // A query order has been set. If this value falls in between it can replace some other value
                                 // matched before.
                                 sortMatches(matches);
+                                // If children are enumerated in key order, the remaining ones come after all matches
+                                preliminaryStop = ordered;
                             }
                             else if (query.take > 0) {
                                 // No query order set, we can stop after 'take' + 'skip' results
@@ -625,7 +791,7 @@ export async function executeQuery(
             await Promise.all(batch.promises);
             stepsExecuted.preDataLoaded = loadPartialData;
             stepsExecuted.dataLoaded = !loadPartialData;
-            if (querySort.length > 0) {
+            if (querySort.length > 0 || options.cursor) {
                 sortMatches(matches);
             }
             stepsExecuted.sorted = true;
@@ -649,17 +815,12 @@ export async function executeQuery(
             }
             return matches;
         })
-        .then(matches => {
+        .then(async matches => {
             // Order the results
-            if (!stepsExecuted.sorted && querySort.length > 0) {
+            if (!stepsExecuted.sorted) {
                 sortMatches(matches);
             }
 
-            if (!options.snapshots) {
-                // Remove the loaded values from the results, because they were not requested (and aren't complete, we only have data of the sorted keys)
-                matches = matches.map(match => match.path);
-            }
-
             // Limit result set
             if (!stepsExecuted.skipped && query.skip > 0) {
                 matches = query.take < 0
@@ -671,6 +832,12 @@ export async function executeQuery(
                     ? matches.slice(query.take)
                     : matches.slice(0, query.take);
             }
+            const cursor = await getCursor(matches);
+
+            if (!options.snapshots) {
+                // Remove the loaded values from the results, because they were not requested (and aren't complete, we only have data of the sorted keys)
+                matches = matches.map(match => match.path);
+            }
 
             // NEW: Check if this is a realtime query - future updates must send query result updates
             if (options.monitor === true) {
@@ -719,7 +886,7 @@ export async function executeQuery(
                                 return true; // so we'll know if all others did match
                             }
                             else if (allowedTableScanOperators.includes(filter.op)) {
-                                return api.storage.test(newValue[key], filter.op, filter.compare);
+                                return api.storage.test(newValue[key], filter.op, filter.compare, filter.collation);
                             }
                             else {
                                 // specific index filter
@@ -787,7 +954,7 @@ export async function executeQuery(
                 const childAddedCallback: EventSubscriptionCallback = (err, path, newValue) => {
                     const isMatch = queryFilters.every(filter => {
                         if (allowedTableScanOperators.includes(filter.op)) {
-                            return api.storage.test(newValue[filter.key], filter.op, filter.compare);
+                            return api.storage.test(newValue[filter.key], filter.op, filter.compare, filter.collation);
                         }
                         else {
                             return filter.index.test(newValue, filter.op, filter.compare);
@@ -822,6 +989,13 @@ export async function executeQuery(
                 }
             }
 
-            return { results: matches, context, stop };
+            if (explanation.strategy !== 'sort-index' && indexScanPromises.length > 0) {
+                explanation.strategy = tableScanFilters.length > 0 ? 'index+scan' : 'index';
+            }
+            explanation.actual = matches.length;
+            explanation.duration = Date.now() - startTime;
+            options.eventHandler?.({ name: 'explain', explain: explanation });
+
+            return { results: matches, context, stop, ...(options.explain && { explain: explanation }), ...(cursor && { cursor }) };
         });
 }
@@ -4,25 +4,30 @@ import { ID, PathInfo, PathReference, Utils, ColorStyle, PartialArray } from 'ac
 import { NodeChangeTracker, NodeChange } from '../../node-changes';
 import { BinaryNodeAddress } from './node-address';
 import { NodeCache } from '../../node-cache';
+import { ValueCache } from '../../value-cache';
 import { BinaryNodeInfo } from './node-info';
 // import { NodeLock } from '../../node-lock';
 import { NodeNotFoundError } from '../../node-errors';
-import { InternalDataRetrievalOptions, IWriteNodeResult, Storage, StorageEnv, StorageSettings } from '../index';
+import { IAppliedMutations, InternalDataRetrievalOptions, IWriteNodeResult, Storage, StorageEnv, StorageSettings, StorageTransaction, StorageTransactionLogSettings, StoredMutation, StoredMutationHeader, StoredSchemaDefinition } from '../index';
 import { NodeValueType, VALUE_TYPES } from '../../node-value-types';
 import { BinaryBPlusTree, BPlusTreeBuilder, BinaryWriter } from '../../btree';
 import { Uint8ArrayBuilder } from '../../binary';
-import { IAceBaseIPCLock } from '../../ipc/ipc';
+import { AceBaseIPCMasterFencedError, IAceBaseIPCLock } from '../../ipc/ipc';
 import { BinaryBPlusTreeTransactionOperation } from '../../btree/binary-tree-transaction-operation';
 import { NodeLock } from '../../node-lock';
+import { NodeLockIntention } from '../../node-transaction';
+import { WriteAheadJournal } from './journal';
+import type { DataIndex, IndexQueryResults } from '../../data-index';
 
-const { concatTypedArrays, bytesToNumber, bytesToBigint, numberToBytes, bigintToBytes, encodeString, decodeString, cloneObject } = Utils;
+const { concatTypedArrays, bytesToNumber, bytesToBigint, numberToBytes, bigintToBytes, encodeString, decodeString } = Utils;
+const FILE_DESCRIPTOR = encodeString('AceBase⚡');
+/**
+ * Lock intention to read a node's own record only, eg to look up the address of a child or count its children.
+ * Does not conflict with writes to children that are stored in their own records
+ */
+const READ_RECORD = NodeLockIntention.ReadValue({ include: [] });
 const REMOVED_CHILD_DATA_IMPLEMENTED = false; // not used yet - allows marking of deleted children without having to rewrite the whole node
 
-export interface IAppliedMutations {
-    path: string;
-    list: Array<{ target: (string|number)[], prev: any, val: any }>;
-}
-
 export class AceBaseStorageSettings extends StorageSettings {
     /**
      * record size in bytes, defaults to 128 (recommended). Max is 65536
@@ -44,56 +49,49 @@ export class AceBaseStorageSettings extends StorageSettings {
     /**
      * settings to use for transaction logging
      */
-    transactions: AceBaseTransactionLogSettings;
+    transactions: StorageTransactionLogSettings;
 
     /**
      * Use future FST version (not implemented yet)
      */
     fst2 = false;
 
+    /**
+     * Whether to use a write-ahead journal: all writes are saved to a journal file before they are applied to the database file,
+     * so writes interrupted by a crash or power loss are completed when the database is opened again. This prevents
+     * half-written records, at the cost of slower writes. All writes of a node update are replayed together, or not at all.
+     * Only used by the IPC master process, writes of other (worker) processes are not journaled.
+     * @default false
+     */
+    journal = false;
+
     constructor(settings: Partial<AceBaseStorageSettings> = {}) {
         super(settings);
         if (typeof settings.recordSize === 'number') { this.recordSize = settings.recordSize; }
         if (typeof settings.pageSize === 'number') { this.pageSize = settings.pageSize; }
         if (typeof settings.type === 'string') { this.type = settings.type; }
-        this.transactions = new AceBaseTransactionLogSettings(settings.transactions);
+        if (typeof settings.journal === 'boolean') { this.journal = settings.journal; }
     }
 }
 
-class AceBaseTransactionLogSettings {
-
+export interface IntegrityCheckReport {
+    /** whether no issues were found */
+    ok: boolean;
+    /** number of records checked */
+    records: number;
+    /** records with an invalid header, chunk table, child tree or data, or that share storage with other records */
+    brokenRecords: Array<{ path: string; address: string; error: string; repaired: boolean }>;
+    /** records in use that are also listed as free space in the Free Space Table (FST), they will be overwritten by new records */
+    freeSpaceConflicts: Array<{ path: string; ranges: Array<{ pageNr: number; recordNr: number; length: number }> }>;
+    /** records that are allocated, but not used by any node */
+    unreachable: Array<{ pageNr: number; recordNr: number; length: number }>;
+    /** whether the FST was rebuilt to fix free space conflicts and release unreachable records */
+    freeSpaceRepaired: boolean;
     /**
-     * Whether transaction logging is enabled.
-     * @default false
+     * results of comparing index contents with the data. Only normal indexes on a child key or `{key}` are checked.
+     * Paths are the paths of the indexed records
      */
-    log = false;
-
-    /**
-     * Max age of transactions to keep in logfile. Set to 0 to disable cleaning up and keep all transactions
-     * @default 30
-     */
-    maxAge = 30;
-
-    /**
-     * Whether write operations wait for the transaction to be logged before resolving their promises.
-     */
-    noWait = false;
-
-    /**
-     * BETA functionality - logs mutations made to a separate database file so they can be retrieved later
-     * for database syncing / replication. Implementing this into acebase itself will allow the current
-     * sync implementation in acebase-client to become better: it can simply request a mutations stream from
-     * the server after disconnects by passing a cursor or timestamp, instead of downloading whole nodes before
-     * applying local changes. This will also enable horizontal scaling: replication with remote db instances
-     * becomes possible.
-     *
-     * Still under development, disabled by default. See transaction-logs.spec for tests
-     */
-    constructor(settings: Partial<AceBaseTransactionLogSettings> = {}) {
-        if (typeof settings.log === 'boolean') { this.log = settings.log; }
-        if (typeof settings.maxAge === 'number') { this.maxAge = settings.maxAge; }
-        if (typeof settings.noWait === 'boolean') { this.noWait = settings.noWait; }
-    }
+    indexes: Array<{ description: string; fileName: string; checked: boolean; missing: string[]; orphaned: string[]; mismatched: string[]; repaired: boolean }>;
 }
 
 export class AceBaseStorage extends Storage {
@@ -111,8 +109,15 @@ export class AceBaseStorage extends Storage {
     private txStorage?: AceBaseStorage;
     private _ready = false;
     private file: number;
+    private journal?: WriteAheadJournal;
+    /** resolves once the database file has been closed */
+    private _closed: Promise<void>;
+    /** queue of schema file writes, only used by the IPC master */
+    private _schemaFileWrites: Promise<void> = Promise.resolve();
 
     nodeCache: NodeCache = new NodeCache();
+    /** optional cache of node values, see `settings.valueCache` */
+    valueCache: ValueCache = null;
 
     /**
      * Stores data in a binary file
@@ -141,9 +146,12 @@ export class AceBaseStorage extends Storage {
         };
 
         this.type = settings.type;
+        if (settings.valueCache) {
+            this.valueCache = new ValueCache(settings.valueCache);
+        }
         if (this.type === 'data' && settings.transactions.log === true) {
             // Get/create storage for mutations logging
-            const txSettings = new AceBaseStorageSettings({ type: 'transaction', path: settings.path, removeVoidProperties: true, transactions: settings.transactions, ipc: settings.ipc });
+            const txSettings = new AceBaseStorageSettings({ type: 'transaction', path: settings.path, removeVoidProperties: true, transactions: settings.transactions, ipc: settings.ipc, journal: settings.journal });
             this.txStorage = new AceBaseStorage(name, txSettings, { logLevel: 'error' });
         }
 
@@ -192,6 +200,29 @@ export class AceBaseStorage extends Storage {
                         await index.handleRecordUpdate(request.path, request.oldValue, request.newValue);
                         return reply({ ok: true });
                     }
+                    // Schema requests:
+                    case 'schema.write': {
+                        await this.writeSchema(request.path, request.definition);
+                        return reply({ ok: true });
+                    }
+                    // TTL requests:
+                    case 'ttl.rules': {
+                        const removed = await this.addExpiryRules(request.rules, request.interval);
+                        return reply({ ok: true, removed });
+                    }
+                    // Maintenance requests:
+                    case 'db.compact': {
+                        const result = await this.compact();
+                        return reply({ ok: true, result });
+                    }
+                    case 'db.backup': {
+                        const result = await this.backup(request.targetPath);
+                        return reply({ ok: true, result });
+                    }
+                    case 'db.check': {
+                        const result = await this.check({ repair: request.repair });
+                        return reply({ ok: true, result });
+                    }
                     default: {
                         throw new Error(`Unknown ipc request "${request.type}"`);
                     }
@@ -225,12 +256,34 @@ export class AceBaseStorage extends Storage {
                 case 'index.deleted': {
                     return this.indexes.remove(notification.fileName);
                 }
+                case 'schema.set': {
+                    // Handled by Storage
+                    break;
+                }
                 default: {
                     throw new Error(`Unknown ipc notification "${notification.type}"`);
                 }
             }
         });
 
+        this.ipc.onRoleChange(async isMaster => {
+            // Master role changed by IPC failover
+            await this.once('ready');
+            if (isMaster) {
+                // Complete writes the previous master did not finish, and take over its free space administration
+                if (settings.journal && !settings.readOnly) {
+                    await this.openJournal();
+                }
+                await this.FST.load();
+            }
+            else if (this.journal) {
+                // Other processes would have to replay a shared journal while we are writing to the file
+                const journal = this.journal;
+                this.journal = undefined;
+                await journal.close();
+            }
+        });
+
         // const storage = this;
 
         // TODO @appy-one move
@@ -255,6 +308,10 @@ export class AceBaseStorage extends Storage {
                 }
                 let index = KIT.keys.indexOf(key);
                 if (index < 0) {
+                    if (this.ipc.isFenced()) {
+                        // Our master lease expired, the KIT can't be changed by us anymore. Key will be stored by name
+                        return -1;
+                    }
                     if (!this.ipc.isMaster) {
                         // Forward request to cluster master. Response will be too late for us, but it will be cached for future calls
                         this.ipc.sendRequest({ type: 'kit.add', key })
@@ -352,6 +409,7 @@ export class AceBaseStorage extends Storage {
             bytesUsed: 0,                       // Current byte length of FST data
             pages: 0,
             ranges: [] as typeof this.FST.ranges,
+            reserved: null as { from: number; to: number } | null,
             getMaxScraps: () => {
                 if (!this.ipc.isMaster) { return 10; }
                 return FST.ranges.length > 7500 ? 10 : 3;
@@ -363,6 +421,8 @@ export class AceBaseStorage extends Storage {
             get bytesUsed() { return FST.bytesUsed; },
             get pages() { return FST.pages; },
             get ranges() { return FST.ranges; },
+            get reserved() { return FST.reserved; },
+            set reserved(reserved) { FST.reserved = reserved; },
 
             get maxScraps() { return FST.getMaxScraps(); },
 
@@ -374,17 +434,19 @@ export class AceBaseStorage extends Storage {
                 if (this.isLocked(true)) {
                     throw new Error('database is locked');
                 }
+                this.ipc.assertNotFenced();
                 // First, try to find a range that fits all requested records sequentially
                 const recordsPerPage = this.settings.pageSize;
                 const allocation: StorageAddressRange[] = [];
                 let pageAdded = false;
+                const isUsable = (r: typeof FST.ranges[number]) => !FST.reserved || r.page < FST.reserved.from || r.page >= FST.reserved.to;
                 const ret = async (comment: string) => {
                     // console.error(`ALLOCATED ${comment}: ${allocation.map(a => `${a.pageNr},${a.recordNr}+${a.length-1}`).join('; ')}`);
                     await this.FST.write(pageAdded);
                     return allocation;
                 };
 
-                let totalFree = FST.ranges.reduce((t, r) => t + r.end - r.start, 0);
+                let totalFree = FST.ranges.filter(isUsable).reduce((t, r) => t + r.end - r.start, 0);
                 while (totalFree < requiredRecords) {
                     // There is't enough free space, we'll have to create new page(s)
                     const newPageNr = FST.pages;
@@ -397,7 +459,7 @@ export class AceBaseStorage extends Storage {
 
                 if (requiredRecords <= recordsPerPage) {
                     // Find exact range
-                    let r = FST.ranges.find(r => r.end - r.start === requiredRecords);
+                    let r = FST.ranges.find(r => isUsable(r) && r.end - r.start === requiredRecords);
                     if (r) {
                         allocation.push({ pageNr: r.page, recordNr: r.start, length: requiredRecords });
                         const i = FST.ranges.indexOf(r);
@@ -406,7 +468,7 @@ export class AceBaseStorage extends Storage {
                     }
 
                     // Find first fitting range
-                    r = FST.ranges.find(r => r.end - r.start > requiredRecords);
+                    r = FST.ranges.find(r => isUsable(r) && r.end - r.start > requiredRecords);
                     if (r) {
                         allocation.push({ pageNr: r.page, recordNr: r.start, length: requiredRecords });
                         r.start += requiredRecords;
@@ -416,7 +478,7 @@ export class AceBaseStorage extends Storage {
 
                 // If we get here, we'll have to deal with the scraps
                 // Check how many ranges would be needed to store record (sort from large to small)
-                const sortedRanges = FST.ranges.slice().sort((a,b) => {
+                const sortedRanges = FST.ranges.filter(isUsable).sort((a,b) => {
                     const l1 = a.end - a.start;
                     const l2 = b.end - b.start;
                     if (l1 < l2) { return 1; }
@@ -504,6 +566,7 @@ export class AceBaseStorage extends Storage {
                 if (this.isLocked(true)) {
                     throw new Error('database is locked');
                 }
+                this.ipc.assertNotFenced();
                 // Add freed ranges
                 ranges.forEach(range => {
                     FST.ranges.push({ page: range.pageNr, start: range.recordNr, end: range.recordNr + range.length });
@@ -596,6 +659,10 @@ export class AceBaseStorage extends Storage {
                 FST.bytesUsed = index;
 
                 const promise = this.writeData(FST.fileIndex, data, 0, bytesToWrite).catch(err => {
+                    if (err instanceof AceBaseIPCMasterFencedError) {
+                        // Allocation must fail, another master might hand out the same space
+                        throw err;
+                    }
                     this.debug.error('Error writing FST: ', err);
                 });
                 const writes = [promise];
@@ -609,6 +676,17 @@ export class AceBaseStorage extends Storage {
                 //this.debug.log(`FST saved, ${this.bytesUsed} bytes used for ${FST.ranges.length} ranges`);
             },
 
+            rebuild: async (pages: number, ranges: typeof FST.ranges) => {
+                if (!this.ipc.isMaster) {
+                    throw new Error('FST can only be rebuilt by the IPC master');
+                }
+                FST.pages = pages;
+                FST.ranges = ranges;
+                this.FST.sort();
+                await this.FST.write(true);
+                this.debug.log(`FST rebuilt, ${pages} pages allocated, ${ranges.length} free ranges`.colorize(ColorStyle.bold));
+            },
+
             load: async () => {
                 if (!this.ipc.isMaster) { return []; }
                 const data = Buffer.alloc(FST.length);
@@ -656,7 +734,7 @@ export class AceBaseStorage extends Storage {
             get address() {
                 return new BinaryNodeAddress('', rootRecord.pageNr, rootRecord.recordNr);
             },
-            update: async (address, fromIPC = false) => {
+            update: async (address, fromIPC = false, tid?: string) => {
                 // Root address changed
                 console.assert(address.path === '');
                 if (address.pageNr === rootRecord.pageNr && address.recordNr === rootRecord.recordNr) {
@@ -678,13 +756,13 @@ export class AceBaseStorage extends Storage {
                     view.setUint32(0, address.pageNr);
                     view.setUint16(4, address.recordNr);
 
-                    const bytesWritten = await this.writeData(HEADER_INDEXES.ROOT_RECORD_ADDRESS, bytes, 0, bytes.length);
+                    const bytesWritten = await this.writeData(HEADER_INDEXES.ROOT_RECORD_ADDRESS, bytes, 0, bytes.length, tid);
                     this.debug.log(`Root record address updated to ${address.pageNr}, ${address.recordNr}`.colorize(ColorStyle.bold));
                 }
             },
         };
 
-        const descriptor = encodeString('AceBase⚡');
+        const descriptor = FILE_DESCRIPTOR;
         const baseIndex = descriptor.length;
         const HEADER_INDEXES = {
             VERSION_NR: baseIndex,
@@ -715,6 +793,22 @@ export class AceBaseStorage extends Storage {
                 handleError(err, 'Failed to open database file');
             }
 
+            if (settings.journal && !settings.readOnly) {
+                if (this.ipc.isMaster) {
+                    // Complete writes that were interrupted before reading anything from the file
+                    try {
+                        await this.openJournal();
+                    }
+                    catch (err) {
+                        handleError(err, 'Failed to replay database journal');
+                    }
+                }
+                else {
+                    // Other processes would have to replay a shared journal while we are writing to the file
+                    this.debug.warn(`Write-ahead journal can only be used by the IPC master process, database "${name}" is opened without it`);
+                }
+            }
+
             // const logfile = fs.openSync(`${this.settings.path}/${this.name}.acebase/log`, 'as');
             // this.logwrite = (action) => {
             //     fs.appendFile(logfile, JSON.stringify(action), () => {});
@@ -809,6 +903,7 @@ export class AceBaseStorage extends Storage {
             await this.KIT.load();  // Read Key Index Table
             await this.FST.load();  // Read Free Space Table
             await this.indexes.load(); // Load indexes
+            await this.loadSchemas(); // Load schema definitions
             !justCreated && this.emitOnce('ready');
             return this.file;
         };
@@ -851,7 +946,7 @@ export class AceBaseStorage extends Storage {
             //    Record start nr: 2 bytes
             //    Record end nr: 2 bytes
             // Using a 64KB FST (minus 64B header size) allows 8184 entries: (65536-64) / 8
-            // Defragmentation should kick in when FST is becoming full!
+            // Defragmentation (see compact method) should be performed when FST is becoming full!
             const fst = new Uint8Array(65536);
             uint8 = concatTypedArrays(uint8, fst);
 
@@ -896,26 +991,76 @@ export class AceBaseStorage extends Storage {
         }
 
         this.ipc.once('exit', code => {
-            // Close database file
+            // Close journal and database file
             this.debug.log(`Closing db ${this.ipc.dbname}`);
-            pfs.close(this.file).catch(err => {
+            this._closed = (async () => {
+                await this.journal?.close();
+                await pfs.close(this.file);
+            })().catch(err => {
                 this.debug.error('Could not close database:', err);
             });
         });
     }
 
+    /**
+     * Opens the write-ahead journal, replaying writes that were interrupted. Must only be used by the IPC master
+     */
+    private async openJournal() {
+        const read = async (fileIndex: number, length: number) => {
+            // Bytes beyond the end of the file are read as zeroes
+            const data = new Uint8Array(length);
+            await pfs.read(this.file, data, 0, length, fileIndex);
+            return data;
+        };
+        this.journal = new WriteAheadJournal(this.journalFileName, () => pfs.fsync(this.file), read);
+        const result = await this.journal.open((fileIndex, data) => pfs.write(this.file, data, 0, data.length, fileIndex));
+        if (result.replayed > 0 || result.undone > 0 || result.discarded > 0) {
+            this.debug.warn(`Replayed ${result.replayed} interrupted writes from journal of database "${this.name}"${result.undone > 0 ? `, undid ${result.undone} writes of incomplete node updates` : ''}${result.discarded > 0 ? ', discarded incomplete writes' : ''}`);
+        }
+    }
+
+    /**
+     * Groups all writes of a multi-path transaction in the journal (if used), so they are replayed entirely or not at all
+     */
+    protected async beginTransaction(path: string, childKeys: Array<string | number>): Promise<StorageTransaction> {
+        const transaction = await super.beginTransaction(path, childKeys);
+        const journal = this.journal;
+        const group = transaction.options.tid;
+        if (!journal?.begin(group)) {
+            return transaction;
+        }
+        return {
+            ...transaction,
+            commit: () => journal.commit(group),
+            rollback: async () => journal.abort(group), // Writes that were not restored are undone when the journal is replayed
+        };
+    }
+
     get isReady() { return this._ready; }
     get fileName() { return `${this.settings.path}/${this.name}.acebase/${this.type}.db`; }
+    get schemasFileName() { return `${this.settings.path}/${this.name}.acebase/${this.type}-schemas.json`; }
+    get journalFileName() { return `${this.settings.path}/${this.name}.acebase/${this.type}.journal`; }
     isLocked: (forUs?: boolean) => boolean;
     lock: (forUs?: boolean) => Promise<void>;
     unlock: () => Promise<void>;
 
-    public async writeData(fileIndex: number, buffer: Buffer | ArrayBuffer | ArrayBufferView | Uint8Array, offset = 0, length = -1) {
+    /**
+     * Writes data to the database file
+     * @param fileIndex index of the file to write to
+     * @param buffer data to write
+     * @param offset byte offset in the buffer to start writing from, default is 0
+     * @param length total bytes to write (if omitted or -1, it will use buffer.byteLength)
+     * @param tid optional transaction id of the node update the write belongs to, its writes are grouped in the journal
+     * @returns returns the total bytes written
+     */
+    public async writeData(fileIndex: number, buffer: Buffer | ArrayBuffer | ArrayBufferView | Uint8Array, offset = 0, length = -1, tid?: string) {
         if (this.settings.readOnly) {
             const err = new Error(`Cannot write to readonly database ${this.fileName}`);
             (err as any).code = 'EPERM'; // This is what NodeJS would throw below
             throw err;
         }
+        // Don't write if we are an IPC master that might have been replaced, or if the transaction was aborted because of that
+        this.ipc.assertNotFenced(tid);
         if (buffer.constructor === Uint8Array) { //buffer instanceof Uint8Array) {
             // If the passsed buffer is of type Uint8Array (which is essentially the same as Buffer),
             // convert it to a Buffer instance or fs.write will FAIL.
@@ -925,7 +1070,11 @@ export class AceBaseStorage extends Storage {
         if (length === -1) {
             length = buffer.byteLength;
         }
-        const { bytesWritten } = await pfs.write(this.file, buffer as Buffer, offset, length, fileIndex).catch(err => {
+        const write = () => pfs.write(this.file, buffer as Buffer, offset, length, fileIndex);
+        const { bytesWritten } = await (this.journal
+            ? this.journal.write(fileIndex, new Uint8Array((buffer as Buffer).buffer, (buffer as Buffer).byteOffset + offset, length), write, tid)
+            : write()
+        ).catch(err => {
             this.debug.error('Error writing to file', err);
             throw err;
         });
@@ -1004,6 +1153,16 @@ export class AceBaseStorage extends Storage {
         release(ranges: StorageAddressRange[]): Promise<void>;
         sort(): void;
         write(updatedPageCount?: boolean): Promise<void>;
+        /**
+         * Replaces the allocated page count and all free ranges, and truncates the file to the new size.
+         * Only used by `compact` and `check`, while the entire database is write locked
+         */
+        rebuild(pages: number, ranges: AceBaseStorage['FST']['ranges']): Promise<void>;
+        /**
+         * Pages that are not used for new allocations, set by `compact` while it moves records out of them so they can be truncated.
+         * Pages added to the end of the file can still be used
+         */
+        reserved: { from: number; to: number } | null;
         load(): Promise<AceBaseStorage['FST']['ranges']>;
         readonly maxScraps: number;
     };
@@ -1019,8 +1178,9 @@ export class AceBaseStorage extends Storage {
          * Updates the root node address
          * @param address
          * @param fromIPC whether this update comes from an IPC notification, prevent infinite loopbacks. Default is `false`
+         * @param tid optional transaction id of the node update that moved the root record
          */
-        update(address: BinaryNodeAddress, fromIPC?: boolean): Promise<void>;
+        update(address: BinaryNodeAddress, fromIPC?: boolean, tid?: string): Promise<void>;
     };
 
     /**
@@ -1038,6 +1198,7 @@ export class AceBaseStorage extends Storage {
 
     public invalidateCache(fromIPC: boolean, path: string, recursive: boolean | Record<string, 'delete' | 'invalidate'>, reason?: string) {
         this.nodeCache.invalidate(path, recursive, reason);
+        this.valueCache?.invalidate(path);
         this.indexes.getAll(path, { parentPaths: true, childPaths: true }).forEach((index) => {
             index.clearCache(path);
         });
@@ -1047,7 +1208,7 @@ export class AceBaseStorage extends Storage {
     }
 
     async close() {
-        const p1 = super.close();
+        const p1 = super.close().then(() => this._closed);
         const p2 = this.txStorage && this.txStorage.close(); // Also close transaction db
         await Promise.all([p1, p2]);
     }
@@ -1081,6 +1242,10 @@ export class AceBaseStorage extends Storage {
              * @default true
              */
             markAsRemoved?: boolean;
+            /**
+             * Transaction id of a lock the caller already holds on the parent node, eg the write lock of `check`
+             */
+            tid?: string;
         } = {
             ignoreIntact: false,
             markAsRemoved: true,
@@ -1094,7 +1259,7 @@ export class AceBaseStorage extends Storage {
         }
         const targetPathInfo = PathInfo.get(targetPath);
         const { parentPath: path, key, parent: pathInfo } = targetPathInfo;
-        const tid = this.createTid();
+        const tid = options.tid ?? this.createTid();
         let lock = await this.nodeLocker.lock(path, tid.toString(), true, 'fixRecord');
         try {
             // Make sure cache for parent and all children is removed
@@ -1285,308 +1450,301 @@ export class AceBaseStorage extends Storage {
         }
     }
 
-    get transactionLoggingEnabled() {
-        return this.settings.transactions && this.settings.transactions.log === true;
+    protected async readSchemas(): Promise<StoredSchemaDefinition[]> {
+        try {
+            const json = await pfs.readFile(this.schemasFileName, 'utf8') as string;
+            return JSON.parse(json);
+        }
+        catch (err) {
+            if (err.code === 'ENOENT') {
+                // No schemas stored yet
+                return [];
+            }
+            throw err;
+        }
     }
 
-    logMutation(
-        type: 'set' | 'update',
-        path: string,
-        value: any,
-        context: { acebase_cursor: string },
-        mutations: IAppliedMutations,
-    ): string | Promise<string> {
-        // Add to transaction log
-        if (!['set','update'].includes(type)) { throw new TypeError('type must be either "set" or "update"'); }
-        if (!this.transactionLoggingEnabled) { throw new Error('transaction logging is not enabled on database'); }
-        if (!context.acebase_cursor) { throw new Error('context.acebase_cursor must have been set'); }
-        if (mutations.list.length === 0) {
-            // There were no changes, nothing to log.
+    protected async writeSchema(path: string, definition: Omit<StoredSchemaDefinition, 'path'> | null) {
+        if (this.settings.readOnly) {
+            // Can't store it, only use the definition in memory
             return;
         }
-        if (path.startsWith('__')) {
-            // Don't log mutations on private paths
+        if (!this.ipc.isMaster) {
+            // Let the master update the file, it serializes the definition writes of all processes
+            const result = await this.ipc.sendRequest({ type: 'schema.write', path, definition });
+            if (!result.ok) { throw new Error(result.reason); }
             return;
         }
-        if (this.type === 'data') {
-            return this.txStorage.logMutation(type, path, value, context, mutations);
+        const write = this._schemaFileWrites.then(async () => {
+            // Read stored definitions instead of using our own, a previous master might have changed them
+            const schemas = (await this.readSchemas()).filter(s => s.path !== path);
+            if (definition) {
+                schemas.push({ path, ...definition });
+            }
+            // Write to a temp file first and then replace the current file, so a crash can't leave a corrupt file behind
+            const tempFileName = `${this.schemasFileName}.${ID.generate()}.tmp`;
+            await pfs.writeFile(tempFileName, JSON.stringify(schemas));
+            await pfs.rename(tempFileName, this.schemasFileName);
+        });
+        this._schemaFileWrites = write.catch(() => { /* Handled by caller */ });
+        await write;
+    }
+
+    /**
+     * Compacts the database file: moves records stored near the end of the file into free space closer to the start,
+     * and truncates the file after the last used page. Each record is moved while its parent node is write locked, so other
+     * processes connected through IPC can keep reading and writing. The entire database is only locked briefly to truncate the file.
+     * Space lost from the Free Space Table (FST) is not reclaimed, use `check({ repair: true })` for that.
+     * If this process is not the IPC master, the request is forwarded to the master.
+     */
+    async compact(): Promise<{ recordsMoved: number; pagesBefore: number; pagesAfter: number }> {
+        if (!this.ipc.isMaster) {
+            const result = await this.ipc.sendRequest({ type: 'db.compact' });
+            if (!result.ok) { throw new Error(result.reason); }
+            return result.result;
         }
-        else if (this.type !== 'transaction') {
-            throw new Error('Wrong database type');
+        if (this.settings.readOnly) {
+            throw new Error(`Cannot compact readonly database ${this.fileName}`);
         }
+        if (this.FST.reserved) {
+            throw new Error(`Database "${this.name}" is already being compacted`);
+        }
+        this.debug.warn(`Starting compaction of database "${this.name}"`);
+        const recordsPerPage = this.settings.pageSize;
+        const pagesBefore = this.FST.pages;
+
+        // Keep the free space beyond the target page count for moved records, so it can be truncated.
+        // Use 1 page extra margin, because moved records might need additional chunk table entries
+        const freeRecords = this.FST.ranges.reduce((total, range) => total + range.end - range.start, 0);
+        const usedRecords = pagesBefore * recordsPerPage - freeRecords;
+        const targetPages = Math.min(pagesBefore, Math.ceil(usedRecords / recordsPerPage) + 1);
+        this.FST.reserved = { from: targetPages, to: pagesBefore };
+        try {
+            const isReserved = (allocation: NodeAllocation) => allocation.ranges.some(range => range.pageNr >= targetPages && range.pageNr < pagesBefore);
 
-        if (value === null) {
-            // Target path was deleted. Log the mutation on parent node: prevents 2 different delete flows and allows for uniform getMutations logic
-            const pathInfo = PathInfo.get(path);
-            type = 'update';
-            path = pathInfo.parentPath;
-            value = { [pathInfo.key]: null };
-        }
-
-        const updatedKeys = mutations.path === path
-            ? mutations.list.filter(ch => ch.target.length > 0 && ch.val !== null).map(ch => ch.target[0])
-            : value instanceof Array ? Object.keys(value).map(key => +key) : Object.keys(value).filter(key => value[key] !== null);
-        const deletedKeys = mutations.path === path
-            ? mutations.list.filter(ch => ch.target.length === 1 && ch.val === null).map(ch => ch.target[0])
-            : [];
-        const item = {
-            path,
-            updated: updatedKeys,
-            deleted: deletedKeys,
-            timestamp: Date.now(),
-            type,
-            value,
-            context,
-            mutations,
-        };
-        // console.log(`Logging mutations on "/${path}": ${JSON.stringify(item.mutations)}`);
+            // Move deepest records first, moving a child rewrites its parent
+            const moveRecords = (await _findRecords(this, isReserved))
+                .filter(path => path !== '') // The root record can't be moved
+                .sort((a, b) => PathInfo.getPathKeys(b).length - PathInfo.getPathKeys(a).length);
+
+            let recordsMoved = 0;
+            for (const path of moveRecords) {
+                const pathInfo = PathInfo.get(path);
+                const tid = this.createTid().toString();
+                const lock = await this.nodeLocker.lock(pathInfo.parentPath, tid, true, 'compact', NodeLockIntention.UpdateNode([pathInfo.key]));
+                try {
+                    // Get current address, it might have changed by moving any of its children, or by other writes
+                    const nodeInfo = await this.getNodeInfo(path, { tid });
+                    if (!nodeInfo.exists || !nodeInfo.address) { continue; }
+                    const nodeReader = new NodeReader(this, nodeInfo.address, lock, false);
+                    const recordInfo = await nodeReader.readHeader();
+                    if (!isReserved(recordInfo.allocation)) { continue; }
+
+                    // Copy the record's data as is, child records and key trees do not change
+                    const data = await nodeReader.getAllData();
+                    let readOffset = 0;
+                    const reader = (length: number) => {
+                        const slice = data.slice(readOffset, readOffset + length);
+                        readOffset += length;
+                        return slice;
+                    };
+                    const newRecordInfo = await _write(this, path, recordInfo.valueType, data.length, recordInfo.hasKeyIndex, reader, undefined);
+                    await this._updateNode(
+                        pathInfo.parentPath,
+                        { [pathInfo.key]: new InternalNodeReference(newRecordInfo.valueType, newRecordInfo.address) },
+                        { merge: true, tid, _internal: true, context: { acebase_compact: { path } } },
+                    );
+                    await this.FST.release(recordInfo.allocation.ranges);
 
-        const cursor = context.acebase_cursor;
-        const store = async () => {
-            if (!this.isReady) {
-                await this.once('ready');
+                    // Make sure the old address is not used by this and other processes
+                    this.invalidateCache(false, path, false, 'compact');
+                    recordsMoved++;
+                }
+                finally {
+                    await lock.release();
+                }
             }
+
+            // Truncate the file after the last page that is in use, while no records are being written
+            const tid = this.createTid().toString();
+            const lock = await this.nodeLocker.lock('', tid, true, 'compact');
             try {
-                // const info = await this.getNodeInfo(`history/${cursor}`);
-                // if (info.exists) {
-                //     throw new Error('Another transaction using the same cursor found');
-                // }
-                await this._updateNode('history', { [cursor]: item }, { merge: true, _internal: true });
+                const isFreePage = (page: number) => this.FST.ranges.some(range => range.page === page && range.start === 0 && range.end === recordsPerPage);
+                let pagesAfter = this.FST.pages;
+                while (pagesAfter > 0 && isFreePage(pagesAfter - 1)) { pagesAfter--; }
+                await this.FST.rebuild(pagesAfter, this.FST.ranges.filter(range => range.page < pagesAfter));
+
+                this.debug.warn(`Compacted database "${this.name}": moved ${recordsMoved} records, file size reduced from ${pagesBefore} to ${pagesAfter} pages`);
+                return { recordsMoved, pagesBefore, pagesAfter };
             }
-            catch(err) {
-                this.debug.error('Failed to add to transaction log: ', err);
+            finally {
+                await lock.release();
             }
-        };
-
-        const promise = store();
-        if (!this.settings.transactions.noWait) {
-            return promise.then(() => cursor);
         }
-        return cursor;
+        finally {
+            this.FST.reserved = null;
+        }
     }
 
     /**
-     * Gets all mutations from a given cursor or timestamp on a given path, or on multiple paths that are relevant for given events
+     * Checks the integrity of the database by walking the entire tree from the root record: validates every record's header,
+     * chunk table, child B+tree and data, checks that no record in use is listed as free space in the FST, finds allocated records
+     * that are not used by any node, and compares the contents of indexes with the data.
+     * The database is read locked while walking the tree, or write locked until broken records and the FST are repaired if `repair` is set.
+     * If this process is not the IPC master, the request is forwarded to the master.
+     * @param options.repair whether to fix found issues: broken records are removed with `repairNode`, the FST is rebuilt
+     * from all records in use, and indexes that do not match the data are rebuilt
      */
-    async getMutations(filter: {
-        /**
-         * cursor is a generated key (ID.generate) that represents a point of time
-         */
-        cursor?: string;
-        /**
-         * earliest transaction to include, will be converted to a cursor
-         */
-        timestamp?: number;
-        /**
-         * top-most paths to include. Can include wildcards to facilitate wildcard event listeners. Only used if `for` filter is not used, equivalent to `for: { path, events: ['value] }
-         */
-        path?: string;
-        /**
-         * Specifies which paths and events to get all relevant mutations for
-         */
-        for?: Array<{ path: string, events:string[] }>
-    }): Promise<{
-        used_cursor: string,
-        new_cursor: string,
-        mutations: Array<{
-            path: string,
-            type: 'set' | 'update',
-            value: any,
-            context: any,
-            id: string,
-            timestamp: number,
-            changes: IAppliedMutations,
-        }>
-    }> {
-        if (this.type === 'data') {
-            if (!this.transactionLoggingEnabled) { throw new Error('Transaction logging is not enabled'); }
-            return this.txStorage.getMutations(filter);
-        }
-        else if (this.type !== 'transaction') {
-            throw new Error('Wrong database type');
-        }
-        if (!this.isReady) {
-            await this.once('ready');
+    async check(options: { repair?: boolean } = {}): Promise<IntegrityCheckReport> {
+        if (!this.ipc.isMaster) {
+            const result = await this.ipc.sendRequest({ type: 'db.check', repair: options.repair === true });
+            if (!result.ok) { throw new Error(result.reason); }
+            return result.result;
         }
-        const cursor = // Use given cursor, timestamp or nothing to filter on
-            (filter.cursor && filter.cursor.slice(0, 8))
-            || (filter.timestamp && (new Date(filter.timestamp).getTime()).toString(36).padStart(8, '0'))
-            || '00000000';
-        const since =
-            (typeof filter.timestamp === 'number' && filter.timestamp)
-            || (cursor && parseInt(cursor, 36))
-            || 0;
-
-        // Check if cursor is not too old
-        if (since !== 0 && cursor < this.oldestValidCursor) {
-            throw new Error('Cursor too old');
+        if (options.repair && this.settings.readOnly) {
+            throw new Error(`Cannot repair readonly database ${this.fileName}`);
         }
-
-        if (!filter.for || filter.for.length === 0) {
-            filter.for = [{ path: typeof filter.path === 'string' ? filter.path : '', events: ['value'] }]; // Use filter.path, or root node as single path
+        this.debug.log(`Checking integrity of database "${this.name}"`);
+        // Keep the database write locked until the repair is done, writes in between would make the report stale
+        const lock = await this.nodeLocker.lock('', this.createTid().toString(), options.repair === true, 'check');
+        let report: IntegrityCheckReport;
+        try {
+            const result = await _checkRecords(this, lock);
+            report = {
+                ok: false,
+                records: result.records.length,
+                brokenRecords: result.broken.map(record => ({ ...record, repaired: false })),
+                freeSpaceConflicts: result.freeSpaceConflicts,
+                unreachable: result.unreachable,
+                freeSpaceRepaired: false,
+                indexes: [],
+            };
+            if (options.repair) {
+                await _repairRecords(this, lock, report);
+            }
+        }
+        finally {
+            await lock.release();
+        }
+        for (const index of this.indexes.list()) {
+            report.indexes.push(await _checkIndex(this, index));
+        }
+        const indexIssues = report.indexes.filter(index => index.missing.length + index.orphaned.length + index.mismatched.length > 0);
+        report.ok = report.brokenRecords.length === 0 && report.freeSpaceConflicts.length === 0 && report.unreachable.length === 0 && indexIssues.length === 0;
+        this.debug[report.ok ? 'log' : 'warn'](`Integrity check of database "${this.name}" ${report.ok ? 'found no issues' : `found ${report.brokenRecords.length} broken records, ${report.freeSpaceConflicts.length} records in free space, ${report.unreachable.length} unreachable ranges and ${indexIssues.length} indexes that do not match the data`}`);
+        if (!options.repair) {
+            return report;
         }
 
-        // Get filter paths, filter out paths that are descendants of another path
-        const filterPaths = filter.for.filter(t1 => {
-            const pathInfo = PathInfo.get(t1.path);
-            return !filter.for.some(t2 => pathInfo.isDescendantOf(t2.path));
-        }).map(item => item.path);
+        for (const indexReport of indexIssues) {
+            const index = this.indexes.list().find(index => index.fileName === indexReport.fileName);
+            await index.build();
+            indexReport.repaired = true;
+        }
+        return report;
+    }
 
-        const tid = this.createTid(); //ID.generate();
-        const lock = await this.nodeLocker.lock('history', tid.toString(), false, 'getMutations');
+    /**
+     * Creates a consistent copy of the database file, transaction log, schema definitions and index files while the database is in use.
+     * The entire database is read locked while the files are copied, so running writes will finish first and new writes wait until the
+     * backup is done. If this process is not the IPC master, the request is forwarded to the master because it performs all index updates.
+     * @param targetPath directory to create the backup in. Files are copied to a `[name].acebase` subdirectory, which must not exist yet
+     */
+    async backup(targetPath: string): Promise<{ path: string; files: string[] }> {
+        if (!this.ipc.isMaster) {
+            const result = await this.ipc.sendRequest({ type: 'db.backup', targetPath });
+            if (!result.ok) { throw new Error(result.reason); }
+            return result.result;
+        }
+        const sourceDir = `${this.settings.path}/${this.name}.acebase`;
+        const targetDir = `${targetPath}/${this.name}.acebase`;
+        if (await pfs.exists(targetDir)) {
+            throw new Error(`Cannot create backup in ${targetDir}: directory already exists`);
+        }
+        await pfs.mkdir(targetDir, { recursive: true });
+
+        this.debug.log(`Starting backup of database "${this.name}" to ${targetDir}`);
+        const lock = await this.nodeLocker.lock('', this.createTid().toString(), false, 'backup');
+        const txStorage = this.txStorage ? await this.getTransactionStorage() : null;
+        const txLock = txStorage ? await txStorage.nodeLocker.lock('', txStorage.createTid().toString(), false, 'backup') : null;
+        const indexes = this.indexes.list().concat(txStorage ? txStorage.indexes.list() : []);
+        const indexLocks = await Promise.all(indexes.map(index => index._lock('shared')));
         try {
-            type MutationItem = { id: string, path: string, type: 'set'|'update', timestamp: number, value: any, context: any, changes: IAppliedMutations };
-            let mutations = [] as MutationItem[];
-            const checkQueue = [] as string[];
-            let done: () => void;
-            const donePromise = new Promise<void>(resolve => done = resolve);
-            let allEnumerated = false;
-
-            const hasValue = (val: any) => ![undefined,null].includes(val);
-            const hasPropertyValue = (val: any, prop: string | number) => hasValue(val) && typeof val === 'object' && hasValue(val[prop]);
-
-            // const filterPathInfo = PathInfo.get(filter.path || '');
-            const check = async (key: string) => {
-                checkQueue.push(key);
-                const { value: mutation } = <{
-                    value: {
-                        path: string;
-                        keys: (string | number)[];
-                        updated: (string | number)[];
-                        deleted: (string | number)[];
-                        type: 'set' | 'update';
-                        timestamp: number;
-                    }
-                }>await this.getNode(`history/${key}`, { tid, include: ['path', 'updated', 'deleted', 'type', 'timestamp'] }); // Not including 'value'
-                mutation.keys = mutation.updated.concat(mutation.deleted);
-                const mutationPathInfo = PathInfo.get(mutation.path);
-
-                // Find the path in filter.paths on this trail, there can only be 1 (descendants were filtered out above)
-                const filterPath = (() => {
-                    const path = filterPaths.find(path => mutationPathInfo.isOnTrailOf(path));
-                    return typeof path === 'string' ? path : null;
-                })();
-                const filterPathInfo = filterPath === null ? null : PathInfo.get(filterPath);
-                const load = (() => {
-                    /**
-                     * When to include a mutation & what data to include.
-                     * - mutation.path starts with __ (private path)
-                     *      - ignore
-                     * - filterPath === null if no filter paths were on the same trail as mutation.path
-                     *      - eg: filterPaths on ["books/book1", "books/book2"], mutation.path === "books/book3"
-                     *      - ignore
-                     * - filterPath equals mutation.path
-                     *      - eg: filterPath === mutation.path === "books/book1"
-                     *      - use entire mutation
-                     * - filterPath is an ancestor of mutation.path
-                     *      - eg: filterPath === "books", mutation.path === "books/book1"
-                     *      - use entire mutation
-                     * - filterPath is a descendant of mutation.path
-                     *      - eg: filterPath === "books/book1/title", mutation.path === "books"
-                     *      - ignore if mutation.type === 'update' and mutation.keys does NOT include first trailing key of filterPath (eg only book2 is updated)
-                     *      - if filterPath has wildcard (*, $var) keys, repeat following step recursively:
-                     *      - use target (trailing) data in mutation value (value/books/book1/title) or null
-                     */
-                    if (mutation.path.startsWith('__')) {
-                        return 'none';
-                    }
-                    if (mutation.timestamp < since || filterPath === null) {
-                        return 'none';
-                    }
-                    if (!filterPathInfo.isDescendantOf(mutationPathInfo)) {
-                        return 'all';
-                    }
-                    if (mutation.type === 'set' || mutation.keys.concat('*').includes(filterPathInfo.keys[mutationPathInfo.keys.length]) || filterPathInfo.keys[mutationPathInfo.keys.length].toString().startsWith('$')) {
-                        return 'target';
-                    }
-                    return 'none';
-                })();
-
-                if (load !== 'none') {
-                    const valueKey = 'value' + (load === 'target' ? (mutation.path.length === 0 ? '/' : '') + filterPath.slice(mutation.path.length) : '');
-                    const { value: tx } = <{
-                        value: {
-                            context: any;
-                            mutations: IAppliedMutations;
-                            value: any;
-                        }
-                    }>await this.getNode(`history/${key}`, { tid, include: ['context', 'mutations', valueKey] });
+            // Copy all database, schema and index files. Leave out temporary files of running index builds and tree rebuilds
+            const files = (await pfs.readdir(sourceDir) as string[])
+                .filter(file => file.endsWith('.db') || file.endsWith('.idx') || file.endsWith('-schemas.json'));
+            for (const file of files) {
+                await pfs.copyFile(`${sourceDir}/${file}`, `${targetDir}/${file}`);
+            }
+            this.debug.log(`Backup of database "${this.name}" to ${targetDir} completed: copied ${files.length} files`);
+            return { path: targetDir, files };
+        }
+        finally {
+            indexLocks.forEach(lock => lock.release());
+            await txLock?.release();
+            await lock.release();
+        }
+    }
 
-                    const targetPath = mutation.path;
-                    let targetValue = tx.value, targetOp = mutation.type;
-                    if (typeof targetValue === 'undefined') {
-                        targetValue = null;
-                    }
-                    else {
-                        // Add removed properties to the target value again
-                        mutation.deleted.forEach(key => targetValue[key] = null);
-                    }
-                    for (const m of tx.mutations.list) {
-                        if (typeof m.val === 'undefined') { m.val = null; }
-                        if (typeof m.prev === 'undefined') { m.prev = null; }
-                    }
-                    if (load === 'target') {
-                        targetOp = 'set';
-                        const trailKeys = filterPathInfo.keys.slice(mutationPathInfo.keys.length);
-                        const process = (targetPath: string, targetValue: any, trailKeys: (string | number)[]) => {
-                            const childKey = trailKeys[0];
-                            trailKeys = trailKeys.slice(1);
-                            if (childKey === '*' || childKey.toString().startsWith('$')) {
-                                // Wildcard. Process all child keys
-                                return Object.keys(targetValue).forEach(childKey => {
-                                    process(targetPath, targetValue, [childKey, ...trailKeys]);
-                                });
-                            }
-                            targetPath = PathInfo.getChildPath(targetPath, childKey);
-                            targetValue = targetValue !== null && childKey in targetValue ? targetValue[childKey] : null;
-                            if (trailKeys.length === 0) {
-                                // console.log(`Adding mutation on "${targetPath}" to history of "${filterPathInfo.path}"`)
-                                // Check if the targeted value actually changed
-                                const targetPathInfo = PathInfo.get(targetPath);
-                                const hasTargetMutation = tx.mutations.list.some(m => {
-                                    const mTargetPathInfo = PathInfo.get(tx.mutations.path).child(m.target);
-                                    if (mTargetPathInfo.isAncestorOf(targetPathInfo)) {
-                                        // Mutation on higher path, check if target mutation prev and val are different
-                                        const trailKeys = targetPathInfo.keys.slice(mTargetPathInfo.keys.length);
-                                        const val = !hasValue(m.val) ? null : trailKeys.reduce((val, key) => hasPropertyValue(val, key) ? val[key] : null, m.val);
-                                        const prev = !hasValue(m.prev) ? null : trailKeys.reduce((prev, key) => hasPropertyValue(prev, key) ? prev[key] : null, m.prev);
-                                        return (val !== prev);
-                                    }
-                                    return mTargetPathInfo.isOnTrailOf(targetPathInfo);
-                                });
-                                hasTargetMutation && mutations.push({ id: key, path: targetPath, type: targetOp, timestamp: mutation.timestamp, value: targetValue, context: tx.context, changes: tx.mutations });
-                            }
-                            else {
-                                process(targetPath, targetValue, trailKeys); // Deeper
-                            }
-                        };
-                        process(targetPath, targetValue, trailKeys);
-                    }
-                    else {
-                        // console.log(`Adding mutation on "${targetPath}" to history of "${filterPathInfo.path}"`)
-                        mutations.push({ id: key, path: targetPath, type: targetOp, timestamp: mutation.timestamp, value: targetValue, context: tx.context, changes: tx.mutations }); // TODO remove __mutation__: mutation
-                    }
-                }
+    /**
+     * Restores a backup created with `backup` by copying its files to the database directory, after verifying the header of its database files.
+     * The target database must not exist yet.
+     * @param name name of the database
+     * @param backupPath directory the backup was created in, containing the `[name].acebase` subdirectory
+     * @param targetPath directory to restore the database to
+     */
+    static async restore(name: string, backupPath: string, targetPath: string): Promise<{ path: string; files: string[] }> {
+        const sourceDir = `${backupPath}/${name}.acebase`;
+        const targetDir = `${targetPath}/${name}.acebase`;
+        const files = (await pfs.readdir(sourceDir) as string[])
+            .filter(file => file.endsWith('.db') || file.endsWith('.idx') || file.endsWith('-schemas.json'));
+        if (!files.includes('data.db')) {
+            throw new Error(`No database file found in backup ${sourceDir}`);
+        }
+        for (const file of files.filter(file => file.endsWith('.db'))) {
+            await _verifyFileHeader(`${sourceDir}/${file}`);
+        }
+        if (await pfs.exists(targetDir)) {
+            throw new Error(`Cannot restore backup to ${targetDir}: database already exists`);
+        }
+        await pfs.mkdir(targetDir, { recursive: true });
+        for (const file of files) {
+            await pfs.copyFile(`${sourceDir}/${file}`, `${targetDir}/${file}`);
+        }
+        return { path: targetDir, files };
+    }
 
-                checkQueue.splice(checkQueue.indexOf(key), 1);
-                if (allEnumerated && checkQueue.length === 0) {
-                    done();
-                }
-            };
+    /**
+     * Gets the companion storage that holds the transaction log, and waits for it to be ready
+     */
+    private async getTransactionStorage() {
+        const storage = this.txStorage;
+        if (!storage) {
+            throw new Error(this.type === 'transaction' ? 'Wrong database type' : 'Transaction logging is not enabled');
+        }
+        if (!storage.isReady) {
+            await storage.once('ready');
+        }
+        return storage;
+    }
+
+    protected async writeMutation(cursor: string, mutation: StoredMutation) {
+        const storage = await this.getTransactionStorage();
+        await storage._updateNode('history', { [cursor]: mutation }, { merge: true, _internal: true });
+    }
 
-            let count = 0;
-            const oldestValidCursor = this.oldestValidCursor, expiredTransactions: string[] = [], inspectFurther: string[] = [];
+    protected async readMutations(cursor: string) {
+        const storage = await this.getTransactionStorage();
+        const tid = storage.createTid();
+        const lock = await storage.nodeLocker.lock('history', tid.toString(), false, 'readMutations');
+        try {
+            const keys = [] as string[];
             try {
-                await this.getChildren('history', { tid }).next(childInfo => {
-                    const txCursor = childInfo.key.slice(0, cursor.length);
-                    if (txCursor < oldestValidCursor) { expiredTransactions.push(childInfo.key); }
-                    if (txCursor < cursor) { return; }
-                    if (txCursor === cursor) {
-                        // cuid timestamp bytes are equal - perform extra check on this mutation later to find out if we have to include it in the results
-                        inspectFurther.push(childInfo.key);
+                await storage.getChildren('history', { tid }).next(childInfo => {
+                    const key = childInfo.key as string;
+                    if (key.slice(0, cursor.length) >= cursor) {
+                        keys.push(key);
                     }
-                    count++;
-                    check(childInfo.key);
                 });
             }
             catch (err) {
@@ -1594,301 +1752,43 @@ export class AceBaseStorage extends Storage {
                     throw err;
                 }
             }
-
-            allEnumerated = true;
-            if (count > 0) {
-                await donePromise;
-            }
-
-            if (expiredTransactions.length > 0) {
-                // Remove expired transactions
-                const expiredUpdate = expiredTransactions.reduce((updates, key) => {
-                    updates[key] = null;
-                    return updates;
-                }, {} as Record<string, null>);
-                this.updateNode('history', expiredUpdate); // No need to await this, will be processed once we've released our read lock
-            }
-
-            if (inspectFurther.length === 1 && inspectFurther[0] === filter.cursor) {
-                // This is the exact cursor the caller used as filter, remove this mutation from results
-                const index = mutations.findIndex(m => m.id === filter.cursor);
-                index >= 0 && mutations.splice(index, 1);
-            }
-            else if (inspectFurther.length > 1) {
-                // More than one mutation was performed within the same millisecond of the used cursor filter.
-                // We can't reliably use the counter bytes of the cuid to check which mutation came before or after,
-                // because the cuid counter number rolls over (later cuid might have smaller counter), and they might
-                // have been generated by other threads (both using a different counter).
-                // Include all these mutations.
-                // NOTE that it is practically impossible to have more than 1 mutation in the same millisecond that
-                // could conflict with another because of the currently used locking mechanism - this will *probably* never
-                // happen.
-            }
-
-            // Make sure they are sorted
-            mutations.sort((a, b) => a.timestamp - b.timestamp);
-
-            // Toss all mutations the caller is not interested in
-            const hasNewKeys = (val: any, prev: any) => Object.keys(val || {}).some(key => !(key in (prev || {})));
-            const hasRemovedKeys = (val: any, prev: any) => Object.keys(prev || {}).some(key => !(key in (val || {})));
-            const allEventsFor = (...events: string[]) => events.concat(...events.map(e => `notify_${e}`));
-            const hasEvent = (events: string[], check: string[]) => allEventsFor(...check).some(e => events.includes(e));
-            mutations = mutations.filter(item => {
-
-                // Get all changes as 'set' operations so we can compare
-                const changes = (() => {
-                    const basePathInfo = PathInfo.get(item.changes.path);
-                    if (basePathInfo.isAncestorOf(item.path)) {
-                        // Mutation has been recorded on higher path.
-                        // - Remove changes that are not on the requested target, caller might not have rights to read them
-                        // - Modify relevant changes to be on target path
-                        for (let i = 0; i < item.changes.list.length; i++) {
-                            const ch = item.changes.list[i];
-                            // item.path === 'library/books/book1'
-                            // item.changes.path === 'library/books'
-                            // m.target === ['book1']
-                            // m.value === { ... }
-                            const trailKeys = PathInfo.get(item.path).keys.slice(basePathInfo.keys.length);
-
-                            // Remove mutation from list if it's not on the target
-                            const onTarget = ch.target.every((key, index) => key === trailKeys[index]);
-                            if (!onTarget) {
-                                item.changes.list.splice(i, 1);
-                                i--; continue;
-                            }
-
-                            // Remove target keys from trail
-                            trailKeys.splice(0, ch.target.length);
-
-                            const val = !hasValue(ch.val) ? null : trailKeys.reduce((val, key) => hasPropertyValue(val, key) ? val[key] : null, ch.val);
-                            const prev = !hasValue(ch.prev) ? null : trailKeys.reduce((prev, key) => hasPropertyValue(prev, key) ? prev[key] : null, ch.prev);
-                            if (val === prev) {
-                                // This mutation has no changes on target path
-                                item.changes.list.splice(i, 1);
-                                i--; continue;
-                            }
-                            ch.val = val;
-                            ch.prev = prev;
-                            ch.target.push(...trailKeys); // Adjust target
-                        }
-                        if (item.changes.list.length === 0) {
-                            // Skip, no changes on target path
-                            return [];
-                        }
-                    }
-                    // Return all changes as individual 'set' operations
-                    return item.changes.list.map(m => {
-                        const targetPathInfo = m.target.length === 0 ? basePathInfo : basePathInfo.child(m.target);
-                        return {
-                            id: item.id,
-                            type: 'set',
-                            path: targetPathInfo.path,
-                            pathInfo: targetPathInfo,
-                            timestamp: item.timestamp,
-                            context: item.context,
-                            prev: hasValue(m.prev) ? m.prev : null,
-                            val: hasValue(m.val) ? m.val : null,
-                        };
-                    });
-                })();
-
-                // Now, are any of these changes relevant to any of the requested path/event combinations?
-                return changes.some(ch => {
-                    return filter.for.some(target => {
-
-                        if (!ch.pathInfo.isOnTrailOf(target.path)) {
-                            return false;
-                        }
-                        else if ((ch.pathInfo.equals(target.path) || ch.pathInfo.isDescendantOf(target.path))
-                            && hasEvent(target.events, ['value','child_changed','mutated','mutations'])) {
-                            return true;
-                        }
-                        else if (ch.pathInfo.equals(target.path)) {
-                            // mutation on target: value is being overwritten.
-                            if (hasEvent(target.events, ['value','child_changed','mutated','mutations'])) {
-                                return true;
-                            }
-                            if (hasEvent(target.events, ['child_added']) && hasNewKeys(ch.val, ch.prev)) {
-                                return true;
-                            }
-                            if (hasEvent(target.events, ['child_removed']) && hasRemovedKeys(ch.val, ch.prev)) {
-                                return true;
-                            }
-                        }
-                        else if (ch.pathInfo.isDescendantOf(target.path)) {
-                            // mutation on deeper than target path
-                            // eg: mutation on path 'books/book1/title', child_added target on 'books'
-                            // Events [child_changed, value, mutated, mutations] will already have returned true above
-                            if(hasEvent(target.events, ['child_added','child_removed'])) {
-                                if (!ch.pathInfo.isChildOf(target.path)) { return false; }
-                                if (hasEvent(target.events, ['child_added']) && ch.prev === null) { return true; }
-                                if (hasEvent(target.events, ['child_removed']) && ch.val === null) { return true; }
-                            }
-                        }
-                        else {
-                            // Mutation on higher than target path.
-                            // eg mutation on path 'books/book1', child_changed on target 'books/book1/authors'
-                            // Get values at target path
-                            const trailKeys = PathInfo.getPathKeys(target.path).slice(ch.pathInfo.keys.length);
-                            const prev = trailKeys.reduce((prev, key) => hasValue(prev) && hasPropertyValue(prev, key) ? prev[key] : null, ch.prev);
-                            const val = trailKeys.reduce((val, key) => hasValue(val) && hasPropertyValue(val, key) ? val[key] : null, ch.val);
-                            if (prev === val) { return false; }
-                            if (hasEvent(target.events, ['value','mutated','mutations'])) {
-                                return true;
-                            }
-                            if (hasEvent(target.events, ['child_added']) && hasNewKeys(val, prev)) {
-                                return true;
-                            }
-                            if (hasEvent(target.events, ['child_removed']) && hasRemovedKeys(val, prev)) {
-                                return true;
-                            }
-                        }
-                        return false;
-                    });
-                });
-            });
-
-            return { mutations, used_cursor: filter.cursor, new_cursor: ID.generate() };
+            return await Promise.all(keys.map(async key => {
+                // Not including 'value', 'context' and 'mutations'
+                const { value: mutation } = await storage.getNode(`history/${key}`, { tid, include: ['path', 'updated', 'deleted', 'type', 'timestamp'] });
+                return { cursor: key, mutation: mutation as StoredMutationHeader };
+            }));
         }
         finally {
             lock.release();
         }
     }
 
-    /**
-     * Gets all effective changes from a given cursor or timestamp on a given path, or on multiple paths that are relevant for given events.
-     * Multiple mutations will be merged so the returned changes will not have their original updating contexts and order of the original timeline.
-     */
-    async getChanges(filter: {
-        /**
-         * cursor is a generated key (ID.generate) that represents a point of time
-         */
-        cursor?: string;
-        /**
-         * earliest transaction to include, will be converted to a cursor
-         */
-        timestamp?: number;
-        /**
-         * top-most paths to include. Can include wildcards to facilitate wildcard event listeners. Only used if `for` filter is not used,
-         * equivalent to `for: { path, events: ['value] }
-         */
-        path?: string;
-        /**
-         * Specifies which paths and events to get all relevant mutations for
-         */
-        for?: Array<{ path: string; events:string[] }>;
-    }): Promise<{
-        used_cursor: string;
-        new_cursor: string;
-        changes: Array<{
-            path: string;
-            type: 'set' | 'update';
-            previous: any;
-            value: any;
-            context: any;
-        }>;
-    }> {
-        const mutationsResult = await this.getMutations(filter);
-        const { used_cursor, new_cursor, mutations } = mutationsResult;
-
-        const hasValue = (val: any) => ![undefined,null].includes(val);
-
-        // Get effective changes to the target paths
-        const arr = mutations.reduce((all, item) => {
-            // 1. Add all effective mutations as 'set' operations on their target paths, removing previous 'set' mutations on the same or descendant paths
-            const basePathInfo = PathInfo.get(item.changes.path);
-            item.changes.list.forEach(m => {
-                const targetPathInfo = m.target.length === 0 ? basePathInfo : basePathInfo.child(m.target);
-
-                // Remove previous 'set' mutations on the same and descendant paths
-                all = all.filter(prev => !prev.pathInfo.equals(targetPathInfo) && !prev.pathInfo.isDescendantOf(targetPathInfo));
-
-                all.push({
-                    id: item.id,
-                    type: 'set',
-                    path: targetPathInfo.path,
-                    pathInfo: targetPathInfo,
-                    timestamp: item.timestamp,
-                    context: item.context,
-                    prev: hasValue(m.prev) ? m.prev : null,
-                    val: hasValue(m.val) ? m.val : null,
-                });
-            });
-            return all;
-        }, [] as Array<{
-            id: string;
-            type: 'set';
-            path: string;
-            pathInfo: PathInfo;
-            timestamp: number;
-            context: any;
-            prev: any;
-            val: any;
-        }>).reduce((all, item) => {
-            // 2. Merge successive 'set' mutations on the same parent to single parent 'update's, using last used context
-            if (item.path === '') {
-            // 'set' on the root path. Don't change
-                all.push(item);
-            }
-            else {
-                const pathInfo = item.pathInfo;
-                const parentPath = pathInfo.parentPath;
-                const parentUpdate = all.find(u => u.path === parentPath);
-                if (!parentUpdate) {
-                    // Create new parent update
-                    all.push({
-                        id: item.id,
-                        type: 'update',
-                        path: parentPath,
-                        pathInfo: pathInfo.parent,
-                        val: { [pathInfo.key]: item.val },
-                        prev: { [pathInfo.key]: item.prev },
-                        context: item.context,
-                    });
-                }
-                else {
-                    // Add this change to parent update
-                    parentUpdate.val[pathInfo.key] = item.val;
-                    if (parentUpdate.prev !== null) { // previous === null on very first root 'set' only
-                        parentUpdate.prev[pathInfo.key] = item.prev;
-                    }
-                    parentUpdate.context = item.context;
-                }
-            }
-            return all;
-        }, [] as Array<{
-            id: string;
-            type: 'set'|'update';
-            path: string;
-            pathInfo: PathInfo;
-            val: any;
-            prev: any;
-            context: any;
-        }>);
-
-
-        // Transform results to desired output
-        const changes = arr.map(item => ({
-            id: item.id,
-            type: item.type,
-            path: item.path,
-            context: { acebase_cursor: item.context.acebase_cursor }, // Replace original context
-            value: item.val,
-            previous: item.prev,
-        }));
-
-        return { used_cursor, new_cursor, changes };
+    protected async readMutation(cursor: string, valuePath?: string) {
+        const storage = await this.getTransactionStorage();
+        const valueKey = 'value' + (valuePath ? `/${valuePath}` : '');
+        const { value } = await storage.getNode(`history/${cursor}`, { include: ['context', 'mutations', valueKey] });
+        return value as Pick<StoredMutation, 'context' | 'mutations' | 'value'>;
     }
 
-    get oldestValidCursor() {
-        if (this.settings.transactions.maxAge <= 0) {
-            return '';
+    protected async removeMutations(before: string) {
+        const storage = await this.getTransactionStorage();
+        const expired = {} as Record<string, null>;
+        try {
+            await storage.getChildren('history').next(childInfo => {
+                const key = childInfo.key as string;
+                if (key.slice(0, before.length) < before) {
+                    expired[key] = null;
+                }
+            });
+        }
+        catch (err) {
+            if (!(err instanceof NodeNotFoundError)) {
+                throw err;
+            }
+        }
+        if (Object.keys(expired).length > 0) {
+            await storage.updateNode('history', expired);
         }
-        const msPerDay = 86400000, // 24 * 60 * 60 * 1000
-            maxAgeMs = this.settings.transactions.maxAge * msPerDay,
-            limit = Date.now() - maxAgeMs,
-            cursor = limit.toString(36);
-        return cursor;
     }
 
     /**
@@ -1902,6 +1802,11 @@ export class AceBaseStorage extends Storage {
         options: {
             /** specify the child keys to get callbacks for, skips .next callbacks for other keys */
             keyFilter?: string[] | number[];
+            /**
+             * key to continue after: enumerates the children of an object in key order, starting after this key.
+             * Use `''` to start at the first child. Ignored for arrays, or if `keyFilter` is used
+             */
+            after?: string;
             /** optional transaction id for node locking purposes */
             tid?: string | number;
             /**
@@ -1930,7 +1835,7 @@ export class AceBaseStorage extends Storage {
         const start = async (callback: ChildCallbackFunction, isAsync = false) => {
             const tid = this.createTid(); //ID.generate();
             let canceled = false;
-            const lock = await this.nodeLocker.lock(path, tid.toString(), false, `storage.getChildren "/${path}"`);
+            const lock = await this.nodeLocker.lock(path, tid.toString(), false, `storage.getChildren "/${path}"`, NodeLockIntention.ReadInfo());
             try {
                 const nodeInfo = await this.getNodeInfo(path, { tid });
                 if (!nodeInfo.exists) {
@@ -1950,7 +1855,7 @@ export class AceBaseStorage extends Storage {
                         canceled = callback(childInfo) === false;
                         return !canceled;
                     };
-                await reader.getChildStream({ keyFilter: options.keyFilter })
+                await reader.getChildStream({ keyFilter: options.keyFilter, after: options.after })
                     .next(nextCallback, isAsync);
                 return canceled;
             }
@@ -1977,9 +1882,15 @@ export class AceBaseStorage extends Storage {
         options: InternalDataRetrievalOptions = { child_objects: true },
     ): Promise<{ revision?: string, value: any, cursor?: string }> {
         const tid = options.tid || this.createTid();
-        const lock = await this.nodeLocker.lock(path, tid.toString(), false, `storage.getNode "/${path}"`);
+        const lock = await this.nodeLocker.lock(path, tid.toString(), false, `storage.getNode "/${path}"`, NodeLockIntention.ReadValue());
         try {
             const cursor = this.transactionLoggingEnabled ? ID.generate() : undefined;
+            // Only entire values are cached
+            const cacheable = this.valueCache && !options.include && !options.exclude && options.child_objects !== false;
+            const cachedValue = cacheable ? this.valueCache.get(path) : undefined;
+            if (typeof cachedValue !== 'undefined') {
+                return { revision: null, value: cachedValue, cursor };
+            }
             const nodeInfo = await this.getNodeInfo(path, { tid });
             let value = nodeInfo.value;
             if (!nodeInfo.exists) {
@@ -1993,6 +1904,8 @@ export class AceBaseStorage extends Storage {
                     child_objects: options.child_objects,
                 });
             }
+            // Cache while still locked, a writer might invalidate the value right after we release it
+            cacheable && this.valueCache.set(path, value);
             return {
                 revision: null, // TODO: implement (or maybe remove from other storage backends because we're not using it anywhere)
                 value,
@@ -2055,7 +1968,7 @@ export class AceBaseStorage extends Storage {
             let childCount = 0;
             if (([VALUE_TYPES.ARRAY, VALUE_TYPES.OBJECT] as number[]).includes(nodeInfo.valueType) && nodeInfo.address) {
                 // Get number of children
-                const childLock = await this.nodeLocker.lock(path, tid.toString(), false, `storage.getNodeInfo "/${path}"`);
+                const childLock = await this.nodeLocker.lock(path, tid.toString(), false, `storage.getNodeInfo "/${path}"`, READ_RECORD);
                 try {
                     const childReader = new NodeReader(this, nodeInfo.address, childLock, true);
                     childCount = await childReader.getChildCount();
@@ -2069,7 +1982,7 @@ export class AceBaseStorage extends Storage {
 
         if (path === '') {
             // Root record requires a little different strategy
-            const rootLock = await this.nodeLocker.lock('', tid.toString(), false, 'storage.getNodeInfo "/"');
+            const rootLock = await this.nodeLocker.lock('', tid.toString(), false, 'storage.getNodeInfo "/"', READ_RECORD);
             try {
                 if (!this.rootRecord.exists) {
                     return new BinaryNodeInfo({ path, exists: false });
@@ -2099,8 +2012,14 @@ export class AceBaseStorage extends Storage {
         const pathInfo = PathInfo.get(path);
         const parentPath = pathInfo.parentPath;
 
+        // Lock the node itself first if its children will be counted, concurrent transactions lock ancestors last
+        const countLock = options.include_child_count
+            ? await this.nodeLocker.lock(path, tid.toString(), false, `storage.getNodeInfo "/${path}"`, READ_RECORD)
+            : null;
+
         // Achieve a read lock on the parent node and read it
-        const lock = await this.nodeLocker.lock(parentPath, tid.toString(), false, `storage.getNodeInfo "/${parentPath}"`);
+        const lock = await this.nodeLocker.lock(parentPath, tid.toString(), false, `storage.getNodeInfo "/${parentPath}"`, READ_RECORD)
+            .catch(err => { countLock?.release(); throw err; });
         try {
             // We have a lock, check if the lookup has been cached by another "thread" in the meantime.
             let childInfo = this.nodeCache.find(path, true) as BinaryNodeInfo;
@@ -2157,6 +2076,7 @@ export class AceBaseStorage extends Storage {
         }
         finally {
             lock.release(`storage.getNodeInfo: done with path "/${parentPath}"`);
+            countLock?.release();
         }
     }
 
@@ -2183,17 +2103,9 @@ export class AceBaseStorage extends Storage {
             context: null,
         },
     ): Promise<string|void> {
-        options.context = options.context || {};
-        if (this.txStorage) {
-            options.context.acebase_cursor = ID.generate();
-        }
-        const context = cloneObject(options.context); // copy context to prevent changes while code proceeds async
-        const mutations = await this._updateNode(path, value, { merge: false, tid: options.tid, suppress_events: options.suppress_events, context });
-        if (this.txStorage && mutations) {
-            const p = this.logMutation('set', path, value, context as { acebase_cursor: string }, mutations);
-            if (p instanceof Promise) { await p; }
-        }
-        return options.context.acebase_cursor;
+        return this.loggedWrite('set', path, value, options, (context, value) => {
+            return this._updateNode(path, value, { merge: false, tid: options.tid, suppress_events: options.suppress_events, context });
+        });
     }
 
     /**
@@ -2221,17 +2133,9 @@ export class AceBaseStorage extends Storage {
             context: null,
         },
     ): Promise<string|void> {
-        options.context = options.context || {};
-        if (this.txStorage) {
-            options.context.acebase_cursor = ID.generate();
-        }
-        const context = cloneObject(options.context); // copy context to prevent changes while code proceeds async
-        const mutations = await this._updateNode(path, updates, { merge: true, tid: options.tid, suppress_events: options.suppress_events, context });
-        if (this.txStorage && mutations) {
-            const p = this.logMutation('update', path, updates, context as { acebase_cursor: string }, mutations);
-            if (p instanceof Promise) { await p; }
-        }
-        return options.context.acebase_cursor;
+        return this.loggedWrite('update', path, updates, options, (context, updates) => {
+            return this._updateNode(path, updates, { merge: true, tid: options.tid, suppress_events: options.suppress_events, context });
+        });
     }
 
     /**
@@ -2261,6 +2165,11 @@ export class AceBaseStorage extends Storage {
             context?: any;
             /** @default false */
             _internal?: boolean;
+            /**
+             * Used when a child node is added because it did not exist yet, updates the child instead if
+             * it was created by another transaction in the meantime
+             */
+            _addChild?: { key: string | number, retry: () => Promise<IAppliedMutations> };
         } = {
             merge: true,
             _internal: false,
@@ -2291,23 +2200,48 @@ export class AceBaseStorage extends Storage {
             );
         }
 
-        // const impact = super.getUpdateImpact(path, options.suppress_events);
-        // const topLock = impact.topEventPath !== path
-        //     ? await this.nodeLocker.lock(impact.topEventPath, tid, true, '_updateNode:topLock')
-        //     : null;
-
-        let lock = await this.nodeLocker.lock(path, tid.toString(), true, '_updateNode');
+        // Lock the top event path first if it is higher than the target path. Concurrent writes to its descendants
+        // would otherwise deadlock when they both have to read its current value to trigger events or update indexes
+        const impact = options._internal ? null : this.getUpdateImpact(path, options.suppress_events);
+        let topLock = impact && impact.topEventPath !== path
+            ? await this.nodeLocker.lock(impact.topEventPath, tid.toString(), true, '_updateNode:topLock', NodeLockIntention.OverwriteNode())
+            : null;
+
+        // Merges only write to the node's own record and the updated children, unless its entire value is read to track
+        // changes. Internal updates of child references only write to the node's own record
+        const intention = options._internal
+            ? NodeLockIntention.UpdateNode(Object.keys(value).filter(key => !(value[key] instanceof InternalNodeReference)))
+            : options.merge && !impact.hasValueSubscribers ? NodeLockIntention.UpdateNode(Object.keys(value)) : NodeLockIntention.OverwriteNode();
+        let lock = await this.nodeLocker.lock(path, tid.toString(), true, '_updateNode', intention);
+        let journalGroup: { journal: WriteAheadJournal, name: string } = null;
         try {
             const nodeInfo = await this.getNodeInfo(path, { tid });
             if (!nodeInfo.exists && path !== '') {
-                // Node doesn't exist, update parent instead
-                lock = await lock.moveToParent();
-                return await this._updateNode(pathInfo.parentPath, { [pathInfo.key]: value }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
+                // Node doesn't exist, update parent instead. Release our locks first: the parent's lock is not granted
+                // while others are writing to its children, they must not have to wait for us
+                lock.release();
+                topLock?.release();
+                lock = topLock = null;
+                const retry = () => this._updateNode(path, value, { ...options, tid });
+                return await this._updateNode(pathInfo.parentPath, { [pathInfo.key]: value }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context, _addChild: { key: pathInfo.key, retry } });
+            }
+            if (options._addChild && (await this.getNodeInfo(PathInfo.getChildPath(path, options._addChild.key), { tid })).exists) {
+                // The child was created by another transaction before we got our locks, update it instead
+                lock.release();
+                topLock?.release();
+                lock = topLock = null;
+                return await options._addChild.retry();
+            }
+
+            // Group all writes of this update in the journal, so they are replayed entirely or not at all. Nested updates
+            // (of parent records) are part of the group, and keep their locks until it is committed
+            if (this.journal?.begin(tid.toString())) {
+                journalGroup = { journal: this.journal, name: tid.toString() };
             }
 
             // Exists, or root record
             const merge = nodeInfo.exists && nodeInfo.address && options.merge;
-            const write = async () => {
+            const write = async (value: any) => {
                 if (merge) {
                     // Node exists already, is stored in its own record, and it must be updated (merged)
                     // TODO: pass current value along if we have it - to prevent _mergeNode loading it again!
@@ -2321,7 +2255,7 @@ export class AceBaseStorage extends Storage {
 
             let result: Partial<IWriteNodeResult> & Awaited<ReturnType<typeof write>>;
             if (options._internal) {
-                result = await write();
+                result = await write(value);
             }
             else {
                 result = <any> await this._writeNodeWithTracking(path, value, {
@@ -2329,8 +2263,8 @@ export class AceBaseStorage extends Storage {
                     merge,
                     suppress_events: options.suppress_events,
                     context: options.context,
-                    _customWriteFunction: write, // Will use this function instead of this._writeNode
-                    // impact
+                    _customWriteFunction: write, // Will use this function instead of this._writeNode, with the value changed by before triggers
+                    impact,
                 });
             }
 
@@ -2347,6 +2281,10 @@ export class AceBaseStorage extends Storage {
                     { merge: true, tid, _internal: true, context: options.context },
                 );
                 parentUpdated = true;
+
+                // Cache the new address again: concurrent readers of the parent record might have cached
+                // the old address before the parent was updated
+                this.updateCache(false, new BinaryNodeInfo({ path, type: recordInfo.valueType, address: recordInfo.address, exists: true }), true);
             }
 
             if (parentUpdated && pathInfo.parentPath !== '') {
@@ -2368,7 +2306,13 @@ export class AceBaseStorage extends Storage {
                 //     }
                 // });
 
-                this.FST.release(deallocate.ranges);
+                // Others must not reuse the records before the update is committed
+                const release = () => this.FST.release(deallocate.ranges);
+                this.journal ? this.journal.onEnd(tid.toString(), release) : release();
+            }
+
+            if (journalGroup) {
+                await journalGroup.journal.commit(journalGroup.name);
             }
 
             return {
@@ -2386,8 +2330,13 @@ export class AceBaseStorage extends Storage {
         //     throw err; //return false;
         // }
         finally {
-            lock.release();
-            // topLock && topLock.release();
+            if (journalGroup) {
+                // Does nothing if the group was committed
+                journalGroup.journal.abort(journalGroup.name);
+            }
+            const locks = [lock, topLock];
+            const release = () => locks.forEach(lock => lock?.release());
+            this.journal ? this.journal.onEnd(tid.toString(), release) : release();
         }
     }
 }
@@ -2672,7 +2621,7 @@ class NodeReader {
                 const address = child.address;
                 if (address) {
                 // Get child Allocation
-                    const promise = this.storage.nodeLocker.lock(child.path, this.lock.tid, false, `NodeReader:getAllocation:child "/${child.path}"`)
+                    const promise = this.storage.nodeLocker.lock(child.path, this.lock.tid, false, `NodeReader:getAllocation:child "/${child.path}"`, NodeLockIntention.ReadValue())
                         .then(async childLock => {
                             const reader = new NodeReader(this.storage, address, childLock, this.updateCache);
                             const childAllocation = await reader.getAllocation(true);
@@ -2816,7 +2765,7 @@ class NodeReader {
                 const loadChildValue = async (child: BinaryNodeInfo) => {
                     let childLock;
                     try {
-                        childLock = await this.storage.nodeLocker.lock(child.address.path, this.lock.tid, false, `NodeReader.getValue:child "/${child.address.path}"`);
+                        childLock = await this.storage.nodeLocker.lock(child.address.path, this.lock.tid, false, `NodeReader.getValue:child "/${child.address.path}"`, NodeLockIntention.ReadValue());
 
                         // Are there any relevant nested includes / excludes?
                         // Fixed: nested bracket (index) include/exclude handling like '[3]/name'
@@ -3047,10 +2996,12 @@ class NodeReader {
 
     /**
      * Starts reading this record, returns a generator that fires `.next` for each child key until the callback function returns false. The generator (.next) returns a promise that resolves when all child keys have been processed, or was cancelled because false was returned in the generator callback
-     * @param options optional options: keyFilter specific keys to get, offers performance and memory improvements when searching specific keys
+     * @param options optional options: keyFilter specific keys to get, offers performance and memory improvements when searching specific keys.
+     * after: key to continue after, enumerates the children of an object in key order starting after this key (use `''` to start
+     * at the first child), seeking to it directly if the record has a key index. Ignored for arrays, or if `keyFilter` is used
      * @returns returns a generator that is called for each child. return false from your `.next` callback to stop iterating
      */
-    getChildStream(options: { keyFilter?: string[] | number[] } = {}) {
+    getChildStream(options: { keyFilter?: string[] | number[]; after?: string } = {}) {
         this._assertLock();
 
         type ChildCallbackFunction = (childInfo: BinaryNodeInfo, index: number) => boolean | void | Promise<boolean | void>
@@ -3075,17 +3026,40 @@ class NodeReader {
             if (this.recordInfo.hasKeyIndex) {
                 return createStreamFromBinaryTree();
             }
-            else if (this.recordInfo.allocation.totalAddresses === 1) {
+            else if (isSeeking()) {
+                return createSortedStreamFromLinearData();
+            }
+            return createStreamFromRecordData();
+        };
+
+        const isSeeking = () => typeof options.after === 'string' && !isArray && !options.keyFilter;
+
+        const createStreamFromRecordData = () => {
+            if (this.recordInfo.allocation.totalAddresses === 1) {
                 // We have all data in memory (small record)
                 return createStreamFromLinearData(this.recordInfo.startData, true);
             }
-            else {
-                return this.getDataStream()
-                    .next(({ data, chunks, chunkIndex }) => {
-                        const isLastChunk = chunkIndex === chunks.length-1;
-                        return createStreamFromLinearData(data, isLastChunk); //, fileIndex
-                    });
+            return this.getDataStream()
+                .next(({ data, chunks, chunkIndex }) => {
+                    const isLastChunk = chunkIndex === chunks.length-1;
+                    return createStreamFromLinearData(data, isLastChunk); //, fileIndex
+                });
+        };
+
+        // Gets children after a key in key order from linear key/value data, which is not stored in key order
+        const createSortedStreamFromLinearData = async () => {
+            const children = [] as BinaryNodeInfo[];
+            const childCallback = callback, childAsync = isAsync;
+            callback = child => { child.key > options.after && children.push(child); };
+            isAsync = false;
+            await createStreamFromRecordData();
+            children.sort((a, b) => a.key < b.key ? -1 : 1);
+            for (let i = 0; i < children.length; i++) {
+                let result = childCallback(children[i], i);
+                if (childAsync && result instanceof Promise) { result = await result; }
+                if (result === false) { return false; }
             }
+            return true;
         };
 
         // Gets children from a indexed binary tree of key/value data
@@ -3135,10 +3109,12 @@ class NodeReader {
                 }
             }
             else {
-                // Loop the tree leafs, run callback for each child
-                let leaf = await tree.getFirstLeaf();
+                // Loop the tree leafs, run callback for each child. Leafs are sorted by key, so we can seek to the given key
+                const seeking = isSeeking();
+                let leaf = seeking ? await tree.findLeaf(options.after) : await tree.getFirstLeaf();
                 while (leaf) {
-                    const children = leaf.entries.reduce((nodes, entry) => {
+                    const entries = seeking ? leaf.entries.filter(entry => entry.key > options.after) : leaf.entries;
+                    const children = entries.reduce((nodes, entry) => {
                         const child = isArray
                             ? new BinaryNodeInfo({ path: `${this.address.path}[${entry.key}]`, index: entry.key as number })
                             : new BinaryNodeInfo({ path: `${this.address.path}/${entry.key}`, key: entry.key as string });
@@ -3420,7 +3396,7 @@ class NodeReader {
             if (bOffset + bLength > length) {
                 bLength = length - bOffset;
             }
-            const p = this.storage.writeData(fIndex, binary, bOffset, bLength);
+            const p = this.storage.writeData(fIndex, binary, bOffset, bLength, this.lock.tid);
             writes.push(p);
             bOffset += bLength;
         }
@@ -3643,7 +3619,7 @@ async function _mergeNode(storage: AceBaseStorage, nodeInfo: BinaryNodeInfo, upd
 
                 // Child is stored in own record, and it is updated or deleted so we need to get
                 // its allocation so we can release it when updating is done
-                const promise = storage.nodeLocker.lock(child.address.path, lock.tid, false, `_mergeNode: read child "/${child.address.path}"`)
+                const promise = storage.nodeLocker.lock(child.address.path, lock.tid, false, `_mergeNode: read child "/${child.address.path}"`, NodeLockIntention.ReadValue())
                     .then(async childLock => {
                         const childReader = new NodeReader(storage, child.address, childLock, false);
                         const allocation = await childReader.getAllocation(true);
@@ -3848,7 +3824,7 @@ async function _mergeNode(storage: AceBaseStorage, nodeInfo: BinaryNodeInfo, upd
                         sourceIndex += data.byteLength;
                         return data;
                     };
-                    recordInfo = await _write(storage, nodeInfo.path, nodeReader.recordInfo.valueType, bytesRequired, true, reader, nodeReader.recordInfo);
+                    recordInfo = await _write(storage, nodeInfo.path, nodeReader.recordInfo.valueType, bytesRequired, true, reader, nodeReader.recordInfo, lock.tid);
                 }
                 else {
                     // Failed to update the binary data, we need to rebuild the tree
@@ -3948,7 +3924,7 @@ async function _createNode(storage: AceBaseStorage, nodeInfo: BinaryNodeInfo, ne
 }
 
 async function _lockAndWriteNode(storage: AceBaseStorage, path: string, value: any, parentTid: string | number): Promise<RecordInfo> {
-    const lock = await storage.nodeLocker.lock(path, parentTid.toString(), true, `_lockAndWrite "${path}"`);
+    const lock = await storage.nodeLocker.lock(path, parentTid.toString(), true, `_lockAndWrite "${path}"`, NodeLockIntention.OverwriteNode());
     try {
         const recordInfo = await _writeNode(storage, path, value, lock);
         return recordInfo;
@@ -3970,7 +3946,7 @@ async function _writeNode(storage: AceBaseStorage, path: string, value: any, loc
             readOffset += length;
             return slice;
         };
-        return _write(storage, path, valueType, buffer.length, keyTree, reader, currentRecordInfo);
+        return _write(storage, path, valueType, buffer.length, keyTree, reader, currentRecordInfo, lock.tid);
     };
 
     if (typeof value === 'string') {
@@ -4318,6 +4294,7 @@ async function _write(
     hasKeyTree: boolean,
     reader: (length: number) => Uint8Array | number[] | Promise<Uint8Array | number[]>,
     currentRecordInfo: RecordInfo,
+    tid?: string,
 ): Promise<RecordInfo> {
     // Record layout:
     // record           := record_header, record_data
@@ -4508,7 +4485,7 @@ async function _write(
             let bytesWritten = promise ? await promise : 0;
             const data = await readChunk(range.length * bytesPerRecord);
             bytesWritten += data.byteLength;
-            await storage.writeData(fileIndex, data);
+            await storage.writeData(fileIndex, data, 0, -1, tid);
             return bytesWritten;
         }, null as Promise<number>);
 
@@ -4536,7 +4513,7 @@ async function _write(
         recordInfo.timestamp = Date.now();
 
         if (address.path === '') {
-            await storage.rootRecord.update(address); // Wait for this, the address update has to be written to file
+            await storage.rootRecord.update(address, false, tid); // Wait for this, the address update has to be written to file
         }
         return recordInfo;
     }
@@ -4570,7 +4547,7 @@ async function _rebuildKeyTree(tree: BinaryBPlusTree, nodeReader: NodeReader, op
         }
         return buffer;
     };
-    const newRecordInfo = await _write(storage, path, nodeReader.recordInfo.valueType, bytesWritten, true, reader, nodeReader.recordInfo);
+    const newRecordInfo = await _write(storage, path, nodeReader.recordInfo.valueType, bytesWritten, true, reader, nodeReader.recordInfo, nodeReader.lock.tid);
 
     console.assert(
         newRecordInfo.allocation.totalAddresses * newRecordInfo.bytesPerRecord >= bytesWritten,
@@ -4588,6 +4565,249 @@ async function _rebuildKeyTree(tree: BinaryBPlusTree, nodeReader: NodeReader, op
     return newRecordInfo;
 }
 
+/**
+ * Walks the tree from the root record to find the paths of records with a matching allocation. Each record is read locked
+ * while its children are read, so the tree can be changed by others during the walk
+ */
+async function _findRecords(storage: AceBaseStorage, filter: (allocation: NodeAllocation) => boolean) {
+    const paths = [] as string[];
+    const addRecord = async (path: string) => {
+        const tid = storage.createTid().toString();
+        const lock = await storage.nodeLocker.lock(path, tid, false, 'compact:find', NodeLockIntention.ReadInfo());
+        const childPaths = [] as string[];
+        try {
+            const nodeInfo = await storage.getNodeInfo(path, { tid });
+            if (!nodeInfo.exists || !nodeInfo.address) { return; }
+            const nodeReader = new NodeReader(storage, nodeInfo.address, lock, false);
+            const recordInfo = await nodeReader.readHeader();
+            if (filter(recordInfo.allocation)) {
+                paths.push(path);
+            }
+            if (recordInfo.valueType !== VALUE_TYPES.OBJECT && recordInfo.valueType !== VALUE_TYPES.ARRAY) {
+                return;
+            }
+            await nodeReader.getChildStream().next(child => {
+                child.address && childPaths.push(child.address.path);
+            });
+        }
+        finally {
+            await lock.release();
+        }
+        for (const childPath of childPaths) {
+            await addRecord(childPath);
+        }
+    };
+    await addRecord('');
+    return paths;
+}
+
+/**
+ * Walks the tree from the root record to validate all records, and compares the records in use with the FST.
+ * Caller must have a lock on the root node
+ */
+async function _checkRecords(storage: AceBaseStorage, lock: IAceBaseIPCLock) {
+    const { pageSize } = storage.settings;
+    const pages = storage.FST.pages;
+    const records = [] as Array<{ path: string, allocation: NodeAllocation }>;
+    const broken = [] as Array<{ path: string; address: string; error: string }>;
+    /** index + 1 of the record using each address, 0 if unused */
+    const owners = new Uint32Array(pages * pageSize);
+
+    const checkRecord = async (address: BinaryNodeAddress) => {
+        const childAddresses = [] as BinaryNodeAddress[];
+        try {
+            const nodeReader = new NodeReader(storage, address, lock, false);
+            const { valueType, allocation } = await nodeReader.readHeader();
+            const recordTypes = [VALUE_TYPES.OBJECT, VALUE_TYPES.ARRAY, VALUE_TYPES.STRING, VALUE_TYPES.BINARY, VALUE_TYPES.REFERENCE] as NodeValueType[];
+            if (!recordTypes.includes(valueType)) {
+                throw new Error(`Invalid value type ${valueType}`);
+            }
+            const outside = allocation.ranges.find(range => range.pageNr >= pages || range.recordNr + range.length > pageSize);
+            if (outside) {
+                throw new Error(`Chunk table refers to records outside the allocated pages: ${outside.pageNr},${outside.recordNr}+${outside.length - 1}`);
+            }
+            const addresses = allocation.addresses;
+            const shared = addresses.find(address => owners[address.pageNr * pageSize + address.recordNr] !== 0);
+            if (shared) {
+                const owner = records[owners[shared.pageNr * pageSize + shared.recordNr] - 1];
+                throw new Error(`Record ${shared.pageNr},${shared.recordNr} is also used by "/${owner.path}"`);
+            }
+            if (valueType === VALUE_TYPES.OBJECT || valueType === VALUE_TYPES.ARRAY) {
+                // Reads all child entries, from the child B+tree if the record has one
+                await nodeReader.getChildStream().next(child => {
+                    child.address && childAddresses.push(child.address);
+                });
+            }
+            else {
+                await nodeReader.getAllData();
+            }
+            records.push({ path: address.path, allocation });
+            addresses.forEach(address => owners[address.pageNr * pageSize + address.recordNr] = records.length);
+        }
+        catch (err) {
+            broken.push({ path: address.path, address: `${address.pageNr},${address.recordNr}`, error: err.message });
+            return;
+        }
+        for (const childAddress of childAddresses) {
+            await checkRecord(childAddress);
+        }
+    };
+    await checkRecord(storage.rootRecord.address);
+
+    // Check records in use that are also listed as free space
+    const free = new Uint8Array(pages * pageSize);
+    const conflicts = new Map<number, StorageAddress[]>();
+    for (const range of storage.FST.ranges) {
+        for (let recordNr = range.start; recordNr < range.end && range.page < pages; recordNr++) {
+            const index = range.page * pageSize + recordNr;
+            free[index] = 1;
+            const owner = owners[index];
+            if (owner !== 0) {
+                !conflicts.has(owner) && conflicts.set(owner, []);
+                conflicts.get(owner).push(new StorageAddress(range.page, recordNr));
+            }
+        }
+    }
+    const toRanges = (addresses: StorageAddress[]) => NodeAllocation.fromAdresses(addresses).ranges
+        .map(range => ({ pageNr: range.pageNr, recordNr: range.recordNr, length: range.length }));
+    const freeSpaceConflicts = [...conflicts.entries()].map(([owner, addresses]) => ({ path: records[owner - 1].path, ranges: toRanges(addresses) }));
+
+    // Find allocated records that are not in use
+    const unused = [] as StorageAddress[];
+    for (let index = 0; index < owners.length; index++) {
+        if (owners[index] === 0 && free[index] === 0) {
+            unused.push(new StorageAddress(Math.floor(index / pageSize), index % pageSize));
+        }
+    }
+    const unreachable = unused.length > 0 ? toRanges(unused) : [];
+
+    return { records, broken, freeSpaceConflicts, unreachable };
+}
+
+/**
+ * Removes the broken records found by `_checkRecords` from their parents and rebuilds the FST from all records in use.
+ * Caller must have a write lock on the root node, held since the records were checked
+ */
+async function _repairRecords(storage: AceBaseStorage, lock: IAceBaseIPCLock, report: IntegrityCheckReport) {
+    for (const record of report.brokenRecords) {
+        if (record.path === '') {
+            storage.debug.error(`Cannot repair broken root record of database "${storage.name}"`);
+            continue;
+        }
+        try {
+            await storage.repairNode(record.path, { ignoreIntact: true, markAsRemoved: true, tid: lock.tid });
+            record.repaired = true;
+        }
+        catch (err) {
+            storage.debug.error(`Could not repair broken record "/${record.path}":`, err);
+        }
+    }
+    if (report.brokenRecords.some(record => record.repaired) || report.freeSpaceConflicts.length > 0 || report.unreachable.length > 0) {
+        // Rebuild the FST from all records that are in use now
+        const { records } = await _checkRecords(storage, lock);
+        await storage.FST.rebuild(storage.FST.pages, _getFreeRanges(records, storage.FST.pages, storage.settings.pageSize));
+        report.freeSpaceRepaired = true;
+    }
+}
+
+/**
+ * Compares the contents of an index with the data it indexes
+ */
+async function _checkIndex(storage: AceBaseStorage, index: DataIndex): Promise<IntegrityCheckReport['indexes'][number]> {
+    const isWildcard = (key: string | number) => typeof key === 'string' && (key === '*' || key.startsWith('$'));
+    const result = {
+        description: index.description,
+        fileName: index.fileName,
+        checked: index.type === 'normal' && !index.key.startsWith('$'),
+        missing: [] as string[],
+        orphaned: [] as string[],
+        mismatched: [] as string[],
+        repaired: false,
+    };
+    if (!result.checked) {
+        return result;
+    }
+    const normalize = (value: unknown) => {
+        if (value instanceof Date) { return value.getTime(); }
+        if (typeof value === 'string') {
+            // Index stores the first 255 characters only
+            value = value.slice(0, 255);
+            return index.caseSensitive ? value : (value as string).toLocaleLowerCase(index.textLocale);
+        }
+        return value;
+    };
+    // Read the index file instead of cached query results
+    index.clearCache(index.path);
+    const indexed = new Map<string, unknown>();
+    const entries: IndexQueryResults = await index.take(0, Number.MAX_SAFE_INTEGER);
+    entries.forEach(entry => indexed.set(entry.path, normalize(entry.value)));
+
+    // Get the paths of all indexed records, the index path can contain wildcards
+    const getChildPaths = async (paths: string[]) => {
+        const childPaths = [] as string[];
+        for (const path of paths) {
+            await storage.getChildren(path).next(child => { childPaths.push(child.path); })
+                .catch(err => {
+                    if (!(err instanceof NodeNotFoundError)) { throw err; }
+                });
+        }
+        return childPaths;
+    };
+    let paths = [''];
+    for (const key of PathInfo.getPathKeys(index.path)) {
+        paths = isWildcard(key) ? await getChildPaths(paths) : paths.map(path => PathInfo.getChildPath(path, key));
+    }
+    const recordPaths = await getChildPaths(paths);
+
+    const canBeIndexed = (value: unknown) => ['number', 'boolean', 'string', 'bigint'].includes(typeof value) || value instanceof Date;
+    for (const path of recordPaths) {
+        const value = index.key === '{key}'
+            ? PathInfo.get(path).key
+            : (await storage.getNode(`${path}/${index.key}`)).value;
+        if (!canBeIndexed(value)) {
+            continue;
+        }
+        if (!indexed.has(path)) {
+            result.missing.push(path);
+        }
+        else if (indexed.get(path) !== normalize(value)) {
+            result.mismatched.push(path);
+        }
+    }
+    const existing = new Set(recordPaths);
+    result.orphaned = [...indexed.keys()].filter(path => !existing.has(path));
+    return result;
+}
+
+/**
+ * Determines the free FST ranges in the first `pages` pages, given the allocations of all records in use
+ */
+function _getFreeRanges(records: Array<{ allocation: NodeAllocation }>, pages: number, recordsPerPage: number) {
+    const usedRanges = new Map<number, StorageAddressRange[]>();
+    records.forEach(record => {
+        record.allocation.ranges.forEach(range => {
+            if (range.pageNr >= pages) { return; }
+            if (!usedRanges.has(range.pageNr)) { usedRanges.set(range.pageNr, []); }
+            usedRanges.get(range.pageNr).push(range);
+        });
+    });
+    const freeRanges = [] as Array<{ page: number; start: number; end: number }>;
+    for (let page = 0; page < pages; page++) {
+        const ranges = (usedRanges.get(page) ?? []).sort((a, b) => a.recordNr - b.recordNr);
+        let start = 0;
+        ranges.forEach(range => {
+            if (range.recordNr > start) {
+                freeRanges.push({ page, start, end: range.recordNr });
+            }
+            start = Math.max(start, range.recordNr + range.length);
+        });
+        if (start < recordsPerPage) {
+            freeRanges.push({ page, start, end: recordsPerPage });
+        }
+    }
+    return freeRanges;
+}
+
 class InternalNodeReference {
     private _address: BinaryNodeAddress;
     constructor(public type: number, address: BinaryNodeAddress) {
@@ -4606,3 +4826,24 @@ class InternalNodeReference {
         return this._address.recordNr;
     }
 }
+
+/**
+ * Checks if a file has a valid AceBase database header, throws if it does not
+ */
+async function _verifyFileHeader(fileName: string) {
+    const file = await pfs.open(fileName, 'r', 0);
+    try {
+        const data = Buffer.alloc(64);
+        const { bytesRead } = await pfs.read(file, data, 0, data.length, 0);
+        const header = new Uint8Array(data);
+        if (bytesRead < 64 || FILE_DESCRIPTOR.some((byte, i) => header[i] !== byte)) {
+            throw new Error(`${fileName} is not a supported database file`);
+        }
+        if (header[FILE_DESCRIPTOR.length] !== 1) {
+            throw new Error(`Database version of ${fileName} is not supported`);
+        }
+    }
+    finally {
+        await pfs.close(file);
+    }
+}
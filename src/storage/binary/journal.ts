@@ -0,0 +1,319 @@
+import { pfs } from '../../promise-fs';
+
+/** entry header: 1 byte entry type, 4 byte group number, 4 byte data length, 8 byte file index, 4 byte checksum */
+const HEADER_SIZE = 21;
+
+const ENTRY_TYPE = {
+    /** write that is not part of a group */
+    WRITE: 1,
+    /** write that is part of a group, its data is followed by the data it overwrote */
+    GROUP_WRITE: 2,
+    /** marks all writes of a group as complete */
+    COMMIT: 3,
+};
+
+/** journal size at which it is truncated once all its writes have been applied */
+const CHECKPOINT_SIZE = 1024 * 1024;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(...chunks: Uint8Array[]) {
+    let crc = 0xffffffff;
+    for (const chunk of chunks) {
+        for (let i = 0; i < chunk.length; i++) {
+            crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+        }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Write-ahead journal for a binary database file. Every write is appended to the journal and flushed to disk before
+ * it is applied to the database file, so writes interrupted by a crash or power loss can be replayed when the database is opened again.
+ * Entries with a missing or invalid checksum were never (completely) flushed, so they cannot have been applied yet and are discarded.
+ *
+ * Writes that belong together (all writes of a node update) are written in a group. A group's entries also store the data they overwrote,
+ * so the writes of a group that was not committed can be undone when the journal is replayed: a node update is either replayed entirely, or not at all.
+ */
+export class WriteAheadJournal {
+
+    private file: number = null;
+    private size = 0;
+    /** number of appended writes that have not been applied yet, and open groups */
+    private pending = 0;
+    /** chains appends so they are written to the journal in order */
+    private appending: Promise<any> = Promise.resolve();
+    private truncating: Promise<void> = null;
+    /** set when a write could not be applied, or a group was aborted after writing. The journal must then be kept until it is replayed */
+    private failed = false;
+    private idleCallbacks = [] as Array<() => void>;
+    private groups = new Map<string, { nr: number, writes: number, endCallbacks: Array<() => void> }>();
+    private lastGroupNr = 0;
+
+    /**
+     * @param fileName journal file
+     * @param syncDatabase flushes the database file to disk, the journal must not be truncated before its writes are persisted
+     * @param readDatabase reads data from the database file that is about to be overwritten by a grouped write
+     */
+    constructor(
+        public readonly fileName: string,
+        private syncDatabase: () => Promise<void>,
+        private readDatabase: (fileIndex: number, length: number) => Promise<Uint8Array>,
+    ) {}
+
+    /**
+     * Opens or creates the journal file, and replays all complete entries still in it. Writes of groups that were not committed are undone
+     * @param apply writes an entry's data to the database file
+     * @returns the number of replayed, undone and discarded entries
+     */
+    async open(apply: (fileIndex: number, data: Uint8Array) => Promise<any>) {
+        const exists = await pfs.exists(this.fileName);
+        this.file = await pfs.open(this.fileName, exists ? 'r+' : 'w+', 0o666);
+        if (!exists) {
+            return { replayed: 0, undone: 0, discarded: 0 };
+        }
+        const journal = new Uint8Array(await pfs.readFile(this.fileName, { encoding: null, flag: 'r' }) as Buffer);
+        const view = new DataView(journal.buffer, journal.byteOffset, journal.byteLength);
+        const entries = [] as Array<{ type: number, group: number, fileIndex: number, data: Uint8Array }>;
+        const committed = new Set<number>();
+        let index = 0;
+        while (index + HEADER_SIZE <= journal.length) {
+            const type = view.getUint8(index);
+            const group = view.getUint32(index + 1);
+            const length = view.getUint32(index + 5);
+            const fileIndex = view.getFloat64(index + 9);
+            const checksum = view.getUint32(index + 17);
+            const end = index + HEADER_SIZE + length;
+            if (end > journal.length) {
+                break; // Entry was not written completely
+            }
+            const data = journal.slice(index + HEADER_SIZE, end);
+            if (crc32(journal.subarray(index, index + 17), data) !== checksum) {
+                break; // Entry is corrupt, no entries after it can have been flushed either
+            }
+            if (type === ENTRY_TYPE.COMMIT) {
+                committed.add(group);
+            }
+            else {
+                entries.push({ type, group, fileIndex, data });
+            }
+            index = end;
+        }
+
+        // Undo the writes of groups that were not committed, newest first
+        let replayed = 0, undone = 0;
+        for (const entry of entries.slice().reverse()) {
+            if (entry.type === ENTRY_TYPE.GROUP_WRITE && !committed.has(entry.group)) {
+                await apply(entry.fileIndex, entry.data.subarray(entry.data.length / 2));
+                undone++;
+            }
+        }
+        // Replay all other writes in order
+        for (const entry of entries) {
+            if (entry.type === ENTRY_TYPE.WRITE) {
+                await apply(entry.fileIndex, entry.data);
+                replayed++;
+            }
+            else if (committed.has(entry.group)) {
+                await apply(entry.fileIndex, entry.data.subarray(0, entry.data.length / 2));
+                replayed++;
+            }
+        }
+        const discarded = index < journal.length ? 1 : 0;
+        this.size = journal.length;
+        if (this.size > 0) {
+            await this.truncate();
+        }
+        return { replayed, undone, discarded };
+    }
+
+    /**
+     * Starts a group of writes that must be replayed together: none of them are replayed unless the group is committed
+     * @param group unique name of the group, eg the transaction id of a node update
+     * @returns `false` if the group was already open
+     */
+    begin(group: string) {
+        if (this.groups.has(group)) {
+            return false;
+        }
+        this.pending++;
+        this.groups.set(group, { nr: ++this.lastGroupNr, writes: 0, endCallbacks: [] });
+        return true;
+    }
+
+    /**
+     * Marks all writes of a group as complete, and waits for that to be flushed to disk
+     */
+    async commit(group: string) {
+        const info = this.groups.get(group);
+        if (!info) {
+            throw new Error(`Journal group "${group}" is not open`);
+        }
+        try {
+            if (info.writes > 0) {
+                await this.append(ENTRY_TYPE.COMMIT, info.nr, 0, new Uint8Array(0));
+            }
+        }
+        catch (err) {
+            // Group's writes will be undone when the journal is replayed
+            this.failed = true;
+            throw err;
+        }
+        finally {
+            this.end(group);
+        }
+    }
+
+    /**
+     * Ends a group without committing it. Its writes will be undone when the journal is replayed,
+     * so the journal is kept until then
+     */
+    abort(group: string) {
+        const info = this.groups.get(group);
+        if (info) {
+            if (info.writes > 0) {
+                this.failed = true;
+            }
+            this.end(group);
+        }
+    }
+
+    /**
+     * Runs a callback once a group has been committed or aborted, or right away if the group is not open.
+     * Used to postpone actions that others must not see before the group's writes are complete, such as releasing locks and freed records
+     */
+    onEnd(group: string, callback: () => void) {
+        const info = this.groups.get(group);
+        if (info) {
+            info.endCallbacks.push(callback);
+        }
+        else {
+            callback();
+        }
+    }
+
+    private end(group: string) {
+        const info = this.groups.get(group);
+        this.groups.delete(group);
+        info.endCallbacks.forEach(callback => callback());
+        this.pending--;
+        this.checkIdle();
+    }
+
+    private checkIdle() {
+        if (this.pending === 0) {
+            this.idleCallbacks.splice(0).forEach(callback => callback());
+            if (this.size >= CHECKPOINT_SIZE) {
+                this.truncate().catch(() => { /* Retried after the next write */ });
+            }
+        }
+    }
+
+    /**
+     * Appends an entry to the journal and waits for it to be flushed to disk
+     */
+    private async append(type: number, group: number, fileIndex: number, ...data: Uint8Array[]) {
+        const length = data.reduce((length, data) => length + data.length, 0);
+        const entry = new Uint8Array(HEADER_SIZE + length);
+        const view = new DataView(entry.buffer);
+        view.setUint8(0, type);
+        view.setUint32(1, group);
+        view.setUint32(5, length);
+        view.setFloat64(9, fileIndex);
+        data.reduce((offset, data) => (entry.set(data, offset), offset + data.length), HEADER_SIZE);
+        view.setUint32(17, crc32(entry.subarray(0, 17), entry.subarray(HEADER_SIZE)));
+
+        const position = this.size;
+        this.size += entry.length;
+        this.appending = this.appending.catch(() => { /* previous append failed */ })
+            .then(() => pfs.write(this.file, entry, 0, entry.length, position));
+        await this.appending;
+        await pfs.fdatasync(this.file);
+    }
+
+    /**
+     * Appends a write to the journal, waits for it to be flushed to disk, and then applies it to the database file
+     * @param fileIndex index in the database file to write the data to
+     * @param data data to write
+     * @param apply callback that writes the data to the database file
+     * @param group optional group the write belongs to. If the group is not open, the write is replayed on its own
+     */
+    async write<T>(fileIndex: number, data: Uint8Array, apply: () => Promise<T>, group?: string): Promise<T> {
+        while (this.truncating) {
+            // Wait for the journal to be truncated, new entries must be appended after that
+            await this.truncating;
+        }
+        this.pending++;
+        try {
+            const info = typeof group === 'string' ? this.groups.get(group) : undefined;
+            if (info) {
+                const overwritten = await this.readDatabase(fileIndex, data.length);
+                await this.append(ENTRY_TYPE.GROUP_WRITE, info.nr, fileIndex, data, overwritten);
+                info.writes++;
+            }
+            else {
+                await this.append(ENTRY_TYPE.WRITE, 0, fileIndex, data);
+            }
+
+            try {
+                return await apply();
+            }
+            catch (err) {
+                // The database file might have been partially written
+                this.failed = true;
+                throw err;
+            }
+        }
+        finally {
+            this.pending--;
+            this.checkIdle();
+        }
+    }
+
+    /**
+     * Truncates the journal after flushing the database file to disk. Does nothing while there are appended writes that have not been applied yet,
+     * open groups, or if applying a write failed
+     */
+    async truncate() {
+        if (this.truncating) {
+            return this.truncating;
+        }
+        if (this.pending > 0 || this.size === 0 || this.failed) {
+            return;
+        }
+        this.truncating = (async () => {
+            await this.syncDatabase();
+            await pfs.ftruncate(this.file, 0);
+            await pfs.fdatasync(this.file);
+            this.size = 0;
+        })();
+        try {
+            await this.truncating;
+        }
+        finally {
+            this.truncating = null;
+        }
+    }
+
+    /**
+     * Waits for pending writes and open groups, truncates the journal if all its writes have been applied, and closes it
+     */
+    async close() {
+        if (this.pending > 0) {
+            await new Promise<void>(resolve => this.idleCallbacks.push(resolve));
+        }
+        await this.truncate();
+        await pfs.close(this.file);
+        this.file = null;
+    }
+}
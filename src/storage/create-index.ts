@@ -1,15 +1,15 @@
 import { ColorStyle } from 'acebase-core';
-import { DataIndex, ArrayIndex, FullTextIndex, GeoIndex } from '../data-index';
-import { pfs } from '../promise-fs';
+import { DataIndex, ArrayIndex, FullTextIndex, GeoIndex, CompoundIndex, TableDataIndex } from '../data-index';
 import { IndexesContext } from './context';
+import { CollationOptions, isSameCollation } from '../collation';
 
 export interface CreateIndexOptions {
     rebuild?: boolean;
 
     /**
-     * special index to create: 'array', 'fulltext' or 'geo'
+     * special index to create: 'array', 'fulltext', 'geo' or 'compound'. Defaults to 'compound' if multiple keys are given
      */
-    type?: 'normal' | 'array' | 'fulltext' | 'geo';
+    type?: 'normal' | 'array' | 'fulltext' | 'geo' | 'compound';
 
     /**
      * keys to include with the indexed values. Can be used to speed up results sorting and
@@ -40,6 +40,12 @@ export interface CreateIndexOptions {
      */
     textLocaleKey?: string;
 
+    /**
+     * Collation to sort indexed strings with, such as `{ locale: 'sv', sensitivity: 'accent' }`.
+     * Queries only use the index to sort or filter ranges of strings if they use the same collation
+     */
+    collation?: CollationOptions;
+
     /**
      * additional index-specific configuration settings
      */
@@ -49,28 +55,39 @@ export interface CreateIndexOptions {
 /**
 * Creates an index on specified path and key(s)
 * @param path location of objects to be indexed. Eg: "users" to index all children of the "users" node; or "chats/*\/members" to index all members of all chats
-* @param key for now - one key to index. Once our B+tree implementation supports nested trees, we can allow multiple fields
+* @param key key to index, or an array of keys to create a compound index on. Compound index keys can also be passed as a comma separated string: "status,created"
 */
 export async function createIndex(
     context: IndexesContext,
     path: string,
-    key: string,
+    key: string | string[],
     options: CreateIndexOptions,
 ): Promise<DataIndex> {
     if (!context.storage.indexes.supported) {
-        throw new Error('Indexes are not supported in current environment because it requires Node.js fs');
+        throw new Error('Indexes are not supported in current environment because it requires Node.js fs, or a storage that provides a file system for index files');
     }
     // path = path.replace(/\/\*$/, ""); // Remove optional trailing "/*"
     const { ipc, debug, indexes, storage } = context;
 
     const rebuild = options && options.rebuild === true;
-    const indexType = (options && options.type) || 'normal';
+    const indexType = (options && options.type) || (key instanceof Array && key.length > 1 ? 'compound' : 'normal');
+    const keys = key instanceof Array ? key : indexType === 'compound' ? key.split(',') : [key];
+    if (keys.length > 1 && indexType !== 'compound') {
+        throw new Error(`Multiple keys can only be indexed by a compound index`);
+    }
     let includeKeys = (options && options.include) || [];
     if (typeof includeKeys === 'string') { includeKeys = [includeKeys]; }
+    if (indexType === 'compound') {
+        // Compound indexes include all but their first key
+        includeKeys = keys.slice(1).concat(includeKeys.filter(key => !keys.includes(key)));
+    }
     const existingIndex = indexes.find(index =>
-        index.path === path && index.key === key && index.type === indexType
+        index.path === path && index.type === indexType
+        && index.keys.length === keys.length
+        && index.keys.every((key, i) => keys[i] === key)
         && index.includeKeys.length === includeKeys.length
-        && index.includeKeys.every((key, index) => includeKeys[index] === key),
+        && index.includeKeys.every((key, index) => includeKeys[index] === key)
+        && isSameCollation(index.collation, options.collation),
     );
 
     if (existingIndex && options.config) {
@@ -79,7 +96,7 @@ export async function createIndex(
     }
 
     if (existingIndex && rebuild !== true) {
-        debug.log(`Index on "/${path}/*/${key}" already exists`.colorize(ColorStyle.inverse));
+        debug.log(`Index on "/${path}/*/${keys.join(',')}" already exists`.colorize(ColorStyle.inverse));
         return existingIndex;
     }
 
@@ -92,20 +109,27 @@ export async function createIndex(
         throw new Error(result.reason);
     }
 
-    await pfs.mkdir(`${storage.settings.path}/${storage.name}.acebase`).catch(err => {
+    await storage.indexes.fileSystem.mkdir(`${storage.settings.path}/${storage.name}.acebase`).catch(err => {
         if (err.code !== 'EEXIST') {
             throw err;
         }
     });
 
     const index = existingIndex || (() => {
-        const { include, caseSensitive, textLocale, textLocaleKey } = options;
-        const indexOptions = { include, caseSensitive, textLocale, textLocaleKey };
+        const { include, caseSensitive, textLocale, textLocaleKey, collation } = options;
+        const indexOptions = { include, caseSensitive, textLocale, textLocaleKey, collation };
         switch (indexType) {
-            case 'array': return new ArrayIndex(storage, path, key, { ...indexOptions });
-            case 'fulltext': return new FullTextIndex(storage, path, key, { ...indexOptions, config: options.config });
-            case 'geo': return new GeoIndex(storage, path, key, { ...indexOptions });
-            default: return new DataIndex(storage, path, key, { ...indexOptions });
+            case 'array': return new ArrayIndex(storage, path, keys[0], { ...indexOptions });
+            case 'fulltext': return new FullTextIndex(storage, path, keys[0], { ...indexOptions, config: options.config });
+            case 'geo': return new GeoIndex(storage, path, keys[0], { ...indexOptions });
+            case 'compound': return new CompoundIndex(storage, path, keys, { ...indexOptions });
+            default: {
+                if (storage.indexes.tableStore && !collation) {
+                    // Store entries in the storage's own index tables
+                    return new TableDataIndex(storage, path, keys[0], { ...indexOptions });
+                }
+                return new DataIndex(storage, path, keys[0], { ...indexOptions });
+            }
         }
     })();
     if (!existingIndex) {
@@ -115,7 +139,7 @@ export async function createIndex(
         await index.build();
     }
     catch(err) {
-        context.debug.error(`Index build on "/${path}/*/${key}" failed: ${err.message} (code: ${err.code})`.colorize(ColorStyle.red));
+        context.debug.error(`Index build on "/${path}/*/${keys.join(',')}" failed: ${err.message} (code: ${err.code})`.colorize(ColorStyle.red));
         if (!existingIndex) {
             // Only remove index if we added it. Build may have failed because someone tried creating the index more than once, or rebuilding it while it was building...
             indexes.splice(indexes.indexOf(index), 1);
@@ -4,10 +4,11 @@ import { NodeInfo } from '../../node-info';
 import { NodeLock, NodeLocker } from '../../node-lock';
 import { NodeValueType, VALUE_TYPES } from '../../node-value-types';
 import { NodeNotFoundError, NodeRevisionError } from '../../node-errors';
-import { Storage, StorageEnv, StorageSettings } from '../index';
+import { IAppliedMutations, Storage, StorageEnv, StorageSettings, StorageTransaction, StoredMutation, StoredMutationHeader, StoredSchemaDefinition } from '../index';
 import { CustomStorageHelpers } from './helpers';
 import { NodeAddress } from '../../node-address';
 import { assert } from '../../assert';
+import { BlobIndexFileSystem, IndexBlobStore } from '../../index-file-system';
 export { CustomStorageHelpers } from './helpers';
 
 /** Interface for metadata being stored for nodes */
@@ -46,6 +47,12 @@ export abstract class CustomStorageTransaction {
     /** Transaction ID */
     id: string;
 
+    /**
+     * Whether `rollback` undoes all changes made in the transaction. If not, multi-path transactions
+     * write back the previous values of the changed nodes if they fail
+     */
+    rollsBack = false;
+
     _lock: NodeLock;
 
     /**
@@ -173,6 +180,10 @@ export abstract class CustomStorageTransaction {
                 this._lock = await this._lock.moveToParent();
             }
         }
+        else if (pathInfo.isDescendantOf(currentPath)) {
+            // Transaction is on a higher path (multi-path transaction), it already covers the target
+            return targetPath;
+        }
         else {
             throw new Error(`Locking issue. Locked path "${this._lock.path}" is not a child/descendant of "${targetPath}"`);
         }
@@ -210,6 +221,46 @@ export class CustomStorageSettings extends StorageSettings {
      */
     getTransaction: (target: { path: string, write: boolean }) => Promise<CustomStorageTransaction>;
 
+    /**
+     * Optional function that returns all schema definitions stored with `setSchema`. Implement both functions to store
+     * schema definitions in your data store, otherwise they have to be set again each time the database is opened
+     */
+    getSchemas?: () => Promise<StoredSchemaDefinition[]>;
+
+    /**
+     * Optional function that stores a schema definition in your data store, or removes it if `definition` is `null`
+     */
+    setSchema?: (path: string, definition: Omit<StoredSchemaDefinition, 'path'> | null) => Promise<void>;
+
+    /**
+     * Optional function that adds a mutation to the transaction log in your data store. Implement this function,
+     * `readMutations`, `readMutation` and `removeMutations` to support transaction logging (`transactions.log` setting)
+     */
+    writeMutation?: (cursor: string, mutation: StoredMutation) => Promise<void>;
+
+    /**
+     * Optional function that returns all logged mutations with a cursor equal to or later than given (shortened) cursor.
+     * Returned mutations only need the `path`, `type`, `timestamp`, `updated` and `deleted` properties
+     */
+    readMutations?: (cursor: string) => Promise<Array<{ cursor: string, mutation: StoredMutationHeader }>>;
+
+    /**
+     * Optional function that returns a logged mutation
+     */
+    readMutation?: (cursor: string) => Promise<StoredMutation>;
+
+    /**
+     * Optional function that removes all logged mutations with a cursor earlier than given (shortened) cursor
+     */
+    removeMutations?: (before: string) => Promise<void>;
+
+    /**
+     * Optional blob store to keep index files in. Enables indexes (including fulltext, geo and array indexes)
+     * in environments without a filesystem, such as browsers. If not set, index files are stored in the
+     * filesystem if available.
+     */
+    indexStore?: IndexBlobStore;
+
     constructor(settings: Partial<CustomStorageSettings>) {
         super(settings);
         if (typeof settings !== 'object') {
@@ -228,6 +279,20 @@ export class CustomStorageSettings extends StorageSettings {
             this.lockTimeout = typeof settings.lockTimeout === 'number' ? settings.lockTimeout : 120;
         }
         this.ready = settings.ready;
+        if (typeof settings.getSchemas === 'function' && typeof settings.setSchema === 'function') {
+            this.getSchemas = settings.getSchemas;
+            this.setSchema = settings.setSchema;
+        }
+        if (typeof settings.writeMutation === 'function' && typeof settings.readMutations === 'function'
+            && typeof settings.readMutation === 'function' && typeof settings.removeMutations === 'function') {
+            this.writeMutation = settings.writeMutation;
+            this.readMutations = settings.readMutations;
+            this.readMutation = settings.readMutation;
+            this.removeMutations = settings.removeMutations;
+        }
+        if (typeof settings.indexStore === 'object' && settings.indexStore !== null) {
+            this.indexStore = settings.indexStore;
+        }
 
         // Hijack getTransaction to add locking
         const useLocking = this.locking;
@@ -300,6 +365,12 @@ export class CustomStorage extends Storage {
         super(dbname, settings, env);
 
         this._customImplementation = settings;
+        if (settings.indexStore) {
+            this.indexes.fileSystem = new BlobIndexFileSystem(settings.indexStore);
+        }
+        if (settings.transactions?.log === true && !this.transactionLoggingEnabled) {
+            this.debug.warn(`CustomStorage "${settings.name}" does not implement the functions required for transaction logging, mutations will not be logged`);
+        }
         this._init();
     }
 
@@ -321,9 +392,44 @@ export class CustomStorage extends Storage {
         if (this.indexes.supported) {
             await this.indexes.load();
         }
+        await this.loadSchemas();
         this.emit('ready');
     }
 
+    protected async readSchemas() {
+        if (!this._customImplementation.getSchemas) {
+            return super.readSchemas();
+        }
+        return this._customImplementation.getSchemas();
+    }
+
+    protected async writeSchema(path: string, definition: Omit<StoredSchemaDefinition, 'path'> | null) {
+        if (!this._customImplementation.setSchema) {
+            return super.writeSchema(path, definition);
+        }
+        return this._customImplementation.setSchema(path, definition);
+    }
+
+    get transactionLoggingEnabled() {
+        return super.transactionLoggingEnabled && typeof this._customImplementation.writeMutation === 'function';
+    }
+
+    protected async writeMutation(cursor: string, mutation: StoredMutation) {
+        return this._customImplementation.writeMutation(cursor, mutation);
+    }
+
+    protected async readMutations(cursor: string) {
+        return this._customImplementation.readMutations(cursor);
+    }
+
+    protected async readMutation(cursor: string) {
+        return this._customImplementation.readMutation(cursor);
+    }
+
+    protected async removeMutations(before: string) {
+        return this._customImplementation.removeMutations(before);
+    }
+
     private throwImplementationError(message: string) {
         throw new Error(`CustomStorage "${this._customImplementation.name}" ${message}`);
     }
@@ -815,7 +921,7 @@ export class CustomStorage extends Storage {
     /**
      * Enumerates all children of a given Node for reflection purposes
      */
-    getChildren(path: string, options: { transaction?: CustomStorageTransaction, keyFilter?: string[] | number[] } = {}) {
+    getChildren(path: string, options: { transaction?: CustomStorageTransaction, keyFilter?: string[] | number[], after?: string } = {}) {
         // return generator
         type CallbackFunction = (child: NodeInfo) => boolean | void | Promise<boolean | void>;
         let callback: CallbackFunction;
@@ -849,6 +955,12 @@ export class CustomStorage extends Storage {
                         keys = keys.filter(key => (options.keyFilter as any[]).includes(key));
                     }
                     const pathInfo = PathInfo.get(path);
+                    const sorted = typeof options.after === 'string' && !isArray && !options.keyFilter ? [] as NodeInfo[] : null;
+                    const childCallback = callback;
+                    if (sorted) {
+                        // Children are not stored in key order, collect them and enumerate them in key order afterwards
+                        callback = child => { child.key > options.after && sorted.push(child); };
+                    }
                     keys.length > 0 && keys.every(key => {
                         const child = this._getTypeFromStoredValue(value[key]);
 
@@ -911,6 +1023,10 @@ export class CustomStorage extends Storage {
                         return !canceled;
                     };
                     await transaction.childrenOf(path, { metadata: true, value: false }, includeChildCheck, addChildNode);
+                    if (sorted) {
+                        sorted.sort((a, b) => a.key < b.key ? -1 : 1);
+                        canceled = !sorted.every(child => childCallback(child) !== false);
+                    }
                 })();
                 if (!options.transaction) {
                     // transaction was created by us, commit
@@ -1297,7 +1413,25 @@ export class CustomStorage extends Storage {
         }
     }
 
+    /**
+     * Uses a storage transaction for multi-path transactions, locked on their common ancestor
+     */
+    protected async beginTransaction(path: string): Promise<StorageTransaction> {
+        const transaction = await this._customImplementation.getTransaction({ path, write: true });
+        return {
+            options: { tid: transaction.id, transaction },
+            rollsBack: transaction.rollsBack,
+            commit: async () => { await transaction.commit(); },
+            rollback: async reason => { await transaction.rollback(reason); },
+            release: () => { /* Released by commit and rollback */ },
+        };
+    }
+
     // TODO: Move to Storage base class?
+    /**
+     * Creates or overwrites a node
+     * @returns Returns a new cursor if transaction logging is enabled
+     */
     async setNode(
         path: string,
         value: any,
@@ -1308,18 +1442,50 @@ export class CustomStorage extends Storage {
             suppress_events?: boolean;
             context?: any;
         } = { suppress_events: false, context: null },
-    ) {
+    ): Promise<string|void> {
+        return this.loggedWrite('set', path, value, options, (context, value) => this._setNode(path, value, { ...options, context }));
+    }
+
+    /**
+     * Updates an existing node, or creates a new node
+     * @returns Returns a new cursor if transaction logging is enabled
+     */
+    async updateNode(
+        path: string,
+        updates: any,
+        options: {
+            transaction?: CustomStorageTransaction;
+            /** @default false */
+            suppress_events?: boolean;
+            context?: any;
+        } = { suppress_events: false, context: null },
+    ): Promise<string|void> {
+        return this.loggedWrite('update', path, updates, options, (context, updates) => this._updateNode(path, updates, { ...options, context }));
+    }
+
+    private async _setNode(
+        path: string,
+        value: any,
+        options: {
+            assert_revision?: string;
+            transaction?: CustomStorageTransaction;
+            /** @default false */
+            suppress_events?: boolean;
+            context?: any;
+        } = { suppress_events: false, context: null },
+    ): Promise<IAppliedMutations> {
         if (this.settings.readOnly) {
             throw new Error(`Database is opened in read-only mode`);
         }
         const pathInfo = PathInfo.get(path);
         const transaction = options.transaction || await this._customImplementation.getTransaction({ path, write: true });
+        let mutations: IAppliedMutations;
         try {
             if (path === '') {
                 if (value === null || typeof value !== 'object' || value instanceof Array || value instanceof ArrayBuffer || ('buffer' in value && value.buffer instanceof ArrayBuffer)) {
                     throw new Error(`Invalid value for root node: ${value}`);
                 }
-                await this._writeNodeWithTracking('', value, { merge: false, transaction, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._writeNodeWithMutations('', value, { merge: false, transaction, suppress_events: options.suppress_events, context: options.context });
             }
             else if (typeof options.assert_revision !== 'undefined') {
                 const info = await this.getNodeInfo(path, { transaction });
@@ -1328,20 +1494,20 @@ export class CustomStorage extends Storage {
                 }
                 if (info.address && info.address.path === path && value !== null && !this.valueFitsInline(value)) {
                     // Overwrite node
-                    await this._writeNodeWithTracking(path, value, { merge: false, transaction, suppress_events: options.suppress_events, context: options.context });
+                    mutations = await this._writeNodeWithMutations(path, value, { merge: false, transaction, suppress_events: options.suppress_events, context: options.context });
                 }
                 else {
                     // Update parent node
                     const lockPath = await transaction.moveToParentPath(pathInfo.parentPath);
                     assert(lockPath === pathInfo.parentPath, `transaction.moveToParentPath() did not move to the right parent path of "${path}"`);
-                    await this._writeNodeWithTracking(pathInfo.parentPath, { [pathInfo.key]: value }, { merge: true, transaction, suppress_events: options.suppress_events, context: options.context });
+                    mutations = await this._writeNodeWithMutations(pathInfo.parentPath, { [pathInfo.key]: value }, { merge: true, transaction, suppress_events: options.suppress_events, context: options.context });
                 }
             }
             else {
                 // Delegate operation to update on parent node
                 const lockPath = await transaction.moveToParentPath(pathInfo.parentPath);
                 assert(lockPath === pathInfo.parentPath, `transaction.moveToParentPath() did not move to the right parent path of "${path}"`);
-                await this.updateNode(pathInfo.parentPath, { [pathInfo.key]: value }, { transaction, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._updateNode(pathInfo.parentPath, { [pathInfo.key]: value }, { transaction, suppress_events: options.suppress_events, context: options.context });
             }
             if (!options.transaction) {
                 // transaction was created by us, commit
@@ -1355,10 +1521,11 @@ export class CustomStorage extends Storage {
             }
             throw err;
         }
+        return mutations;
     }
 
     // TODO: Move to Storage base class?
-    async updateNode(
+    private async _updateNode(
         path: string,
         updates: any,
         options: {
@@ -1367,7 +1534,7 @@ export class CustomStorage extends Storage {
             suppress_events?: boolean;
             context?: any;
         } = { suppress_events: false, context: null },
-    ) {
+    ): Promise<IAppliedMutations> {
         if (this.settings.readOnly) {
             throw new Error(`Database is opened in read-only mode`);
         }
@@ -1380,6 +1547,7 @@ export class CustomStorage extends Storage {
 
         const transaction = options.transaction || await this._customImplementation.getTransaction({ path, write: true });
 
+        let mutations: IAppliedMutations;
         try {
             // Get info about current node
             const nodeInfo = await this.getNodeInfo(path, { transaction });
@@ -1387,20 +1555,20 @@ export class CustomStorage extends Storage {
             if (nodeInfo.exists && nodeInfo.address && nodeInfo.address.path === path) {
                 // Node exists and is stored in its own record.
                 // Update it
-                await this._writeNodeWithTracking(path, updates, { transaction, merge: true, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._writeNodeWithMutations(path, updates, { transaction, merge: true, suppress_events: options.suppress_events, context: options.context });
             }
             else if (nodeInfo.exists) {
                 // Node exists, but is stored in its parent node.
                 const pathInfo = PathInfo.get(path);
                 const lockPath = await transaction.moveToParentPath(pathInfo.parentPath);
                 assert(lockPath === pathInfo.parentPath, `transaction.moveToParentPath() did not move to the right parent path of "${path}"`);
-                await this._writeNodeWithTracking(pathInfo.parentPath, { [pathInfo.key]: updates }, { transaction, merge: true, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._writeNodeWithMutations(pathInfo.parentPath, { [pathInfo.key]: updates }, { transaction, merge: true, suppress_events: options.suppress_events, context: options.context });
             }
             else {
                 // The node does not exist, it's parent doesn't have it either. Update the parent instead
                 const lockPath = await transaction.moveToParentPath(pathInfo.parentPath);
                 assert(lockPath === pathInfo.parentPath, `transaction.moveToParentPath() did not move to the right parent path of "${path}"`);
-                await this.updateNode(pathInfo.parentPath, { [pathInfo.key]: updates }, { transaction, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._updateNode(pathInfo.parentPath, { [pathInfo.key]: updates }, { transaction, suppress_events: options.suppress_events, context: options.context });
             }
             if (!options.transaction) {
                 // transaction was created by us, commit
@@ -1414,6 +1582,7 @@ export class CustomStorage extends Storage {
             }
             throw err;
         }
+        return mutations;
     }
 
 }
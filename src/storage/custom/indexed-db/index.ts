@@ -1,6 +1,8 @@
-import { SimpleCache } from 'acebase-core';
+import { SimpleCache, Transport } from 'acebase-core';
 import { CustomStorageSettings, ICustomStorageNode } from '..';
+import { StoredMutation } from '../..';
 import { AceBase } from '../../..';
+import { IndexBlobStore } from '../../../index-file-system';
 import { IndexedDBStorageSettings } from './settings';
 import { IndexedDBStorageTransaction, IndexedDBTransactionContext } from './transaction';
 
@@ -8,17 +10,34 @@ export function createIndexedDBInstance(dbname: string, init: Partial<IndexedDBS
     const settings = new IndexedDBStorageSettings(init);
 
     // We'll create an IndexedDB with name "dbname.acebase"
-    const request = indexedDB.open(`${dbname}.acebase`, 1);
+    const request = indexedDB.open(`${dbname}.acebase`, 4);
 
     request.onupgradeneeded = (e) => {
         // create datastore
         const db = request.result;
 
-        // Create "nodes" object store for metadata
-        db.createObjectStore('nodes', { keyPath: 'path'});
+        if (e.oldVersion < 1) {
+            // Create "nodes" object store for metadata
+            db.createObjectStore('nodes', { keyPath: 'path'});
 
-        // Create "content" object store with all data
-        db.createObjectStore('content');
+            // Create "content" object store with all data
+            db.createObjectStore('content');
+        }
+
+        if (e.oldVersion < 2) {
+            // Create "schemas" object store for schema definitions
+            db.createObjectStore('schemas', { keyPath: 'path' });
+        }
+
+        if (e.oldVersion < 3) {
+            // Create "history" object store for the transaction log
+            db.createObjectStore('history');
+        }
+
+        if (e.oldVersion < 4) {
+            // Create "indexes" object store for index files
+            db.createObjectStore('indexes');
+        }
     };
 
     let idb: IDBDatabase;
@@ -35,12 +54,48 @@ export function createIndexedDBInstance(dbname: string, init: Partial<IndexedDBS
     const cache = new SimpleCache<string, ICustomStorageNode>(typeof settings.cacheSeconds === 'number' ? settings.cacheSeconds : 60); // 60 second node cache by default
     // cache.enabled = false;
 
+    const indexStore: IndexBlobStore = {
+        async get(name) {
+            await readyPromise;
+            const request = idb.transaction('indexes', 'readonly').objectStore('indexes').get(name);
+            return new Promise((resolve, reject) => {
+                request.onsuccess = () => resolve(request.result ?? null);
+                request.onerror = () => reject(request.error);
+            });
+        },
+        async set(name, data) {
+            await readyPromise;
+            const request = idb.transaction('indexes', 'readwrite').objectStore('indexes').put(data, name);
+            await new Promise<void>((resolve, reject) => {
+                request.onsuccess = () => resolve();
+                request.onerror = () => reject(request.error);
+            });
+        },
+        async remove(name) {
+            await readyPromise;
+            const request = idb.transaction('indexes', 'readwrite').objectStore('indexes').delete(name);
+            await new Promise<void>((resolve, reject) => {
+                request.onsuccess = () => resolve();
+                request.onerror = () => reject(request.error);
+            });
+        },
+        async list() {
+            await readyPromise;
+            const request = idb.transaction('indexes', 'readonly').objectStore('indexes').getAllKeys();
+            return new Promise((resolve, reject) => {
+                request.onsuccess = () => resolve(request.result as string[]);
+                request.onerror = () => reject(request.error);
+            });
+        },
+    };
+
     const storageSettings = new CustomStorageSettings({
         name: 'IndexedDB',
         locking: true, // IndexedDB transactions are short-lived, so we'll use AceBase's path based locking
         removeVoidProperties: settings.removeVoidProperties,
         maxInlineValueSize: settings.maxInlineValueSize,
         lockTimeout: settings.lockTimeout,
+        transactions: settings.transactions,
         ready() {
             return readyPromise;
         },
@@ -54,6 +109,65 @@ export function createIndexedDBInstance(dbname: string, init: Partial<IndexedDBS
             };
             return new IndexedDBStorageTransaction(context, target);
         },
+        async getSchemas() {
+            await readyPromise;
+            const request = idb.transaction('schemas', 'readonly').objectStore('schemas').getAll();
+            return new Promise((resolve, reject) => {
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        },
+        async setSchema(path, definition) {
+            await readyPromise;
+            const store = idb.transaction('schemas', 'readwrite').objectStore('schemas');
+            const request = definition === null ? store.delete(path) : store.put({ path, ...definition });
+            await new Promise<void>((resolve, reject) => {
+                request.onsuccess = () => resolve();
+                request.onerror = () => reject(request.error);
+            });
+        },
+        async writeMutation(cursor, mutation) {
+            await readyPromise;
+            const request = idb.transaction('history', 'readwrite').objectStore('history').put(Transport.serialize2(mutation), cursor);
+            await new Promise<void>((resolve, reject) => {
+                request.onsuccess = () => resolve();
+                request.onerror = () => reject(request.error);
+            });
+        },
+        async readMutations(cursor) {
+            await readyPromise;
+            const mutations = [] as Array<{ cursor: string, mutation: StoredMutation }>;
+            const request = idb.transaction('history', 'readonly').objectStore('history').openCursor(IDBKeyRange.lowerBound(cursor));
+            return new Promise((resolve, reject) => {
+                request.onsuccess = () => {
+                    const result = request.result;
+                    if (!result) {
+                        return resolve(mutations);
+                    }
+                    mutations.push({ cursor: result.key as string, mutation: Transport.deserialize2(result.value) });
+                    result.continue();
+                };
+                request.onerror = () => reject(request.error);
+            });
+        },
+        async readMutation(cursor) {
+            await readyPromise;
+            const request = idb.transaction('history', 'readonly').objectStore('history').get(cursor);
+            return new Promise((resolve, reject) => {
+                request.onsuccess = () => resolve(Transport.deserialize2(request.result));
+                request.onerror = () => reject(request.error);
+            });
+        },
+        async removeMutations(before) {
+            await readyPromise;
+            const request = idb.transaction('history', 'readwrite').objectStore('history').delete(IDBKeyRange.upperBound(before, true));
+            await new Promise<void>((resolve, reject) => {
+                request.onsuccess = () => resolve();
+                request.onerror = () => reject(request.error);
+            });
+        },
+        // Index files are cached in memory while they are open, and can't be shared with other tabs
+        indexStore: settings.multipleTabs === true ? undefined : indexStore,
     });
     const db = new AceBase(dbname, {
         logLevel: settings.logLevel,
@@ -26,6 +26,7 @@ export interface IndexedDBTransactionContext {
 export class IndexedDBStorageTransaction extends CustomStorageTransaction {
 
     production = true; // Improves performance, only set when all works well
+    rollsBack = true; // Writes are not performed until committed
 
     private _pending: Array<{ path: string; action: 'set' | 'update' | 'remove'; node?: ICustomStorageNode }>;
 
@@ -116,6 +117,11 @@ export class IndexedDBStorageTransaction extends CustomStorageTransaction {
 
     async get(path: string) {
         // console.log(`*** get "${path}" ****`);
+        const pending = this._pending.filter(op => op.path === path).pop();
+        if (pending) {
+            // Written earlier in this transaction (eg by another write of a multi-path transaction)
+            return pending.action === 'set' ? pending.node : null;
+        }
         if (this.context.cache.has(path)) {
             const cache = this.context.cache.get(path);
             // console.log(`Using cached node for path "${path}": `, cache);
@@ -1,3 +1,4 @@
+import { Transport } from 'acebase-core';
 import { CustomStorageSettings } from '..';
 import { AceBase } from '../../..';
 import { LocalStorageSettings } from './settings';
@@ -11,12 +12,28 @@ export function createLocalStorageInstance(dbname: string, init: Partial<LocalSt
     // Determine whether to use localStorage or sessionStorage
     const ls = settings.provider ? settings.provider : settings.temp ? localStorage : sessionStorage;
 
+    // Schema definitions and logged mutations are stored outside the keys used for nodes
+    const schemasKey = `${dbname}.acebase.schemas`;
+    const historyKeysPrefix = `${dbname}.acebase.history::`;
+    const getHistoryCursors = () => {
+        // Cannot query localStorage, so loop through all stored keys to find logged mutations
+        const cursors = [] as string[];
+        for (let i = 0; i < ls.length; i++) {
+            const key = ls.key(i);
+            if (key.startsWith(historyKeysPrefix)) {
+                cursors.push(key.slice(historyKeysPrefix.length));
+            }
+        }
+        return cursors;
+    };
+
     // Setup our CustomStorageSettings
     const storageSettings = new CustomStorageSettings({
         name: 'LocalStorage',
         locking: true,
         removeVoidProperties: settings.removeVoidProperties,
         maxInlineValueSize: settings.maxInlineValueSize,
+        transactions: settings.transactions,
         async ready() {
             // LocalStorage is always ready
         },
@@ -30,6 +47,34 @@ export function createLocalStorageInstance(dbname: string, init: Partial<LocalSt
             const transaction = new LocalStorageTransaction(context, target);
             return transaction;
         },
+        async getSchemas() {
+            const json = ls.getItem(schemasKey);
+            return json ? JSON.parse(json) : [];
+        },
+        async setSchema(path, definition) {
+            const json = ls.getItem(schemasKey);
+            const schemas = (json ? JSON.parse(json) : []).filter((s: { path: string }) => s.path !== path);
+            if (definition) {
+                schemas.push({ path, ...definition });
+            }
+            ls.setItem(schemasKey, JSON.stringify(schemas));
+        },
+        async writeMutation(cursor, mutation) {
+            ls.setItem(historyKeysPrefix + cursor, JSON.stringify(Transport.serialize2(mutation)));
+        },
+        async readMutations(cursor) {
+            return getHistoryCursors()
+                .filter(key => key >= cursor)
+                .map(key => ({ cursor: key, mutation: Transport.deserialize2(JSON.parse(ls.getItem(historyKeysPrefix + key))) }));
+        },
+        async readMutation(cursor) {
+            return Transport.deserialize2(JSON.parse(ls.getItem(historyKeysPrefix + cursor)));
+        },
+        async removeMutations(before) {
+            getHistoryCursors()
+                .filter(key => key < before)
+                .forEach(key => ls.removeItem(historyKeysPrefix + key));
+        },
     });
     const db = new AceBase(dbname, { logLevel: settings.logLevel, storage: storageSettings, sponsor: settings.sponsor });
     db.settings.ipcEvents = settings.multipleTabs === true;
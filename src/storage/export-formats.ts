@@ -0,0 +1,480 @@
+import { ascii85, PathInfo, PathReference, Utils } from 'acebase-core';
+import type { Storage } from '.';
+import type { NodeInfo } from '../node-info';
+import { VALUE_TYPES } from '../node-value-types';
+const { encodeString, decodeString } = Utils;
+
+export type ExportFormat = 'json' | 'ndjson' | 'binary' | 'csv';
+export type ImportFormat = 'json' | 'ndjson' | 'binary';
+export type ExportWriteFunction<T = string> = (data: T) => void | Promise<void>;
+export type ImportReadFunction = (bytes: number) => string | Utils.TypedArrayLike | Promise<string | Utils.TypedArrayLike>;
+export type ImportMethod = 'set' | 'update' | 'merge';
+
+interface ImportOptions {
+    method: ImportMethod;
+    suppress_events: boolean;
+    context: any;
+}
+
+/**
+ * Gets the child nodes of an object or array node, arrays in index order
+ */
+async function getChildNodes(storage: Storage, path: string, type: number) {
+    const children = [] as NodeInfo[];
+    await storage.getChildren(path).next(childInfo => { children.push(childInfo); });
+    if (type === VALUE_TYPES.ARRAY) {
+        children.sort((a, b) => a.index - b.index);
+    }
+    return children;
+}
+
+/**
+ * Converts a value that was exported with type safety (`{ ".type": "date", ".val": "2022-04-22T07:49:23Z" }`) to its original value
+ */
+function fromTypeSafeValue(path: string, obj: { '.type': string, '.val': any }) {
+    const val = obj['.val'];
+    switch (obj['.type']) {
+        case 'Date':
+        case 'date': return new Date(val);
+        case 'Buffer':
+        case 'binary': return ascii85.decode(val);
+        case 'PathReference':
+        case 'reference': return new PathReference(val);
+        case 'bigint': return BigInt(val);
+        default: throw new Error(`Import error: Unsupported type "${obj['.type']}" for value at path "/${path}"`);
+    }
+}
+
+/**
+ * Exports an object or array node as NDJSON (newline delimited JSON): each child is written on its own line as
+ * `{"key":"child","value":{...}}` (`key` is a number for array children), so large collections can be streamed
+ * and processed line by line
+ */
+export async function exportNDJSON(storage: Storage, path: string, write: ExportWriteFunction, options: { type_safe: boolean }) {
+    const nodeInfo = await storage.getNodeInfo(path);
+    if (!nodeInfo.exists) {
+        return;
+    }
+    if (![VALUE_TYPES.OBJECT, VALUE_TYPES.ARRAY].includes(nodeInfo.type)) {
+        throw new Error(`NDJSON export requires an object or array node, "/${path}" is neither`);
+    }
+    const children = await getChildNodes(storage, path, nodeInfo.type);
+    for (const childInfo of children) {
+        const key = childInfo.key ?? childInfo.index;
+        let p = write(`{"key":${JSON.stringify(key)},"value":`);
+        if (p instanceof Promise) { await p; }
+        await storage.exportNode(PathInfo.getChildPath(path, key), write, { format: 'json', type_safe: options.type_safe });
+        p = write('}\n');
+        if (p instanceof Promise) { await p; }
+    }
+}
+
+/**
+ * Imports NDJSON exported with `exportNDJSON`, writing the children of the target node in batches
+ */
+export async function importNDJSON(storage: Storage, path: string, read: ImportReadFunction, options: ImportOptions) {
+    const chunkSize = 256 * 1024; // 256KB
+    const batchSize = 100; // Children to write in a single update
+    const childOptions = { suppress_events: options.suppress_events, context: options.context };
+    const reviver = (key: string, value: any) => {
+        const isTypedValue = value !== null && typeof value === 'object' && Object.keys(value).length === 2 && '.type' in value && '.val' in value;
+        return isTypedValue ? fromTypeSafeValue(path, value) : value;
+    };
+    /**
+     * Merges a value with an existing node: updates all nested objects instead of overwriting them
+     */
+    const merge = async (path: string, value: any) => {
+        const nested = [] as string[];
+        const updates = {} as Record<string, any>;
+        for (const key of Object.keys(value)) {
+            const isObject = value[key] !== null && typeof value[key] === 'object' && Object.getPrototypeOf(value[key]) === Object.prototype;
+            isObject ? nested.push(key) : updates[key] = value[key];
+        }
+        await storage.updateNode(path, updates, childOptions);
+        for (const key of nested) {
+            await merge(PathInfo.getChildPath(path, key), value[key]);
+        }
+    };
+
+    let batch = {} as Record<string | number, any>, batchCount = 0, flushedBefore = false, isArray = false;
+    const flush = async () => {
+        if (batchCount === 0) { return; }
+        if (!flushedBefore && options.method === 'set') {
+            // Overwrite target, arrays must be set with their first items in order
+            await storage.setNode(path, isArray ? Object.keys(batch).sort((a, b) => +a - +b).map(key => batch[key]) : batch, childOptions);
+        }
+        else if (options.method === 'merge') {
+            await merge(path, batch);
+        }
+        else {
+            await storage.updateNode(path, batch, childOptions);
+        }
+        flushedBefore = true;
+        batch = {};
+        batchCount = 0;
+    };
+
+    // Decode binary chunks as a stream, characters can be split across chunks
+    const decoder = new TextDecoder();
+    let data = '', eof = false, lineNr = 0;
+    while (!eof || data.length > 0) {
+        let index = data.indexOf('\n');
+        if (index < 0 && !eof) {
+            // Read next chunk
+            const chunk = await read(chunkSize);
+            if (chunk === null || chunk === undefined || (typeof chunk === 'string' ? chunk.length : chunk.byteLength) === 0) {
+                eof = true;
+                data += decoder.decode(); // Flush remaining bytes
+            }
+            else {
+                const bytes = typeof chunk === 'string' || chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk.buffer, (chunk as Uint8Array).byteOffset ?? 0, chunk.byteLength);
+                data += typeof bytes === 'string' ? bytes : decoder.decode(bytes, { stream: true });
+            }
+            continue;
+        }
+        if (index < 0) { index = data.length; }
+        const line = data.slice(0, index).trim();
+        data = data.slice(index + 1);
+        lineNr++;
+        if (line.length === 0) { continue; }
+        let item: { key: string | number, value: any };
+        try {
+            item = JSON.parse(line, reviver);
+        }
+        catch (err) {
+            throw new Error(`Import error: invalid JSON on line ${lineNr}: ${err.message}`);
+        }
+        if (!['string', 'number'].includes(typeof item?.key) || !('value' in item)) {
+            throw new Error(`Import error: line ${lineNr} must be an object with "key" and "value" properties`);
+        }
+        if (!flushedBefore && batchCount === 0) {
+            // Array children have numeric keys
+            isArray = typeof item.key === 'number';
+        }
+        batch[item.key] = item.value;
+        if (++batchCount >= batchSize) {
+            await flush();
+        }
+    }
+    await flush();
+}
+
+/**
+ * Header of exported binary data: "ACEBIN" followed by the format version
+ */
+const BINARY_HEADER = [65, 67, 69, 66, 73, 78, 1];
+const BINARY_NULL = 0;
+
+/**
+ * Buffers bytes to write, writes them in chunks
+ */
+class BinaryWriter {
+    private chunks = [] as Uint8Array[];
+    private length = 0;
+
+    constructor(private write: ExportWriteFunction<Uint8Array>, private chunkSize = 64 * 1024) {}
+
+    append(bytes: Uint8Array | number[]) {
+        const chunk = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+        this.chunks.push(chunk);
+        this.length += chunk.byteLength;
+    }
+
+    uint(nr: number) {
+        // Variable length unsigned integer: 7 bits per byte, high bit set if more bytes follow
+        const bytes = [] as number[];
+        do {
+            let byte = nr % 128;
+            nr = Math.floor(nr / 128);
+            if (nr > 0) { byte |= 128; }
+            bytes.push(byte);
+        } while (nr > 0);
+        this.append(bytes);
+    }
+
+    float64(nr: number) {
+        const bytes = new Uint8Array(8);
+        new DataView(bytes.buffer).setFloat64(0, nr, true);
+        this.append(bytes);
+    }
+
+    bytes(bytes: Uint8Array) {
+        this.uint(bytes.byteLength);
+        this.append(bytes);
+    }
+
+    string(str: string) {
+        this.bytes(encodeString(str));
+    }
+
+    value(type: number, val: any) {
+        this.append([type]);
+        switch (type) {
+            case VALUE_TYPES.OBJECT:
+            case VALUE_TYPES.ARRAY: return this.append([BINARY_NULL]); // Empty, children are written by caller otherwise
+            case VALUE_TYPES.NUMBER: return this.float64(val);
+            case VALUE_TYPES.BOOLEAN: return this.append([val ? 1 : 0]);
+            case VALUE_TYPES.STRING: return this.string(val);
+            case VALUE_TYPES.DATETIME: return this.float64((val as Date).getTime());
+            case VALUE_TYPES.BIGINT: return this.string((val as bigint).toString());
+            case VALUE_TYPES.BINARY: return this.bytes(new Uint8Array(val as ArrayBuffer));
+            case VALUE_TYPES.REFERENCE: return this.string((val as PathReference).path);
+            default: throw new Error(`Unsupported value type ${type}`);
+        }
+    }
+
+    async flush(force = false) {
+        if (this.length === 0 || (!force && this.length < this.chunkSize)) { return; }
+        const data = new Uint8Array(this.length);
+        let offset = 0;
+        for (const chunk of this.chunks) {
+            data.set(chunk, offset);
+            offset += chunk.byteLength;
+        }
+        this.chunks = [];
+        this.length = 0;
+        await this.write(data);
+    }
+}
+
+/**
+ * Exports a node in a compact binary format that round-trips all value types exactly. Written data starts with
+ * header `"ACEBIN"` and version byte `1`, followed by the node's value: a type byte (see `VALUE_TYPES`, or `0` if the
+ * node does not exist) and its data. Lengths are written as variable length unsigned integers (7 bits per byte, high
+ * bit set if more bytes follow):
+ * - numbers and dates (ms since epoch): 64-bit float, little endian
+ * - booleans: 1 byte
+ * - strings, bigints (decimal string) and path references: utf-8 byte length, utf-8 bytes
+ * - binary: byte length, bytes
+ * - objects: for each child its utf-8 key length, key and value, then `0`
+ * - arrays: for each child its index + 1 and value, then `0`
+ * @param write function that receives chunks of the exported data as `Uint8Array`
+ */
+export async function exportBinary(storage: Storage, path: string, write: ExportWriteFunction<Uint8Array>) {
+    const writer = new BinaryWriter(write);
+    writer.append(BINARY_HEADER);
+    const exportNode = async (path: string, nodeInfo: NodeInfo) => {
+        if (![VALUE_TYPES.OBJECT, VALUE_TYPES.ARRAY].includes(nodeInfo.type)) {
+            const node = await storage.getNode(path);
+            writer.value(nodeInfo.type, node.value);
+            return;
+        }
+        writer.append([nodeInfo.type]);
+        const children = await getChildNodes(storage, path, nodeInfo.type);
+        for (const childInfo of children) {
+            if (nodeInfo.type === VALUE_TYPES.ARRAY) {
+                writer.uint(childInfo.index + 1);
+            }
+            else {
+                writer.string(childInfo.key);
+            }
+            if (childInfo.address) {
+                // Export child recursively
+                await exportNode(PathInfo.getChildPath(path, childInfo.key ?? childInfo.index), childInfo);
+            }
+            else {
+                writer.value(childInfo.type, childInfo.value);
+            }
+            await writer.flush();
+        }
+        writer.append([BINARY_NULL]);
+    };
+    const nodeInfo = await storage.getNodeInfo(path);
+    if (nodeInfo.exists) {
+        await exportNode(path, nodeInfo);
+    }
+    else {
+        writer.append([BINARY_NULL]);
+    }
+    await writer.flush(true);
+}
+
+/**
+ * Reads bytes from an import stream
+ */
+class BinaryReader {
+    private data = new Uint8Array(0);
+    private index = 0;
+
+    constructor(private read: ImportReadFunction, private chunkSize = 256 * 1024) {}
+
+    private async assertBytes(length: number) {
+        while (this.index + length > this.data.byteLength) {
+            const chunk = await this.read(this.chunkSize);
+            if (chunk === null || chunk === undefined || typeof chunk === 'string' || chunk.byteLength === 0) {
+                if (typeof chunk === 'string') {
+                    throw new Error('Import error: binary data must be read as Uint8Array or Buffer, not string');
+                }
+                throw new Error('Import error: unexpected end of binary data');
+            }
+            const bytes = chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk.buffer, (chunk as Uint8Array).byteOffset ?? 0, chunk.byteLength);
+            const data = new Uint8Array(this.data.byteLength - this.index + bytes.byteLength);
+            data.set(this.data.subarray(this.index), 0);
+            data.set(bytes, this.data.byteLength - this.index);
+            this.data = data;
+            this.index = 0;
+        }
+    }
+
+    async bytes(length: number) {
+        await this.assertBytes(length);
+        const bytes = this.data.slice(this.index, this.index + length);
+        this.index += length;
+        return bytes;
+    }
+
+    async byte() {
+        await this.assertBytes(1);
+        return this.data[this.index++];
+    }
+
+    async uint() {
+        let nr = 0, factor = 1, byte: number;
+        do {
+            byte = await this.byte();
+            nr += (byte & 127) * factor;
+            factor *= 128;
+        } while (byte & 128);
+        return nr;
+    }
+
+    async float64() {
+        const bytes = await this.bytes(8);
+        return new DataView(bytes.buffer).getFloat64(0, true);
+    }
+
+    async string() {
+        const length = await this.uint();
+        return decodeString(await this.bytes(length));
+    }
+
+    async value(type: number) {
+        switch (type) {
+            case VALUE_TYPES.NUMBER: return this.float64();
+            case VALUE_TYPES.BOOLEAN: return (await this.byte()) === 1;
+            case VALUE_TYPES.STRING: return this.string();
+            case VALUE_TYPES.DATETIME: return new Date(await this.float64());
+            case VALUE_TYPES.BIGINT: return BigInt(await this.string());
+            case VALUE_TYPES.BINARY: return (await this.bytes(await this.uint())).buffer;
+            case VALUE_TYPES.REFERENCE: return new PathReference(await this.string());
+            default: throw new Error(`Import error: unsupported value type ${type}`);
+        }
+    }
+}
+
+/**
+ * Imports binary data exported with `exportBinary`. Collects the values of child nodes until a nested object
+ * or array is encountered, which is imported separately after storing the collected values
+ */
+export async function importBinary(storage: Storage, path: string, read: ImportReadFunction, options: ImportOptions) {
+    const reader = new BinaryReader(read);
+    const header = await reader.bytes(BINARY_HEADER.length);
+    if (!BINARY_HEADER.every((byte, i) => header[i] === byte)) {
+        throw new Error('Import error: data is not in AceBase binary export format, or its version is not supported');
+    }
+    const childOptions = { suppress_events: options.suppress_events, context: options.context };
+
+    const importCollection = async (target: PathInfo, type: number) => {
+        const isArray = type === VALUE_TYPES.ARRAY;
+        // 'update' only updates the import target, 'merge' updates all nested objects
+        const useUpdate = options.method === 'merge' || (options.method === 'update' && target.path === path);
+        let values = (isArray ? [] : {}) as Record<string | number, any>;
+        let flushedBefore = false;
+        const flush = async () => {
+            if (!flushedBefore && !useUpdate) {
+                await storage.setNode(target.path, values, childOptions);
+            }
+            else if (Object.keys(values).length > 0 || !flushedBefore) {
+                await storage.updateNode(target.path, values, childOptions);
+            }
+            flushedBefore = true;
+            values = {};
+        };
+        while (true) {
+            const key = isArray ? (await reader.uint()) - 1 : await reader.string();
+            if (key === -1 || key === '') {
+                // End of collection
+                break;
+            }
+            const childType = await reader.byte();
+            if ([VALUE_TYPES.OBJECT, VALUE_TYPES.ARRAY].includes(childType as any)) {
+                // Store collected values before importing the nested object or array
+                await flush();
+                await importCollection(target.child(key), childType);
+            }
+            else {
+                values[key] = await reader.value(childType);
+            }
+        }
+        await flush();
+    };
+
+    const type = await reader.byte();
+    if (type === BINARY_NULL) {
+        options.method !== 'merge' && await storage.setNode(path, null, childOptions);
+    }
+    else if ([VALUE_TYPES.OBJECT, VALUE_TYPES.ARRAY].includes(type as any)) {
+        await importCollection(PathInfo.get(path), type);
+    }
+    else {
+        await storage.setNode(path, await reader.value(type), childOptions);
+    }
+}
+
+/**
+ * Exports a collection of flat objects (or primitive values) as CSV (RFC 4180): the first column contains the child keys,
+ * the other columns all properties found in the children. Dates are written as ISO strings, binary values ascii85 encoded
+ */
+export async function exportCSV(storage: Storage, path: string, write: ExportWriteFunction, options: { delimiter?: string } = {}) {
+    const delimiter = options.delimiter || ',';
+    const nodeInfo = await storage.getNodeInfo(path);
+    if (!nodeInfo.exists) {
+        return;
+    }
+    if (![VALUE_TYPES.OBJECT, VALUE_TYPES.ARRAY].includes(nodeInfo.type)) {
+        throw new Error(`CSV export requires an object or array node, "/${path}" is neither`);
+    }
+    const children = await getChildNodes(storage, path, nodeInfo.type);
+
+    // Collect all columns first
+    const columns = [] as string[];
+    let hasValueColumn = false;
+    for (const childInfo of children) {
+        const childPath = PathInfo.getChildPath(path, childInfo.key ?? childInfo.index);
+        if (![VALUE_TYPES.OBJECT, VALUE_TYPES.ARRAY].includes(childInfo.type)) {
+            hasValueColumn = true;
+            continue;
+        }
+        await storage.getChildren(childPath).next(propInfo => {
+            if ([VALUE_TYPES.OBJECT, VALUE_TYPES.ARRAY].includes(propInfo.type)) {
+                throw new Error(`CSV export only supports flat collections, "/${childPath}/${propInfo.key ?? propInfo.index}" is an object or array`);
+            }
+            const column = String(propInfo.key ?? propInfo.index);
+            !columns.includes(column) && columns.push(column);
+        });
+    }
+    if (hasValueColumn) {
+        columns.push('value');
+    }
+
+    const formatValue = (val: any): string => {
+        if (val === null || typeof val === 'undefined') { return ''; }
+        let str: string;
+        if (val instanceof Date) { str = val.toISOString(); }
+        else if (val instanceof PathReference) { str = val.path; }
+        else if (val instanceof ArrayBuffer) { str = ascii85.encode(val); }
+        else { str = String(val); }
+        return /[",\r\n]/.test(str) || str.includes(delimiter) || str.trim() !== str ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+    const writeRow = (values: any[]) => write(values.map(formatValue).join(delimiter) + '\r\n');
+
+    let p = writeRow(['key', ...columns]);
+    if (p instanceof Promise) { await p; }
+    for (const childInfo of children) {
+        const key = childInfo.key ?? childInfo.index;
+        const value = childInfo.address ? (await storage.getNode(PathInfo.getChildPath(path, key))).value : childInfo.value;
+        const isObject = [VALUE_TYPES.OBJECT, VALUE_TYPES.ARRAY].includes(childInfo.type);
+        p = writeRow([key, ...columns.map(column => isObject ? value[column] : column === 'value' ? value : null)]);
+        if (p instanceof Promise) { await p; }
+    }
+}
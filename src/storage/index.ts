@@ -4,13 +4,19 @@ import { NodeRevisionError } from '../node-errors';
 import { NodeInfo } from '../node-info';
 import { IPCPeer, RemoteIPCPeer, IPCSocketPeer, NetIPCServer } from '../ipc';
 import { pfs } from '../promise-fs';
-// const { IPCTransactionManager } = require('./node-transaction');
-import { DataIndex } from '../data-index'; // Indexing might not be available: the browser dist bundle doesn't include it because fs is not available: browserify --i ./src/data-index.js
+import { BlobIndexFileSystem, IndexFileSystem, NodeIndexFileSystem } from '../index-file-system';
+import { NodeLockIntention } from '../node-transaction';
+import { DataIndex, IndexTableStore, TableDataIndex } from '../data-index';
 import { createIndex, CreateIndexOptions } from './indexes';
 import { IndexesContext } from './context';
+import { exportBinary, exportCSV, exportNDJSON, ExportFormat, ExportWriteFunction, importBinary, importNDJSON, ImportFormat, ImportReadFunction } from './export-formats';
 import { assert } from '../assert';
+import { ValueCacheSettings } from '../value-cache';
+import { getExpiryIndexPath, stampExpiry, TTLRule } from './ttl';
+import { getTriggerNodes, Trigger, TriggerRegistration } from './triggers';
+import { CollationOptions, compareStrings, getCollator } from '../collation';
 
-const { compareValues, getChildValues, encodeString, defer } = Utils;
+const { compareValues, getChildValues, encodeString, defer, cloneObject } = Utils;
 
 const DEBUG_MODE = false;
 const SUPPORTED_EVENTS = ['value','child_added','child_changed','child_removed','mutated','mutations'];
@@ -29,8 +35,13 @@ export interface IWriteNodeResult {
     mutations: Array<{ target: (string | number)[], prev: any, val: any }>;
 }
 
+export interface IAppliedMutations {
+    path: string;
+    list: Array<{ target: (string|number)[], prev: any, val: any }>;
+}
+
 /**
- * Client config for usage with an acebase-ipc-server
+ * Client config for usage with an AceBase IPC server, see `AceBase.startIPCServer`
  */
 export interface IPCClientSettings {
     /**
@@ -59,6 +70,20 @@ export interface IPCClientSettings {
      * Determines the role of this IPC client. Only 1 process can be assigned the 'master' role, all other processes must use the role 'worker'
      */
     role: 'master' | 'worker';
+
+    /**
+     * Whether another process takes over the master role if the master stops responding or leaves. If enabled, the `master`
+     * role determines the initial master only. All processes must use the same `failover` and `leaseTime` settings. Default is `false`
+     * @default false
+     */
+    failover?: boolean;
+
+    /**
+     * How many ms the master's lease lasts if `failover` is enabled. The master renews its lease every quarter of this time,
+     * a new master is elected if it was not renewed in time. Default is `5000`
+     * @default 5000
+     */
+    leaseTime?: number;
 }
 
 export interface TransactionLogSettings {
@@ -67,6 +92,42 @@ export interface TransactionLogSettings {
     noWait?: boolean;
 }
 
+export class StorageTransactionLogSettings implements TransactionLogSettings {
+
+    /**
+     * Whether transaction logging is enabled.
+     * @default false
+     */
+    log = false;
+
+    /**
+     * Max age of transactions to keep in the log. Set to 0 to disable cleaning up and keep all transactions
+     * @default 30
+     */
+    maxAge = 30;
+
+    /**
+     * Whether write operations wait for the transaction to be logged before resolving their promises.
+     */
+    noWait = false;
+
+    /**
+     * BETA functionality - logs mutations made to the database so they can be retrieved later
+     * for database syncing / replication. Implementing this into acebase itself will allow the current
+     * sync implementation in acebase-client to become better: it can simply request a mutations stream from
+     * the server after disconnects by passing a cursor or timestamp, instead of downloading whole nodes before
+     * applying local changes. This will also enable horizontal scaling: replication with remote db instances
+     * becomes possible.
+     *
+     * Still under development, disabled by default. See transaction-logs.spec for tests
+     */
+    constructor(settings: Partial<TransactionLogSettings> = {}) {
+        if (typeof settings.log === 'boolean') { this.log = settings.log; }
+        if (typeof settings.maxAge === 'number') { this.maxAge = settings.maxAge; }
+        if (typeof settings.noWait === 'boolean') { this.noWait = settings.noWait; }
+    }
+}
+
 /**
  * Storage Settings
  */
@@ -119,6 +180,27 @@ export class StorageSettings {
      */
     transactions?: TransactionLogSettings;
 
+    /**
+     * Settings for an optional in-memory cache of node values, so repeated reads of the same nodes do not have to be
+     * read from storage again. Cached values are removed when they are changed (also by other processes through IPC),
+     * and least recently used values are removed when the memory budget is exceeded. Only used by the AceBase binary storage engine
+     */
+    valueCache?: ValueCacheSettings;
+
+    /**
+     * Time-to-live rules for nodes that must be removed automatically once they expire, eg sessions or temporary tokens.
+     * Expired nodes are found using an index on each rule's expiry `field`, and removed in batches by a background task
+     * that fires the normal `child_removed` (etc) events. Requires indexes to be supported.
+     * @example [{ path: 'sessions/$id', ttl: 3600 }, { path: 'tokens/$id', field: 'validUntil' }]
+     */
+    ttl?: TTLRule[];
+
+    /**
+     * Interval in seconds to remove expired nodes, if `ttl` rules are set
+     * @default 60
+     */
+    ttlInterval = 60;
+
     constructor(settings: Partial<StorageSettings> = {}) {
         if (typeof settings.maxInlineValueSize === 'number') { this.maxInlineValueSize =  settings.maxInlineValueSize; }
         if (typeof settings.removeVoidProperties === 'boolean') { this.removeVoidProperties = settings.removeVoidProperties; }
@@ -128,6 +210,10 @@ export class StorageSettings {
         if (typeof settings.type === 'string') { this.type = settings.type; }
         if (typeof settings.readOnly === 'boolean') { this.readOnly = settings.readOnly; }
         if (['object', 'string'].includes(typeof settings.ipc)) { this.ipc = settings.ipc; }
+        this.transactions = new StorageTransactionLogSettings(settings.transactions);
+        if (typeof settings.valueCache === 'object') { this.valueCache = settings.valueCache; }
+        if (settings.ttl instanceof Array) { this.ttl = settings.ttl; }
+        if (typeof settings.ttlInterval === 'number') { this.ttlInterval = settings.ttlInterval; }
     }
 }
 
@@ -137,7 +223,84 @@ export interface StorageEnv {
 
 export type SubscriptionCallback = (err: Error, path: string, newValue: any, oldValue: any, context: any) => void;
 
-export type InternalDataRetrievalOptions = DataRetrievalOptions  & { tid?: string | number };
+export type InternalDataRetrievalOptions = DataRetrievalOptions  & { tid?: string | number, transaction?: unknown };
+
+/**
+ * Schema definition as stored in the database
+ */
+export interface StoredSchemaDefinition {
+    path: string;
+    schema: string | object;
+    warnOnly: boolean;
+}
+
+/**
+ * Mutation as stored in the transaction log
+ */
+export interface StoredMutation {
+    path: string;
+    type: 'set' | 'update';
+    timestamp: number;
+    /** keys of the target node that were updated */
+    updated: (string | number)[];
+    /** keys of the target node that were deleted */
+    deleted: (string | number)[];
+    value: any;
+    context: any;
+    mutations: IAppliedMutations;
+}
+
+/**
+ * Logged mutation properties used to determine whether a mutation is relevant, without its (potentially large) values
+ */
+export type StoredMutationHeader = Pick<StoredMutation, 'path' | 'type' | 'timestamp' | 'updated' | 'deleted'>;
+
+export interface RestoreToOptions {
+    /**
+     * cursor to restore to: all mutations logged after it will be reverted
+     */
+    cursor?: string;
+    /**
+     * point in time (ms since epoch) to restore to: all mutations logged after it will be reverted
+     */
+    timestamp?: number;
+    /**
+     * path of the subtree to restore. Restores the entire database if not set
+     */
+    path?: string;
+    /**
+     * whether to only report what would change, without restoring anything
+     * @default false
+     */
+    dryRun?: boolean;
+}
+
+export interface RestoreToResult {
+    /**
+     * Number of logged mutations that were reverted (or would be, when performing a dry-run)
+     */
+    reverted: number;
+    /**
+     * Effective changes per path, with their current and restored values
+     */
+    changes: Array<{ path: string; current: any; restored: any }>;
+}
+
+/**
+ * Storage transaction used to write multiple nodes at once, see `Storage.transactNodes`
+ */
+export interface StorageTransaction {
+    /** options to read and write nodes in the transaction with */
+    options: { tid: string, transaction?: unknown };
+    /**
+     * Whether `rollback` undoes all writes made in the transaction. If not, the previous values are written back and the transaction is committed instead
+     */
+    rollsBack: boolean;
+    commit(): Promise<void>;
+    rollback(reason: Error): Promise<void>;
+    /** Releases the locks of the transaction once it has been committed or rolled back */
+    release(): void;
+}
 
 export class Storage extends SimpleEventEmitter {
 
@@ -146,7 +309,7 @@ export class Storage extends SimpleEventEmitter {
 
     public ipc: IPCPeer | RemoteIPCPeer | IPCSocketPeer;
     public nodeLocker: {
-        lock(path: string, tid: string, write: boolean, comment?: string): ReturnType<IPCPeer['lock']>;
+        lock(path: string, tid: string, write: boolean, comment?: string, intention?: NodeLockIntention): ReturnType<IPCPeer['lock']>;
     };
 
     private _lastTid: number;
@@ -154,9 +317,20 @@ export class Storage extends SimpleEventEmitter {
         return DEBUG_MODE ? ++this._lastTid : ID.generate();
     }
 
+    /**
+     * Index updates and event notifications of writes in open multi-path transactions, by their transaction (or tid).
+     * They are performed once the transaction is committed, and discarded if it is rolled back
+     */
+    private _transactionTasks = new Map<unknown, Array<() => Promise<void>>>();
+
     // private _validation = new Map<string, { validate?: (previous: any, value: any) => boolean, schema?: SchemaDefinition }>;
     private _schemas: Array<{ path: string, schema: SchemaDefinition }> = [];
 
+    /**
+     * Pending schema definition writes, performed one at a time so concurrent changes can't overwrite each other
+     */
+    private _schemaWrites: Promise<void> = Promise.resolve();
+
     /**
      * Base class for database storage, must be extended by back-end specific methods.
      * Currently implemented back-ends are AceBaseStorage, SQLiteStorage, MSSQLStorage, CustomStorage
@@ -197,13 +371,26 @@ export class Storage extends SimpleEventEmitter {
             }
         });
         this.nodeLocker = {
-            lock: (path, tid, write, comment) => {
-                return this.ipc.lock({ path, tid, write, comment });
+            lock: (path, tid, write, comment, intention) => {
+                return this.ipc.lock({ path, tid, write, comment, intention });
             },
         };
-        // this.transactionManager = new IPCTransactionManager(this.ipc);
+        this.ipc.on('notification', message => {
+            const notification = message.data;
+            if (notification?.type === 'schema.set') {
+                // Schema was set by another process, it has been stored in the database already
+                this.defineSchema(notification.path, notification.schema, notification.warnOnly);
+            }
+        });
         this._lastTid = 0;
 
+        // Start removing expired nodes once the database is ready
+        this.once('ready', () => this.scheduleExpiry());
+        this.ipc.once('exit', () => {
+            this._expiry.stopped = true;
+            clearTimeout(this._expiry.timeout);
+        });
+
     } // end of constructor
 
     private _indexes: DataIndex[] = [];
@@ -211,16 +398,28 @@ export class Storage extends SimpleEventEmitter {
     public indexes = {
         /**
          * Tests if (the default storage implementation of) indexes are supported in the environment.
-         * They are currently only supported when running in Node.js because they use the fs filesystem.
-         * TODO: Implement storage specific indexes (eg in SQLite, MySQL, MSSQL, in-memory)
+         * They are supported when running in Node.js because they use the fs filesystem, or if the storage
+         * provides an alternative `fileSystem` to store index files in (eg IndexedDB)
+         * TODO: Implement storage specific indexes for other databases (eg MySQL)
          */
         get supported() {
-            return pfs?.hasFileSystem;
+            return this.fileSystem !== null;
         },
 
+        /**
+         * File system index files are stored in, `null` if indexes are not supported
+         */
+        fileSystem: (pfs?.hasFileSystem ? NodeIndexFileSystem : null) as IndexFileSystem,
+
+        /**
+         * Tables in the database normal indexes store their entries in instead of in index files,
+         * `null` if the storage does not provide them
+         */
+        tableStore: null as IndexTableStore,
+
         create: (
             path: string,
-            key: string,
+            key: string | string[],
             options: CreateIndexOptions = {
                 rebuild: false,
             },
@@ -286,13 +485,18 @@ export class Storage extends SimpleEventEmitter {
          */
         load: async () => {
             this._indexes.splice(0);
-            if (!pfs.hasFileSystem) {
-                // If pfs (fs) is not available, don't try using it
+            if (!this.indexes.supported) {
+                // If there is no file system to store indexes in, don't try using it
                 return;
             }
+            const fileSystem = this.indexes.fileSystem;
+            const dir = `${this.settings.path}/${this.name}.acebase`;
+            // Blob stores persist index files with a delay. If they were still in use when the app stopped, they might be missing changes.
+            // Only the IPC master updates index files
+            const stale = fileSystem instanceof BlobIndexFileSystem && this.ipc.isMaster && await fileSystem.markInUse(dir);
             let files = [] as string[];
             try {
-                files = (await pfs.readdir(`${this.settings.path}/${this.name}.acebase`)) as string[];
+                files = await fileSystem.readdir(dir);
             }
             catch(err) {
                 if (err.code !== 'ENOENT') {
@@ -301,17 +505,46 @@ export class Storage extends SimpleEventEmitter {
                     this.debug.error(err);
                 }
             }
-            const promises = [] as Promise<unknown>[];
-            files.forEach(fileName => {
-                if (!fileName.endsWith('.idx')) { return; }
+            if (this.indexes.tableStore) {
+                files.push(...await this.indexes.tableStore.list());
+            }
+            const isOwnIndexFile = (fileName: string) => {
+                if (!fileName.endsWith('.idx')) { return false; }
                 const needsStoragePrefix = this.settings.type !== 'data'; // auth indexes need to start with "[auth]-" and have to be ignored by other storage types
                 const hasStoragePrefix = /^\[[a-z]+\]-/.test(fileName);
-                if ((!needsStoragePrefix && !hasStoragePrefix) || needsStoragePrefix && fileName.startsWith(`[${this.settings.type}]-`)) {
-                    const p = this.indexes.add(fileName);
-                    promises.push(p);
-                }
-            });
+                return (!needsStoragePrefix && !hasStoragePrefix) || needsStoragePrefix && fileName.startsWith(`[${this.settings.type}]-`);
+            };
+            const promises = files.filter(isOwnIndexFile).map(fileName => this.indexes.add(fileName));
             await Promise.all(promises);
+            if (stale) {
+                this.debug.warn(`Index files were not closed properly, rebuilding ${this._indexes.length} indexes`);
+                for (const index of this._indexes) {
+                    await index.build().catch(err => this.debug.error(`Failed to rebuild index ${index.description}: ${err.message}`));
+                }
+            }
+            if (this.indexes.tableStore && this.ipc.isMaster && fileSystem !== NodeIndexFileSystem && pfs?.hasFileSystem) {
+                // Previous versions stored indexes of this storage in index files on disk, recreate them in the database
+                const diskFiles = await NodeIndexFileSystem.readdir(dir).catch(() => [] as string[]);
+                for (const fileName of diskFiles.filter(fileName => isOwnIndexFile(fileName) && !files.includes(fileName))) {
+                    const filePath = `${dir}/${fileName}`;
+                    try {
+                        const index = await DataIndex.readFromFile(this, filePath, NodeIndexFileSystem);
+                        this.debug.log(`Moving index ${index.description} from file "${filePath}" into the database`);
+                        await this.indexes.create(index.path, index.type === 'compound' ? index.keys : index.key, {
+                            type: index.type as CreateIndexOptions['type'],
+                            include: index.includeKeys.filter(key => !index.keys.includes(key)),
+                            caseSensitive: index.caseSensitive,
+                            textLocale: index.textLocale,
+                            textLocaleKey: index.textLocaleKey,
+                            collation: index.collation,
+                        });
+                        await NodeIndexFileSystem.rm(filePath);
+                    }
+                    catch (err) {
+                        this.debug.error(`Failed to move index file "${filePath}" into the database: ${err.message}`);
+                    }
+                }
+            }
         },
 
         add: async (fileName: string) => {
@@ -326,7 +559,9 @@ export class Storage extends SimpleEventEmitter {
             }
             try {
                 // Announce the index to prevent race condition in between reading and receiving the IPC index.created notification
-                const indexPromise = DataIndex.readFromFile(this, fileName);
+                const indexPromise = this.indexes.tableStore
+                    ? TableDataIndex.readFromTable(this, fileName).then(index => index ?? DataIndex.readFromFile(this, fileName))
+                    : DataIndex.readFromFile(this, fileName);
                 this._annoucedIndexes.set(fileName, indexPromise);
                 const index = await indexPromise;
                 this._indexes.push(index);
@@ -363,6 +598,11 @@ export class Storage extends SimpleEventEmitter {
             // Close all indexes
             const promises = this.indexes.list().map(index => index.close().catch(err => this.debug.error(err)));
             await Promise.all(promises);
+            const fileSystem = this.indexes.fileSystem;
+            if (fileSystem instanceof BlobIndexFileSystem && this.ipc.isMaster) {
+                // All index files have been persisted, they don't have to be rebuilt when opened next time
+                await fileSystem.unmarkInUse(`${this.settings.path}/${this.name}.acebase`).catch(err => this.debug.error(err));
+            }
         },
 
     };
@@ -543,6 +783,39 @@ export class Storage extends SimpleEventEmitter {
     };
 
 
+    private _triggers = [] as TriggerRegistration[];
+    public triggers = {
+        /**
+         * Adds a trigger that runs when nodes at given path are written to. Triggers only run in the process that performs
+         * the write, so they run once per write in a cluster. Add them in all processes that write to the database
+         * @param path Path of the nodes to run the trigger for, can include wildcards or variables. Eg: `'orders/$id'`
+         * @param trigger `before` and/or `after` functions to run
+         */
+        add: (path: string, trigger: Trigger) => {
+            if (typeof trigger?.before !== 'function' && typeof trigger?.after !== 'function') {
+                throw new TypeError('trigger must have a before and/or after function');
+            }
+            this._triggers.push({ path, trigger });
+        },
+
+        /**
+         * Removes 1 or all triggers on a path
+         * @param path Path the trigger(s) were added to
+         * @param trigger Trigger to remove (optional: if omitted all triggers on the path will be removed)
+         */
+        remove: (path: string, trigger?: Trigger) => {
+            this._triggers = this._triggers.filter(reg => reg.path !== path || (trigger && reg.trigger !== trigger));
+        },
+
+        /**
+         * Gets all triggers on nodes that are affected by a write to given path: its own node, ancestors and descendants
+         */
+        getForPath: (path: string) => {
+            const pathInfo = PathInfo.get(path);
+            return this._triggers.filter(reg => pathInfo.isOnTrailOf(reg.path));
+        },
+    };
+
     /**
      * If Storage class supports a node address or value caching mechanism, it must override this method.
      * @param fromIPC if the request originated from a remote IPC peer. If not, it must notify other peers itself.
@@ -552,7 +825,125 @@ export class Storage extends SimpleEventEmitter {
      */
     invalidateCache?(fromIPC: boolean, path: string, recursive: boolean, reason: string): any;
 
+    private _expiry = { rules: [] as TTLRule[], interval: 0, timeout: null as ReturnType<typeof setTimeout>, sweep: null as Promise<number>, stopped: false };
+
+    /**
+     * Starts the background task that removes expired nodes of `ttl` rules. Only runs in the IPC master: processes connected
+     * to a socket IPC service send their rules to the service, which is the master but is started without them
+     */
+    private scheduleExpiry() {
+        if (!this.settings.ttl?.length || this.settings.readOnly) {
+            return;
+        }
+        if (this.ipc.isMaster) {
+            this.addExpiryRules(this.settings.ttl, this.settings.ttlInterval);
+            return;
+        }
+        if (!(this.ipc instanceof IPCSocketPeer)) {
+            return;
+        }
+        // Keep the request as running sweep, so removeExpired waits for the master's first sweep with our rules
+        const request = this.ipc.sendRequest({ type: 'ttl.rules', rules: this.settings.ttl, interval: this.settings.ttlInterval }).then(result => {
+            if (!result.ok) { throw new Error(result.reason); }
+            return result.removed as number;
+        });
+        this._expiry.sweep = request;
+        request
+            .catch(err => this.debug.error(`Failed to send ttl rules to the IPC master: ${err.message}`))
+            .finally(() => { this._expiry.sweep === request && (this._expiry.sweep = null); });
+    }
+
+    /**
+     * Adds `ttl` rules to remove expired nodes of (master only), and removes expired nodes right away
+     * @param rules rules of this process, or of a worker
+     * @param interval interval in seconds, the shortest requested interval is used
+     * @returns the number of removed nodes
+     */
+    protected async addExpiryRules(rules: TTLRule[], interval: number): Promise<number> {
+        if (!this.indexes.supported) {
+            this.debug.warn(`Expired nodes of ttl rules cannot be removed because indexes are not supported in current environment`);
+            return 0;
+        }
+        this._expiry.interval = this._expiry.rules.length === 0 ? interval : Math.min(this._expiry.interval, interval);
+        const isSameRule = (a: TTLRule, b: TTLRule) => a.path === b.path && (a.field ?? 'expires') === (b.field ?? 'expires');
+        for (const rule of rules) {
+            !this._expiry.rules.some(r => isSameRule(r, rule)) && this._expiry.rules.push(rule);
+        }
+        return this.runExpiry();
+    }
+
+    /**
+     * Removes expired nodes, and schedules the next run
+     */
+    private async runExpiry() {
+        let removed = 0;
+        try {
+            removed = await this.removeExpired();
+            removed > 0 && this.debug.log(`Removed ${removed} expired nodes`);
+        }
+        catch (err) {
+            this.debug.error(`Failed to remove expired nodes: ${err.message}`);
+        }
+        if (!this._expiry.stopped) {
+            // Replace the scheduled run, if another run finished in the meantime
+            clearTimeout(this._expiry.timeout);
+            this._expiry.timeout = setTimeout(() => this.runExpiry(), this._expiry.interval * 1000);
+            this._expiry.timeout.unref?.();
+        }
+        return removed;
+    }
+
+    /**
+     * Removes all expired nodes of the `ttl` rules in settings (and those of socket IPC workers, in the IPC master). Candidates are found using an index on each rule's expiry field
+     * (which is created if it does not exist yet), and removed in batches of 100 nodes per transaction. Removals fire the normal
+     * data events, with `{ acebase_expired: true }` as context
+     * @returns the number of removed nodes
+     */
+    async removeExpired(): Promise<number> {
+        while (this._expiry.sweep) {
+            // Wait for the running sweep to finish, nodes might have expired since it started
+            await this._expiry.sweep.catch(() => { /* Handled by its caller */ });
+        }
+        const sweep = (async () => {
+            let removed = 0;
+            const rules = this.ipc.isMaster ? this._expiry.rules : this.settings.ttl ?? [];
+            for (const rule of rules) {
+                const field = rule.field ?? 'expires';
+                const index = await this.indexes.create(getExpiryIndexPath(rule), field);
+                const now = Date.now();
+                const results = await index.query('<=', now);
+                const paths = results.map(result => result.path);
+                for (let i = 0; i < paths.length; i += 100) {
+                    await this.transactNodes(paths.slice(i, i + 100), values => values.map(value => {
+                        // Check again, the node might have been changed after querying the index
+                        const expires = value?.[field];
+                        const time = expires instanceof Date ? expires.getTime() : expires;
+                        if (typeof time !== 'number' || time > now) {
+                            return undefined;
+                        }
+                        removed++;
+                        return null;
+                    }), { context: { acebase_expired: true } });
+                }
+            }
+            return removed;
+        })();
+        this._expiry.sweep = sweep;
+        try {
+            return await sweep;
+        }
+        finally {
+            this._expiry.sweep = null;
+        }
+    }
+
     async close() {
+        // Stop removing expired nodes
+        this._expiry.stopped = true;
+        clearTimeout(this._expiry.timeout);
+        await this._expiry.sweep?.catch(() => { /* Logged by scheduleExpiry */ });
+        // Wait for pending schema definition writes
+        await this._schemaWrites;
         // Close the database by calling exit on the ipc channel, which will emit an 'exit' event when the database can be safely closed.
         await this.ipc.exit();
     }
@@ -600,7 +991,14 @@ export class Storage extends SimpleEventEmitter {
      * Creates or updates a node in its own record. DOES NOT CHECK if path exists in parent node, or if parent paths exist! Calling code needs to do this
      */
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    protected _writeNode(path: string, value: any, options?: { merge?: boolean }): Promise<void> {
+    protected _writeNode(path: string, value: any, options?: {
+        merge?: boolean;
+        /**
+         * Storages that write the node in a database transaction must call this with the transaction before committing it,
+         * entries of indexes that are stored in the same database are added to it
+         */
+        beforeCommit?: (transaction: unknown) => Promise<void>;
+    }): Promise<void> {
         throw new Error('This method must be implemented by subclass');
     }
 
@@ -631,6 +1029,21 @@ export class Storage extends SimpleEventEmitter {
             topEventPath = PathInfo.fillVariables(topEventPath, path); // fill in any wildcards in the subscription path
         }
 
+        // Triggers need the entire previous values of their nodes: nodes on this or a higher path must be loaded from
+        // the top event path, nodes on deeper paths are loaded with the previous value of this path
+        const triggers = this.triggers.getForPath(path);
+        const pathKeys = PathInfo.getPathKeys(path);
+        const triggerPaths = triggers.map(reg => PathInfo.getPathKeys(reg.path).length > pathKeys.length ? path : PathInfo.fillVariables(reg.path, path));
+        triggers.forEach((reg, i) => {
+            if (PathInfo.getPathKeys(reg.path).length > pathKeys.length) {
+                return;
+            }
+            hasValueSubscribers = true;
+            if (PathInfo.get(triggerPaths[i]).isAncestorOf(topEventPath)) {
+                topEventPath = triggerPaths[i];
+            }
+        });
+
         const indexes = this.indexes.getAll(path, { childPaths: true, parentPaths: true })
             .map(index => ({ index, keys: PathInfo.getPathKeys(index.path) }))
             .sort((a, b) => {
@@ -665,9 +1078,24 @@ export class Storage extends SimpleEventEmitter {
                     const keys = [index.key].concat(index.includeKeys);
                     keys.forEach(key => !keysFilter.includes(key) && keysFilter.push(key));
                 });
+                // Also load the entire values of triggered nodes
+                triggerPaths.forEach(triggerPath => {
+                    const key = PathInfo.get(PathInfo.getPathKeys(triggerPath).slice(PathInfo.getPathKeys(topEventPath).length)).path;
+                    !keysFilter.includes(key) && keysFilter.push(key);
+                });
             }
         }
-        return { topEventPath, eventSubscriptions, valueSubscribers, hasValueSubscribers, indexes, keysFilter };
+        return { topEventPath, eventSubscriptions, valueSubscribers, hasValueSubscribers, indexes, keysFilter, triggers };
+    }
+
+    /**
+     * Wrapper for _writeNodeWithTracking that resolves with the applied mutations on the written path, which are
+     * only available if transaction logging is enabled
+     */
+    protected async _writeNodeWithMutations(path: string, value: any, options: Parameters<Storage['_writeNodeWithTracking']>[2]): Promise<IAppliedMutations> {
+        const result = await this._writeNodeWithTracking(path, value, options);
+        // Untracked writes of storage classes whose _writeNode does not return a result resolve without mutations
+        return { path, list: result?.mutations ?? [] };
     }
 
     /**
@@ -679,7 +1107,7 @@ export class Storage extends SimpleEventEmitter {
         merge: boolean;
         transaction: unknown;
         tid: string | number;
-        _customWriteFunction: () => any;
+        _customWriteFunction: (value: any) => any;
         waitForIndexUpdates: boolean;
         suppress_events: boolean;
         context: any;
@@ -708,12 +1136,12 @@ export class Storage extends SimpleEventEmitter {
         // Is anyone interested in the values changing on this path?
         let topEventData: any = null;
         const updateImpact = options.impact ? options.impact : this.getUpdateImpact(path, options.suppress_events);
-        const { topEventPath, eventSubscriptions, hasValueSubscribers, indexes } = updateImpact;
+        const { topEventPath, eventSubscriptions, hasValueSubscribers, indexes, triggers } = updateImpact;
         let { keysFilter } = updateImpact;
 
-        const writeNode = () => {
+        const writeNode = (beforeCommit?: (transaction: unknown) => Promise<void>) => {
             if (typeof options._customWriteFunction === 'function') {
-                return options._customWriteFunction();
+                return options._customWriteFunction(value);
             }
             if (topEventData) {
                 // Pass loaded data to _writeNode, speeds up recursive calls
@@ -728,11 +1156,11 @@ export class Storage extends SimpleEventEmitter {
                 }
                 options.currentValue = currentValue;
             }
-            return this._writeNode(path, value, options);
+            return this._writeNode(path, value, beforeCommit ? { ...options, beforeCommit } : options);
         };
 
-        const transactionLoggingEnabled = this.settings.transactions && this.settings.transactions.log === true;
-        if (eventSubscriptions.length === 0 && indexes.length === 0 && !transactionLoggingEnabled) {
+        const transactionLoggingEnabled = this.transactionLoggingEnabled;
+        if (eventSubscriptions.length === 0 && indexes.length === 0 && triggers.length === 0 && !transactionLoggingEnabled) {
             // Nobody's interested in value changes. Write node without tracking
             return writeNode();
         }
@@ -740,6 +1168,14 @@ export class Storage extends SimpleEventEmitter {
         if (!hasValueSubscribers && options.merge === true && keysFilter.length === 0) {
             // only load properties being updated
             keysFilter = Object.keys(value);
+            // and all indexed keys of the updated record, indexes need their values to update entries and metadata
+            const pathKeys = PathInfo.getPathKeys(path);
+            indexes.forEach(index => {
+                const indexKeys = PathInfo.getPathKeys(`${index.path}/*`);
+                const isOnRecord = indexKeys.length === pathKeys.length && indexKeys.every((key, i) => key === '*' || key === pathKeys[i]);
+                if (!isOnRecord) { return; }
+                [index.key].concat(index.includeKeys).forEach(key => key !== '{key}' && !keysFilter.includes(key) && keysFilter.push(key));
+            });
             if (topEventPath !== path) {
                 const trailPath = path.slice(topEventPath.length);
                 keysFilter = keysFilter.map(key => `${trailPath}/${key}`);
@@ -762,177 +1198,220 @@ export class Storage extends SimpleEventEmitter {
 
         topEventData = currentValue;
 
-        // Now proceed with node updating
-        const result = (await writeNode()) || {};
-
         // Build data for old/new comparison
-        let newTopEventData: any, modifiedData: any;
-        if (path === topEventPath) {
-            if (options.merge) {
+        const getNewTopEventData = () => {
+            let newTopEventData: any, modifiedData: any;
+            if (path === topEventPath) {
+                if (options.merge) {
+                    if (topEventData === null) {
+                        newTopEventData = value instanceof Array ? [] : {};
+                    }
+                    else {
+                        // Create shallow copy of previous object value
+                        newTopEventData = topEventData instanceof Array ? [] : {};
+                        Object.keys(topEventData).forEach(key => {
+                            newTopEventData[key] = topEventData[key];
+                        });
+                    }
+                }
+                else {
+                    newTopEventData = value;
+                }
+                modifiedData = newTopEventData;
+            }
+            else {
+                // topEventPath is on a higher path, so we have to adjust the value deeper down
+                const trailPath = path.slice(topEventPath.length).replace(/^\//, '');
+                const trailKeys = PathInfo.getPathKeys(trailPath);
+                // Create shallow copy of the original object (let unchanged properties reference existing objects)
                 if (topEventData === null) {
-                    newTopEventData = value instanceof Array ? [] : {};
+                    // the node didn't exist prior to the update (or was not loaded)
+                    newTopEventData = typeof trailKeys[0] === 'number' ? [] : {};
                 }
                 else {
-                    // Create shallow copy of previous object value
                     newTopEventData = topEventData instanceof Array ? [] : {};
                     Object.keys(topEventData).forEach(key => {
                         newTopEventData[key] = topEventData[key];
                     });
                 }
+                modifiedData = newTopEventData;
+                while (trailKeys.length > 0) {
+                    const childKey = trailKeys.shift();
+                    // Create shallow copy of object at target
+                    if (!options.merge && trailKeys.length === 0) {
+                        modifiedData[childKey] = value;
+                    }
+                    else {
+                        const original = modifiedData[childKey];
+                        const shallowCopy = typeof childKey === 'number' ? [...original] : { ...original };
+                        modifiedData[childKey] = shallowCopy;
+                    }
+                    modifiedData = modifiedData[childKey];
+                }
             }
-            else {
-                newTopEventData = value;
-            }
-            modifiedData = newTopEventData;
-        }
-        else {
-            // topEventPath is on a higher path, so we have to adjust the value deeper down
-            const trailPath = path.slice(topEventPath.length).replace(/^\//, '');
-            const trailKeys = PathInfo.getPathKeys(trailPath);
-            // Create shallow copy of the original object (let unchanged properties reference existing objects)
-            if (topEventData === null) {
-                // the node didn't exist prior to the update (or was not loaded)
-                newTopEventData = typeof trailKeys[0] === 'number' ? [] : {};
-            }
-            else {
-                newTopEventData = topEventData instanceof Array ? [] : {};
-                Object.keys(topEventData).forEach(key => {
-                    newTopEventData[key] = topEventData[key];
+
+            if (options.merge) {
+                // Update target value with updates
+                Object.keys(value).forEach(key => {
+                    modifiedData[key] = value[key];
                 });
             }
-            modifiedData = newTopEventData;
-            while (trailKeys.length > 0) {
-                const childKey = trailKeys.shift();
-                // Create shallow copy of object at target
-                if (!options.merge && trailKeys.length === 0) {
-                    modifiedData[childKey] = value;
-                }
-                else {
-                    const original = modifiedData[childKey];
-                    const shallowCopy = typeof childKey === 'number' ? [...original] : { ...original };
-                    modifiedData[childKey] = shallowCopy;
+            return newTopEventData;
+        };
+
+        // Run before triggers, they can change the value being written
+        const beforeTriggers = triggers.filter(reg => typeof reg.trigger.before === 'function');
+        if (beforeTriggers.length > 0) {
+            const newValue = await this.runBeforeTriggers(beforeTriggers, path, value, options.merge, topEventPath, topEventData, getNewTopEventData(), options.context);
+            if (newValue !== value) {
+                value = newValue;
+                const validation = this.validateSchema(path, value, { updates: options.merge });
+                if (!validation.ok) {
+                    throw new SchemaValidationError(validation.reason);
                 }
-                modifiedData = modifiedData[childKey];
             }
         }
 
-        if (options.merge) {
-            // Update target value with updates
-            Object.keys(value).forEach(key => {
-                modifiedData[key] = value[key];
-            });
-        }
+        // Prepares the changed data and index updates once the node has been written, or is about to be committed
+        type IndexUpdate = { index: DataIndex; path: string; oldValue: any; newValue: any };
+        const prepareChanges = () => {
+            const newTopEventData = getNewTopEventData();
 
-        // assert(topEventData !== newTopEventData, 'shallow copy must have been made!');
-
-        const dataChanges = compareValues(topEventData, newTopEventData);
-        if (dataChanges === 'identical') {
-            result.mutations = [];
-            return result;
-        }
+            // assert(topEventData !== newTopEventData, 'shallow copy must have been made!');
 
-        // Fix: remove null property values (https://github.com/appy-one/acebase/issues/2)
-        function removeNulls(obj: Record<string, any>) {
-            if (obj === null || typeof obj !== 'object') { return obj; } // Nothing to do
-            Object.keys(obj).forEach(prop => {
-                const val = obj[prop];
-                if (val === null) {
-                    delete obj[prop];
-                    if (obj instanceof Array) { obj.length--; } // Array items can only be removed from the end,
-                }
-                if (typeof val === 'object') { removeNulls(val); }
-            });
-        }
-        removeNulls(newTopEventData);
+            const dataChanges = compareValues(topEventData, newTopEventData);
+            if (dataChanges === 'identical') {
+                return null;
+            }
 
-        // Trigger all index updates
-        // TODO: Let indexes subscribe to "mutations" event, saves a lot of work because we are preparing
-        // before/after copies of the relevant data here, and then the indexes go check what data changed...
-        const indexUpdates = [] as Promise<unknown>[];
-        indexes.map(index => ({ index, keys: PathInfo.getPathKeys(index.path) }))
-            .sort((a, b) => {
-                // Deepest paths should fire first, then bubble up the tree
-                if (a.keys.length < b.keys.length) { return 1; }
-                else if (a.keys.length > b.keys.length) { return -1; }
-                return 0;
-            })
-            .forEach(({ index }) => {
-                // Index is either on the top event path, or on a child path
-
-                // Example situation:
-                // path = "users/ewout/posts/1" (a post was added)
-                // topEventPath = "users/ewout" (a "child_changed" event was on "users")
-                // index.path is "users/*/posts"
-                // index must be called with data of "users/ewout/posts/1"
-
-                const pathKeys = PathInfo.getPathKeys(topEventPath);
-                const indexPathKeys = PathInfo.getPathKeys(index.path + '/*');
-                const trailKeys = indexPathKeys.slice(pathKeys.length);
-                // let { oldValue, newValue } = updatedData;
-                const oldValue = topEventData;
-                const newValue = newTopEventData;
-                if (trailKeys.length === 0) {
-                    assert(pathKeys.length === indexPathKeys.length, 'check logic');
-                    // Index is on updated path
-                    const p = this.ipc.isMaster
-                        ? index.handleRecordUpdate(topEventPath, oldValue, newValue)
-                        : this.ipc.sendRequest({ type: 'index.update', fileName: index.fileName, path: topEventPath, oldValue, newValue });
-                    indexUpdates.push(p);
-                    return; // next index
-                }
-                const getAllIndexUpdates = (path: string, oldValue: any, newValue: any) => {
-                    if (oldValue === null && newValue === null) {
-                        return [];
+            // Fix: remove null property values (https://github.com/appy-one/acebase/issues/2)
+            function removeNulls(obj: Record<string, any>) {
+                if (obj === null || typeof obj !== 'object') { return obj; } // Nothing to do
+                Object.keys(obj).forEach(prop => {
+                    const val = obj[prop];
+                    if (val === null) {
+                        delete obj[prop];
+                        if (obj instanceof Array) { obj.length--; } // Array items can only be removed from the end,
                     }
-                    const pathKeys = PathInfo.getPathKeys(path);
+                    if (typeof val === 'object') { removeNulls(val); }
+                });
+            }
+            removeNulls(newTopEventData);
+
+            // Collect all index updates
+            // TODO: Let indexes subscribe to "mutations" event, saves a lot of work because we are preparing
+            // before/after copies of the relevant data here, and then the indexes go check what data changed...
+            const indexUpdates = [] as IndexUpdate[];
+            indexes.map(index => ({ index, keys: PathInfo.getPathKeys(index.path) }))
+                .sort((a, b) => {
+                    // Deepest paths should fire first, then bubble up the tree
+                    if (a.keys.length < b.keys.length) { return 1; }
+                    else if (a.keys.length > b.keys.length) { return -1; }
+                    return 0;
+                })
+                .forEach(({ index }) => {
+                    // Index is either on the top event path, or on a child path
+
+                    // Example situation:
+                    // path = "users/ewout/posts/1" (a post was added)
+                    // topEventPath = "users/ewout" (a "child_changed" event was on "users")
+                    // index.path is "users/*/posts"
+                    // index must be called with data of "users/ewout/posts/1"
+
+                    const pathKeys = PathInfo.getPathKeys(topEventPath);
                     const indexPathKeys = PathInfo.getPathKeys(index.path + '/*');
                     const trailKeys = indexPathKeys.slice(pathKeys.length);
+                    // let { oldValue, newValue } = updatedData;
+                    const oldValue = topEventData;
+                    const newValue = newTopEventData;
                     if (trailKeys.length === 0) {
                         assert(pathKeys.length === indexPathKeys.length, 'check logic');
-                        return [{ path, oldValue, newValue }];
+                        // Index is on updated path
+                        indexUpdates.push({ index, path: topEventPath, oldValue, newValue });
+                        return; // next index
                     }
-
-                    let results = [] as any[];
-                    let trailPath = '';
-                    while (trailKeys.length > 0) {
-                        const subKey = trailKeys.shift();
-                        if (typeof subKey === 'string' && (subKey === '*' || subKey.startsWith('$'))) {
-                            // Recursion needed
-                            const allKeys = oldValue === null ? [] : Object.keys(oldValue);
-                            newValue !== null && Object.keys(newValue).forEach(key => {
-                                if (allKeys.indexOf(key) < 0) {
-                                    allKeys.push(key);
-                                }
-                            });
-                            allKeys.forEach(key => {
-                                const childPath = PathInfo.getChildPath(trailPath, key);
-                                const childValues = getChildValues(key, oldValue, newValue);
-                                const subTrailPath = PathInfo.getChildPath(path, childPath);
-                                const childResults = getAllIndexUpdates(subTrailPath, childValues.oldValue, childValues.newValue);
-                                results = results.concat(childResults);
-                            });
-                            break;
+                    const getAllIndexUpdates = (path: string, oldValue: any, newValue: any) => {
+                        if (oldValue === null && newValue === null) {
+                            return [];
                         }
-                        else {
-                            const values = getChildValues(subKey, oldValue, newValue);
-                            oldValue = values.oldValue;
-                            newValue = values.newValue;
-                            if (oldValue === null && newValue === null) {
+                        const pathKeys = PathInfo.getPathKeys(path);
+                        const indexPathKeys = PathInfo.getPathKeys(index.path + '/*');
+                        const trailKeys = indexPathKeys.slice(pathKeys.length);
+                        if (trailKeys.length === 0) {
+                            assert(pathKeys.length === indexPathKeys.length, 'check logic');
+                            return [{ path, oldValue, newValue }];
+                        }
+
+                        let results = [] as any[];
+                        let trailPath = '';
+                        while (trailKeys.length > 0) {
+                            const subKey = trailKeys.shift();
+                            if (typeof subKey === 'string' && (subKey === '*' || subKey.startsWith('$'))) {
+                                // Recursion needed
+                                const allKeys = oldValue === null ? [] : Object.keys(oldValue);
+                                newValue !== null && Object.keys(newValue).forEach(key => {
+                                    if (allKeys.indexOf(key) < 0) {
+                                        allKeys.push(key);
+                                    }
+                                });
+                                allKeys.forEach(key => {
+                                    const childPath = PathInfo.getChildPath(trailPath, key);
+                                    const childValues = getChildValues(key, oldValue, newValue);
+                                    const subTrailPath = PathInfo.getChildPath(path, childPath);
+                                    const childResults = getAllIndexUpdates(subTrailPath, childValues.oldValue, childValues.newValue);
+                                    results = results.concat(childResults);
+                                });
                                 break;
                             }
-                            trailPath = PathInfo.getChildPath(trailPath, subKey);
+                            else {
+                                const values = getChildValues(subKey, oldValue, newValue);
+                                oldValue = values.oldValue;
+                                newValue = values.newValue;
+                                if (oldValue === null && newValue === null) {
+                                    break;
+                                }
+                                trailPath = PathInfo.getChildPath(trailPath, subKey);
+                            }
                         }
-                    }
-                    return results;
-                };
-                const results = getAllIndexUpdates(topEventPath, oldValue, newValue);
-                results.forEach(result => {
-                    const p = this.ipc.isMaster
-                        ? index.handleRecordUpdate(result.path, result.oldValue, result.newValue)
-                        : this.ipc.sendRequest({ type: 'index.update', fileName: index.fileName, path: result.path, oldValue: result.oldValue, newValue: result.newValue });
-                    indexUpdates.push(p);
+                        return results;
+                    };
+                    const results = getAllIndexUpdates(topEventPath, oldValue, newValue);
+                    results.forEach(result => {
+                        indexUpdates.push({ index, path: result.path, oldValue: result.oldValue, newValue: result.newValue });
+                    });
                 });
-            });
+            return { newTopEventData, dataChanges, indexUpdates };
+        };
+        const updateIndex = (update: IndexUpdate, transaction?: unknown) => this.ipc.isMaster
+            ? update.index.handleRecordUpdate(update.path, update.oldValue, update.newValue, undefined, transaction)
+            : this.ipc.sendRequest({ type: 'index.update', fileName: update.index.fileName, path: update.path, oldValue: update.oldValue, newValue: update.newValue })
+                .then(() => update.index.clearCache(update.path)); // Master updated the index, clear our cached query results
+
+        // Now proceed with node updating. Storages that write nodes in a database transaction call beforeCommit before committing it,
+        // so entries of indexes stored in the same database are updated in the same transaction
+        let changes: ReturnType<typeof prepareChanges>;
+        const committedUpdates = [] as IndexUpdate[];
+        const beforeCommit = async (transaction: unknown) => {
+            changes = prepareChanges();
+            if (changes === null || !this.ipc.isMaster) { return; }
+            committedUpdates.push(...changes.indexUpdates.filter(update => update.index instanceof TableDataIndex));
+            await Promise.all(committedUpdates.map(update => updateIndex(update, transaction)));
+        };
+        const result = (await writeNode(beforeCommit)) || {};
+        if (typeof changes === 'undefined') {
+            changes = prepareChanges();
+        }
+        if (changes === null) {
+            result.mutations = [];
+            return result;
+        }
+        const { newTopEventData, dataChanges } = changes;
+
+        // Queries might have cached index results before the transaction was committed
+        committedUpdates.forEach(update => update.index.clearCache(update.path));
+        const indexUpdates = changes.indexUpdates
+            .filter(update => !committedUpdates.includes(update))
+            .map(update => () => updateIndex(update));
 
         const callSubscriberWithValues = (
             sub: ReturnType<typeof this.subscriptions.getValueSubscribersForPath>[0],
@@ -1036,7 +1515,7 @@ export class Storage extends SimpleEventEmitter {
         };
 
         // Add mutations to result (only if transaction logging is enabled)
-        if (transactionLoggingEnabled && this.settings.type !== 'transaction') {
+        if (transactionLoggingEnabled) {
             result.mutations = (() => {
                 const trailPath = path.slice(topEventPath.length).replace(/^\//, '');
                 const trailKeys = PathInfo.getPathKeys(trailPath);
@@ -1203,13 +1682,122 @@ export class Storage extends SimpleEventEmitter {
             });
         };
 
-        // Wait for all index updates to complete
-        if (options.waitForIndexUpdates === false) {
-            indexUpdates.splice(0); // Remove all index update promises, so we don't wait for them to resolve
-        }
-        await Promise.all(indexUpdates);
-        defer(triggerAllEvents); // Delayed execution
-        return result;
+        const notify = () => {
+            defer(triggerAllEvents); // Delayed execution
+
+            // Run after triggers once the write is done, so they can perform follow-up writes
+            const afterTriggers = triggers.filter(reg => typeof reg.trigger.after === 'function');
+            if (afterTriggers.length > 0) {
+                defer(() => this.runAfterTriggers(afterTriggers, path, topEventPath, topEventData, newTopEventData, options.context));
+            }
+        };
+
+        const transactionTasks = this._transactionTasks.get(transaction ?? tid);
+        if (transactionTasks) {
+            // Write is part of a multi-path transaction: update indexes and notify subscribers once it has been committed
+            transactionTasks.push(async () => {
+                await Promise.all(indexUpdates.map(update => update()));
+                notify();
+            });
+            return result;
+        }
+
+        // Wait for all index updates to complete
+        const updates = indexUpdates.map(update => update());
+        if (options.waitForIndexUpdates !== false) {
+            await Promise.all(updates);
+        }
+        notify();
+        return result;
+    }
+
+    /**
+     * Runs the before triggers of all nodes changed by a write, in order of registration
+     * @returns the value to write, including the changes made by the triggers
+     */
+    private async runBeforeTriggers(
+        triggers: TriggerRegistration[],
+        path: string,
+        value: any,
+        merge: boolean,
+        topEventPath: string,
+        topEventData: any,
+        newTopEventData: any,
+        context: any,
+    ) {
+        const topKeys = PathInfo.getPathKeys(topEventPath);
+        const trailKeys = PathInfo.getPathKeys(path).slice(topKeys.length);
+        const getValue = (value: any, keys: Array<string | number>) => keys.reduce((value, key) => value !== null && typeof value === 'object' && key in value ? value[key] : null, value);
+        const setValue = (target: any, keys: Array<string | number>, value: any): any => {
+            if (keys.length === 0) {
+                return value;
+            }
+            const copy = target instanceof Array ? [...target] : { ...(target ?? {}) };
+            copy[keys[0]] = setValue(copy[keys[0]] ?? null, keys.slice(1), value);
+            return copy;
+        };
+
+        let changed = false;
+        for (const reg of triggers) {
+            const nodes = getTriggerNodes(reg.path, topEventPath, topEventData, newTopEventData)
+                .filter(node => PathInfo.get(node.path).isOnTrailOf(path) && compareValues(node.oldValue, node.newValue) !== 'identical');
+            for (const node of nodes) {
+                const variables = PathInfo.extractVariables(reg.path, node.path);
+                const newValue = await reg.trigger.before({ path: node.path, variables, oldValue: cloneObject(node.oldValue), newValue: cloneObject(node.newValue), context });
+                if (typeof newValue === 'undefined') {
+                    continue;
+                }
+                const nodeKeys = PathInfo.getPathKeys(node.path).slice(topKeys.length);
+                if (nodeKeys.length < trailKeys.length) {
+                    // Trigger is on an ancestor of the written node, it can only change data within the written path
+                    const writeKeys = trailKeys.slice(nodeKeys.length);
+                    const outside = setValue(newValue, writeKeys, getValue(node.newValue, writeKeys));
+                    if (compareValues(outside, node.newValue) !== 'identical') {
+                        throw new Error(`before trigger on "/${reg.path}" cannot change data of "/${node.path}" outside of written path "/${path}"`);
+                    }
+                }
+                newTopEventData = setValue(newTopEventData, nodeKeys, newValue);
+                changed = true;
+            }
+        }
+        if (!changed) {
+            return value;
+        }
+
+        // Get the value to write from the changed data
+        const newValue = getValue(newTopEventData, trailKeys);
+        if (!merge) {
+            return newValue;
+        }
+        const oldValue = getValue(topEventData, trailKeys);
+        const keys = new Set([...Object.keys(oldValue ?? {}), ...Object.keys(newValue ?? {})]);
+        const updates = {} as Record<string, any>;
+        for (const key of keys) {
+            const childValues = getChildValues(key, oldValue, newValue);
+            if (compareValues(childValues.oldValue, childValues.newValue) !== 'identical') {
+                updates[key] = childValues.newValue;
+            }
+        }
+        return updates;
+    }
+
+    /**
+     * Runs the after triggers of all nodes changed by a write. Errors are logged
+     */
+    private async runAfterTriggers(triggers: TriggerRegistration[], path: string, topEventPath: string, topEventData: any, newTopEventData: any, context: any) {
+        for (const reg of triggers) {
+            const nodes = getTriggerNodes(reg.path, topEventPath, topEventData, newTopEventData)
+                .filter(node => PathInfo.get(node.path).isOnTrailOf(path) && compareValues(node.oldValue, node.newValue) !== 'identical');
+            for (const node of nodes) {
+                const variables = PathInfo.extractVariables(reg.path, node.path);
+                try {
+                    await reg.trigger.after({ path: node.path, variables, oldValue: node.oldValue, newValue: node.newValue, context });
+                }
+                catch (err) {
+                    this.debug.error(`Error in after trigger on "/${reg.path}" for node "/${node.path}": ${err.message}`);
+                }
+            }
+        }
     }
 
     /**
@@ -1224,6 +1812,11 @@ export class Storage extends SimpleEventEmitter {
          * specify the child keys to get callbacks for, skips .next callbacks for other keys
          */
         keyFilter?: string[] | number[];
+        /**
+         * key to continue after: enumerates the children of an object in key order, starting after this key.
+         * Use `''` to start at the first child. Ignored for arrays, or if `keyFilter` is used
+         */
+        after?: string;
         /**
          * optional transaction id for node locking purposes
          */
@@ -1307,6 +1900,14 @@ export class Storage extends SimpleEventEmitter {
          * Whether to supress any value events from firing
          */
         suppress_events: boolean;
+        /**
+         * used internally by multi-path transactions: collects the applied mutations instead of logging them
+         */
+        collect_mutations: IAppliedMutations[];
+        /**
+         * transaction as implemented by custom storage, used by multi-path transactions
+         */
+        transaction: unknown;
     }>): Promise<string | void> {
         throw new Error('This method must be implemented by subclass');
     }
@@ -1336,6 +1937,10 @@ export class Storage extends SimpleEventEmitter {
          * Whether to supress any value events from firing
          */
          suppress_events: boolean;
+        /**
+         * used internally by multi-path transactions: collects the applied mutations instead of logging them
+         */
+         collect_mutations: IAppliedMutations[];
     }>): Promise<string|void> {
         throw new Error('This method must be implemented by subclass');
     }
@@ -1421,6 +2026,182 @@ export class Storage extends SimpleEventEmitter {
         }
     }
 
+    /**
+     * Updates multiple nodes in a single atomic transaction: locks all paths, runs a callback function with their current values
+     * that returns their new values to be stored, and commits all writes or none. Once committed, indexes are updated and event
+     * subscribers are notified of each write, a single mutation is added to the transaction log for the entire commit. Its `value` holds the new values of all
+     * written paths, nested by their trailing keys from the logged path, which is the paths' common ancestor.
+     * @param paths paths of the nodes to update, must not overlap (be equal or ancestors of each other)
+     * @param callback function that receives the current values of all paths in the same order, and returns (a Promise with) an
+     * array of the new values. Use `undefined` for a value to leave it unchanged, or `null` to remove it. Return `undefined`
+     * instead of an array to cancel the transaction
+     * @returns Returns a new cursor if transaction logging is enabled
+     */
+    async transactNodes(paths: string[], callback: (values: any[]) => any, options: Partial<{
+        /**
+         * whether to suppress the execution of event subscriptions
+         * @default false
+         */
+        suppress_events: boolean;
+        /**
+         * context info used by the client
+         */
+        context: any;
+    }> = { suppress_events: false, context: null }): Promise<string|void> {
+        if (!(paths instanceof Array) || paths.length === 0) {
+            throw new TypeError('paths must be an array with at least 1 path');
+        }
+        const pathInfos = paths.map(path => PathInfo.get(path));
+        if (pathInfos.some(pathInfo => pathInfo.keys.length === 0)) {
+            throw new Error('Transaction paths cannot include the root node');
+        }
+        if (pathInfos.some((a, i) => pathInfos.some((b, j) => i !== j && (a.equals(b) || a.isAncestorOf(b))))) {
+            throw new Error('Transaction paths must not overlap');
+        }
+
+        // Lock the keys of the common ancestor that lead to the target paths, this covers all of them with a single lock
+        const ancestorKeys = pathInfos.map(pathInfo => pathInfo.keys).reduce((ancestorKeys, keys) => {
+            const index = ancestorKeys.findIndex((key, i) => key !== keys[i]);
+            return index < 0 ? ancestorKeys : ancestorKeys.slice(0, index);
+        });
+        if (paths.length === 1) { ancestorKeys.pop(); }
+        const ancestorInfo = PathInfo.get(ancestorKeys);
+        const trailKeys = pathInfos.map(pathInfo => pathInfo.keys.slice(ancestorKeys.length));
+        const childKeys = trailKeys.map(keys => keys[0]).filter((key, i, keys) => keys.indexOf(key) === i);
+        const transaction = await this.beginTransaction(ancestorInfo.path, childKeys);
+        const tasksKey = transaction.options.transaction ?? transaction.options.tid;
+        const tasks = [] as Array<() => Promise<void>>;
+        this._transactionTasks.set(tasksKey, tasks);
+        let ended = false;
+
+        try {
+            const currentValues = [] as any[];
+            for (const path of paths) {
+                const node = await this.getNode(path, transaction.options);
+                currentValues.push(node.value);
+            }
+            // Pass copies, current values are needed to roll back if committing fails
+            const newValues: any[] = await callback(currentValues.map(value => cloneObject(value)));
+            if (typeof newValues === 'undefined') {
+                // Callback did not return values. Cancel transaction
+                return;
+            }
+            if (!(newValues instanceof Array) || newValues.length !== paths.length) {
+                throw new TypeError(`transaction callback must return an array with ${paths.length} values`);
+            }
+
+            // Validate all values before writing any of them
+            const writes = paths.map((path, i) => ({ path, value: newValues[i], prev: currentValues[i], trailKeys: trailKeys[i] }))
+                .filter(write => typeof write.value !== 'undefined');
+            for (const write of writes) {
+                const validation = this.validateSchema(write.path, write.value, { updates: false });
+                if (!validation.ok) {
+                    throw new SchemaValidationError(validation.reason);
+                }
+            }
+            if (writes.length === 0) {
+                return;
+            }
+
+            const context = options.context || {};
+            if (this.transactionLoggingEnabled) {
+                context.acebase_cursor = ID.generate();
+            }
+            const committed = [] as Array<typeof writes[number] & { mutations: IAppliedMutations[] }>;
+            try {
+                for (const write of writes) {
+                    const mutations = [] as IAppliedMutations[];
+                    await this.setNode(write.path, write.value, { ...transaction.options, suppress_events: options.suppress_events, context, collect_mutations: mutations });
+                    committed.push({ ...write, mutations });
+                }
+            }
+            catch (err) {
+                this.debug.error(`Failed to commit transaction on paths ${paths.map(path => `"/${path}"`).join(', ')}, rolling back: ${err.message}`);
+                if (!transaction.rollsBack) {
+                    // Restore the previous values of all paths that were already written, and commit that
+                    for (const write of committed.reverse()) {
+                        await this.setNode(write.path, write.prev, { ...transaction.options, suppress_events: options.suppress_events, context, collect_mutations: [] });
+                    }
+                    tasks.splice(0); // Nothing changed, no indexes to update or subscribers to notify
+                    await transaction.commit();
+                    ended = true;
+                }
+                throw err;
+            }
+
+            await transaction.commit();
+            ended = true;
+            for (const task of tasks) {
+                await task();
+            }
+
+            if (!this.transactionLoggingEnabled) {
+                return;
+            }
+
+            // Log all writes as a single update of the common ancestor
+            const value = {} as Record<string | number, any>;
+            const list = [] as IAppliedMutations['list'];
+            const getTrailValue = (value: any, keys: Array<string | number>) => keys.reduce((value, key) => value !== null && typeof value === 'object' && key in value ? value[key] : null, value);
+            for (const write of committed) {
+                const parent = write.trailKeys.slice(0, -1).reduce((parent, key) => parent[key] = parent[key] || {}, value);
+                parent[write.trailKeys.slice(-1)[0]] = write.value;
+
+                // Move mutations that were recorded on a higher path (eg because of value event subscribers) to the written path
+                const pathInfo = PathInfo.get(write.path);
+                for (const mutations of write.mutations) {
+                    const mutationsPathInfo = PathInfo.get(mutations.path);
+                    for (const m of mutations.list) {
+                        const targetPathInfo = m.target.length === 0 ? mutationsPathInfo : mutationsPathInfo.child(m.target);
+                        if (targetPathInfo.isDescendantOf(pathInfo)) {
+                            list.push({ target: targetPathInfo.keys.slice(ancestorKeys.length), prev: m.prev, val: m.val });
+                        }
+                        else {
+                            const keys = pathInfo.keys.slice(targetPathInfo.keys.length);
+                            list.push({ target: write.trailKeys, prev: getTrailValue(m.prev, keys), val: getTrailValue(m.val, keys) });
+                        }
+                    }
+                }
+            }
+            const p = this.logMutation('update', ancestorInfo.path, value, context, { path: ancestorInfo.path, list });
+            if (p instanceof Promise) { await p; }
+            return context.acebase_cursor;
+        }
+        catch (err) {
+            if (!ended) {
+                ended = true;
+                await transaction.rollback(err);
+            }
+            throw err;
+        }
+        finally {
+            this._transactionTasks.delete(tasksKey);
+            if (!ended) {
+                // Canceled, nothing was written
+                await transaction.rollback(new Error('Transaction canceled'));
+            }
+            transaction.release();
+        }
+    }
+
+    /**
+     * Starts a transaction to write multiple nodes at once, used by `transactNodes`. The default implementation locks the target nodes
+     * with the node locker, and cannot roll back writes. Storage classes that support transactions override this method
+     * @param path path of the common ancestor of all nodes that will be written
+     * @param childKeys keys of the ancestor's children that lead to the nodes that will be written
+     */
+    protected async beginTransaction(path: string, childKeys: Array<string | number>): Promise<StorageTransaction> {
+        const tid = this.createTid() as string;
+        const lock = await this.nodeLocker.lock(path, tid, true, 'transactNodes', NodeLockIntention.UpdateNode(childKeys));
+        return {
+            options: { tid },
+            rollsBack: false,
+            commit: async () => { /* Writes are not deferred */ },
+            rollback: async () => { /* Not supported */ },
+            release: () => { lock.release(); },
+        };
+    }
+
     /**
      * Checks if a node's value matches the passed criteria
      * @param path
@@ -1428,7 +2209,7 @@ export class Storage extends SimpleEventEmitter {
      * @param options optional options used by implementation for recursive calls
      * @returns returns a promise that resolves with a boolean indicating if it matched the criteria
      */
-    async matchNode(path: string, criteria: Array<{ key: string | number, op: string, compare: any }>, options?: {
+    async matchNode(path: string, criteria: Array<{ key: string | number, op: string, compare: any, collation?: CollationOptions }>, options?: {
         /**
          * optional transaction id for node locking purposes
          */
@@ -1436,7 +2217,7 @@ export class Storage extends SimpleEventEmitter {
     }): Promise<boolean> {
 
         const tid = options?.tid ?? ID.generate();
-        const checkNode = async (path: string, criteria: Array<{ key: string | number, op: string, compare?: any }>) => {
+        const checkNode = async (path: string, criteria: Array<{ key: string | number, op: string, compare?: any, collation?: CollationOptions }>) => {
             if (criteria.length === 0) {
                 return Promise.resolve(true); // No criteria, so yes... It matches!
             }
@@ -1462,7 +2243,7 @@ export class Storage extends SimpleEventEmitter {
 
                     const keyCriteria = criteria
                         .filter(cr => cr.key === keyOrIndex)
-                        .map(cr => ({ op: cr.op, compare: cr.compare }));
+                        .map(cr => ({ op: cr.op, compare: cr.compare, collation: cr.collation }));
 
                     const keyResult = keyCriteria.length > 0 ? checkChild(childInfo, keyCriteria) : { isMatch: true, promises: [] as Promise<{ isMatch: boolean }>[] };
                     isMatch = keyResult.isMatch;
@@ -1473,7 +2254,7 @@ export class Storage extends SimpleEventEmitter {
                             .filter(cr => typeof cr.key === 'string' && cr.key.startsWith(`${typeof keyOrIndex === 'number' ? `[${keyOrIndex}]` : keyOrIndex}/`))
                             .map(cr => {
                                 const key = (cr.key as string).slice((cr.key as string).indexOf('/') + 1);
-                                return { key, op: cr.op, compare: cr.compare };
+                                return { key, op: cr.op, compare: cr.compare, collation: cr.collation };
                             });
 
                         if (childCriteria.length > 0) {
@@ -1506,7 +2287,7 @@ export class Storage extends SimpleEventEmitter {
 
                     const childCriteria = criteria
                         .filter(cr => typeof cr.key === 'string' && cr.key.startsWith(`${typeof keyOrIndex === 'number' ? `[${keyOrIndex}]` : keyOrIndex}/`))
-                        .map(cr => ({ op: cr.op, compare: cr.compare }));
+                        .map(cr => ({ op: cr.op, compare: cr.compare, collation: cr.collation }));
 
                     if (childCriteria.length > 0 && !checkChild(childInfo, childCriteria).isMatch) {
                         return false;
@@ -1514,7 +2295,7 @@ export class Storage extends SimpleEventEmitter {
 
                     const keyCriteria = criteria
                         .filter(cr => cr.key === keyOrIndex)
-                        .map(cr => ({ op: cr.op, compare: cr.compare }));
+                        .map(cr => ({ op: cr.op, compare: cr.compare, collation: cr.collation }));
 
                     if (keyCriteria.length === 0) {
                         return true; // There were only child criteria, and they matched (otherwise we wouldn't be here)
@@ -1536,7 +2317,7 @@ export class Storage extends SimpleEventEmitter {
          * @param child
          * @param criteria criteria to test
          */
-        const checkChild = (child: NodeInfo, criteria: Array<{ key?: string; op: string, compare?: any }>) => {
+        const checkChild = (child: NodeInfo, criteria: Array<{ key?: string; op: string, compare?: any, collation?: CollationOptions }>) => {
             const promises = [] as Promise<{ isMatch: boolean }>[];
             const isMatch = criteria.every(f => {
                 let proceed = true;
@@ -1591,7 +2372,7 @@ export class Storage extends SimpleEventEmitter {
                         else if (child.valueType === VALUE_TYPES.STRING) {
                             const p = this.getNode(child.path, { tid })
                                 .then(node => {
-                                    return { key: child.key, isMatch: this.test(node.value, f.op, f.compare) };
+                                    return { key: child.key, isMatch: this.test(node.value, f.op, f.compare, f.collation) };
                                 });
                             promises.push(p);
                             proceed = true;
@@ -1609,7 +2390,7 @@ export class Storage extends SimpleEventEmitter {
                         proceed = (contains && f.op === 'contains') || (!contains && f.op === '!contains');
                     }
                     else {
-                        let ret = this.test(child.value, f.op, f.compare);
+                        let ret = this.test(child.value, f.op, f.compare, f.collation);
                         if (ret instanceof Promise) {
                             promises.push(ret);
                             ret = true;
@@ -1626,7 +2407,21 @@ export class Storage extends SimpleEventEmitter {
         return checkNode(path, criteria);
     }
 
-    test(val: any, op: string, compare: any) {
+    /**
+     * Tests a value against a filter
+     * @param collation collation to compare strings with, used by `<`, `<=`, `>`, `>=`, `between` and `!between`
+     */
+    test(val: any, op: string, compare: any, collation?: CollationOptions) {
+        if (collation && typeof val === 'string') {
+            const collator = getCollator(collation);
+            const diff = (other: unknown) => typeof other === 'string' ? compareStrings(val, other, collator) : NaN;
+            if (op === '<') { return diff(compare) < 0; }
+            if (op === '<=') { return diff(compare) <= 0; }
+            if (op === '>') { return diff(compare) > 0; }
+            if (op === '>=') { return diff(compare) >= 0; }
+            if (op === 'between') { return diff(compare[0]) >= 0 && diff(compare[1]) <= 0; }
+            if (op === '!between') { return diff(compare[0]) < 0 || diff(compare[1]) > 0; }
+        }
         if (op === '<') { return val < compare; }
         if (op === '<=') { return val <= compare; }
         if (op === '==') { return val === compare; }
@@ -1668,16 +2463,34 @@ export class Storage extends SimpleEventEmitter {
     /**
      * Export a specific path's data to a stream
      * @param path
-     * @param write function that writes to a stream, or stream object that has a write method that (optionally) returns a promise the export needs to wait for before continuing
+     * @param write function that writes to a stream, or stream object that has a write method that (optionally) returns a promise the export needs to wait for before continuing.
+     * With `format: 'binary'`, it receives `Uint8Array` chunks instead of strings
+     * @param options.format `'json'` (default), `'ndjson'` to write each child of the node on its own line, `'binary'` for a compact format
+     * that round-trips all value types exactly, or `'csv'` for collections of flat objects. See `./export-formats` for details
      * @returns returns a promise that resolves once all data is exported
      */
-    async exportNode(path: string, writeFn: ((str: string) => void|Promise<void>) | { write(str: string): void|Promise<void>}, options = { format: 'json', type_safe: true }): Promise<void> {
-        if (options?.format !== 'json') {
-            throw new Error('Only json output is currently supported');
+    async exportNode(
+        path: string,
+        writeFn: ((str: string) => void|Promise<void>) | { write(str: string): void|Promise<void>},
+        options: { format?: ExportFormat, type_safe?: boolean } = { format: 'json', type_safe: true },
+    ): Promise<void> {
+        const format = options?.format ?? 'json';
+        if (!['json', 'ndjson', 'binary', 'csv'].includes(format)) {
+            throw new Error(`Unsupported export format "${format}"`);
         }
         const write: ((str: string) => void|Promise<void>) = typeof writeFn !== 'function'
             ? writeFn.write.bind(writeFn) // Using the "old" stream argument. Use its write method for backward compatibility
             : writeFn;
+        options = { ...options, type_safe: options?.type_safe !== false };
+        if (format === 'ndjson') {
+            return exportNDJSON(this, path, write, { type_safe: options.type_safe });
+        }
+        else if (format === 'binary') {
+            return exportBinary(this, path, write as unknown as ExportWriteFunction<Uint8Array>);
+        }
+        else if (format === 'csv') {
+            return exportCSV(this, path, write);
+        }
 
         const stringifyValue = (type: number, val: any) => {
             const escape = (str: string) => str
@@ -1786,14 +2599,18 @@ export class Storage extends SimpleEventEmitter {
     /**
      * Import a specific path's data from a stream
      * @param path
-     * @param read read function that streams a new chunk of data
+     * @param read read function that streams a new chunk of data. With `format: 'binary'`, it must return `Uint8Array` chunks
      * @returns returns a promise that resolves once all data is imported
      */
     async importNode(
         path: string,
-        read: (bytes: number) => string | Utils.TypedArrayLike | Promise<string | Utils.TypedArrayLike>,
+        read: ImportReadFunction,
         options: Partial<{
-            format: 'json';
+            /**
+             * Format of the data, as exported with `exportNode`
+             * @default 'json'
+             */
+            format: ImportFormat;
             /**
             * How to store the imported data: 'set' and 'update' will use the same logic as when calling 'set' or 'update' on the target,
             * 'merge' will do something special: it will use 'update' logic on all nested child objects:
@@ -1806,6 +2623,16 @@ export class Storage extends SimpleEventEmitter {
             suppress_events: boolean;
         }> = { format: 'json', method: 'set' },
     ): Promise<void> {
+        const format = options.format ?? 'json';
+        if (format === 'ndjson' || format === 'binary') {
+            const importOptions = { method: options.method ?? 'set', suppress_events: options.suppress_events, context: { acebase_import_id: ID.generate() } };
+            return format === 'ndjson'
+                ? importNDJSON(this, path, read, importOptions)
+                : importBinary(this, path, read, importOptions);
+        }
+        else if (format !== 'json') {
+            throw new Error(`Unsupported import format "${format}"`);
+        }
         const chunkSize = 256 * 1024; // 256KB
         const maxQueueBytes = 1024 * 1024; // 1MB
         const state = {
@@ -2232,11 +3059,756 @@ export class Storage extends SimpleEventEmitter {
 
 
     /**
-     * Adds, updates or removes a schema definition to validate node values before they are stored at the specified path
+     * Whether mutations are logged to the transaction log. Never the case for the storage holding the log itself
+     */
+    get transactionLoggingEnabled() {
+        return this.settings.transactions && this.settings.transactions.log === true && this.settings.type !== 'transaction';
+    }
+
+    /**
+     * Adds a mutation to the transaction log
+     * @returns Returns the cursor of the logged mutation, or a promise that resolves with the cursor once it has
+     * been logged if the `noWait` transaction log setting is not enabled
+     */
+    logMutation(
+        type: 'set' | 'update',
+        path: string,
+        value: any,
+        context: { acebase_cursor: string },
+        mutations: IAppliedMutations,
+    ): string | Promise<string> {
+        // Add to transaction log
+        if (!['set','update'].includes(type)) { throw new TypeError('type must be either "set" or "update"'); }
+        if (!this.transactionLoggingEnabled) { throw new Error('transaction logging is not enabled on database'); }
+        if (!context.acebase_cursor) { throw new Error('context.acebase_cursor must have been set'); }
+        if (mutations.list.length === 0) {
+            // There were no changes, nothing to log.
+            return;
+        }
+        if (path.startsWith('__')) {
+            // Don't log mutations on private paths
+            return;
+        }
+
+        if (value === null) {
+            // Target path was deleted. Log the mutation on parent node: prevents 2 different delete flows and allows for uniform getMutations logic
+            const pathInfo = PathInfo.get(path);
+            type = 'update';
+            path = pathInfo.parentPath;
+            value = { [pathInfo.key]: null };
+        }
+
+        const updatedKeys = mutations.path === path
+            ? mutations.list.filter(ch => ch.target.length > 1 || (ch.target.length === 1 && ch.val !== null)).map(ch => ch.target[0])
+            : value instanceof Array ? Object.keys(value).map(key => +key) : Object.keys(value).filter(key => value[key] !== null);
+        const deletedKeys = mutations.path === path
+            ? mutations.list.filter(ch => ch.target.length === 1 && ch.val === null).map(ch => ch.target[0])
+            : [];
+        const item: StoredMutation = {
+            path,
+            updated: updatedKeys,
+            deleted: deletedKeys,
+            timestamp: Date.now(),
+            type,
+            value,
+            context,
+            mutations,
+        };
+
+        const cursor = context.acebase_cursor;
+        const store = async () => {
+            try {
+                await this.writeMutation(cursor, item);
+            }
+            catch(err) {
+                this.debug.error('Failed to add to transaction log: ', err);
+            }
+        };
+
+        const promise = store();
+        if (!this.settings.transactions.noWait) {
+            return promise.then(() => cursor);
+        }
+        return cursor;
+    }
+
+    /**
+     * Executes a set or update operation, and adds its applied mutations to the transaction log if logging is enabled
+     * @param write function that performs the write using given context and value, resolves with the applied mutations.
+     * The value passed to it includes the expiry dates of matching `ttl` rules
+     * @param options.collect_mutations if set, the write is part of a multi-path transaction that already generated
+     * its cursor, and will log all its applied mutations at once
+     * @returns Returns the new cursor if transaction logging is enabled
+     */
+    protected async loggedWrite(
+        type: 'set' | 'update',
+        path: string,
+        value: any,
+        options: { context?: any, collect_mutations?: IAppliedMutations[] },
+        write: (context: any, value: any) => Promise<IAppliedMutations | void>,
+    ): Promise<string | void> {
+        options.context = options.context || {};
+        if (this.transactionLoggingEnabled && !options.collect_mutations) {
+            options.context.acebase_cursor = ID.generate();
+        }
+        const context = cloneObject(options.context); // copy context to prevent changes while code proceeds async
+        if (this.settings.ttl) {
+            value = stampExpiry(this.settings.ttl, path, value);
+        }
+        const mutations = await write(context, value);
+        if (options.collect_mutations) {
+            mutations && options.collect_mutations.push(mutations);
+        }
+        else if (this.transactionLoggingEnabled && mutations) {
+            const p = this.logMutation(type, path, value, context as { acebase_cursor: string }, mutations);
+            if (p instanceof Promise) { await p; }
+        }
+        return options.context.acebase_cursor;
+    }
+
+    /**
+     * Stores a mutation in the transaction log. Storage classes that support transaction logging must
+     * override this method, `readMutations`, `readMutation` and `removeMutations`
+     * @param cursor generated cursor of the mutation, used as its unique key
+     */
+    protected async writeMutation(cursor: string, mutation: StoredMutation): Promise<void> {
+        throw new Error('Transaction logging is not supported by this storage type');
+    }
+
+    /**
+     * Reads the headers of all logged mutations with a cursor that is equal to or later than given (shortened) cursor
+     * @param cursor (start of) the cursor to read from, `'00000000'` reads all logged mutations
+     */
+    protected async readMutations(cursor: string): Promise<Array<{ cursor: string, mutation: StoredMutationHeader }>> {
+        throw new Error('Transaction logging is not supported by this storage type');
+    }
+
+    /**
+     * Reads the context, applied mutations and value of a logged mutation
+     * @param cursor cursor of the logged mutation
+     * @param valuePath optional trailing path of the target data in the mutation's value, can include wildcards.
+     * Storage classes can use this to only load the target data, returning the entire value is fine too
+     */
+    protected async readMutation(cursor: string, valuePath?: string): Promise<Pick<StoredMutation, 'context' | 'mutations' | 'value'>> {
+        throw new Error('Transaction logging is not supported by this storage type');
+    }
+
+    /**
+     * Removes all logged mutations with a cursor earlier than given (shortened) cursor
+     */
+    protected async removeMutations(before: string): Promise<void> {
+        throw new Error('Transaction logging is not supported by this storage type');
+    }
+
+    /**
+     * Gets all mutations from a given cursor or timestamp on a given path, or on multiple paths that are relevant for given events
+     */
+    async getMutations(filter: {
+        /**
+         * cursor is a generated key (ID.generate) that represents a point of time
+         */
+        cursor?: string;
+        /**
+         * earliest transaction to include, will be converted to a cursor
+         */
+        timestamp?: number;
+        /**
+         * top-most paths to include. Can include wildcards to facilitate wildcard event listeners. Only used if `for` filter is not used, equivalent to `for: { path, events: ['value] }
+         */
+        path?: string;
+        /**
+         * Specifies which paths and events to get all relevant mutations for
+         */
+        for?: Array<{ path: string, events:string[] }>
+    }): Promise<{
+        used_cursor: string,
+        new_cursor: string,
+        mutations: Array<{
+            path: string,
+            type: 'set' | 'update',
+            value: any,
+            context: any,
+            id: string,
+            timestamp: number,
+            changes: IAppliedMutations,
+        }>
+    }> {
+        if (!this.transactionLoggingEnabled) { throw new Error('Transaction logging is not enabled'); }
+        const cursor = // Use given cursor, timestamp or nothing to filter on
+            (filter.cursor && filter.cursor.slice(0, 8))
+            || (filter.timestamp && (new Date(filter.timestamp).getTime()).toString(36).padStart(8, '0'))
+            || '00000000';
+        const since =
+            (typeof filter.timestamp === 'number' && filter.timestamp)
+            || (cursor && parseInt(cursor, 36))
+            || 0;
+
+        // Check if cursor is not too old
+        const oldestValidCursor = this.oldestValidCursor;
+        if (since !== 0 && cursor < oldestValidCursor) {
+            throw new Error('Cursor too old');
+        }
+
+        if (!filter.for || filter.for.length === 0) {
+            filter.for = [{ path: typeof filter.path === 'string' ? filter.path : '', events: ['value'] }]; // Use filter.path, or root node as single path
+        }
+
+        // Get filter paths, filter out paths that are descendants of another path
+        const filterPaths = filter.for.filter(t1 => {
+            const pathInfo = PathInfo.get(t1.path);
+            return !filter.for.some(t2 => pathInfo.isDescendantOf(t2.path));
+        }).map(item => item.path);
+
+        type MutationItem = { id: string, path: string, type: 'set'|'update', timestamp: number, value: any, context: any, changes: IAppliedMutations };
+        let mutations = [] as MutationItem[];
+
+        const hasValue = (val: any) => ![undefined,null].includes(val);
+        const hasPropertyValue = (val: any, prop: string | number) => hasValue(val) && typeof val === 'object' && hasValue(val[prop]);
+
+        const check = async (key: string, mutation: StoredMutationHeader) => {
+            const keys = mutation.updated.concat(mutation.deleted);
+            const mutationPathInfo = PathInfo.get(mutation.path);
+
+            // Find the path in filter.paths on this trail, there can only be 1 (descendants were filtered out above)
+            const filterPath = (() => {
+                const path = filterPaths.find(path => mutationPathInfo.isOnTrailOf(path));
+                return typeof path === 'string' ? path : null;
+            })();
+            const filterPathInfo = filterPath === null ? null : PathInfo.get(filterPath);
+            const load = (() => {
+                /**
+                 * When to include a mutation & what data to include.
+                 * - mutation.path starts with __ (private path)
+                 *      - ignore
+                 * - filterPath === null if no filter paths were on the same trail as mutation.path
+                 *      - eg: filterPaths on ["books/book1", "books/book2"], mutation.path === "books/book3"
+                 *      - ignore
+                 * - filterPath equals mutation.path
+                 *      - eg: filterPath === mutation.path === "books/book1"
+                 *      - use entire mutation
+                 * - filterPath is an ancestor of mutation.path
+                 *      - eg: filterPath === "books", mutation.path === "books/book1"
+                 *      - use entire mutation
+                 * - filterPath is a descendant of mutation.path
+                 *      - eg: filterPath === "books/book1/title", mutation.path === "books"
+                 *      - ignore if mutation.type === 'update' and keys does NOT include first trailing key of filterPath (eg only book2 is updated)
+                 *      - if filterPath has wildcard (*, $var) keys, repeat following step recursively:
+                 *      - use target (trailing) data in mutation value (value/books/book1/title) or null
+                 */
+                if (mutation.path.startsWith('__')) {
+                    return 'none';
+                }
+                if (mutation.timestamp < since || filterPath === null) {
+                    return 'none';
+                }
+                if (!filterPathInfo.isDescendantOf(mutationPathInfo)) {
+                    return 'all';
+                }
+                if (mutation.type === 'set' || keys.concat('*').includes(filterPathInfo.keys[mutationPathInfo.keys.length]) || filterPathInfo.keys[mutationPathInfo.keys.length].toString().startsWith('$')) {
+                    return 'target';
+                }
+                return 'none';
+            })();
+
+            if (load !== 'none') {
+                const valuePath = load === 'target' ? filterPath.slice(mutation.path.length).replace(/^\//, '') : undefined;
+                const tx = await this.readMutation(key, valuePath);
+                const targetPath = mutation.path;
+                let targetValue = tx.value, targetOp = mutation.type;
+                if (typeof targetValue === 'undefined') {
+                    targetValue = null;
+                }
+                else {
+                    // Add removed properties to the target value again
+                    mutation.deleted.forEach(key => targetValue[key] = null);
+                }
+                for (const m of tx.mutations.list) {
+                    if (typeof m.val === 'undefined') { m.val = null; }
+                    if (typeof m.prev === 'undefined') { m.prev = null; }
+                }
+                if (load === 'target') {
+                    targetOp = 'set';
+                    const trailKeys = filterPathInfo.keys.slice(mutationPathInfo.keys.length);
+                    const process = (targetPath: string, targetValue: any, trailKeys: (string | number)[]) => {
+                        const childKey = trailKeys[0];
+                        trailKeys = trailKeys.slice(1);
+                        if (childKey === '*' || childKey.toString().startsWith('$')) {
+                            // Wildcard. Process all child keys
+                            return Object.keys(targetValue).forEach(childKey => {
+                                process(targetPath, targetValue, [childKey, ...trailKeys]);
+                            });
+                        }
+                        targetPath = PathInfo.getChildPath(targetPath, childKey);
+                        targetValue = targetValue !== null && childKey in targetValue ? targetValue[childKey] : null;
+                        if (trailKeys.length === 0) {
+                            // console.log(`Adding mutation on "${targetPath}" to history of "${filterPathInfo.path}"`)
+                            // Check if the targeted value actually changed
+                            const targetPathInfo = PathInfo.get(targetPath);
+                            const hasTargetMutation = tx.mutations.list.some(m => {
+                                const mTargetPathInfo = PathInfo.get(tx.mutations.path).child(m.target);
+                                if (mTargetPathInfo.isAncestorOf(targetPathInfo)) {
+                                    // Mutation on higher path, check if target mutation prev and val are different
+                                    const trailKeys = targetPathInfo.keys.slice(mTargetPathInfo.keys.length);
+                                    const val = !hasValue(m.val) ? null : trailKeys.reduce((val, key) => hasPropertyValue(val, key) ? val[key] : null, m.val);
+                                    const prev = !hasValue(m.prev) ? null : trailKeys.reduce((prev, key) => hasPropertyValue(prev, key) ? prev[key] : null, m.prev);
+                                    return (val !== prev);
+                                }
+                                return mTargetPathInfo.isOnTrailOf(targetPathInfo);
+                            });
+                            hasTargetMutation && mutations.push({ id: key, path: targetPath, type: targetOp, timestamp: mutation.timestamp, value: targetValue, context: tx.context, changes: tx.mutations });
+                        }
+                        else {
+                            process(targetPath, targetValue, trailKeys); // Deeper
+                        }
+                    };
+                    process(targetPath, targetValue, trailKeys);
+                }
+                else {
+                    // console.log(`Adding mutation on "${targetPath}" to history of "${filterPathInfo.path}"`)
+                    mutations.push({ id: key, path: targetPath, type: targetOp, timestamp: mutation.timestamp, value: targetValue, context: tx.context, changes: tx.mutations }); // TODO remove __mutation__: mutation
+                }
+            }
+        };
+
+        const entries = await this.readMutations(cursor);
+        const inspectFurther = entries.filter(entry => entry.cursor.slice(0, cursor.length) === cursor).map(entry => entry.cursor);
+        await Promise.all(entries.map(entry => check(entry.cursor, entry.mutation)));
+
+        if (oldestValidCursor !== '') {
+            // Remove expired transactions. No need to await this
+            this.removeMutations(oldestValidCursor).catch(err => {
+                this.debug.error('Failed to remove expired transactions from log: ', err);
+            });
+        }
+
+        if (inspectFurther.length === 1 && inspectFurther[0] === filter.cursor) {
+            // This is the exact cursor the caller used as filter, remove this mutation from results
+            const index = mutations.findIndex(m => m.id === filter.cursor);
+            index >= 0 && mutations.splice(index, 1);
+        }
+        else if (inspectFurther.length > 1) {
+            // More than one mutation was performed within the same millisecond of the used cursor filter.
+            // We can't reliably use the counter bytes of the cuid to check which mutation came before or after,
+            // because the cuid counter number rolls over (later cuid might have smaller counter), and they might
+            // have been generated by other threads (both using a different counter).
+            // Include all these mutations.
+            // NOTE that it is practically impossible to have more than 1 mutation in the same millisecond that
+            // could conflict with another because of the currently used locking mechanism - this will *probably* never
+            // happen.
+        }
+
+        // Make sure they are sorted
+        mutations.sort((a, b) => a.timestamp - b.timestamp);
+
+        // Toss all mutations the caller is not interested in
+        const hasNewKeys = (val: any, prev: any) => Object.keys(val || {}).some(key => !(key in (prev || {})));
+        const hasRemovedKeys = (val: any, prev: any) => Object.keys(prev || {}).some(key => !(key in (val || {})));
+        const allEventsFor = (...events: string[]) => events.concat(...events.map(e => `notify_${e}`));
+        const hasEvent = (events: string[], check: string[]) => allEventsFor(...check).some(e => events.includes(e));
+        mutations = mutations.filter(item => {
+
+            // Get all changes as 'set' operations so we can compare
+            const changes = (() => {
+                const basePathInfo = PathInfo.get(item.changes.path);
+                if (basePathInfo.isAncestorOf(item.path)) {
+                    // Mutation has been recorded on higher path.
+                    // - Remove changes that are not on the requested target, caller might not have rights to read them
+                    // - Modify relevant changes to be on target path
+                    for (let i = 0; i < item.changes.list.length; i++) {
+                        const ch = item.changes.list[i];
+                        // item.path === 'library/books/book1'
+                        // item.changes.path === 'library/books'
+                        // m.target === ['book1']
+                        // m.value === { ... }
+                        const trailKeys = PathInfo.get(item.path).keys.slice(basePathInfo.keys.length);
+
+                        // Remove mutation from list if it's not on the target
+                        const onTarget = ch.target.every((key, index) => key === trailKeys[index]);
+                        if (!onTarget) {
+                            item.changes.list.splice(i, 1);
+                            i--; continue;
+                        }
+
+                        // Remove target keys from trail
+                        trailKeys.splice(0, ch.target.length);
+
+                        const val = !hasValue(ch.val) ? null : trailKeys.reduce((val, key) => hasPropertyValue(val, key) ? val[key] : null, ch.val);
+                        const prev = !hasValue(ch.prev) ? null : trailKeys.reduce((prev, key) => hasPropertyValue(prev, key) ? prev[key] : null, ch.prev);
+                        if (val === prev) {
+                            // This mutation has no changes on target path
+                            item.changes.list.splice(i, 1);
+                            i--; continue;
+                        }
+                        ch.val = val;
+                        ch.prev = prev;
+                        ch.target.push(...trailKeys); // Adjust target
+                    }
+                    if (item.changes.list.length === 0) {
+                        // Skip, no changes on target path
+                        return [];
+                    }
+                }
+                // Return all changes as individual 'set' operations
+                return item.changes.list.map(m => {
+                    const targetPathInfo = m.target.length === 0 ? basePathInfo : basePathInfo.child(m.target);
+                    return {
+                        id: item.id,
+                        type: 'set',
+                        path: targetPathInfo.path,
+                        pathInfo: targetPathInfo,
+                        timestamp: item.timestamp,
+                        context: item.context,
+                        prev: hasValue(m.prev) ? m.prev : null,
+                        val: hasValue(m.val) ? m.val : null,
+                    };
+                });
+            })();
+
+            // Now, are any of these changes relevant to any of the requested path/event combinations?
+            return changes.some(ch => {
+                return filter.for.some(target => {
+
+                    if (!ch.pathInfo.isOnTrailOf(target.path)) {
+                        return false;
+                    }
+                    else if ((ch.pathInfo.equals(target.path) || ch.pathInfo.isDescendantOf(target.path))
+                        && hasEvent(target.events, ['value','child_changed','mutated','mutations'])) {
+                        return true;
+                    }
+                    else if (ch.pathInfo.equals(target.path)) {
+                        // mutation on target: value is being overwritten.
+                        if (hasEvent(target.events, ['value','child_changed','mutated','mutations'])) {
+                            return true;
+                        }
+                        if (hasEvent(target.events, ['child_added']) && hasNewKeys(ch.val, ch.prev)) {
+                            return true;
+                        }
+                        if (hasEvent(target.events, ['child_removed']) && hasRemovedKeys(ch.val, ch.prev)) {
+                            return true;
+                        }
+                    }
+                    else if (ch.pathInfo.isDescendantOf(target.path)) {
+                        // mutation on deeper than target path
+                        // eg: mutation on path 'books/book1/title', child_added target on 'books'
+                        // Events [child_changed, value, mutated, mutations] will already have returned true above
+                        if(hasEvent(target.events, ['child_added','child_removed'])) {
+                            if (!ch.pathInfo.isChildOf(target.path)) { return false; }
+                            if (hasEvent(target.events, ['child_added']) && ch.prev === null) { return true; }
+                            if (hasEvent(target.events, ['child_removed']) && ch.val === null) { return true; }
+                        }
+                    }
+                    else {
+                        // Mutation on higher than target path.
+                        // eg mutation on path 'books/book1', child_changed on target 'books/book1/authors'
+                        // Get values at target path
+                        const trailKeys = PathInfo.getPathKeys(target.path).slice(ch.pathInfo.keys.length);
+                        const prev = trailKeys.reduce((prev, key) => hasValue(prev) && hasPropertyValue(prev, key) ? prev[key] : null, ch.prev);
+                        const val = trailKeys.reduce((val, key) => hasValue(val) && hasPropertyValue(val, key) ? val[key] : null, ch.val);
+                        if (prev === val) { return false; }
+                        if (hasEvent(target.events, ['value','mutated','mutations'])) {
+                            return true;
+                        }
+                        if (hasEvent(target.events, ['child_added']) && hasNewKeys(val, prev)) {
+                            return true;
+                        }
+                        if (hasEvent(target.events, ['child_removed']) && hasRemovedKeys(val, prev)) {
+                            return true;
+                        }
+                    }
+                    return false;
+                });
+            });
+        });
+
+        return { mutations, used_cursor: filter.cursor, new_cursor: ID.generate() };
+    }
+
+    /**
+     * Gets all effective changes from a given cursor or timestamp on a given path, or on multiple paths that are relevant for given events.
+     * Multiple mutations will be merged so the returned changes will not have their original updating contexts and order of the original timeline.
+     */
+    async getChanges(filter: {
+        /**
+         * cursor is a generated key (ID.generate) that represents a point of time
+         */
+        cursor?: string;
+        /**
+         * earliest transaction to include, will be converted to a cursor
+         */
+        timestamp?: number;
+        /**
+         * top-most paths to include. Can include wildcards to facilitate wildcard event listeners. Only used if `for` filter is not used,
+         * equivalent to `for: { path, events: ['value] }
+         */
+        path?: string;
+        /**
+         * Specifies which paths and events to get all relevant mutations for
+         */
+        for?: Array<{ path: string; events:string[] }>;
+    }): Promise<{
+        used_cursor: string;
+        new_cursor: string;
+        changes: Array<{
+            path: string;
+            type: 'set' | 'update';
+            previous: any;
+            value: any;
+            context: any;
+        }>;
+    }> {
+        const mutationsResult = await this.getMutations(filter);
+        const { used_cursor, new_cursor, mutations } = mutationsResult;
+
+        const hasValue = (val: any) => ![undefined,null].includes(val);
+
+        // Get effective changes to the target paths
+        const arr = mutations.reduce((all, item) => {
+            // 1. Add all effective mutations as 'set' operations on their target paths, removing previous 'set' mutations on the same or descendant paths
+            const basePathInfo = PathInfo.get(item.changes.path);
+            item.changes.list.forEach(m => {
+                const targetPathInfo = m.target.length === 0 ? basePathInfo : basePathInfo.child(m.target);
+
+                // Remove previous 'set' mutations on the same and descendant paths
+                all = all.filter(prev => !prev.pathInfo.equals(targetPathInfo) && !prev.pathInfo.isDescendantOf(targetPathInfo));
+
+                all.push({
+                    id: item.id,
+                    type: 'set',
+                    path: targetPathInfo.path,
+                    pathInfo: targetPathInfo,
+                    timestamp: item.timestamp,
+                    context: item.context,
+                    prev: hasValue(m.prev) ? m.prev : null,
+                    val: hasValue(m.val) ? m.val : null,
+                });
+            });
+            return all;
+        }, [] as Array<{
+            id: string;
+            type: 'set';
+            path: string;
+            pathInfo: PathInfo;
+            timestamp: number;
+            context: any;
+            prev: any;
+            val: any;
+        }>).reduce((all, item) => {
+            // 2. Merge successive 'set' mutations on the same parent to single parent 'update's, using last used context
+            if (item.path === '') {
+            // 'set' on the root path. Don't change
+                all.push(item);
+            }
+            else {
+                const pathInfo = item.pathInfo;
+                const parentPath = pathInfo.parentPath;
+                const parentUpdate = all.find(u => u.path === parentPath);
+                if (!parentUpdate) {
+                    // Create new parent update
+                    all.push({
+                        id: item.id,
+                        type: 'update',
+                        path: parentPath,
+                        pathInfo: pathInfo.parent,
+                        val: { [pathInfo.key]: item.val },
+                        prev: { [pathInfo.key]: item.prev },
+                        context: item.context,
+                    });
+                }
+                else {
+                    // Add this change to parent update
+                    parentUpdate.val[pathInfo.key] = item.val;
+                    if (parentUpdate.prev !== null) { // previous === null on very first root 'set' only
+                        parentUpdate.prev[pathInfo.key] = item.prev;
+                    }
+                    parentUpdate.context = item.context;
+                }
+            }
+            return all;
+        }, [] as Array<{
+            id: string;
+            type: 'set'|'update';
+            path: string;
+            pathInfo: PathInfo;
+            val: any;
+            prev: any;
+            context: any;
+        }>);
+
+
+        // Transform results to desired output
+        const changes = arr.map(item => ({
+            id: item.id,
+            type: item.type,
+            path: item.path,
+            context: { acebase_cursor: item.context.acebase_cursor }, // Replace original context
+            value: item.val,
+            previous: item.prev,
+        }));
+
+        return { used_cursor, new_cursor, changes };
+    }
+
+    /**
+     * Rolls back a subtree or the entire database to a previous point in time, by replaying the inverse of all logged mutations made since then.
+     * The restoring writes are logged themselves, so a restore can be undone in the same way.
+     */
+    async restoreTo(options: RestoreToOptions): Promise<RestoreToResult> {
+        if (!this.transactionLoggingEnabled) { throw new Error('Transaction logging is not enabled'); }
+        if (typeof options.cursor !== 'string' && typeof options.timestamp !== 'number') {
+            throw new Error('cursor or timestamp must be specified');
+        }
+        const cursor = typeof options.cursor === 'string'
+            ? options.cursor.slice(0, 8)
+            : options.timestamp.toString(36).padStart(8, '0');
+        if (cursor < this.oldestValidCursor) {
+            throw new Error('Cursor too old');
+        }
+        const targetPathInfo = PathInfo.get(typeof options.path === 'string' ? options.path : '');
+        const hasValue = (val: any) => ![undefined,null].includes(val);
+        const getTrailValue = (val: any, trailKeys: Array<string | number>) => trailKeys.reduce((val, key) => hasValue(val) && typeof val === 'object' && hasValue(val[key]) ? val[key] : null, val);
+
+        // Get all logged mutations on the target's trail that were made after the restore point, newest first.
+        // Mutations made within the same millisecond of a given cursor are only included if they were logged after it
+        const entries = (await this.readMutations(cursor))
+            .filter(({ cursor: key, mutation }) =>
+                (typeof options.cursor !== 'string' || key > options.cursor)
+                && (typeof options.timestamp !== 'number' || mutation.timestamp > options.timestamp)
+                && !mutation.path.startsWith('__')
+                && targetPathInfo.isOnTrailOf(mutation.path),
+            )
+            .sort((a, b) => b.mutation.timestamp - a.mutation.timestamp || (a.cursor < b.cursor ? 1 : -1));
+
+        // Build the inverse 'set' operations to replay, in order
+        const operations = [] as Array<{ pathInfo: PathInfo; value: any }>;
+        let reverted = 0;
+        for (const entry of entries) {
+            const { mutations } = await this.readMutation(entry.cursor);
+            const basePathInfo = PathInfo.get(mutations.path);
+            const count = operations.length;
+            for (const m of mutations.list) {
+                const pathInfo = m.target.length === 0 ? basePathInfo : basePathInfo.child(m.target);
+                const prev = hasValue(m.prev) ? m.prev : null;
+                if (pathInfo.isAncestorOf(targetPathInfo)) {
+                    // Mutation on higher path, use previous value of the target if it changed
+                    const trailKeys = targetPathInfo.keys.slice(pathInfo.keys.length);
+                    const targetPrev = getTrailValue(prev, trailKeys);
+                    if (compareValues(getTrailValue(hasValue(m.val) ? m.val : null, trailKeys), targetPrev) !== 'identical') {
+                        operations.push({ pathInfo: targetPathInfo, value: targetPrev });
+                    }
+                }
+                else if (pathInfo.isOnTrailOf(targetPathInfo)) {
+                    // Mutation on or below the target
+                    operations.push({ pathInfo, value: prev });
+                }
+            }
+            operations.length > count && reverted++;
+        }
+
+        // Apply all operations to the current values of the top-most changed paths, so we get the effective changes
+        const setTrailValue = (target: any, keys: Array<string | number>, value: any): any => {
+            if (keys.length === 0) { return value; }
+            const [key, ...trailKeys] = keys;
+            if (!hasValue(target) || typeof target !== 'object') {
+                if (value === null) { return target; }
+                target = typeof key === 'number' ? [] : {};
+            }
+            const child = setTrailValue(key in target ? target[key] : null, trailKeys, value);
+            if (!hasValue(child)) {
+                target instanceof Array ? target.splice(key as number, 1) : delete target[key];
+            }
+            else {
+                target[key] = child;
+            }
+            return target;
+        };
+        const restoreValue = (pathInfo: PathInfo, current: any) => {
+            let restored = cloneObject(current);
+            for (const op of operations) {
+                if (op.pathInfo.isAncestorOf(pathInfo)) {
+                    // Operation on the root node
+                    restored = cloneObject(getTrailValue(op.value, pathInfo.keys.slice(op.pathInfo.keys.length)));
+                }
+                else if (op.pathInfo.equals(pathInfo) || op.pathInfo.isDescendantOf(pathInfo)) {
+                    const trailKeys = op.pathInfo.keys.slice(pathInfo.keys.length);
+                    restored = setTrailValue(restored, trailKeys, cloneObject(op.value));
+                }
+            }
+            return restored;
+        };
+        let topPaths = operations
+            .filter(op => !operations.some(other => op.pathInfo.isDescendantOf(other.pathInfo)))
+            .map(op => op.pathInfo)
+            .filter((pathInfo, index, arr) => arr.findIndex(other => other.equals(pathInfo)) === index);
+        if (topPaths.some(pathInfo => pathInfo.path === '')) {
+            // The root node cannot be removed or written in a transaction, restore all its children instead
+            const root = (await this.getNode('')).value;
+            const keys = new Set<string | number>(hasValue(root) ? Object.keys(root) : []);
+            for (const op of operations) {
+                const value = op.pathInfo.keys.length === 0 ? op.value : null;
+                op.pathInfo.keys.length > 0 && keys.add(op.pathInfo.keys[0]);
+                hasValue(value) && typeof value === 'object' && Object.keys(value).forEach(key => keys.add(key));
+            }
+            topPaths = [...keys].map(key => PathInfo.get([key]));
+        }
+
+        const changes = [] as RestoreToResult['changes'];
+        const getChanges = (values: any[]) => values.map((value, i) => {
+            const current = hasValue(value) ? value : null;
+            const restored = restoreValue(topPaths[i], current);
+            if (compareValues(current, restored) === 'identical') {
+                return undefined;
+            }
+            changes.push({ path: topPaths[i].path, current, restored });
+            return restored;
+        });
+        if (options.dryRun) {
+            const values = [] as any[];
+            for (const pathInfo of topPaths) {
+                values.push((await this.getNode(pathInfo.path)).value);
+            }
+            getChanges(values);
+        }
+        else if (topPaths.length > 0) {
+            // Lock and write all paths in a single transaction, so changes made in the meantime are not overwritten
+            const context = { acebase_restore: { cursor: options.cursor, timestamp: options.timestamp } };
+            await this.transactNodes(topPaths.map(pathInfo => pathInfo.path), getChanges, { context });
+        }
+
+        return { reverted, changes };
+    }
+
+    get oldestValidCursor() {
+        if (this.settings.transactions.maxAge <= 0) {
+            return '';
+        }
+        const msPerDay = 86400000, // 24 * 60 * 60 * 1000
+            maxAgeMs = this.settings.transactions.maxAge * msPerDay,
+            limit = Date.now() - maxAgeMs,
+            cursor = limit.toString(36);
+        return cursor;
+    }
+
+    /**
+     * Adds, updates or removes a schema definition to validate node values before they are stored at the specified path.
+     * The definition is stored in the database, and other processes connected through IPC are notified
      * @param path target path to enforce the schema on, can include wildcards. Eg: 'users/*\/posts/*' or 'users/$uid/posts/$postid'
      * @param schema schema type definitions. When null value is passed, a previously set schema is removed.
      */
-    setSchema(path: string, schema: string|object, warnOnly = false) {
+    async setSchema(path: string, schema: string|object, warnOnly = false) {
+        const definition = this.defineSchema(path, schema, warnOnly);
+        // Store and send the text notation of the schema: classes and regular expressions used in
+        // schema objects don't survive serialization
+        const text = definition?.text ?? null;
+        const write = this._schemaWrites.then(() => this.writeSchema(path, text === null ? null : { schema: text, warnOnly }));
+        this._schemaWrites = write.catch(() => { /* Handled by caller */ });
+        await write;
+        this.ipc.sendNotification({ type: 'schema.set', path, schema: text, warnOnly });
+    }
+
+    /**
+     * Adds, updates or removes a schema definition in memory only
+     */
+    private defineSchema(path: string, schema: string|object, warnOnly: boolean): SchemaDefinition | null {
         if (typeof schema === 'undefined') {
             throw new TypeError('schema argument must be given');
         }
@@ -2244,7 +3816,7 @@ export class Storage extends SimpleEventEmitter {
             // Remove previously set schema on path
             const i = this._schemas.findIndex(s => s.path === path);
             i >= 0 && this._schemas.splice(i, 1);
-            return;
+            return null;
         }
         // Parse schema, add or update it
         const definition = new SchemaDefinition(schema, {
@@ -2263,6 +3835,30 @@ export class Storage extends SimpleEventEmitter {
                 return ka.length < kb.length ? -1 : 1;
             });
         }
+        return definition;
+    }
+
+    /**
+     * Loads all schema definitions stored in the database, must be called by storage classes before emitting the `ready` event
+     */
+    protected async loadSchemas() {
+        const schemas = await this.readSchemas();
+        schemas.forEach(({ path, schema, warnOnly }) => this.defineSchema(path, schema, warnOnly));
+    }
+
+    /**
+     * Reads all schema definitions stored in the database. Storage classes that are able to
+     * store schema definitions must override this method and `writeSchema`
+     */
+    protected async readSchemas(): Promise<StoredSchemaDefinition[]> {
+        return [];
+    }
+
+    /**
+     * Stores a schema definition in the database, or removes it if `definition` is `null`
+     */
+    protected async writeSchema(path: string, definition: Omit<StoredSchemaDefinition, 'path'> | null): Promise<void> {
+        this.debug.warn(`Schema definitions cannot be stored by this storage type, schema for path "/${path}" must be set again when the database is opened next time`);
     }
 
     /**
@@ -0,0 +1,238 @@
+import { PathInfo, Transport, Utils, ascii85 } from 'acebase-core';
+import { StorageEnv, StorageSettings, StoredMutation, StoredSchemaDefinition } from '..';
+import { CustomStorage, CustomStorageSettings, CustomStorageTransaction, ICustomStorageNode, ICustomStorageNodeMetaData } from '../custom';
+import { pfs } from '../../promise-fs';
+const { cloneObject } = Utils;
+
+export class MemoryStorageSettings extends StorageSettings {
+
+    /**
+     * Optional file to save a snapshot of all data, schema definitions, logged mutations and index files to when the database is closed.
+     * If the file exists, the database is loaded from it when opened. Only available in Node.js
+     */
+    snapshot?: string;
+
+    constructor(settings: Partial<MemoryStorageSettings> = {}) {
+        super(settings);
+        if (typeof settings.snapshot === 'string') { this.snapshot = settings.snapshot; }
+    }
+}
+
+/**
+ * Nodes, schema definitions, logged mutations and index files of a MemoryStorage database
+ */
+class MemoryStorageData {
+    nodes = new Map<string, ICustomStorageNode>();
+    /** child paths of each parent path, prevents having to check all nodes to find children */
+    children = new Map<string, Set<string>>();
+    schemas = [] as StoredSchemaDefinition[];
+    /** serialized mutations, copies are deserialized when read */
+    mutations = new Map<string, any>();
+    indexFiles = new Map<string, Uint8Array>();
+
+    set(path: string, node: ICustomStorageNode) {
+        if (!this.nodes.has(path) && path !== '') {
+            const parentPath = PathInfo.get(path).parentPath;
+            const children = this.children.get(parentPath) ?? this.children.set(parentPath, new Set()).get(parentPath);
+            children.add(path);
+        }
+        this.nodes.set(path, node);
+    }
+
+    remove(path: string) {
+        if (this.nodes.delete(path) && path !== '') {
+            const parentPath = PathInfo.get(path).parentPath;
+            const children = this.children.get(parentPath);
+            children.delete(path);
+            children.size === 0 && this.children.delete(parentPath);
+        }
+    }
+
+    async load(file: string) {
+        const json = await pfs.readFile(file, 'utf8') as string;
+        const snapshot = JSON.parse(json) as { nodes: Array<[string, ICustomStorageNode]>, schemas: StoredSchemaDefinition[], mutations: Array<[string, any]>, indexFiles?: Array<[string, string]> };
+        snapshot.nodes.forEach(([path, node]) => this.set(path, node));
+        this.schemas = snapshot.schemas;
+        this.mutations = new Map(snapshot.mutations);
+        (snapshot.indexFiles ?? []).forEach(([name, data]) => this.indexFiles.set(name, new Uint8Array(ascii85.decode(data))));
+    }
+
+    async save(file: string) {
+        // Write to a temporary file first, so an existing snapshot is not lost if writing fails
+        const indexFiles = [...this.indexFiles].map(([name, data]) => [name, ascii85.encode(data)]);
+        const json = JSON.stringify({ nodes: [...this.nodes], schemas: this.schemas, mutations: [...this.mutations], indexFiles });
+        await pfs.writeFile(`${file}.tmp`, json, 'utf8');
+        await pfs.rename(`${file}.tmp`, file);
+    }
+}
+
+export class MemoryStorageTransaction extends CustomStorageTransaction {
+
+    rollsBack = true;
+
+    /** previous nodes of all paths changed in this transaction, to restore upon rollback */
+    private _originals = new Map<string, ICustomStorageNode | null>();
+
+    constructor(private data: MemoryStorageData, target: { path: string, write: boolean }) {
+        super(target);
+    }
+
+    async get(path: string) {
+        // Return a copy, the caller changes its value
+        const node = this.data.nodes.get(path);
+        return node ? cloneObject(node) : null;
+    }
+
+    async set(path: string, node: ICustomStorageNode) {
+        this._keepOriginal(path);
+        this.data.set(path, cloneObject(node));
+    }
+
+    async remove(path: string) {
+        this._keepOriginal(path);
+        this.data.remove(path);
+    }
+
+    async commit() {
+        // All changes have already been made
+        this._originals.clear();
+    }
+
+    async rollback(reason: Error) {
+        for (const [path, node] of this._originals) {
+            node ? this.data.set(path, node) : this.data.remove(path);
+        }
+        this._originals.clear();
+    }
+
+    private _keepOriginal(path: string) {
+        if (!this._originals.has(path)) {
+            this._originals.set(path, this.data.nodes.get(path) ?? null);
+        }
+    }
+
+    async childrenOf(path: string,
+        include: { metadata?: boolean; value?: boolean },
+        checkCallback: (path: string) => boolean,
+        addCallback: (path: string, node?: ICustomStorageNodeMetaData | ICustomStorageNode) => boolean,
+    ) {
+        // Copy the child paths, callers might change them while we are iterating
+        const childPaths = [...(this.data.children.get(path) ?? [])];
+        for (const childPath of childPaths) {
+            if (!checkCallback(childPath)) { continue; }
+            const node = include.metadata || include.value ? await this.get(childPath) : undefined;
+            const keepGoing = addCallback(childPath, node);
+            if (!keepGoing) { break; }
+        }
+    }
+
+    async descendantsOf(path: string,
+        include: { metadata?: boolean; value?: boolean },
+        checkCallback: (path: string, metadata?: ICustomStorageNodeMetaData) => boolean,
+        addCallback: (path: string, node?: ICustomStorageNodeMetaData | ICustomStorageNode) => boolean,
+    ) {
+        const descendantPaths = [] as string[];
+        const addChildPaths = (path: string) => {
+            for (const childPath of this.data.children.get(path) ?? []) {
+                descendantPaths.push(childPath);
+                addChildPaths(childPath);
+            }
+        };
+        addChildPaths(path);
+        for (const descPath of descendantPaths) {
+            if (!checkCallback(descPath, include.metadata ? this.data.nodes.get(descPath) : undefined)) { continue; }
+            const node = include.metadata || include.value ? await this.get(descPath) : undefined;
+            const keepGoing = addCallback(descPath, node);
+            if (!keepGoing) { break; }
+        }
+    }
+
+    async getChildCount(path: string) {
+        return this.data.children.get(path)?.size ?? 0;
+    }
+}
+
+/**
+ * Storage engine that keeps all data in memory, for unit tests and short-lived caches that should not touch disk.
+ * Supports node locking, events and transaction logging, and can optionally save a snapshot to a file when closed
+ */
+export class MemoryStorage extends CustomStorage {
+
+    private _data: MemoryStorageData;
+    private _snapshotFile: string;
+
+    constructor(dbname: string, settings: Partial<MemoryStorageSettings>, env: StorageEnv) {
+        const memorySettings = settings instanceof MemoryStorageSettings ? settings : new MemoryStorageSettings(settings);
+        if (memorySettings.ipc) {
+            // Data is not shared between processes, so sharing locks and events makes no sense
+            throw new Error(`MemoryStorage does not support the ipc setting`);
+        }
+        const data = new MemoryStorageData();
+        const snapshotFile = memorySettings.snapshot;
+        const storageSettings = new CustomStorageSettings({
+            ...memorySettings,
+            name: 'MemoryStorage',
+            locking: true,
+            async ready() {
+                if (!snapshotFile) {
+                    return;
+                }
+                if (!pfs.hasFileSystem) {
+                    throw new Error(`MemoryStorage snapshots are only available in Node.js`);
+                }
+                const exists = await pfs.stat(snapshotFile).then(() => true, () => false);
+                if (exists) {
+                    await data.load(snapshotFile);
+                }
+            },
+            async getTransaction(target) {
+                return new MemoryStorageTransaction(data, target);
+            },
+            async getSchemas() {
+                return cloneObject(data.schemas);
+            },
+            async setSchema(path, definition) {
+                data.schemas = data.schemas.filter(s => s.path !== path);
+                if (definition) {
+                    data.schemas.push({ path, ...definition });
+                }
+            },
+            async writeMutation(cursor, mutation) {
+                data.mutations.set(cursor, Transport.serialize2(mutation));
+            },
+            async readMutations(cursor) {
+                return [...data.mutations.keys()]
+                    .filter(key => key >= cursor)
+                    .map(key => ({ cursor: key, mutation: Transport.deserialize2(data.mutations.get(key)) as StoredMutation }));
+            },
+            async readMutation(cursor) {
+                return Transport.deserialize2(data.mutations.get(cursor)) as StoredMutation;
+            },
+            async removeMutations(before) {
+                [...data.mutations.keys()]
+                    .filter(key => key < before)
+                    .forEach(key => data.mutations.delete(key));
+            },
+            indexStore: {
+                async get(name) { return data.indexFiles.get(name) ?? null; },
+                async set(name, file) { data.indexFiles.set(name, file); },
+                async remove(name) { data.indexFiles.delete(name); },
+                async list() { return [...data.indexFiles.keys()]; },
+            },
+        });
+        super(dbname, storageSettings, env);
+        this._data = data;
+        this._snapshotFile = snapshotFile;
+    }
+
+    async close() {
+        if (this._snapshotFile) {
+            // Close indexes first, so all changes to their files are stored before the snapshot is saved
+            await this.indexes.close();
+        }
+        await super.close();
+        if (this._snapshotFile) {
+            await this._data.save(this._snapshotFile);
+        }
+    }
+}
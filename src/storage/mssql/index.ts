@@ -1,11 +1,17 @@
-import { ID, PathReference, PathInfo, ascii85, ColorStyle } from 'acebase-core';
-import { Storage, StorageEnv, StorageSettings } from '..';
+import { ID, PathReference, PathInfo, ascii85, ColorStyle, Transport } from 'acebase-core';
+import { IAppliedMutations, Storage, StorageEnv, StorageSettings, StoredMutation, StoredMutationHeader, StoredSchemaDefinition } from '..';
 import { NodeInfo } from '../../node-info';
 import { NodeValueType, VALUE_TYPES } from '../../node-value-types';
 import { NodeNotFoundError, NodeRevisionError } from '../../node-errors';
-import { pfs } from '../../promise-fs';
 import { NodeAddress } from '../../node-address';
 import { assert } from '../../assert';
+import { BlobIndexFileSystem, IndexBlobStore } from '../../index-file-system';
+import { IndexTableRange, IndexTableStore } from '../../data-index';
+
+/**
+ * Length of the indexed start of index entry sort keys, 800 bytes keeps the sort key index within SQL Server's 1700 bytes limit
+ */
+const SORT_PREFIX_LENGTH = 400;
 
 export class MSSQLNodeAddress extends NodeAddress {
     constructor(containerPath: string) {
@@ -177,24 +183,15 @@ export class MSSQLStorage extends Storage {
             throw new Error(`MSSQL not found. To use MSSQL as storage, add mssql to your project dependencies: npm i mssql`);
         }
 
+        // Store indexes in the database itself, so no local files are needed
+        this.indexes.fileSystem = new BlobIndexFileSystem(this._createIndexBlobStore());
+        this.indexes.tableStore = this._createIndexTableStore();
+
         this.init();
     }
 
     async init() {
 
-        const path = `${this.settings.path}/${this.name}.acebase`;
-        const exists = await pfs.exists(path);
-
-        if (!exists) {
-            try {
-                await pfs.mkdir(path);
-            }
-            catch (err) {
-                console.error(`Cannot create dir "${path}": ${err}`);
-                throw err;
-            }
-        }
-
         // connect
         const settings = this.settings;
         this._db = new this.mssql.ConnectionPool({
@@ -254,6 +251,60 @@ export class MSSQLStorage extends Storage {
                         revision: ID.generate(),
                     }],
                 },
+                schemas: {
+                    create: `CREATE TABLE schemas (
+                        path NVARCHAR(1000) NOT NULL PRIMARY KEY,
+                        definition NVARCHAR(MAX) NOT NULL,   -- JSON schema definition (string or object)
+                        warn_only BIT NOT NULL
+                    )`,
+                    rows: [] as any[],
+                },
+                history: {
+                    create: `CREATE TABLE history (
+                        [cursor] VARCHAR(50) NOT NULL PRIMARY KEY,  -- generated transaction cursor, time sortable
+                        path NVARCHAR(1000) NOT NULL,
+                        type VARCHAR(10) NOT NULL,          -- set, update
+                        [timestamp] BIGINT NOT NULL,
+                        updated NVARCHAR(MAX) NOT NULL,     -- JSON array of updated child keys
+                        deleted NVARCHAR(MAX) NOT NULL,     -- JSON array of deleted child keys
+                        value NVARCHAR(MAX),                -- serialized value
+                        context NVARCHAR(MAX),              -- serialized context
+                        mutations NVARCHAR(MAX) NOT NULL    -- serialized applied mutations
+                    )`,
+                    rows: [] as any[],
+                },
+                indexes: {
+                    create: `CREATE TABLE indexes (
+                        name NVARCHAR(450) NOT NULL PRIMARY KEY,    -- index (file) name
+                        definition NVARCHAR(MAX) NOT NULL,          -- JSON index definition
+                        created BIGINT NOT NULL
+                    )`,
+                    rows: [] as any[],
+                },
+                index_entries: {
+                    // Index keys are limited to 900 (clustered) and 1700 (nonclustered) bytes, so names and paths are keyed by their hash
+                    // and sort keys by their first characters. Queries compare the full sort key of entries with the same prefix
+                    create: `CREATE TABLE index_entries (
+                        index_name NVARCHAR(450) NOT NULL,
+                        path NVARCHAR(1000) NOT NULL,                                       -- path of the indexed record
+                        sort_key NVARCHAR(MAX) COLLATE Latin1_General_100_BIN2 NOT NULL,    -- encoded indexed value, sorts the same way as the value itself
+                        value NVARCHAR(MAX) NOT NULL,                                       -- serialized indexed value
+                        metadata NVARCHAR(MAX) NOT NULL,                                    -- serialized values of included keys
+                        name_hash AS CAST(HASHBYTES('SHA2_256', index_name) AS BINARY(32)) PERSISTED NOT NULL,
+                        path_hash AS CAST(HASHBYTES('SHA2_256', path) AS BINARY(32)) PERSISTED NOT NULL,
+                        sort_prefix AS CAST(LEFT(sort_key, ${SORT_PREFIX_LENGTH}) AS NVARCHAR(${SORT_PREFIX_LENGTH})) COLLATE Latin1_General_100_BIN2 PERSISTED NOT NULL,
+                        PRIMARY KEY (name_hash, path_hash)
+                    )`,
+                    rows: [] as any[],
+                    action: () => this._exec(`CREATE INDEX index_entries_sort_key ON index_entries (name_hash, sort_prefix, path_hash)`),
+                },
+                index_files: {
+                    create: `CREATE TABLE index_files (
+                        name NVARCHAR(450) NOT NULL PRIMARY KEY,    -- index file path
+                        data VARBINARY(MAX) NOT NULL
+                    )`,
+                    rows: [] as any[],
+                },
                 logs: {
                     create: `CREATE TABLE logs (
                         id INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
@@ -306,8 +357,9 @@ export class MSSQLStorage extends Storage {
             this.debug.log(`- Database: ${this.settings.database}`.colorize(ColorStyle.dim));
             this.debug.log(`- Max inline value size: ${this.settings.maxInlineValueSize}`.colorize(ColorStyle.dim));
 
-            // Load indexes
+            // Load indexes and schema definitions
             await this.indexes.load();
+            await this.loadSchemas();
             this.emit('ready');
         }
         catch (err) {
@@ -316,6 +368,57 @@ export class MSSQLStorage extends Storage {
         }
     }
 
+    protected async readSchemas(): Promise<StoredSchemaDefinition[]> {
+        const rows = await this._get(`SELECT path, definition, warn_only FROM schemas`);
+        return rows.map(row => ({ path: row.path, schema: JSON.parse(row.definition), warnOnly: row.warn_only === true }));
+    }
+
+    protected async writeSchema(path: string, definition: Omit<StoredSchemaDefinition, 'path'> | null) {
+        await this._exec(`DELETE FROM schemas WHERE path = @path`, { path });
+        if (definition !== null) {
+            await this._exec(
+                `INSERT INTO schemas (path, definition, warn_only) VALUES (@path, @definition, @warn_only)`,
+                { path, definition: JSON.stringify(definition.schema), warn_only: definition.warnOnly ? 1 : 0 },
+            );
+        }
+    }
+
+    protected async writeMutation(cursor: string, mutation: StoredMutation) {
+        const serialize = (val: any) => JSON.stringify(Transport.serialize2(val));
+        await this._exec(
+            `INSERT INTO history ([cursor], path, type, [timestamp], updated, deleted, value, context, mutations) VALUES (@cursor, @path, @type, @timestamp, @updated, @deleted, @value, @context, @mutations)`,
+            {
+                cursor,
+                path: mutation.path,
+                type: mutation.type,
+                timestamp: mutation.timestamp,
+                updated: JSON.stringify(mutation.updated),
+                deleted: JSON.stringify(mutation.deleted),
+                value: serialize(mutation.value),
+                context: serialize(mutation.context),
+                mutations: serialize(mutation.mutations),
+            },
+        );
+    }
+
+    protected async readMutations(cursor: string) {
+        const rows = await this._get(`SELECT [cursor], path, type, [timestamp], updated, deleted FROM history WHERE [cursor] >= @cursor`, { cursor });
+        return rows.map(row => ({
+            cursor: row.cursor as string,
+            mutation: { path: row.path, type: row.type, timestamp: parseInt(row.timestamp), updated: JSON.parse(row.updated), deleted: JSON.parse(row.deleted) } as StoredMutationHeader,
+        }));
+    }
+
+    protected async readMutation(cursor: string) {
+        const deserialize = (json: string) => Transport.deserialize2(JSON.parse(json));
+        const row = await this._getOne(`SELECT value, context, mutations FROM history WHERE [cursor] = @cursor`, { cursor });
+        return { value: deserialize(row.value), context: deserialize(row.context), mutations: deserialize(row.mutations) };
+    }
+
+    protected async removeMutations(before: string) {
+        await this._exec(`DELETE FROM history WHERE [cursor] < @before`, { before });
+    }
+
     private _executeRequest(request: any, sql: string, params: any) {
         const mssql = this.mssql;
         Object.keys(params ?? {}).forEach(name => {
@@ -446,6 +549,112 @@ export class MSSQLStorage extends Storage {
         };
     }
 
+    /**
+     * Stores index files that are not stored in index tables (fulltext, geo, array and compound indexes)
+     */
+    private _createIndexBlobStore(): IndexBlobStore {
+        return {
+            get: async name => {
+                const row = await this._getOne(`SELECT data FROM index_files WHERE name = @name`, { name });
+                return row ? row.data : null;
+            },
+            set: async (name, data) => {
+                const transaction = this._createTransaction();
+                transaction.add(`DELETE FROM index_files WHERE name = @name`, { name });
+                transaction.add(
+                    `INSERT INTO index_files (name, data) VALUES (@name, @data)`,
+                    { name, data: Buffer.from(data.buffer, data.byteOffset, data.byteLength) },
+                );
+                await transaction.run();
+            },
+            remove: async name => {
+                await this._exec(`DELETE FROM index_files WHERE name = @name`, { name });
+            },
+            list: async () => {
+                const rows = await this._get(`SELECT name FROM index_files`);
+                return rows.map(row => row.name as string);
+            },
+        };
+    }
+
+    private _getIndexRangesSql(ranges: IndexTableRange[], params: Record<string, unknown>) {
+        if (ranges.length === 0) { return '1 = 0'; }
+        const operators = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+        const conditions = ranges.map((range, i) => {
+            const checks = (Object.keys(range) as Array<keyof IndexTableRange>).map(bound => {
+                params[`${bound}${i}`] = range[bound];
+                // Seek on the indexed prefix first, it sorts the same way as the full sort key
+                const prefixOperator = bound === 'gt' || bound === 'gte' ? '>=' : '<=';
+                return `sort_prefix ${prefixOperator} LEFT(@${bound}${i}, ${SORT_PREFIX_LENGTH}) AND sort_key ${operators[bound]} @${bound}${i}`;
+            });
+            return checks.length > 0 ? `(${checks.join(' AND ')})` : '1 = 1';
+        });
+        return `(${conditions.join(' OR ')})`;
+    }
+
+    /**
+     * Stores entries of normal indexes in the index_entries table
+     */
+    private _createIndexTableStore(): IndexTableStore {
+        return {
+            list: async () => {
+                const rows = await this._get(`SELECT name FROM indexes`);
+                return rows.map(row => row.name as string);
+            },
+            get: async name => {
+                const row = await this._getOne(`SELECT definition FROM indexes WHERE name = @name`, { name });
+                return row ? row.definition : null;
+            },
+            create: async (name, definition) => {
+                const transaction = this._createTransaction();
+                transaction.add(`DELETE FROM index_entries WHERE name_hash = HASHBYTES('SHA2_256', @name)`, { name });
+                transaction.add(`DELETE FROM indexes WHERE name = @name`, { name });
+                transaction.add(
+                    `INSERT INTO indexes (name, definition, created) VALUES (@name, @definition, @created)`,
+                    { name, definition, created: Date.now() },
+                );
+                await transaction.run();
+            },
+            remove: async name => {
+                const transaction = this._createTransaction();
+                transaction.add(`DELETE FROM index_entries WHERE name_hash = HASHBYTES('SHA2_256', @name)`, { name });
+                transaction.add(`DELETE FROM indexes WHERE name = @name`, { name });
+                await transaction.run();
+            },
+            update: async (name, changes, nodeTransaction?: ReturnType<MSSQLStorage['_createTransaction']>) => {
+                const transaction = nodeTransaction ?? this._createTransaction();
+                changes.remove.forEach(path => {
+                    transaction.add(`DELETE FROM index_entries WHERE name_hash = HASHBYTES('SHA2_256', @name) AND path_hash = HASHBYTES('SHA2_256', @path)`, { name, path });
+                });
+                changes.add.forEach(row => {
+                    transaction.add(
+                        `INSERT INTO index_entries (index_name, path, sort_key, value, metadata) VALUES (@name, @path, @sort_key, @value, @metadata)`,
+                        { name, path: row.path, sort_key: row.sortKey, value: row.value, metadata: row.metadata },
+                    );
+                });
+                if (!nodeTransaction) {
+                    await transaction.run();
+                }
+            },
+            count: async (name, ranges) => {
+                const params = { name };
+                const filter = this._getIndexRangesSql(ranges, params);
+                const row = await this._getOne(`SELECT COUNT(*) AS count FROM index_entries WHERE name_hash = HASHBYTES('SHA2_256', @name) AND ${filter}`, params);
+                return row.count as number;
+            },
+            select: async (name, ranges, options) => {
+                const params = { name, skip: options.skip, take: options.take };
+                const filter = this._getIndexRangesSql(ranges, params);
+                const order = options.ascending ? 'ASC' : 'DESC';
+                const rows = await this._get(
+                    `SELECT path, sort_key, value, metadata FROM index_entries WHERE name_hash = HASHBYTES('SHA2_256', @name) AND ${filter} ORDER BY sort_prefix ${order}, sort_key ${order}, path ASC OFFSET @skip ROWS FETCH NEXT @take ROWS ONLY`,
+                    params,
+                );
+                return rows.map(row => ({ path: row.path, sortKey: row.sort_key, value: row.value, metadata: row.metadata }));
+            },
+        };
+    }
+
     _getTypeFromStoredValue(val: unknown) {
         let type: NodeValueType;
         if (typeof val === 'string') {
@@ -549,6 +758,8 @@ export class MSSQLStorage extends Storage {
             merge?: boolean;
             revision?: string;
             transaction?: ReturnType<MSSQLStorage['_createTransaction']>;
+            /** called with the transaction before it is committed, to add statements that must be committed with the node */
+            beforeCommit?: (transaction: ReturnType<MSSQLStorage['_createTransaction']>) => Promise<void>;
         } = {
             merge: false,
             revision: null,
@@ -746,6 +957,9 @@ export class MSSQLStorage extends Storage {
 
             transaction.add(sql, params); // return this._exec(sql, params);
         }
+        if (typeof options.beforeCommit === 'function') {
+            await options.beforeCommit(transaction);
+        }
         if (!options.transaction) {
             // Our transaction, we can run it now!
             try {
@@ -779,6 +993,7 @@ export class MSSQLStorage extends Storage {
         path: string,
         options: {
             keyFilter?: (string | number)[];
+            after?: string;
             tid?: string | number;
         } = {},
     ) {
@@ -813,6 +1028,12 @@ export class MSSQLStorage extends Storage {
                     keys = keys.filter(key => options.keyFilter.includes(key));
                 }
                 const pathInfo = PathInfo.get(path);
+                const sorted = typeof options.after === 'string' && !isArray && !options.keyFilter ? [] as MSSQLNodeInfo[] : null;
+                const childCallback = callback;
+                if (sorted) {
+                    // Children are not stored in key order, collect them and enumerate them in key order afterwards
+                    callback = child => { child.key > options.after && sorted.push(child); };
+                }
                 keys.length > 0 && keys.every(key => {
                     const child = this._getTypeFromStoredValue(value[key]);
 
@@ -862,6 +1083,10 @@ export class MSSQLStorage extends Storage {
                     canceled = callback(info) === false;
                     return !canceled; // stop ._each loop if canceled
                 });
+                if (sorted) {
+                    sorted.sort((a, b) => a.key < b.key ? -1 : 1);
+                    canceled = !sorted.every(child => childCallback(child) !== false);
+                }
             }
             finally {
                 lock.release();
@@ -1184,6 +1409,10 @@ export class MSSQLStorage extends Storage {
         }
     }
 
+    /**
+     * Creates or overwrites a node
+     * @returns Returns a new cursor if transaction logging is enabled
+     */
     async setNode(
         path: string,
         value: any,
@@ -1196,7 +1425,42 @@ export class MSSQLStorage extends Storage {
             suppress_events: false,
             context: null,
         },
-    ): Promise<void> {
+    ): Promise<string|void> {
+        return this.loggedWrite('set', path, value, options, (context, value) => this._setNode(path, value, { ...options, context }));
+    }
+
+    /**
+     * Updates an existing node, or creates a new node
+     * @returns Returns a new cursor if transaction logging is enabled
+     */
+    async updateNode(
+        path: string,
+        updates: any,
+        options: {
+            tid?: string | number;
+            suppress_events?: boolean;
+            context?: any;
+        } = {
+            suppress_events: false,
+            context: null,
+        },
+    ): Promise<string|void> {
+        return this.loggedWrite('update', path, updates, options, (context, updates) => this._updateNode(path, updates, { ...options, context }));
+    }
+
+    private async _setNode(
+        path: string,
+        value: any,
+        options: {
+            assert_revision?: string;
+            tid?: string | number;
+            suppress_events?: boolean;
+            context?: any;
+        } = {
+            suppress_events: false,
+            context: null,
+        },
+    ): Promise<IAppliedMutations> {
         if (this.settings.readOnly) {
             throw new Error(`Database is opened in read-only mode`);
         }
@@ -1204,12 +1468,13 @@ export class MSSQLStorage extends Storage {
 
         const tid = (options && options.tid) || ID.generate();
         let lock = await this.nodeLocker.lock(path, tid.toString(), true, 'setNode');
+        let mutations: IAppliedMutations;
         try {
             if (path === '') {
                 if (value === null || typeof value !== 'object' || value instanceof Array || value instanceof ArrayBuffer || ('buffer' in value && value.buffer instanceof ArrayBuffer)) {
                     throw new Error(`Invalid value for root node: ${value}`);
                 }
-                await this._writeNodeWithTracking('', value, { merge: false, tid, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._writeNodeWithMutations('', value, { merge: false, tid, suppress_events: options.suppress_events, context: options.context });
             }
             else if (options && typeof options.assert_revision !== 'undefined') {
                 const info = await this.getNodeInfo(path, { tid: lock.tid });
@@ -1218,26 +1483,27 @@ export class MSSQLStorage extends Storage {
                 }
                 if (info.address && info.address.path === path && !this.valueFitsInline(value)) {
                     // Overwrite node
-                    await this._writeNodeWithTracking(path, value, { merge: false, tid, suppress_events: options.suppress_events, context: options.context });
+                    mutations = await this._writeNodeWithMutations(path, value, { merge: false, tid, suppress_events: options.suppress_events, context: options.context });
                 }
                 else {
                     // Update parent node
                     lock = await lock.moveToParent();
-                    await this._writeNodeWithTracking(pathInfo.parentPath, { [pathInfo.key]: value }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
+                    mutations = await this._writeNodeWithMutations(pathInfo.parentPath, { [pathInfo.key]: value }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
                 }
             }
             else {
                 // Delegate operation to update on parent node
                 lock = await lock.moveToParent();
-                return this.updateNode(pathInfo.parentPath, { [pathInfo.key]: value }, { tid, suppress_events: options.suppress_events, context: options.context });
+                return this._updateNode(pathInfo.parentPath, { [pathInfo.key]: value }, { tid, suppress_events: options.suppress_events, context: options.context });
             }
         }
         finally {
             lock.release();
         }
+        return mutations;
     }
 
-    async updateNode(
+    private async _updateNode(
         path: string,
         updates: any,
         options: {
@@ -1248,7 +1514,7 @@ export class MSSQLStorage extends Storage {
             suppress_events: false,
             context: null,
         },
-    ): Promise<void> {
+    ): Promise<IAppliedMutations> {
         if (this.settings.readOnly) {
             throw new Error(`Database is opened in read-only mode`);
         }
@@ -1259,6 +1525,7 @@ export class MSSQLStorage extends Storage {
         const tid = (options && options.tid) || ID.generate();
         let lock = await this.nodeLocker.lock(path, tid.toString(), true, 'updateNode');
 
+        let mutations: IAppliedMutations;
         try {
             // Get info about current node
             const nodeInfo = await this.getNodeInfo(path, { tid: lock.tid });
@@ -1266,22 +1533,23 @@ export class MSSQLStorage extends Storage {
             if (nodeInfo.exists && nodeInfo.address && nodeInfo.address.path === path) {
                 // Node exists and is stored in its own record.
                 // Update it
-                await this._writeNodeWithTracking(path, updates, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._writeNodeWithMutations(path, updates, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
             }
             else if (nodeInfo.exists) {
                 // Node exists, but is stored in its parent node.
                 const pathInfo = PathInfo.get(path);
                 lock = await lock.moveToParent();
-                await this._writeNodeWithTracking(pathInfo.parentPath, { [pathInfo.key]: updates }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._writeNodeWithMutations(pathInfo.parentPath, { [pathInfo.key]: updates }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
             }
             else {
                 // The node does not exist, it's parent doesn't have it either. Update the parent instead
                 lock = await lock.moveToParent();
-                await this.updateNode(pathInfo.parentPath, { [pathInfo.key]: updates }, { tid, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._updateNode(pathInfo.parentPath, { [pathInfo.key]: updates }, { tid, suppress_events: options.suppress_events, context: options.context });
             }
         }
         finally {
             lock.release();
         }
+        return mutations;
     }
 }
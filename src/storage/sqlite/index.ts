@@ -1,5 +1,5 @@
-import { ID, PathReference, PathInfo, ascii85, ColorStyle } from 'acebase-core';
-import { Storage, StorageEnv, StorageSettings } from '..';
+import { ID, PathReference, PathInfo, ascii85, ColorStyle, Transport } from 'acebase-core';
+import { IAppliedMutations, Storage, StorageEnv, StorageSettings, StoredMutation, StoredMutationHeader, StoredSchemaDefinition } from '..';
 import { NodeInfo } from '../../node-info';
 import { VALUE_TYPES } from '../../node-value-types';
 import { NodeNotFoundError, NodeRevisionError } from '../../node-errors';
@@ -7,6 +7,8 @@ import { pfs } from '../../promise-fs';
 import { ThreadSafe } from '../../thread-safe';
 import { NodeAddress } from '../../node-address';
 import { assert } from '../../assert';
+import { BlobIndexFileSystem, IndexBlobStore } from '../../index-file-system';
+import { IndexTableRange, IndexTableStore } from '../../data-index';
 
 export class SQLiteNodeAddress extends NodeAddress {
     constructor(containerPath: string) {
@@ -63,6 +65,10 @@ export class SQLiteStorage extends Storage {
             throw new Error(`sqlite3 not found. To use SQLite as storage, add sqlite3 to your project dependencies: npm i sqlite3`);
         }
 
+        // Store indexes in the database itself
+        this.indexes.fileSystem = new BlobIndexFileSystem(this._createIndexBlobStore());
+        this.indexes.tableStore = this._createIndexTableStore();
+
         this.init();
     }
 
@@ -166,8 +172,10 @@ export class SQLiteStorage extends Storage {
                 });
             };
 
+            let began = false;
             try {
                 await exec('BEGIN IMMEDIATE');
+                began = true;
                 for (const statement of queue) {
                     const result = await exec(statement.sql, statement.params);
                     results.push(result);
@@ -175,11 +183,11 @@ export class SQLiteStorage extends Storage {
                 await exec('COMMIT');
             }
             catch (err) {
-                if (results.length > 0) {
-                    // Only issue rollback if 1 or more statements succeeded
+                if (began) {
+                    // Only issue rollback if the transaction was started
                     await exec('ROLLBACK');
                 }
-                if (err.contains('SQLITE_BUSY')) {
+                if (String(err?.message).includes('SQLITE_BUSY')) {
                     // Other process is currently writing, retry
                     return run();
                 }
@@ -246,32 +254,55 @@ export class SQLiteStorage extends Storage {
                         revision: ID.generate(),
                     }],
                 },
-                // history: {
-                //     create: `CREATE TABLE history (
-                //         path TEXT NOT NULL,
-                //         action TEXT NOT NULL,   -- insert, set, update, delete
-                //         time INTEGER NOT NULL,
-                //         revision_nr INTEGER NOT NULL, -- affected revision
-                //         revision TEXT NOT NULL
-                //     )`
-                // },
-                // indexes: {
-                //     create: `CREATE TABLE indexes ( -- TODO
-                //         name TEXT NOT NULL PRIMARY KEY,
-                //         path TEXT NOT NULL,
-                //         type TEXT NOT NULL,
-                //         key TEXT NOT NULL,
-                //         included_keys TEXT,
-                //         table_name TEXT NOT NULL,
-                //         created INTEGER NOT NULL,
-                //         updated INTEGER NOT NULL,
-                //         stats_entries INTEGER NOT NULL,
-                //         stats_values INTEGER NOT NULL
-                //     ) WITHOUT ROWID`,
-                //     action() {
-                //         // load created indexes
-                //     }
-                // },
+                history: {
+                    create: `CREATE TABLE history (
+                        cursor TEXT PRIMARY KEY,    -- generated transaction cursor, time sortable
+                        path TEXT NOT NULL,
+                        type TEXT NOT NULL,         -- set, update
+                        timestamp INTEGER NOT NULL,
+                        updated TEXT NOT NULL,      -- JSON array of updated child keys
+                        deleted TEXT NOT NULL,      -- JSON array of deleted child keys
+                        value TEXT,                 -- serialized value
+                        context TEXT,               -- serialized context
+                        mutations TEXT NOT NULL     -- serialized applied mutations
+                    ) WITHOUT ROWID`,
+                    rows: [] as any[],
+                },
+                indexes: {
+                    create: `CREATE TABLE indexes (
+                        name TEXT PRIMARY KEY,      -- index (file) name
+                        definition TEXT NOT NULL,   -- JSON index definition
+                        created INTEGER NOT NULL
+                    ) WITHOUT ROWID`,
+                    rows: [] as any[],
+                },
+                index_entries: {
+                    create: `CREATE TABLE index_entries (
+                        index_name TEXT NOT NULL,
+                        path TEXT NOT NULL,         -- path of the indexed record
+                        sort_key TEXT NOT NULL,     -- encoded indexed value, sorts the same way as the value itself
+                        value TEXT NOT NULL,        -- serialized indexed value
+                        metadata TEXT NOT NULL,     -- serialized values of included keys
+                        PRIMARY KEY (index_name, path)
+                    ) WITHOUT ROWID`,
+                    rows: [] as any[],
+                    action: () => this._exec(`CREATE INDEX index_entries_sort_key ON index_entries (index_name, sort_key, path)`),
+                },
+                index_files: {
+                    create: `CREATE TABLE index_files (
+                        name TEXT PRIMARY KEY,      -- index file path
+                        data BLOB NOT NULL
+                    ) WITHOUT ROWID`,
+                    rows: [] as any[],
+                },
+                schemas: {
+                    create: `CREATE TABLE schemas (
+                        path TEXT PRIMARY KEY,
+                        definition TEXT NOT NULL,   -- JSON schema definition (string or object)
+                        warn_only TINYINT NOT NULL
+                    ) WITHOUT ROWID`,
+                    rows: [] as any[],
+                },
                 logs: {
                     create: `CREATE TABLE logs (
                         action TEXT NOT NULL, 
@@ -321,8 +352,9 @@ export class SQLiteStorage extends Storage {
             this.debug.log(`- Type: SQLite`.colorize(ColorStyle.dim));
             this.debug.log(`- Max inline value size: ${this.settings.maxInlineValueSize}`.colorize(ColorStyle.dim));
 
-            // Load indexes
+            // Load indexes and schema definitions
             await this.indexes.load();
+            await this.loadSchemas();
 
             this.emit('ready');
         }
@@ -331,6 +363,159 @@ export class SQLiteStorage extends Storage {
         }
     }
 
+    protected async readSchemas(): Promise<StoredSchemaDefinition[]> {
+        const rows = await this._get(`SELECT path, definition, warn_only FROM schemas`);
+        return rows.map(row => ({ path: row.path, schema: JSON.parse(row.definition), warnOnly: row.warn_only === 1 }));
+    }
+
+    protected async writeSchema(path: string, definition: Omit<StoredSchemaDefinition, 'path'> | null) {
+        if (definition === null) {
+            await this._exec(`DELETE FROM schemas WHERE path = $path`, { $path: path });
+        }
+        else {
+            await this._exec(
+                `INSERT OR REPLACE INTO schemas (path, definition, warn_only) VALUES ($path, $definition, $warn_only)`,
+                { $path: path, $definition: JSON.stringify(definition.schema), $warn_only: definition.warnOnly ? 1 : 0 },
+            );
+        }
+    }
+
+    protected async writeMutation(cursor: string, mutation: StoredMutation) {
+        const serialize = (val: any) => JSON.stringify(Transport.serialize2(val));
+        await this._exec(
+            `INSERT INTO history (cursor, path, type, timestamp, updated, deleted, value, context, mutations) VALUES ($cursor, $path, $type, $timestamp, $updated, $deleted, $value, $context, $mutations)`,
+            {
+                $cursor: cursor,
+                $path: mutation.path,
+                $type: mutation.type,
+                $timestamp: mutation.timestamp,
+                $updated: JSON.stringify(mutation.updated),
+                $deleted: JSON.stringify(mutation.deleted),
+                $value: serialize(mutation.value),
+                $context: serialize(mutation.context),
+                $mutations: serialize(mutation.mutations),
+            },
+        );
+    }
+
+    protected async readMutations(cursor: string) {
+        const rows = await this._get(`SELECT cursor, path, type, timestamp, updated, deleted FROM history WHERE cursor >= $cursor`, { $cursor: cursor });
+        return rows.map(row => ({
+            cursor: row.cursor as string,
+            mutation: { path: row.path, type: row.type, timestamp: row.timestamp, updated: JSON.parse(row.updated), deleted: JSON.parse(row.deleted) } as StoredMutationHeader,
+        }));
+    }
+
+    protected async readMutation(cursor: string) {
+        const deserialize = (json: string) => Transport.deserialize2(JSON.parse(json));
+        const row = await this._getOne(`SELECT value, context, mutations FROM history WHERE cursor = $cursor`, { $cursor: cursor });
+        return { value: deserialize(row.value), context: deserialize(row.context), mutations: deserialize(row.mutations) };
+    }
+
+    protected async removeMutations(before: string) {
+        await this._exec(`DELETE FROM history WHERE cursor < $before`, { $before: before });
+    }
+
+    /**
+     * Stores index files that are not stored in index tables (fulltext, geo, array and compound indexes)
+     */
+    private _createIndexBlobStore(): IndexBlobStore {
+        return {
+            get: async name => {
+                const row = await this._getOne(`SELECT data FROM index_files WHERE name = $name`, { $name: name });
+                return row ? row.data : null;
+            },
+            set: async (name, data) => {
+                await this._exec(
+                    `INSERT OR REPLACE INTO index_files (name, data) VALUES ($name, $data)`,
+                    { $name: name, $data: Buffer.from(data.buffer, data.byteOffset, data.byteLength) },
+                );
+            },
+            remove: async name => {
+                await this._exec(`DELETE FROM index_files WHERE name = $name`, { $name: name });
+            },
+            list: async () => {
+                const rows = await this._get(`SELECT name FROM index_files`);
+                return rows.map(row => row.name as string);
+            },
+        };
+    }
+
+    private _getIndexRangesSql(ranges: IndexTableRange[], params: Record<string, unknown>) {
+        if (ranges.length === 0) { return '0'; }
+        const operators = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+        const conditions = ranges.map((range, i) => {
+            const checks = (Object.keys(range) as Array<keyof IndexTableRange>).map(bound => {
+                params[`$${bound}${i}`] = range[bound];
+                return `sort_key ${operators[bound]} $${bound}${i}`;
+            });
+            return checks.length > 0 ? `(${checks.join(' AND ')})` : '1';
+        });
+        return `(${conditions.join(' OR ')})`;
+    }
+
+    /**
+     * Stores entries of normal indexes in the index_entries table
+     */
+    private _createIndexTableStore(): IndexTableStore {
+        return {
+            list: async () => {
+                const rows = await this._get(`SELECT name FROM indexes`);
+                return rows.map(row => row.name as string);
+            },
+            get: async name => {
+                const row = await this._getOne(`SELECT definition FROM indexes WHERE name = $name`, { $name: name });
+                return row ? row.definition : null;
+            },
+            create: async (name, definition) => {
+                const transaction = this._createTransaction();
+                transaction.add(`DELETE FROM index_entries WHERE index_name = $name`, { $name: name });
+                transaction.add(
+                    `INSERT OR REPLACE INTO indexes (name, definition, created) VALUES ($name, $definition, $created)`,
+                    { $name: name, $definition: definition, $created: Date.now() },
+                );
+                await transaction.run();
+            },
+            remove: async name => {
+                const transaction = this._createTransaction();
+                transaction.add(`DELETE FROM index_entries WHERE index_name = $name`, { $name: name });
+                transaction.add(`DELETE FROM indexes WHERE name = $name`, { $name: name });
+                await transaction.run();
+            },
+            update: async (name, changes, nodeTransaction?: ReturnType<SQLiteStorage['_createTransaction']>) => {
+                const transaction = nodeTransaction ?? this._createTransaction();
+                changes.remove.forEach(path => {
+                    transaction.add(`DELETE FROM index_entries WHERE index_name = $name AND path = $path`, { $name: name, $path: path });
+                });
+                changes.add.forEach(row => {
+                    transaction.add(
+                        `INSERT OR REPLACE INTO index_entries (index_name, path, sort_key, value, metadata) VALUES ($name, $path, $sort_key, $value, $metadata)`,
+                        { $name: name, $path: row.path, $sort_key: row.sortKey, $value: row.value, $metadata: row.metadata },
+                    );
+                });
+                if (!nodeTransaction) {
+                    await transaction.run();
+                }
+            },
+            count: async (name, ranges) => {
+                const params = { $name: name };
+                const filter = this._getIndexRangesSql(ranges, params);
+                const row = await this._getOne(`SELECT COUNT(*) AS count FROM index_entries WHERE index_name = $name AND ${filter}`, params);
+                return row.count as number;
+            },
+            select: async (name, ranges, options) => {
+                const params = { $name: name, $skip: options.skip, $take: options.take };
+                const filter = this._getIndexRangesSql(ranges, params);
+                const order = options.ascending ? 'ASC' : 'DESC';
+                const rows = await this._get(
+                    `SELECT path, sort_key, value, metadata FROM index_entries WHERE index_name = $name AND ${filter} ORDER BY sort_key ${order}, path ASC LIMIT $take OFFSET $skip`,
+                    params,
+                );
+                return rows.map(row => ({ path: row.path, sortKey: row.sort_key, value: row.value, metadata: row.metadata }));
+            },
+        };
+    }
+
     private _getTypeFromStoredValue(val: unknown) {
         let type;
         if (typeof val === 'string') {
@@ -434,6 +619,8 @@ export class SQLiteStorage extends Storage {
             merge?: boolean;
             revision?: string;
             transaction?: ReturnType<SQLiteStorage['_createTransaction']>;
+            /** called with the transaction before it is committed, to add statements that must be committed with the node */
+            beforeCommit?: (transaction: ReturnType<SQLiteStorage['_createTransaction']>) => Promise<void>;
         } = {
             merge: false,
             revision: null,
@@ -664,6 +851,9 @@ export class SQLiteStorage extends Storage {
             //     throw err;
             // })
         }
+        if (typeof options.beforeCommit === 'function') {
+            await options.beforeCommit(transaction);
+        }
         if (!options.transaction) {
             // Our transaction, we can run it now!
             try {
@@ -697,6 +887,7 @@ export class SQLiteStorage extends Storage {
         path: string,
         options: {
             keyFilter?: (string | number)[];
+            after?: string;
             tid?: string | number;
         } = {},
     ) {
@@ -732,6 +923,12 @@ export class SQLiteStorage extends Storage {
                     keys = keys.filter(key => options.keyFilter.includes(key));
                 }
                 const pathInfo = PathInfo.get(path);
+                const sorted = typeof options.after === 'string' && !isArray && !options.keyFilter ? [] as SQLiteNodeInfo[] : null;
+                const childCallback = callback;
+                if (sorted) {
+                    // Children are not stored in key order, collect them and enumerate them in key order afterwards
+                    callback = child => { child.key > options.after && sorted.push(child); };
+                }
                 keys.length > 0 && keys.every(key => {
                     const child = this._getTypeFromStoredValue(value[key]);
 
@@ -781,6 +978,10 @@ export class SQLiteStorage extends Storage {
                     canceled = callback(info) === false;
                     return !canceled; // stop ._each loop if canceled
                 });
+                if (sorted) {
+                    sorted.sort((a, b) => a.key < b.key ? -1 : 1);
+                    canceled = !sorted.every(child => childCallback(child) !== false);
+                }
 
                 return canceled;
             }
@@ -1106,6 +1307,10 @@ export class SQLiteStorage extends Storage {
         }
     }
 
+    /**
+     * Creates or overwrites a node
+     * @returns Returns a new cursor if transaction logging is enabled
+     */
     async setNode(
         path: string,
         value: any,
@@ -1118,7 +1323,42 @@ export class SQLiteStorage extends Storage {
             suppress_events: false,
             context: null,
         },
-    ): Promise<void> {
+    ): Promise<string|void> {
+        return this.loggedWrite('set', path, value, options, (context, value) => this._setNode(path, value, { ...options, context }));
+    }
+
+    /**
+     * Updates an existing node, or creates a new node
+     * @returns Returns a new cursor if transaction logging is enabled
+     */
+    async updateNode(
+        path: string,
+        updates: any,
+        options: {
+            tid?: string | number;
+            suppress_events?: boolean;
+            context?: any;
+        } = {
+            suppress_events: false,
+            context: null,
+        },
+    ): Promise<string|void> {
+        return this.loggedWrite('update', path, updates, options, (context, updates) => this._updateNode(path, updates, { ...options, context }));
+    }
+
+    private async _setNode(
+        path: string,
+        value: any,
+        options: {
+            assert_revision?: string;
+            tid?: string | number;
+            suppress_events?: boolean;
+            context?: any;
+        } = {
+            suppress_events: false,
+            context: null,
+        },
+    ): Promise<IAppliedMutations> {
         if (this.settings.readOnly) {
             throw new Error(`Database is opened in read-only mode`);
         }
@@ -1126,12 +1366,13 @@ export class SQLiteStorage extends Storage {
 
         const tid = (options && options.tid) || ID.generate();
         let lock = await this.nodeLocker.lock(path, tid.toString(), true, 'setNode');
+        let mutations: IAppliedMutations;
         try {
             if (path === '') {
                 if (value === null || typeof value !== 'object' || value instanceof Array || value instanceof ArrayBuffer || ('buffer' in value && value.buffer instanceof ArrayBuffer)) {
                     throw new Error(`Invalid value for root node: ${value}`);
                 }
-                await this._writeNodeWithTracking('', value, { merge: false, tid, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._writeNodeWithMutations('', value, { merge: false, tid, suppress_events: options.suppress_events, context: options.context });
             }
             else if (options && typeof options.assert_revision !== 'undefined') {
                 const info = await this.getNodeInfo(path, { tid: lock.tid });
@@ -1140,26 +1381,27 @@ export class SQLiteStorage extends Storage {
                 }
                 if (info.address && info.address.path === path && !this.valueFitsInline(value)) {
                     // Overwrite node
-                    await this._writeNodeWithTracking(path, value, { merge: false, tid, suppress_events: options.suppress_events, context: options.context });
+                    mutations = await this._writeNodeWithMutations(path, value, { merge: false, tid, suppress_events: options.suppress_events, context: options.context });
                 }
                 else {
                     // Update parent node
                     lock = await lock.moveToParent();
-                    await this._writeNodeWithTracking(pathInfo.parentPath, { [pathInfo.key]: value }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
+                    mutations = await this._writeNodeWithMutations(pathInfo.parentPath, { [pathInfo.key]: value }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
                 }
             }
             else {
                 // Delegate operation to update on parent node
                 lock = await lock.moveToParent();
-                return this.updateNode(pathInfo.parentPath, { [pathInfo.key]: value }, { tid, suppress_events: options.suppress_events, context: options.context });
+                return this._updateNode(pathInfo.parentPath, { [pathInfo.key]: value }, { tid, suppress_events: options.suppress_events, context: options.context });
             }
         }
         finally {
             lock.release();
         }
+        return mutations;
     }
 
-    async updateNode(
+    private async _updateNode(
         path: string,
         updates: any,
         options: {
@@ -1170,7 +1412,7 @@ export class SQLiteStorage extends Storage {
             suppress_events: false,
             context: null,
         },
-    ): Promise<void> {
+    ): Promise<IAppliedMutations> {
         if (this.settings.readOnly) {
             throw new Error(`Database is opened in read-only mode`);
         }
@@ -1180,6 +1422,7 @@ export class SQLiteStorage extends Storage {
 
         const tid = (options && options.tid) || ID.generate();
         let lock = await this.nodeLocker.lock(path, tid.toString(), true, 'updateNode');
+        let mutations: IAppliedMutations;
         try {
             // Get info about current node
             const nodeInfo = await this.getNodeInfo(path, { tid: lock.tid });
@@ -1187,23 +1430,24 @@ export class SQLiteStorage extends Storage {
             if (nodeInfo.exists && nodeInfo.address && nodeInfo.address.path === path) {
                 // Node exists and is stored in its own record.
                 // Update it
-                await this._writeNodeWithTracking(path, updates, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._writeNodeWithMutations(path, updates, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
             }
             else if (nodeInfo.exists) {
                 // Node exists, but is stored in its parent node.
                 const pathInfo = PathInfo.get(path);
                 lock = await lock.moveToParent();
-                await this._writeNodeWithTracking(pathInfo.parentPath, { [pathInfo.key]: updates }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._writeNodeWithMutations(pathInfo.parentPath, { [pathInfo.key]: updates }, { merge: true, tid, suppress_events: options.suppress_events, context: options.context });
             }
             else {
                 // The node does not exist, it's parent doesn't have it either. Update the parent instead
                 lock = await lock.moveToParent();
-                await this.updateNode(pathInfo.parentPath, { [pathInfo.key]: updates }, { tid, suppress_events: options.suppress_events, context: options.context });
+                mutations = await this._updateNode(pathInfo.parentPath, { [pathInfo.key]: updates }, { tid, suppress_events: options.suppress_events, context: options.context });
             }
         }
         finally {
             lock.release();
         }
+        return mutations;
     }
 
 }
@@ -0,0 +1,75 @@
+import { PathInfo, Utils } from 'acebase-core';
+const { getChildValues } = Utils;
+
+export interface TriggerEvent {
+    /** Path of the node being written */
+    path: string;
+    /** Values of the wildcards and variables in the trigger path, eg `{ 0: 'order1', id: 'order1', $id: 'order1' }` for `'orders/$id'` */
+    variables: Record<string | number, string | number>;
+    /** Previous value of the node, `null` if it did not exist */
+    oldValue: any;
+    /** New value of the node, `null` if it is being removed */
+    newValue: any;
+    /** Context of the write */
+    context: any;
+}
+
+export interface Trigger {
+    /**
+     * Runs before a matching node is changed, while it is locked for writing. Can return (a promise that resolves with)
+     * a changed new value, eg with an `updated` timestamp or normalized fields, or throw an error to reject the write.
+     * Returning nothing keeps the new value unchanged. When a descendant of the node is written to, only data within
+     * the written path can be changed
+     */
+    before?: (event: TriggerEvent) => any;
+
+    /**
+     * Runs after a matching node was changed, can be used to perform follow-up writes. Errors are logged, the write
+     * itself is not affected
+     */
+    after?: (event: TriggerEvent) => void | Promise<void>;
+}
+
+export interface TriggerRegistration {
+    /** Path of the nodes to run the trigger for, can include wildcards or variables. Eg: `'orders/$id'` */
+    path: string;
+    trigger: Trigger;
+}
+
+/**
+ * Gets the paths, previous and new values of all nodes matching a trigger path within a written node's data
+ * @param triggerPath path of the trigger, must be equal to, or a descendant of `path`
+ * @param path path of the written node
+ * @param oldValue previous value of the written node
+ * @param newValue new value of the written node
+ */
+export function getTriggerNodes(triggerPath: string, path: string, oldValue: any, newValue: any) {
+    const nodes = [] as Array<{ path: string; oldValue: any; newValue: any }>;
+    const trailKeys = PathInfo.getPathKeys(triggerPath).slice(PathInfo.getPathKeys(path).length);
+    const process = (path: string, trailKeys: Array<string | number>, oldValue: any, newValue: any) => {
+        if (oldValue === null && newValue === null) {
+            return;
+        }
+        if (trailKeys.length === 0) {
+            nodes.push({ path, oldValue, newValue });
+            return;
+        }
+        const key = trailKeys[0];
+        const isWildcardKey = typeof key === 'string' && (key === '*' || key.startsWith('$'));
+        const keys = new Set<string | number>();
+        if (!isWildcardKey) {
+            keys.add(key);
+        }
+        else {
+            [oldValue, newValue]
+                .filter(value => value !== null && typeof value === 'object')
+                .forEach(value => Object.keys(value).forEach(key => keys.add(value instanceof Array ? +key : key)));
+        }
+        for (const key of keys) {
+            const childValues = getChildValues(key, oldValue, newValue);
+            process(PathInfo.getChildPath(path, key), trailKeys.slice(1), childValues.oldValue, childValues.newValue);
+        }
+    };
+    process(path, trailKeys, oldValue, newValue);
+    return nodes;
+}
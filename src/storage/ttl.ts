@@ -0,0 +1,77 @@
+import { PathInfo } from 'acebase-core';
+
+/**
+ * Time-to-live (TTL) rule for nodes that must be removed automatically once they expire
+ */
+export interface TTLRule {
+    /**
+     * Path pattern of the nodes to expire, must include wildcards for the expiring nodes.
+     * Eg: `'sessions/$id'` or `'users/$uid/tokens/*'`
+     */
+    path: string;
+
+    /**
+     * Optional number of seconds a node lives after it was last set or updated. If set, the expiry date is stored
+     * in the node's `field` automatically each time the node (or one of its ancestors) is written to, unless the
+     * written value contains `field` itself. If not set, the expiry date must be stored in `field` by your app.
+     */
+    ttl?: number;
+
+    /**
+     * Name of the child that holds the node's expiry date, as a `Date` or a timestamp in milliseconds.
+     * @default 'expires'
+     */
+    field?: string;
+}
+
+const isWildcardKey = (key: string | number) => typeof key === 'string' && (key === '*' || key.startsWith('$'));
+
+/**
+ * Gets the path of the index used to find expired nodes of a rule, eg `'users/*\/tokens'` for `'users/$uid/tokens/$tid'`
+ */
+export function getExpiryIndexPath(rule: TTLRule) {
+    const keys = PathInfo.getPathKeys(rule.path).map(key => isWildcardKey(key) ? '*' : key);
+    return PathInfo.get(keys.slice(0, -1)).path;
+}
+
+/**
+ * Stores the expiry dates of all nodes written to that match a rule with a `ttl`
+ * @param rules TTL rules
+ * @param path path of the node being written to
+ * @param value value being set, or updates being merged. Not changed, objects that get an expiry date are copied.
+ * @returns value with expiry dates
+ */
+export function stampExpiry(rules: TTLRule[], path: string, value: any) {
+    const pathKeys = PathInfo.getPathKeys(path);
+    for (const rule of rules) {
+        if (typeof rule.ttl !== 'number') { continue; }
+        const ruleKeys = PathInfo.getPathKeys(rule.path);
+        if (pathKeys.length > ruleKeys.length || !PathInfo.get(ruleKeys.slice(0, pathKeys.length)).equals(path)) {
+            // Not writing to (ancestors of) target nodes
+            continue;
+        }
+        const field = rule.field ?? 'expires';
+        const expires = new Date(Date.now() + rule.ttl * 1000);
+        const stamp = (value: any, keys: Array<string | number>): any => {
+            if (value === null || typeof value !== 'object' || value instanceof Array || value instanceof Date) {
+                return value;
+            }
+            if (keys.length === 0) {
+                return field in value ? value : { ...value, [field]: expires };
+            }
+            let copy = value;
+            const childKeys = isWildcardKey(keys[0]) ? Object.keys(value) : [keys[0]];
+            for (const key of childKeys) {
+                if (!(key in value)) { continue; }
+                const child = stamp(value[key], keys.slice(1));
+                if (child !== value[key]) {
+                    copy === value && (copy = { ...value });
+                    copy[key] = child;
+                }
+            }
+            return copy;
+        };
+        value = stamp(value, ruleKeys.slice(pathKeys.length));
+    }
+    return value;
+}
@@ -0,0 +1,66 @@
+import { createTempDB } from './tempdb';
+import { AceBase } from '..';
+
+describe('aggregate', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB());
+        const statuses = ['new', 'paid', 'shipped'];
+        const orders = {} as Record<string, any>;
+        for (let i = 0; i < 60; i++) {
+            orders[`o${i}`] = { status: statuses[i % 3], total: i, date: new Date(2022, 0, 1 + i), customer: `c${i % 4}` };
+        }
+        orders.o60 = { total: 100 }; // No status
+        await db.ref('shop/orders').set(orders);
+        await db.ref('archive/orders').set(orders);
+        await db.indexes.create('archive/orders', 'status', { include: ['total', 'date'] });
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('groups, counts and sums by scanning children', async () => {
+        const { results, explain } = await db.api.aggregate('shop/orders', { filters: [] }, { groupBy: 'status', count: true, sum: 'total', min: 'date' });
+        expect(explain.strategy).toBe('scan');
+        expect(explain.checked).toBe(61);
+        expect(results).toEqual([
+            { group: 'new', count: 20, sum: { total: 570 }, min: { date: new Date(2022, 0, 1) } },
+            { group: 'paid', count: 20, sum: { total: 590 }, min: { date: new Date(2022, 0, 2) } },
+            { group: 'shipped', count: 20, sum: { total: 610 }, min: { date: new Date(2022, 0, 3) } },
+        ]);
+
+        // Without grouping and with filters
+        const [result] = await db.aggregate('shop/orders', { count: true, avg: 'total', max: 'total', filters: [{ key: 'customer', op: '==', compare: 'c1' }] });
+        expect(result).toEqual({ count: 15, avg: { total: 29 }, max: { total: 57 } });
+
+        // Nothing matches
+        expect(await db.aggregate('shop/orders', { count: true, sum: 'total', filters: [{ key: 'total', op: '>', compare: 1000 }] }))
+            .toEqual([{ count: 0, sum: { total: 0 } }]);
+    });
+
+    it('uses index entries and metadata', async () => {
+        const { results, explain } = await db.api.aggregate('archive/orders', { filters: [] }, { groupBy: 'status', count: true, sum: 'total' });
+        expect(explain.strategy).toBe('index');
+        expect(results).toEqual([
+            { group: 'new', count: 20, sum: { total: 570 } },
+            { group: 'paid', count: 20, sum: { total: 590 } },
+            { group: 'shipped', count: 20, sum: { total: 610 } },
+        ]);
+
+        // Filter on an included key, results must equal those of a scan
+        const options = { sum: 'total', count: true, filters: [{ key: 'status', op: 'in', compare: ['paid', 'shipped'] }, { key: 'date', op: '>=', compare: new Date(2022, 1, 1) }] };
+        const indexed = await db.api.aggregate('archive/orders', { filters: options.filters }, options);
+        expect(indexed.explain.strategy).toBe('index');
+        const scanned = await db.aggregate('shop/orders', options);
+        expect(indexed.results).toEqual(scanned);
+        expect(scanned).toEqual([{ count: 20, sum: { total: 900 } }]);
+
+        // Keys that are not included in the index require a scan
+        const customers = await db.api.aggregate('archive/orders', { filters: [] }, { groupBy: 'status', count: true, max: 'customer' });
+        expect(customers.explain.strategy).toBe('scan');
+        expect(customers.results.map(r => r.max.customer)).toEqual(['c3', 'c3', 'c3']);
+    });
+});
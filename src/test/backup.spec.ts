@@ -0,0 +1,85 @@
+import { createTempDB } from './tempdb';
+import { AceBase, ID } from '..';
+import { rm, writeFile, mkdir } from 'fs/promises';
+
+describe('database backup', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+    const backupPath = `${__dirname}/backup-${ID.generate()}`;
+    const restorePath = `${__dirname}/restore-${ID.generate()}`;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB({ transactionLogging: true }));
+    });
+
+    afterAll(async () => {
+        await removeDB();
+        await rm(backupPath, { recursive: true, force: true });
+        await rm(restorePath, { recursive: true, force: true });
+    });
+
+    it('copies a running database and restores it', async () => {
+        await db.indexes.create('movies', 'year');
+        await db.schema.set('movies/$id', { title: 'string', year: 'number' });
+        await db.ref('movies').set({
+            m1: { title: 'The Matrix', year: 1999 },
+            m2: { title: 'Inception', year: 2010 },
+            m3: { title: 'Interstellar', year: 2014 },
+        });
+
+        // Write while the backup is running, these must either be in the backup entirely, or not at all
+        const backupPromise = db.backup(backupPath);
+        const writes = Promise.all([
+            db.ref('movies/m4').set({ title: 'Tenet', year: 2020 }),
+            db.ref('movies/m1').update({ title: 'The Matrix (1999)' }),
+        ]);
+        const result = await backupPromise;
+        await writes;
+        expect(result.files).toContain('data.db');
+        expect(result.files).toContain('transaction.db');
+        expect(result.files).toContain('data-schemas.json');
+        expect(result.files.some(file => file.endsWith('.idx'))).toBeTrue();
+
+        // Creating a backup in the same location again must fail
+        await expectAsync(db.backup(backupPath)).toBeRejected();
+
+        const restored = await AceBase.restore(db.name, backupPath, { storage: { path: restorePath }, logLevel: 'error' });
+        try {
+            const value = (await restored.ref('movies').get()).val();
+            expect(value.m2).toEqual({ title: 'Inception', year: 2010 });
+            if ('m4' in value) {
+                expect(value.m4).toEqual({ title: 'Tenet', year: 2020 });
+            }
+
+            // Index must have been restored
+            const indexes = await restored.indexes.get();
+            expect(indexes.length).toBe(1);
+            const snaps = await restored.query('movies').filter('year', '>', 2005).get();
+            expect(snaps.length).toBe('m4' in value ? 3 : 2);
+
+            // Schema must have been restored
+            const schemas = await restored.schema.all();
+            expect(schemas.map(s => s.path)).toEqual(['movies/$id']);
+            const check = await restored.schema.check('movies/m5', { title: 'Dune', year: '2021' }, false);
+            expect(check.ok).toBeFalse();
+
+            // Restoring over an existing database must fail
+            await expectAsync(AceBase.restore(db.name, backupPath, { storage: { path: restorePath } })).toBeRejected();
+        }
+        finally {
+            await restored.close();
+        }
+    });
+
+    it('refuses to restore an invalid backup', async () => {
+        const invalidPath = `${backupPath}-invalid`;
+        await mkdir(`${invalidPath}/invalid.acebase`, { recursive: true });
+        await writeFile(`${invalidPath}/invalid.acebase/data.db`, 'This is not an AceBase database file, but it is longer than the header size of 64 bytes');
+        try {
+            await expectAsync(AceBase.restore('invalid', invalidPath, { storage: { path: restorePath } })).toBeRejectedWithError(/not a supported database file/);
+        }
+        finally {
+            await rm(invalidPath, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,111 @@
+import { createTempDB } from './tempdb';
+import { AceBase, ID } from '..';
+import { ObjectCollection } from 'acebase-core';
+import { readDataSet } from './dataset';
+import { rm, stat } from 'fs/promises';
+import type { AceBaseStorage } from '../storage/binary';
+
+describe('database compaction', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB());
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('moves records and shrinks the file', async () => {
+        expect(typeof db.maintenance?.compact).toBe('function');
+
+        // Create records spanning multiple pages, then remove the first half to create free space at the start of the file
+        const movies = (await readDataSet('movies') as any[]).map(movie => ({ ...movie, notes: 'Lorem ipsum '.repeat(200) }));
+        for (let i = 0; i < 10; i++) {
+            await db.ref(`collections/c${i}`).set(ObjectCollection.from(movies));
+        }
+        await db.ref('titles').set(movies.map(movie => movie.title));
+        for (let i = 0; i < 5; i++) {
+            await db.ref(`collections/c${i}`).remove();
+        }
+        const expected = (await db.ref('').get()).val();
+
+        const storage = db.api.storage as AceBaseStorage;
+        const sizeBefore = (await stat(storage.fileName)).size;
+
+        const result = await db.maintenance.compact();
+        expect(result.recordsMoved).toBeGreaterThan(0);
+        expect(result.pagesAfter).toBeLessThan(result.pagesBefore);
+
+        const sizeAfter = (await stat(storage.fileName)).size;
+        expect(sizeAfter).toBeLessThan(sizeBefore);
+
+        // All data must still be there
+        const value = (await db.ref('').get()).val();
+        expect(value).toEqual(expected);
+
+        // Writing must still be possible
+        await db.ref('collections/c5').update({ added: { title: 'New movie' } });
+        await db.ref('collections/c0').set(ObjectCollection.from(movies));
+        const snap = await db.ref('collections/c5/added').get();
+        expect(snap.val()).toEqual({ title: 'New movie' });
+        const count = await db.ref('collections/c0').count();
+        expect(count).toBe(movies.length);
+    });
+
+});
+
+describe('database compaction while in use', () => {
+    let db: AceBase;
+    let dbname: string;
+
+    beforeAll(async () => {
+        // Not using createTempDB because the FST of the IPC master is spied on, it has to run in this process
+        dbname = 'test-' + ID.generate();
+        db = new AceBase(dbname, { storage: { path: __dirname }, logLevel: 'error' });
+        await db.ready();
+    });
+
+    afterAll(async () => {
+        await db.close();
+        await rm(`${__dirname}/${dbname}.acebase`, { recursive: true, maxRetries: 10 });
+    });
+
+    it('lets reads and writes finish while records are moved', async () => {
+        const movies = (await readDataSet('movies') as any[]).map(movie => ({ ...movie, notes: 'Lorem ipsum '.repeat(200) }));
+        for (let i = 0; i < 10; i++) {
+            await db.ref(`collections/c${i}`).set(ObjectCollection.from(movies));
+        }
+        await db.ref('titles').set(movies.map(movie => movie.title));
+        for (let i = 0; i < 5; i++) {
+            await db.ref(`collections/c${i}`).remove();
+        }
+        const expected = (await db.ref('').get()).val();
+
+        // Wait until compaction released the space of the first moved record
+        const storage = db.api.storage as AceBaseStorage;
+        const release = storage.FST.release;
+        const moved = new Promise<void>(resolve => {
+            spyOn(storage.FST, 'release').and.callFake(async (...args: Parameters<typeof release>) => {
+                storage.FST.reserved && resolve();
+                return release.apply(storage.FST, args);
+            });
+        });
+        const order = [] as string[];
+        const compaction = db.maintenance.compact().then(result => { order.push('compact'); return result; });
+        await moved;
+
+        const read = db.ref('titles').get().then(snap => { order.push('read'); return snap.val(); });
+        const write = db.ref('collections/c5/added').set({ title: 'New movie' }).then(() => { order.push('write'); });
+        const [result, titles] = await Promise.all([compaction, read, write]);
+        expect(order.indexOf('compact')).toBe(2);
+        expect(titles).toEqual(expected.titles);
+        expect(result.recordsMoved).toBeGreaterThan(0);
+        expect(result.pagesAfter).toBeLessThan(result.pagesBefore);
+
+        // All data must still be there
+        expected.collections.c5.added = { title: 'New movie' };
+        expect((await db.ref('').get()).val()).toEqual(expected);
+    }, 30000);
+});
@@ -100,4 +100,99 @@ describe('export/import', () => {
         // TODO: Check data now
     }, 1000e3);
 
+    it('ndjson', async () => {
+        const ref = db.ref('ndjson');
+        const books = {
+            book1: { title: 'Multi-line\ntitle', published: new Date('2022-04-22T07:49:23Z'), tags: ['fiction', 'drama'] },
+            book2: { title: 'Second book', isbn: BigInt('9781234567897'), author: new PathReference('authors/author1') },
+        };
+        await ref.set(books);
+
+        let ndjson = '';
+        await db.api.export(ref.path, str => { ndjson += str; }, { format: 'ndjson', type_safe: true });
+        const lines = ndjson.split('\n').filter(line => line.length > 0);
+        expect(lines.map(line => JSON.parse(line).key).sort()).toEqual(['book1', 'book2']);
+
+        // Import into other node, in small chunks
+        let index = 0;
+        await db.api.import('ndjson_copy', length => {
+            const data = ndjson.slice(index, index + Math.min(length, 10));
+            index += data.length;
+            return data;
+        }, { format: 'ndjson', method: 'set', suppress_events: false });
+        const copy = (await db.ref('ndjson_copy').get()).val();
+        expect(copy).toEqual(books);
+    });
+
+    it('ndjson with multi-byte characters split across binary chunks', async () => {
+        const values = { n1: { name: 'Café Müller' }, n2: { name: '東京 😀' } };
+        const ndjson = Object.keys(values).map(key => JSON.stringify({ key, value: values[key as keyof typeof values] })).join('\n');
+        const bytes = new TextEncoder().encode(ndjson);
+
+        // Import in chunks of 3 bytes, so characters are split
+        let index = 0;
+        await db.api.import('ndjson_bytes', length => {
+            const data = bytes.slice(index, index + Math.min(length, 3));
+            index += data.byteLength;
+            return data;
+        }, { format: 'ndjson', method: 'set', suppress_events: false });
+        expect((await db.ref('ndjson_bytes').get()).val()).toEqual(values);
+    });
+
+    it('binary', async () => {
+        const ref = db.ref('binary');
+        const value = {
+            text: 'Binary export of ünicode text',
+            nr: 3.14,
+            big: BigInt('-123456789012345678901234567890'),
+            yes: true,
+            date: new Date(),
+            binary: new Uint8Array([1, 2, 3, 255]).buffer,
+            reference: new PathReference('some/other/data'),
+            empty: {},
+            list: [1, 'two', { three: 3, description: 'An object stored in an array, with a description that is stored in its own record' }, [4]],
+            nested: { child: { description: 'A child of a nested object, with a description that is stored in its own record' } },
+        };
+        await ref.set(value);
+
+        const chunks = [] as Uint8Array[];
+        await db.api.export(ref.path, ((data: Uint8Array) => { chunks.push(data); }) as any, { format: 'binary', type_safe: true });
+        expect(chunks.every(chunk => chunk instanceof Uint8Array)).toBeTrue();
+        const data = Buffer.concat(chunks);
+
+        let index = 0;
+        await db.api.import('binary_copy', length => {
+            const chunk = data.subarray(index, index + Math.min(length, 7));
+            index += chunk.byteLength;
+            return chunk;
+        }, { format: 'binary', method: 'set', suppress_events: false });
+        const copy = (await db.ref('binary_copy').get()).val();
+        expect(typeof copy.big).toEqual('bigint');
+        expect(new Uint8Array(copy.binary)).toEqual(new Uint8Array(value.binary));
+        copy.binary = value.binary = null;
+        expect(copy).toEqual(value);
+
+        // Must refuse data that is not in binary export format
+        await expectAsync(db.api.import('binary_copy', () => Buffer.from('{"json":true}'), { format: 'binary', method: 'set', suppress_events: false })).toBeRejected();
+    });
+
+    it('csv', async () => {
+        const ref = db.ref('csv');
+        await ref.set({
+            user1: { name: 'Ewout', city: 'Amsterdam', joined: new Date('2018-01-01T00:00:00Z') },
+            user2: { name: 'Smith, John', quote: 'Say "hello"', age: 42 },
+        });
+        let csv = '';
+        await db.api.export(ref.path, str => { csv += str; }, { format: 'csv', type_safe: false });
+        expect(csv).toEqual(
+            'key,name,city,joined,quote,age\r\n'
+            + 'user1,Ewout,Amsterdam,2018-01-01T00:00:00.000Z,,\r\n'
+            + 'user2,"Smith, John",,,"Say ""hello""",42\r\n'
+        );
+
+        // Collections with nested objects can't be exported as CSV
+        await db.ref('csv/user3').set({ name: 'Jack', address: { city: 'Berlin' } });
+        await expectAsync(db.api.export(ref.path, () => { /* nothing */ }, { format: 'csv', type_safe: false })).toBeRejected();
+    });
+
 });
@@ -1,7 +1,10 @@
 import { createTempDB } from './tempdb';
-import { AceBase, ID } from '..';
+import { AceBase, ID, MemoryStorageSettings, SQLiteStorageSettings } from '..';
 import { ObjectCollection } from 'acebase-core';
 import { readDataSet } from './dataset';
+import { IndexTableRange, IndexTableRow, IndexTableStore, TableDataIndex } from '../data-index';
+import { NodeIndexFileSystem } from '../index-file-system';
+import { rm } from 'fs/promises';
 
 // TODO: MANY MORE index options to spec
 
@@ -303,3 +306,304 @@ describe('Fulltext index', () => {
         await removeDB();
     });
 });
+
+describe('Compound index', () => {
+    let db: AceBase, removeDB: () => Promise<void>;
+    const statuses = ['open', 'closed', 'pending'];
+    const orders = [] as Array<{ status: string; created: Date; amount: number }>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB());
+
+        const collection = {} as any;
+        for (let i = 0; i < 300; i++) {
+            const order = { status: statuses[i % 3], created: new Date(Date.UTC(2022, 0, 1 + (i * 7) % 365)), amount: (i * 37) % 250 - 100 };
+            orders.push(order);
+            collection[ID.generate()] = order;
+        }
+        await db.ref('orders').set(collection);
+
+        await db.indexes.create('orders', 'status,created', { type: 'compound', include: ['amount'] });
+    }, 30000);
+
+    it('is created with multiple keys', async () => {
+        const indexes = await db.indexes.get();
+        const index = indexes.find(index => index.type === 'compound') as any;
+        expect(index).toBeDefined();
+        expect(index.keys).toEqual(['status', 'created']);
+        expect(index.fileName).toContain('status+created,amount.compound.idx');
+    });
+
+    it('is used for equality and range filters', async () => {
+        const since = new Date(Date.UTC(2022, 6, 1));
+        const sources = [] as string[];
+        const snaps = await db.query('orders')
+            .filter('status', '==', 'open')
+            .filter('created', '>=', since)
+            .on('stats', ev => { sources.push(ev.source); })
+            .get();
+        const expected = orders.filter(order => order.status === 'open' && order.created >= since);
+        expect(expected.length).toBeGreaterThan(0);
+        expect(snaps.length).toBe(expected.length);
+        expect(snaps.getValues().every(order => order.status === 'open' && order.created >= since)).toBeTrue();
+        expect(sources.some(source => source.includes('(compound)'))).toBeTrue();
+    });
+
+    it('is used for equality filters and sort', async () => {
+        const snaps = await db.query('orders')
+            .filter('status', '==', 'pending')
+            .sort('created', false)
+            .take(10)
+            .get();
+        const expected = orders.filter(order => order.status === 'pending').map(order => order.created.getTime()).sort((a, b) => b - a).slice(0, 10);
+        expect(snaps.getValues().map(order => order.created.getTime())).toEqual(expected);
+    });
+
+    it('is updated with the data', async () => {
+        const ref = await db.ref('orders').push({ status: 'open', created: new Date(Date.UTC(2023, 0, 1)), amount: 1 });
+        let count = await db.query('orders').filter('status', '==', 'open').filter('created', '>', new Date(Date.UTC(2022, 11, 31))).count();
+        expect(count).toBe(1);
+
+        await ref.update({ status: 'closed' });
+        count = await db.query('orders').filter('status', '==', 'open').filter('created', '>', new Date(Date.UTC(2022, 11, 31))).count();
+        expect(count).toBe(0);
+        count = await db.query('orders').filter('status', '==', 'closed').filter('created', 'between', [new Date(Date.UTC(2022, 11, 31, 12)), new Date(Date.UTC(2023, 0, 2))]).count();
+        expect(count).toBe(1);
+
+        await ref.remove();
+        count = await db.query('orders').filter('status', '==', 'closed').filter('created', '>', new Date(Date.UTC(2022, 11, 31))).count();
+        expect(count).toBe(0);
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+});
+
+describe('Table index', () => {
+    let db: AceBase;
+    const books = [
+        { title: 'Dune', year: 1965 },
+        { title: 'Neuromancer', year: 1984 },
+        { title: 'Hyperion', year: 1989 },
+        { title: 'Foundation', year: 1951 },
+        { title: 'Solaris' },
+    ];
+
+    // Keeps index entries in memory, like a database table would
+    const createTableStore = (): IndexTableStore => {
+        const definitions = new Map<string, string>();
+        const entries = new Map<string, Map<string, IndexTableRow>>();
+        const inRange = (key: string, range: IndexTableRange) => (range.gt === undefined || key > range.gt)
+            && (range.gte === undefined || key >= range.gte)
+            && (range.lt === undefined || key < range.lt)
+            && (range.lte === undefined || key <= range.lte);
+        const getRows = (name: string, ranges: IndexTableRange[]) => [...entries.get(name).values()].filter(row => ranges.some(range => inRange(row.sortKey, range)));
+        return {
+            list: async () => [...definitions.keys()],
+            get: async name => definitions.get(name) ?? null,
+            create: async (name, definition) => { definitions.set(name, definition); entries.set(name, new Map()); },
+            remove: async name => { definitions.delete(name); entries.delete(name); },
+            update: async (name, changes) => {
+                changes.remove.forEach(path => entries.get(name).delete(path));
+                changes.add.forEach(row => entries.get(name).set(row.path, row));
+            },
+            count: async (name, ranges) => getRows(name, ranges).length,
+            select: async (name, ranges, options) => getRows(name, ranges)
+                .sort((a, b) => (a.sortKey === b.sortKey ? 0 : (a.sortKey < b.sortKey) === options.ascending ? -1 : 1) || (a.path < b.path ? -1 : 1))
+                .slice(options.skip, options.skip + options.take),
+        };
+    };
+
+    beforeAll(async () => {
+        db = new AceBase('tables-' + ID.generate(), { logLevel: 'error', storage: new MemoryStorageSettings() });
+        await db.ready();
+        db.api.storage.indexes.tableStore = createTableStore();
+        await db.ref('books').set(books.reduce((obj, book, i) => (obj[`book${i}`] = book, obj), {} as Record<string, unknown>));
+        await db.indexes.create('books', 'year', { include: ['title'] });
+    });
+
+    it('is used for normal indexes', async () => {
+        const indexes = await db.api.getIndexes();
+        expect(indexes.map(index => index.constructor.name)).toEqual(['TableDataIndex']);
+
+        // Indexes with a collation are stored in index files
+        const index = await db.api.createIndex('books', 'title', { collation: { locale: 'en' } });
+        expect(index.constructor.name).toBe('DataIndex');
+        await db.api.deleteIndex(index.fileName);
+    });
+
+    it('is used for range filters and sort', async () => {
+        const sources = [] as string[];
+        const snaps = await db.query('books')
+            .filter('year', 'between', [1960, 1990])
+            .sort('year', false)
+            .on('stats', ev => { sources.push(ev.source); })
+            .get();
+        expect(snaps.getValues().map(book => book.title)).toEqual(['Hyperion', 'Neuromancer', 'Dune']);
+        expect(sources.some(source => source.includes('/books/*/year'))).toBeTrue();
+
+        const count = await db.query('books').filter('year', '!exists').count();
+        expect(count).toBe(1);
+    });
+
+    it('is updated with the data', async () => {
+        const ref = await db.ref('books').push({ title: 'Snow Crash', year: 1992 });
+        let snaps = await db.query('books').filter('year', '>', 1990).get();
+        expect(snaps.getValues().map(book => book.title)).toEqual(['Snow Crash']);
+
+        await ref.update({ year: 1970 });
+        snaps = await db.query('books').filter('year', 'between', [1966, 1980]).get();
+        expect(snaps.getValues().map(book => book.title)).toEqual(['Snow Crash']);
+
+        await ref.remove();
+        const count = await db.query('books').filter('year', 'exists').count();
+        expect(count).toBe(4);
+    });
+
+    it('moves index files of previous versions into the database', async () => {
+        // Create an index file on disk, like previous versions did
+        const storage = db.api.storage;
+        const { fileSystem, tableStore } = storage.indexes;
+        storage.indexes.fileSystem = NodeIndexFileSystem;
+        storage.indexes.tableStore = null;
+        const fileIndex = await storage.indexes.create('books', 'title');
+        await storage.indexes.remove(fileIndex.fileName);
+        storage.indexes.fileSystem = fileSystem;
+        storage.indexes.tableStore = tableStore;
+
+        try {
+            await storage.indexes.load();
+            const index = storage.indexes.get('books', 'title')[0];
+            expect(index?.constructor.name).toBe('TableDataIndex');
+            expect(await NodeIndexFileSystem.exists(fileIndex.fileName)).toBeFalse();
+            const snaps = await db.query('books').filter('title', '>', 'N').get();
+            expect(snaps.getValues().map(book => book.title).sort()).toEqual(['Neuromancer', 'Solaris']);
+            await db.indexes.delete(index.fileName);
+        }
+        finally {
+            await rm(`${storage.settings.path}/${storage.name}.acebase`, { recursive: true, force: true });
+        }
+    });
+
+    afterAll(async () => {
+        await db.close();
+    });
+});
+
+/**
+ * The optional sqlite3 package, specs using it are skipped if it is not installed
+ */
+const sqlite3 = (() => {
+    try {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        return require('sqlite3');
+    }
+    catch (err) {
+        return null;
+    }
+})();
+
+(sqlite3 ? describe : xdescribe)('SQLite index table', () => {
+    let db: AceBase;
+    const dbname = 'sqlite-' + ID.generate();
+    const dbdir = `${__dirname}/${dbname}.acebase`;
+    const books = [
+        { title: 'Dune', year: 1965 },
+        { title: 'Neuromancer', year: 1984 },
+        { title: 'Hyperion', year: 1989 },
+        { title: 'Foundation', year: 1951 },
+        { title: 'Solaris' },
+    ];
+
+    const open = async () => {
+        db = new AceBase(dbname, { logLevel: 'error', storage: new SQLiteStorageSettings({ path: __dirname }) });
+        await db.ready();
+    };
+
+    /**
+     * Runs a statement on a separate connection to the database file
+     */
+    const sql = (statement: string) => new Promise<any[]>((resolve, reject) => {
+        const connection = new sqlite3.Database(`${dbdir}/data.sqlite`);
+        connection.all(statement, (err: Error, rows: any[]) => {
+            connection.close();
+            err ? reject(err) : resolve(rows);
+        });
+    });
+
+    beforeAll(async () => {
+        await open();
+        await db.ref('books').set(books.reduce((obj, book, i) => (obj[`book${i}`] = book, obj), {} as Record<string, unknown>));
+        await db.indexes.create('books', 'year', { include: ['title'] });
+    });
+
+    afterAll(async () => {
+        await db.close();
+        await rm(dbdir, { recursive: true, maxRetries: 10 });
+    });
+
+    it('stores entries of normal indexes in the index_entries table', async () => {
+        const indexes = await db.api.getIndexes();
+        const index = indexes.find(index => index.key === 'year') as TableDataIndex;
+        expect(index.constructor.name).toBe('TableDataIndex');
+        const rows = await sql(`SELECT path FROM index_entries WHERE index_name = '${index.indexName}' ORDER BY path`);
+        expect(rows.map(row => row.path)).toEqual(['books/book0', 'books/book1', 'books/book2', 'books/book3', 'books/book4']);
+    });
+
+    it('is used for range filters, sort and paging', async () => {
+        const sources = [] as string[];
+        let snaps = await db.query('books')
+            .filter('year', 'between', [1960, 1990])
+            .sort('year', false)
+            .on('stats', ev => { sources.push(ev.source); })
+            .get();
+        expect(snaps.getValues().map(book => book.title)).toEqual(['Hyperion', 'Neuromancer', 'Dune']);
+        expect(sources.some(source => source.includes('/books/*/year'))).toBeTrue();
+
+        snaps = await db.query('books').filter('year', '>=', 1951).sort('year').skip(1).take(2).get();
+        expect(snaps.getValues().map(book => book.title)).toEqual(['Dune', 'Neuromancer']);
+
+        expect(await db.query('books').filter('year', '>', 1965).count()).toBe(2);
+        expect(await db.query('books').filter('year', '!exists').count()).toBe(1);
+    });
+
+    it('is updated in the transaction of the node write', async () => {
+        // Make index entry inserts fail: the node write must be rolled back
+        await sql(`CREATE TRIGGER fail_index_entries BEFORE INSERT ON index_entries BEGIN SELECT RAISE(ABORT, 'index entry rejected'); END`);
+        try {
+            await expectAsync(db.ref('books/book0').update({ year: 1966 })).toBeRejected();
+        }
+        finally {
+            await sql(`DROP TRIGGER fail_index_entries`);
+        }
+        expect((await db.ref('books/book0/year').get()).val()).toBe(1965);
+        expect(await db.query('books').filter('year', '==', 1966).count()).toBe(0);
+
+        await db.ref('books/book0').update({ year: 1966 });
+        const snaps = await db.query('books').filter('year', '==', 1966).get();
+        expect(snaps.getValues().map(book => book.title)).toEqual(['Dune']);
+        await db.ref('books/book0').update({ year: 1965 });
+    });
+
+    it('moves index files of previous versions into the database when it is opened', async () => {
+        // Create an index file on disk, like previous versions did
+        const storage = db.api.storage;
+        const { fileSystem, tableStore } = storage.indexes;
+        storage.indexes.fileSystem = NodeIndexFileSystem;
+        storage.indexes.tableStore = null;
+        const fileIndex = await storage.indexes.create('books', 'title');
+        await storage.indexes.remove(fileIndex.fileName);
+        storage.indexes.fileSystem = fileSystem;
+        storage.indexes.tableStore = tableStore;
+        await db.close();
+        expect(await NodeIndexFileSystem.exists(fileIndex.fileName)).toBeTrue();
+
+        await open();
+        const indexes = await db.api.getIndexes();
+        expect(indexes.map(index => `${index.constructor.name} ${index.key}`).sort()).toEqual(['TableDataIndex title', 'TableDataIndex year']);
+        expect(await NodeIndexFileSystem.exists(fileIndex.fileName)).toBeFalse();
+        const snaps = await db.query('books').filter('title', '>', 'N').get();
+        expect(snaps.getValues().map(book => book.title).sort()).toEqual(['Neuromancer', 'Solaris']);
+    });
+});
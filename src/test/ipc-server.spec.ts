@@ -0,0 +1,311 @@
+import * as http from 'http';
+import { rm } from 'fs/promises';
+import { WebSocket } from 'ws';
+import { AceBase, ID } from '..';
+import { AceBaseIPCServer } from '../ipc/server';
+import type { IMessage, ILockRequestMessage, ILockResponseMessage, IUnlockResponseMessage } from '../ipc/ipc';
+import { getFreePort } from './network';
+
+/**
+ * Websocket connection to the IPC server, like the ones `RemoteIPCPeer`s use
+ */
+class TestClient {
+    private received = [] as string[];
+    private waiting = [] as Array<(str: string) => void>;
+
+    private constructor(public id: string, private ws: WebSocket) {
+        ws.on('message', data => {
+            const str = data.toString();
+            const next = this.waiting.shift();
+            next ? next(str) : this.received.push(str);
+        });
+    }
+
+    /**
+     * Connects to the IPC server, rejects with the http status code if the server denies the connection
+     */
+    static connect(port: number, id: string, options: { dbname?: string; token?: string } = {}) {
+        const { dbname = 'db', token = 'secret' } = options;
+        const ws = new WebSocket(`ws://localhost:${port}/${dbname}/connect?v=1.0.0&id=${id}&t=${token}`);
+        return new Promise<TestClient>((resolve, reject) => {
+            ws.once('open', () => resolve(new TestClient(id, ws)));
+            ws.once('unexpected-response', (req, res) => {
+                reject(res.statusCode);
+                ws.terminate();
+            });
+            ws.once('error', reject);
+        });
+    }
+
+    /**
+     * Gets the next received message
+     */
+    next() {
+        if (this.received.length > 0) {
+            return Promise.resolve(this.received.shift());
+        }
+        return new Promise<string>(resolve => this.waiting.push(resolve));
+    }
+
+    /**
+     * Gets the next received message, parsed
+     */
+    async nextMessage<T extends IMessage = IMessage>() {
+        return JSON.parse(await this.next()) as T;
+    }
+
+    send(message: IMessage, to?: string) {
+        const json = JSON.stringify(message);
+        this.ws.send(to ? `to:${to};${json}` : json);
+    }
+
+    close() {
+        return new Promise<void>(resolve => {
+            this.ws.once('close', () => resolve());
+            this.ws.close();
+        });
+    }
+}
+
+describe('IPC server', () => {
+    let server: AceBaseIPCServer;
+    let port: number;
+    let clients: TestClient[];
+
+    const connect = async (id: string, options?: { dbname?: string; token?: string }) => {
+        const client = await TestClient.connect(port, id, options);
+        clients.push(client);
+        expect(await client.next()).toBe(`welcome:${JSON.stringify({ maxPayload: 100 })}`);
+        return client;
+    };
+
+    /**
+     * Sends an http request to the server
+     */
+    const request = (method: 'GET' | 'POST', path: string, body?: string, chunkSize?: number) => new Promise<{ status: number; body: string }>((resolve, reject) => {
+        const headers = typeof chunkSize === 'number' ? {} : { 'Content-Length': Buffer.byteLength(body ?? '') };
+        const req = http.request({ port, path, method, headers }, res => {
+            let data = '';
+            res.setEncoding('utf8');
+            res.on('data', chunk => { data += chunk; });
+            res.on('end', () => resolve({ status: res.statusCode, body: data }));
+        });
+        req.on('error', reject);
+        if (typeof chunkSize === 'number') {
+            for (let i = 0; i < body.length; i += chunkSize) {
+                req.write(body.slice(i, i + chunkSize));
+            }
+        }
+        else if (typeof body === 'string') {
+            req.write(body);
+        }
+        req.end();
+    });
+
+    /**
+     * Posts a message for peer "peer1" of database "db", optionally in chunks without a Content-Length header
+     */
+    const post = (body: string, chunkSize?: number) => request('POST', '/db/send?id=peer1&t=secret', body, chunkSize);
+
+    beforeEach(async () => {
+        port = await getFreePort();
+        server = await AceBase.startIPCServer({ port, token: 'secret', maxPayload: 100, maxMessageSize: 1000, logLevel: 'error' });
+        clients = [];
+    });
+
+    afterEach(async () => {
+        await Promise.all(clients.map(client => client.close()));
+        await server.stop();
+    });
+
+    it('tells peers when other peers of the database connect and disconnect', async () => {
+        const peer1 = await connect('peer1');
+        const peer2 = await connect('peer2');
+        await connect('peer3', { dbname: 'other' });
+        expect(await peer1.next()).toBe('connect:peer2');
+
+        clients.splice(clients.indexOf(peer2), 1);
+        await peer2.close();
+        expect(await peer1.next()).toBe('disconnect:peer2');
+        expect(server.status().peers.map(peer => `${peer.dbname}/${peer.id}`)).toEqual(['db/peer1', 'other/peer3']);
+    });
+
+    it('rejects connections and requests with an invalid token', async () => {
+        await expectAsync(TestClient.connect(port, 'peer1', { token: 'wrong' })).toBeRejectedWith(403);
+        await expectAsync(TestClient.connect(port, 'peer1', { token: '' })).toBeRejectedWith(403);
+        expect(server.status().peers).toEqual([]);
+
+        await connect('peer1');
+        const result = await request('POST', '/db/send?id=peer1&t=wrong', JSON.stringify({ type: 'notification', from: 'peer1', data: 'x' }));
+        expect(result.status).toBe(403);
+        expect(server.status().messages).toBe(0);
+    });
+
+    it('relays messages to all other peers of the database, or to a specific peer', async () => {
+        const peer1 = await connect('peer1');
+        const peer2 = await connect('peer2');
+        const peer3 = await connect('peer3');
+        await connect('peer4', { dbname: 'other' });
+        expect(await peer1.next()).toBe('connect:peer2');
+        expect(await peer1.next()).toBe('connect:peer3');
+        expect(await peer2.next()).toBe('connect:peer3');
+
+        const hello = { type: 'hello', from: 'peer1', data: undefined } as IMessage;
+        peer1.send(hello);
+        expect(await peer2.nextMessage()).toEqual({ type: 'hello', from: 'peer1' } as IMessage);
+        expect(await peer3.nextMessage()).toEqual({ type: 'hello', from: 'peer1' } as IMessage);
+
+        const notification = { type: 'notification', from: 'peer1', to: 'peer3', data: 'for peer3' } as IMessage;
+        peer1.send(notification, 'peer3');
+        expect(await peer3.nextMessage()).toEqual(notification);
+
+        // Peers that did not receive the notification get the next message
+        const bye = { type: 'bye', from: 'peer1', data: undefined } as IMessage;
+        peer1.send(bye);
+        expect(await peer2.nextMessage()).toEqual({ type: 'bye', from: 'peer1' } as IMessage);
+        expect(await peer3.nextMessage()).toEqual({ type: 'bye', from: 'peer1' } as IMessage);
+
+        const status = server.status();
+        expect(status.messages).toBe(3);
+        expect(status.peers.find(peer => peer.id === 'peer1').messages).toEqual({ sent: 3, received: 3 });
+        expect(status.peers.find(peer => peer.id === 'peer3').messages).toEqual({ sent: 4, received: 0 });
+        // Peers of other databases don't receive the messages, only the welcome message
+        expect(status.peers.find(peer => peer.id === 'peer4').messages).toEqual({ sent: 1, received: 0 });
+    });
+
+    it('lets recipients fetch messages that were posted over http', async () => {
+        await connect('peer1');
+        const peer2 = await connect('peer2');
+
+        const message = JSON.stringify({ type: 'notification', from: 'peer1', data: 'é'.repeat(400) });
+        const result = await post(message, 100);
+        expect(result).toEqual({ status: 200, body: 'ok' });
+
+        const get = await peer2.next();
+        expect(get).toMatch(/^get:/);
+        const path = `/db/receive?id=peer2&msg=${get.slice(4)}&t=secret`;
+        expect(await request('GET', path)).toEqual({ status: 200, body: message });
+
+        // Messages can be fetched once by each recipient
+        expect((await request('GET', path)).status).toBe(404);
+    });
+
+    it('rejects posted messages that are larger than maxMessageSize', async () => {
+        const peer1 = await connect('peer1');
+        const peer2 = await connect('peer2');
+        expect(await peer1.next()).toBe('connect:peer2');
+
+        const message = JSON.stringify({ type: 'notification', from: 'peer1', data: 'x'.repeat(1000) });
+        const result = await post(message);
+        expect(result.status).toBe(413);
+
+        // Rejected message is not relayed, peer2 gets the next one
+        peer1.send({ type: 'bye', from: 'peer1', data: undefined } as IMessage);
+        expect(await peer2.nextMessage()).toEqual({ type: 'bye', from: 'peer1' } as IMessage);
+    });
+
+    it('rejects posted messages that become larger than maxMessageSize while receiving them', async () => {
+        const peer1 = await connect('peer1');
+        const peer2 = await connect('peer2');
+        expect(await peer1.next()).toBe('connect:peer2');
+
+        const message = JSON.stringify({ type: 'notification', from: 'peer1', data: 'x'.repeat(1000) });
+        const result = await post(message, 100);
+        expect(result.status).toBe(413);
+
+        peer1.send({ type: 'bye', from: 'peer1', data: undefined } as IMessage);
+        expect(await peer2.nextMessage()).toEqual({ type: 'bye', from: 'peer1' } as IMessage);
+    });
+
+    it('reports lock requests and granted locks in its status', async () => {
+        const master = await connect('[master]');
+        const worker = await connect('worker1');
+        expect(await master.next()).toBe('connect:worker1');
+
+        const request: ILockRequestMessage = { type: 'lock-request', id: 'req1', from: 'worker1', to: '[master]', data: { path: 'users/ewout', write: true, tid: 'tid1', comment: 'test' } };
+        worker.send(request, '[master]');
+        expect(await master.nextMessage()).toEqual(request);
+        const lockInfo = { dbname: 'db', peerId: 'worker1', path: 'users/ewout', write: true, tid: 'tid1', since: jasmine.any(Number) };
+        expect(server.status().locks).toEqual({ pending: [lockInfo], granted: [] });
+
+        const result: ILockResponseMessage = { type: 'lock-result', id: 'req1', from: '[master]', to: 'worker1', ok: true, data: { id: 1, path: 'users/ewout', write: true, tid: 'tid1', expires: Date.now() + 60000, comment: 'test' } };
+        master.send(result, 'worker1');
+        expect(await worker.nextMessage()).toEqual(result);
+        expect(server.status().locks).toEqual({ pending: [], granted: [lockInfo] });
+
+        const unlock: IUnlockResponseMessage = { type: 'unlock-result', id: 'req2', from: '[master]', to: 'worker1', ok: true, data: { id: 1 } };
+        master.send(unlock, 'worker1');
+        expect(await worker.nextMessage()).toEqual(unlock);
+        expect(server.status().locks).toEqual({ pending: [], granted: [] });
+
+        // Locks of peers that disconnect are forgotten
+        const request3: ILockRequestMessage = { ...request, id: 'req3' };
+        worker.send(request3, '[master]');
+        await master.next();
+        expect(server.status().locks.pending.length).toBe(1);
+        clients.splice(clients.indexOf(worker), 1);
+        await worker.close();
+        expect(await master.next()).toBe('disconnect:worker1');
+        expect(server.status().locks).toEqual({ pending: [], granted: [] });
+    });
+});
+
+describe('IPC server with remote IPC peers', () => {
+    let server: AceBaseIPCServer;
+    let port: number;
+    let master: AceBase, worker: AceBase;
+    const dbname = 'ipc-server-' + ID.generate();
+
+    beforeAll(async () => {
+        // Not using createTempDB because both databases have to connect to the IPC server
+        port = await getFreePort();
+        server = await AceBase.startIPCServer({ port, token: 'secret', logLevel: 'error' });
+        const ipc = (role: 'master' | 'worker') => ({ port, token: 'secret', role });
+        master = new AceBase(dbname, { logLevel: 'error', storage: { path: __dirname, ipc: ipc('master') } });
+        await master.ready();
+        worker = new AceBase(dbname, { logLevel: 'error', storage: { path: __dirname, ipc: ipc('worker') } });
+        await worker.ready();
+    });
+
+    afterAll(async () => {
+        await worker.close();
+        await master.close();
+        await server.stop();
+        await rm(`${__dirname}/${dbname}.acebase`, { recursive: true, maxRetries: 10 });
+    });
+
+    it('relays changes, events and locks between the master and worker', async () => {
+        const changed = new Promise(resolve => master.ref('books/dune').on('value', snap => snap.exists() && resolve(snap.val())));
+        await worker.ref('books/dune').set({ title: 'Dune', year: 1965 });
+        expect(await changed).toEqual({ title: 'Dune', year: 1965 });
+        expect((await master.ref('books/dune/year').get()).val()).toBe(1965);
+
+        const status = server.status();
+        expect(status.peers.map(peer => peer.dbname)).toEqual([`${dbname}_data`, `${dbname}_data`]);
+        const workerId = status.peers.find(peer => peer.id !== '[master]').id;
+        expect(status.peers.every(peer => peer.messages.sent > 0 && peer.messages.received > 0)).toBeTrue();
+
+        // Locks of the worker are granted by the master through the server
+        const tid = ID.generate();
+        const lock = await worker.api.storage.nodeLocker.lock('books/dune', tid, true, 'test');
+        expect(server.status().locks.granted).toEqual([{ dbname: `${dbname}_data`, peerId: workerId, path: 'books/dune', write: true, tid, since: jasmine.any(Number) }]);
+        const ipcStatus = await worker.ipc.status();
+        expect(ipcStatus.lockTable).toBe('master');
+        expect(ipcStatus.locks.some(lock => lock.tid === tid)).toBeTrue();
+        await lock.release();
+        expect(server.status().locks.granted).toEqual([]);
+    });
+
+    it('removes peers that close their database', async () => {
+        const connected = server.once<{ id: string }>('connect');
+        const other = new AceBase(dbname, { logLevel: 'error', storage: { path: __dirname, ipc: { port, token: 'secret', role: 'worker' } } });
+        await other.ready();
+        const { id } = await connected;
+        expect(server.status().peers.length).toBe(3);
+
+        const disconnected = server.once<{ id: string }>('disconnect');
+        await other.close();
+        expect((await disconnected).id).toBe(id);
+        expect(server.status().peers.map(peer => peer.id)).not.toContain(id);
+    });
+});
@@ -0,0 +1,228 @@
+import { AceBase, ID, MemoryStorageSettings } from '..';
+import { AceBaseIPCPeer, IHelloMessage, IMessage, IPCDebugEvent, IPCLockStatus } from '../ipc/ipc';
+import { Storage } from '../storage';
+import { createTempDB } from './tempdb';
+
+/**
+ * IPC peer that relays messages to other peers in the same process
+ */
+class TestIPCPeer extends AceBaseIPCPeer {
+    constructor(storage: Storage, id: string, masterPeerId: string, private network: TestIPCPeer[]) {
+        super(storage, id, 'test');
+        this.masterPeerId = masterPeerId;
+        network.push(this);
+
+        const helloMsg: IHelloMessage = { type: 'hello', from: this.id, data: undefined };
+        this.sendMessage(helloMsg);
+    }
+
+    get peerId() { return this.id; }
+
+    sendMessage(message: IMessage) {
+        this.trackMessage('out', message);
+        const json = JSON.stringify(message);
+        setImmediate(() => {
+            this.network
+                .filter(peer => peer !== this && (!message.to || message.to === peer.id))
+                .forEach(peer => peer.handleMessage(JSON.parse(json)));
+        });
+    }
+
+    disconnect() {
+        this.network.splice(this.network.indexOf(this), 1);
+    }
+
+    promote(masterPeerId: string) {
+        this.setMaster(masterPeerId);
+    }
+}
+
+describe('IPC master failover', () => {
+    let db: AceBase;
+    let network: TestIPCPeer[];
+    let master: TestIPCPeer, worker1: TestIPCPeer, worker2: TestIPCPeer;
+
+    beforeEach(async () => {
+        db = new AceBase('ipc-' + ID.generate(), { logLevel: 'error', storage: new MemoryStorageSettings() });
+        await db.ready();
+        network = [];
+        const storage = db.api.storage;
+        master = new TestIPCPeer(storage, 'master', 'master', network);
+        worker1 = new TestIPCPeer(storage, 'worker1', 'master', network);
+        worker2 = new TestIPCPeer(storage, 'worker2', 'master', network);
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    it('hands over granted and pending locks to the new master', async () => {
+        const tid1 = ID.generate(), tid2 = ID.generate();
+        const granted = await worker1.lock({ path: 'users/ewout', write: true, tid: tid1, comment: 'granted' });
+
+        // Master dies, lock request is not answered
+        master.disconnect();
+        const pending = worker1.lock({ path: 'users/annet', write: true, tid: tid1, comment: 'pending' });
+
+        // Worker 2 takes over
+        const roleChanges = [] as boolean[];
+        worker2.onRoleChange(async isMaster => { roleChanges.push(isMaster); });
+        worker2.promote(worker2.peerId);
+        worker1.promote(worker2.peerId);
+        expect(worker2.isMaster).toBeTrue();
+        expect(roleChanges).toEqual([true]);
+
+        const lock = await pending;
+        expect(lock.path).toBe('users/annet');
+        await lock.release();
+
+        // The new master must know the lock granted by the previous master
+        let conflictGranted = false;
+        const conflict = worker2.lock({ path: 'users/ewout', write: true, tid: tid2, comment: 'conflict' }).then(lock => {
+            conflictGranted = true;
+            return lock;
+        });
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(conflictGranted).toBeFalse();
+
+        await granted.release();
+        const conflictLock = await conflict;
+        expect(conflictGranted).toBeTrue();
+
+        await conflictLock.release();
+    });
+
+    it('sends pending requests to the new master', async () => {
+        master.disconnect();
+        worker2.on('request', (request: any) => {
+            worker2.replyRequest(request, { handledBy: worker2.peerId, value: request.data.value });
+        });
+        const result = worker1.sendRequest({ value: 'test' });
+
+        worker2.promote(worker2.peerId);
+        worker1.promote(worker2.peerId);
+        expect(await result).toEqual({ handledBy: 'worker2', value: 'test' });
+
+        // Requests sent by the new master itself are handled locally
+        expect(await worker2.sendRequest({ value: 'local' })).toEqual({ handledBy: 'worker2', value: 'local' });
+    });
+});
+
+describe('IPC status', () => {
+    let db: AceBase;
+    let network: TestIPCPeer[];
+    let master: TestIPCPeer, worker: TestIPCPeer;
+
+    beforeEach(async () => {
+        db = new AceBase('ipc-' + ID.generate(), { logLevel: 'error', storage: new MemoryStorageSettings() });
+        await db.ready();
+        network = [];
+        master = new TestIPCPeer(db.api.storage, 'master', 'master', network);
+        worker = new TestIPCPeer(db.api.storage, 'worker', 'master', network);
+        await new Promise(resolve => setTimeout(resolve, 10)); // Let them say hello
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    it('reports peers, locks, messages and request latency', async () => {
+        const masterLock = await master.lock({ path: 'users', write: true, tid: ID.generate(), comment: 'master lock' });
+        const workerLock = worker.lock({ path: 'users/ewout', write: true, tid: ID.generate(), comment: 'worker lock' });
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        const lockTable: Array<Pick<IPCLockStatus, 'path' | 'holder' | 'state'>> = [
+            { path: 'users', holder: 'master', state: 'granted' },
+            { path: 'users/ewout', holder: 'worker', state: 'queued' },
+        ];
+        let status = await master.status();
+        expect(status.isMaster).toBeTrue();
+        expect(status.peers.map(p => p.id)).toEqual(['worker']);
+        expect(status.lockTable).toBe('master');
+        expect(status.locks.map(l => ({ path: l.path, holder: l.holder, state: l.state }))).toEqual(lockTable);
+
+        // Workers get the lock table from the master
+        status = await worker.status();
+        expect(status.lockTable).toBe('master');
+        expect(status.locks.map(l => ({ path: l.path, holder: l.holder, state: l.state }))).toEqual(lockTable);
+        expect(status.requests.pending).toBe(1);
+
+        await masterLock.release();
+        const lock = await workerLock;
+        status = await master.status();
+        expect(status.locks.map(l => ({ id: l.id, holder: l.holder, state: l.state }))).toEqual([{ id: lock.id, holder: 'worker', state: 'granted' }]);
+
+        status = await worker.status();
+        expect(status.isMaster).toBeFalse();
+        expect(status.master).toBe('master');
+        expect(status.locks.map(l => ({ id: l.id, holder: l.holder, state: l.state }))).toEqual([{ id: lock.id, holder: 'worker', state: 'granted' }]);
+        expect(status.requests.pending).toBe(0);
+        expect(status.requests.completed).toBe(3); // 2 status requests, lock-request
+        expect(status.requests.averageLatency).toBeGreaterThanOrEqual(0);
+        expect(status.messages.sent).toBe(5); // hello, hello reply, 2 status requests, lock-request
+        expect(status.messages.received).toBe(5); // hello, hello reply, 2 status results, lock-result
+        expect(status.messages.sentPerSecond).toBeGreaterThan(0);
+        expect(status.messages.queued).toBe(0);
+        expect(status.messages.pending).toBe(0);
+
+        await lock.release();
+        expect((await master.status()).locks).toEqual([]);
+        expect((await worker.status()).locks).toEqual([]);
+    });
+
+    it('reports only the own locks of a worker if the master does not reply', async () => {
+        master.disconnect();
+        const status = await worker.status({ timeout: 50 });
+        expect(status.lockTable).toBe('local');
+        expect(status.locks).toEqual([]);
+        expect(status.requests.pending).toBe(0);
+        expect(status.requests.failed).toBe(1);
+    });
+
+    it('emits debug events', async () => {
+        const events = [] as IPCDebugEvent[];
+        worker.on('debug', (event: IPCDebugEvent) => events.push(event));
+        const lock = await worker.lock({ path: 'users/ewout', write: true, tid: ID.generate(), comment: 'test' });
+        await lock.release();
+        expect(events.map(e => e.type)).toEqual([
+            'lock-queued', 'message-sent', 'message-received', 'request-completed', 'lock-granted',
+            'message-sent', 'message-received', 'request-completed', 'lock-released',
+        ]);
+        expect(events[1].message.type).toBe('lock-request');
+        expect(events[3].latency).toBeGreaterThanOrEqual(0);
+        expect(events[4].lock.holder).toBe('worker');
+    });
+
+    it('is available through db.ipc', async () => {
+        const status = await db.ipc.status();
+        expect(status.isMaster).toBeTrue();
+        expect(status.locks).toEqual([]);
+        expect(status.requests.completed).toBe(0);
+    });
+});
+
+describe('IPC status of socket IPC workers', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB({ logLevel: 'error' }));
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('reports the lock table of the IPC service', async () => {
+        const ipc = db.api.storage.ipc;
+        const lock = await ipc.lock({ path: 'users', write: true, tid: ID.generate(), comment: 'socket lock' });
+        const status = await db.ipc.status();
+        expect(status.type).toBe('node.socket');
+        expect(status.isMaster).toBeFalse();
+        expect(status.lockTable).toBe('master');
+        expect(status.locks.map(l => ({ id: l.id, path: l.path, state: l.state }))).toEqual([{ id: lock.id, path: 'users', state: 'granted' }]);
+        expect(status.messages.queued).toBe(0);
+        expect(status.messages.pending).toBe(0);
+        await lock.release();
+    });
+});
@@ -0,0 +1,103 @@
+import { AceBase, AceBaseStorageSettings, ID } from '..';
+import { WriteAheadJournal } from '../storage/binary/journal';
+import { appendFile, open as openFile, readFile, rm, stat } from 'fs/promises';
+
+describe('write-ahead journal', () => {
+    const dbname = 'journal-' + ID.generate();
+    const dbdir = `${__dirname}/${dbname}.acebase`;
+    const open = async () => {
+        const db = new AceBase(dbname, { logLevel: 'error', storage: new AceBaseStorageSettings({ path: __dirname, journal: true }) });
+        await db.ready();
+        return db;
+    };
+
+    /** Opens the journal of the closed database, writes are applied to its database file */
+    const openJournal = async () => {
+        const file = await openFile(`${dbdir}/data.db`, 'r+');
+        const read = async (fileIndex: number, length: number) => {
+            const data = new Uint8Array(length);
+            await file.read(data, 0, length, fileIndex);
+            return data;
+        };
+        const journal = new WriteAheadJournal(`${dbdir}/data.journal`, async () => { /* nothing to sync */ }, read);
+        await journal.open(async () => { /* nothing to replay */ });
+        const write = (fileIndex: number, text: string) => () => file.write(Buffer.from(text), 0, text.length, fileIndex);
+        return { journal, write, close: async () => { await journal.close(); await file.close(); } };
+    };
+
+    afterAll(async () => {
+        await rm(dbdir, { recursive: true, force: true });
+    });
+
+    it('replays complete writes and discards incomplete ones', async () => {
+        let db = await open();
+        const books = {} as Record<string, { title: string }>;
+        for (let i = 0; i < 150; i++) {
+            books[`book${i}`] = { title: `Book ${i}` };
+        }
+        await db.ref('books').set(books);
+        await db.ref('users/u1').set({ name: 'Ewout' });
+        await db.close();
+
+        // All writes were applied, the journal must have been truncated when closing
+        expect((await stat(`${dbdir}/data.journal`)).size).toBe(0);
+
+        // Simulate a crash after a write was saved to the journal, but before it was applied to the database file
+        const file = await readFile(`${dbdir}/data.db`);
+        const fileIndex = file.indexOf('Ewout');
+        expect(fileIndex).toBeGreaterThan(0);
+        const { journal, close } = await openJournal();
+        const crash = () => Promise.reject(new Error('Simulated crash'));
+        await expectAsync(journal.write(fileIndex, Buffer.from('Annet'), crash)).toBeRejected();
+        await close();
+
+        // Simulate a crash while writing the next entry
+        await appendFile(`${dbdir}/data.journal`, Buffer.from([1, 0, 0, 0, 0, 0, 0, 0, 100, 0, 0, 0, 0, 0, 0, 0, 0, 1, 2, 3, 4, 5]));
+
+        db = await open();
+        expect((await db.ref('users/u1/name').get()).val()).toBe('Annet');
+        expect(await db.ref('books').count()).toBe(150);
+        expect((await db.ref('books/book149').get()).val()).toEqual({ title: 'Book 149' });
+        expect((await stat(`${dbdir}/data.journal`)).size).toBe(0);
+        await db.close();
+    });
+
+    it('replays all writes of a node update, or none of them', async () => {
+        let db = await open();
+        await db.ref('users/u2').set({ name: 'Maria', city: 'Amsterdam' });
+        await db.close();
+
+        const file = await readFile(`${dbdir}/data.db`);
+        const nameIndex = file.indexOf('Maria'), cityIndex = file.indexOf('Amsterdam');
+        expect(nameIndex).toBeGreaterThan(0);
+        expect(cityIndex).toBeGreaterThan(0);
+
+        // Simulate a crash after the first write of an update was applied, before its second write
+        let { journal, write, close } = await openJournal();
+        expect(journal.begin('update1')).toBeTrue();
+        expect(journal.begin('update1')).toBeFalse();
+        await journal.write(nameIndex, Buffer.from('Karin'), write(nameIndex, 'Karin'), 'update1');
+        journal.abort('update1');
+        await close();
+        expect((await readFile(`${dbdir}/data.db`)).indexOf('Karin')).toBe(nameIndex);
+
+        db = await open();
+        expect((await db.ref('users/u2').get()).val()).toEqual({ name: 'Maria', city: 'Amsterdam' });
+        expect((await readFile(`${dbdir}/data.db`)).indexOf('Karin')).toBe(-1);
+        await db.close();
+
+        // Simulate a crash after an update was committed, before its writes were applied
+        ({ journal, write, close } = await openJournal());
+        const crash = () => Promise.reject(new Error('Simulated crash'));
+        journal.begin('update2');
+        await expectAsync(journal.write(nameIndex, Buffer.from('Karin'), crash, 'update2')).toBeRejected();
+        await expectAsync(journal.write(cityIndex, Buffer.from('Rotterdam'), crash, 'update2')).toBeRejected();
+        await journal.commit('update2');
+        await close();
+
+        db = await open();
+        expect((await db.ref('users/u2').get()).val()).toEqual({ name: 'Karin', city: 'Rotterdam' });
+        expect((await stat(`${dbdir}/data.journal`)).size).toBe(0);
+        await db.close();
+    });
+});
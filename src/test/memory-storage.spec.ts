@@ -0,0 +1,143 @@
+import { AceBase, ID, MemoryStorageSettings } from '..';
+import { ascii85 } from 'acebase-core';
+import { readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+
+describe('MemoryStorage', () => {
+    let db: AceBase;
+
+    beforeAll(async () => {
+        db = new AceBase('memory-' + ID.generate(), { logLevel: 'error', storage: new MemoryStorageSettings({ transactions: { log: true } }) });
+        await db.ready();
+    });
+
+    afterAll(async () => {
+        await db.close();
+    });
+
+    it('stores data and fires events', async () => {
+        const added = [] as string[];
+        db.ref('movies').on('child_added').subscribe(snap => { added.push(snap.key); });
+        await db.ref('movies').set({
+            m1: { title: 'The Matrix', year: 1999, cast: ['Keanu Reeves', 'Carrie-Anne Moss'] },
+            m2: { title: 'Inception', year: 2010, released: new Date('2010-07-16') },
+        });
+        await db.ref('movies/m3').set({ title: 'Interstellar', year: 2014, description: 'A team of explorers travel through a wormhole in space' });
+        await db.ref('movies/m1').update({ title: 'The Matrix (1999)' });
+        await db.ref('movies/m2/released').remove();
+        await new Promise(resolve => setTimeout(resolve, 10)); // Allow events to fire
+        expect(added).toEqual(['m1', 'm2', 'm3']);
+
+        const movies = (await db.ref('movies').get()).val();
+        expect(movies.m1).toEqual({ title: 'The Matrix (1999)', year: 1999, cast: ['Keanu Reeves', 'Carrie-Anne Moss'] });
+        expect(movies.m2).toEqual({ title: 'Inception', year: 2010 });
+        expect(movies.m3.description).toEqual('A team of explorers travel through a wormhole in space');
+
+        const snaps = await db.query('movies').filter('year', '>', 2005).get();
+        expect(snaps.map(snap => snap.key).sort()).toEqual(['m2', 'm3']);
+        expect(await db.ref('movies').count()).toEqual(3);
+
+        // Concurrent transactions must be handled by node locking
+        await db.ref('counter').set(0);
+        await Promise.all([...Array(20)].map(() => db.ref('counter').transaction(snap => snap.val() + 1)));
+        expect((await db.ref('counter').get()).val()).toEqual(20);
+
+        // Mutations must have been logged
+        const result = await db.api.storage.getMutations({ path: 'movies' });
+        expect(result.mutations.length).toEqual(4);
+    });
+
+    it('does not support ipc', () => {
+        expect(() => new AceBase('memory-' + ID.generate(), { logLevel: 'error', storage: new MemoryStorageSettings({ ipc: 'socket' }) }))
+            .toThrowError(/does not support the ipc setting/);
+    });
+
+    it('keeps index files in memory', async () => {
+        await db.ref('books').set({
+            b1: { title: 'The Hobbit', author: 'Tolkien', year: 1937 },
+            b2: { title: 'Dune', author: 'Herbert', year: 1965 },
+            b3: { title: 'The Silmarillion', author: 'Tolkien', year: 1977 },
+        });
+        await db.indexes.create('books', 'year');
+        await db.indexes.create('books', 'title', { type: 'fulltext' });
+        expect(db.api.storage.indexes.list().length).toEqual(2);
+        expect(existsSync(db.api.storage.path)).toBeFalse();
+
+        let snaps = await db.query('books').filter('year', '<', 1970).sort('year').get();
+        expect(snaps.map(snap => snap.key)).toEqual(['b1', 'b2']);
+
+        // Updates must be processed by the indexes
+        await db.ref('books/b4').set({ title: 'The Children of Hurin', author: 'Tolkien', year: 2007 });
+        await db.ref('books/b2/year').set(1985);
+        snaps = await db.query('books').filter('year', '>', 1970).sort('year').get();
+        expect(snaps.map(snap => snap.key)).toEqual(['b3', 'b2', 'b4']);
+
+        snaps = await db.query('books').filter('title', 'fulltext:contains', 'the').get();
+        expect(snaps.map(snap => snap.key).sort()).toEqual(['b1', 'b3', 'b4']);
+    });
+
+    it('saves and loads snapshots', async () => {
+        const dbname = 'memory-' + ID.generate();
+        const snapshot = `${__dirname}/${dbname}.json`;
+        try {
+            let db = new AceBase(dbname, { logLevel: 'error', storage: new MemoryStorageSettings({ snapshot }) });
+            await db.schema.set('users/$uid', { name: 'string', joined: 'Date' });
+            await db.ref('users/u1').set({ name: 'Ewout', joined: new Date('2018-01-01') });
+            await db.close();
+
+            db = new AceBase(dbname, { logLevel: 'error', storage: new MemoryStorageSettings({ snapshot }) });
+            await db.ready();
+            expect((await db.ref('users/u1').get()).val()).toEqual({ name: 'Ewout', joined: new Date('2018-01-01') });
+            const check = await db.schema.check('users/u2', { name: 5 }, false);
+            expect(check.ok).toBeFalse();
+
+            // Index files are saved with the snapshot
+            await db.indexes.create('users', 'name');
+            await db.ref('users/u2').set({ name: 'Annet', joined: new Date('2019-01-01') });
+            await db.close();
+
+            db = new AceBase(dbname, { logLevel: 'error', storage: new MemoryStorageSettings({ snapshot }) });
+            await db.ready();
+            expect(db.api.storage.indexes.list().map(index => index.key)).toEqual(['name']);
+            const snaps = await db.query('users').filter('name', '==', 'Annet').get();
+            expect(snaps.map(snap => snap.key)).toEqual(['u2']);
+            await db.close();
+        }
+        finally {
+            await rm(snapshot, { force: true });
+        }
+    });
+
+    it('rebuilds index files that were still in use when the app stopped', async () => {
+        const dbname = 'memory-' + ID.generate();
+        const snapshot = `${__dirname}/${dbname}.json`;
+        try {
+            let db = new AceBase(dbname, { logLevel: 'error', storage: new MemoryStorageSettings({ snapshot }) });
+            await db.ref('users/u1').set({ name: 'Ewout' });
+            await db.indexes.create('users', 'name');
+            await db.close();
+            const indexFiles = JSON.parse(await readFile(snapshot, 'utf8')).indexFiles as Array<[string, string]>;
+            expect(indexFiles.some(([name]) => name.endsWith('.in-use'))).toBeFalse();
+
+            db = new AceBase(dbname, { logLevel: 'error', storage: new MemoryStorageSettings({ snapshot }) });
+            await db.ref('users/u2').set({ name: 'Annet' });
+            await db.close();
+
+            // Simulate a stop before the changed index file was persisted: the data has u2, the index file
+            // does not, and it is still marked as in use
+            const data = JSON.parse(await readFile(snapshot, 'utf8'));
+            const dir = indexFiles[0][0].slice(0, indexFiles[0][0].lastIndexOf('/'));
+            data.indexFiles = [...indexFiles, [`${dir}/.in-use`, ascii85.encode(new Uint8Array(0))]];
+            await writeFile(snapshot, JSON.stringify(data), 'utf8');
+
+            db = new AceBase(dbname, { logLevel: 'error', storage: new MemoryStorageSettings({ snapshot }) });
+            await db.ready();
+            const snaps = await db.query('users').filter('name', '==', 'Annet').get();
+            expect(snaps.map(snap => snap.key)).toEqual(['u2']);
+            await db.close();
+        }
+        finally {
+            await rm(snapshot, { force: true });
+        }
+    });
+});
@@ -0,0 +1,61 @@
+import * as net from 'net';
+
+/**
+ * Gets a port that is not in use
+ */
+export const getFreePort = () => new Promise<number>((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, 'localhost', () => {
+        const { port } = server.address() as net.AddressInfo;
+        server.close(() => resolve(port));
+    });
+});
+
+/**
+ * TCP proxy that can freeze its connections, like a stalled network: connections stay open, but data is held until they are unfrozen
+ */
+export class TestProxy {
+    private server: net.Server;
+    private sockets = [] as net.Socket[];
+    private frozen = false;
+    public port: number;
+
+    constructor(private target: number) {}
+
+    async start() {
+        this.port = await getFreePort();
+        this.server = net.createServer(client => {
+            const upstream = net.connect(this.target, 'localhost');
+            this.sockets.push(client, upstream);
+            const forward = (from: net.Socket, to: net.Socket) => from.on('data', data => {
+                if (this.frozen) {
+                    // Hold the data until unfrozen
+                    from.pause();
+                    from.unshift(data);
+                    return;
+                }
+                to.write(data);
+            });
+            forward(client, upstream);
+            forward(upstream, client);
+            client.on('error', () => null).on('close', () => upstream.destroy());
+            upstream.on('error', () => null).on('close', () => client.destroy());
+        });
+        await new Promise<void>(resolve => this.server.listen(this.port, 'localhost', resolve));
+    }
+
+    freeze() {
+        this.frozen = true;
+    }
+
+    unfreeze() {
+        this.frozen = false;
+        this.sockets.forEach(socket => socket.resume());
+    }
+
+    async stop() {
+        this.sockets.forEach(socket => socket.destroy());
+        await new Promise<void>(resolve => this.server.close(() => resolve()));
+    }
+}
@@ -1,17 +1,16 @@
 import { createTempDB } from './tempdb';
+import { ID } from 'acebase-core';
+import { NodeLockIntention } from '../node-transaction';
 
 describe('node locking', () => {
     it('should not cause deadlocks', async () => {
 
-        // Currently, deadlocks do not happen because multiple concurrent writes have been disabled by NodeLock
-        //
-        // When concurrent writes are enabled, a deadlock sitation will arise in the following situation:
-        // - multiple write locks are allowed if their paths do not intersect (are not "on the same trail")
+        // Multiple write locks are allowed if their lock intentions do not conflict. A deadlock situation would arise if:
         // - value events are bound to a path
         // - 2 concurrent writes are done on a deeper path than the bound events.
-        // -> Both writes need to read lock the event path to fetch "before" event data, but aren't allowed to until one of them releases their write lock. Causing a DEADLOCK
+        // -> Both writes need to read lock the event path to fetch "before" event data, but aren't allowed to until one of them releases their write lock.
         //
-        // To enable concurrent writes again, code will have to be refactored so that any higher event path is read locked before acquiring a write lock on the descendant node
+        // This is prevented by locking the higher event path before acquiring a write lock on the descendant node
 
         // Create temp db
         const { db, removeDB } = await createTempDB();
@@ -47,6 +46,39 @@ describe('node locking', () => {
         await removeDB();
     });
 
+    it('allows concurrent writes to paths that do not overlap', async () => {
+        const { db, removeDB } = await createTempDB();
+        try {
+            await db.ref('users/ewout').set({ name: 'Ewout' });
+
+            // Hold a write lock on "users/ewout" while writing to other paths
+            const tid = ID.generate();
+            const lock = await db.api.storage.nodeLocker.lock('users/ewout', tid, true, 'test', NodeLockIntention.OverwriteNode());
+
+            // Writing to another path must not have to wait for the lock
+            let timeoutFired = false;
+            const timeout = new Promise(resolve => setTimeout(() => { timeoutFired = true; resolve(0); }, 2000));
+            await Promise.race([timeout, db.ref('logs/log1').set({ text: 'Concurrent write' })]);
+            expect(timeoutFired).toBeFalse();
+
+            // Writing to a descendant of the locked path must wait until it is released
+            let updated = false;
+            const p = db.ref('users/ewout/name').set('Ewout Stortenbeker').then(() => { updated = true; });
+            await new Promise(resolve => setTimeout(resolve, 500));
+            expect(updated).toBeFalse();
+
+            await lock.release();
+            await p;
+            expect(updated).toBeTrue();
+
+            const snap = await db.ref('users/ewout/name').get();
+            expect(snap.val()).toBe('Ewout Stortenbeker');
+        }
+        finally {
+            await removeDB();
+        }
+    });
+
     it('should not cause deadlocks - part2', async () => {
         // Simulate high load
 
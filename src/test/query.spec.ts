@@ -1,7 +1,8 @@
-import { DataReference, DataSnapshotsArray, DataReferencesArray, DataReferenceQuery, ObjectCollection, DataSnapshot } from 'acebase-core';
+import { DataReference, DataSnapshotsArray, DataReferencesArray, DataReferenceQuery, ObjectCollection, DataSnapshot, QueryOperator } from 'acebase-core';
 import { AceBase, ID } from '..';
 import { readDataSet } from './dataset';
 import { createTempDB } from './tempdb';
+import { planQuery, PlannedQueryFilter } from '../query-planner';
 
 describe('Query', () => {
     let db: AceBase, removeDB: () => Promise<void>;
@@ -718,3 +719,357 @@ describe('Query on indexed BigInts #152', () => {
     }, 60e3);
 
 });
+
+describe('Query planner', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+    const orders = [] as Array<{ status: string; category: string; amount: number }>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB());
+
+        for (let i = 0; i < 500; i++) {
+            orders.push({ status: i % 2 === 0 ? 'open' : 'closed', category: `c${i % 50}`, amount: i });
+        }
+        await db.ref('orders').set(ObjectCollection.from(orders));
+        await db.indexes.create('orders', 'status');
+        await db.indexes.create('orders', 'category');
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('uses the most selective index', async () => {
+        const explanations = [] as any[];
+        const query = db.query('orders')
+            .filter('status', '==', 'open')
+            .filter('category', '==', 'c2');
+        // 'explain' query events are not in acebase-core's typings
+        (query as any).on('explain', (ev: any) => explanations.push(ev.explain));
+        const snaps = await query.get();
+        const check = orders.filter(o => o.status === 'open' && o.category === 'c2');
+        expect(snaps.getValues().sort((a, b) => a.amount - b.amount)).toEqual(check);
+
+        expect(explanations.length).toBe(1);
+        const [explain] = explanations;
+        expect(explain.strategy).toBe('index+scan');
+        expect(explain.estimated).toBe(10);
+        expect(explain.actual).toBe(check.length);
+
+        const [statusFilter, categoryFilter] = explain.filters;
+        expect(statusFilter.method).toBe('scan');
+        expect(statusFilter.estimated).toBeNull();
+        expect(categoryFilter.method).toBe('index');
+        expect(categoryFilter.estimated).toBe(10);
+        expect(categoryFilter.actual).toBe(10);
+        expect(explain.scan).toEqual({ checked: 10, matched: check.length });
+    });
+
+    it('explains estimated and actual counts', async () => {
+        const query = {
+            filters: [{ key: 'status', op: '==', compare: 'closed' }, { key: 'amount', op: '<', compare: 100 }],
+            order: [{ key: 'amount', ascending: false }],
+            skip: 0,
+            take: 5,
+        };
+        const { results, explain } = await db.api.query('orders', query, { snapshots: true, explain: true });
+        expect((results as Array<{ val: any }>).map(r => r.val.amount)).toEqual([99, 97, 95, 93, 91]);
+        expect(explain.strategy).toBe('index+scan');
+        expect(explain.estimated).toBe(250);
+        expect(explain.filters[0]).toEqual(jasmine.objectContaining({ key: 'status', method: 'index', estimated: 250, actual: 250 }));
+        expect(explain.filters[1]).toEqual(jasmine.objectContaining({ key: 'amount', method: 'scan', index: null }));
+        expect(explain.sort).toEqual([jasmine.objectContaining({ key: 'amount', method: 'memory' })]);
+        expect(explain.scan).toEqual({ checked: 250, matched: 50 });
+        expect(explain.actual).toBe(5);
+    });
+
+    it('only reports the driving index if multiple filters on another index are demoted', async () => {
+        const query = {
+            filters: [{ key: 'category', op: '==', compare: 'c2' }, { key: 'status', op: '==', compare: 'open' }, { key: 'status', op: '!=', compare: 'none' }],
+            order: [],
+            skip: 0,
+            take: 0,
+        } as any;
+        const filters = query.filters.map((f: any) => ({ ...f })) as PlannedQueryFilter[];
+        const plan = await planQuery(query, filters, [], db.api.storage.indexes.get('orders'), { isWildcardPath: false });
+        expect(plan.driving).toBe(filters[0]);
+        expect(plan.usingIndexes.map(u => u.index)).toEqual([filters[0].index]);
+    });
+
+    it('does not scan all records if indexed filters have no results', async () => {
+        const snaps = await db.query('orders')
+            .filter('category', '==', 'none')
+            .filter('amount', '>=', 0)
+            .get();
+        expect(snaps.length).toBe(0);
+    });
+});
+
+describe('Query with or filters', () => {
+    const OR = 'or' as QueryOperator; // Not a known operator of acebase-core typings yet
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+    let movies: Array<{ title: string; year: number; rating: number; votes: number; genres: string[] }>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB());
+        movies = await readDataSet('movies');
+        await db.ref('movies').set(ObjectCollection.from(movies));
+        await db.indexes.create('movies', 'year');
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('matches any branch', async () => {
+        // (year >= 2000 AND rating >= 8.8) OR (genres contains 'animation') OR (year < 1960 AND (votes > 1000000 OR rating >= 8.9))
+        const query = db.query('movies')
+            .filter('', OR, [
+                [{ key: 'year', op: '>=', compare: 2000 }, { key: 'rating', op: '>=', compare: 8.8 }],
+                [{ key: 'genres', op: 'contains', compare: 'animation' }],
+                [{ key: 'year', op: '<', compare: 1960 }, { key: '', op: 'or', compare: [
+                    [{ key: 'votes', op: '>', compare: 1000000 }],
+                    [{ key: 'rating', op: '>=', compare: 8.9 }],
+                ] }],
+            ])
+            .sort('title');
+        const expected = movies
+            .filter(m => (m.year >= 2000 && m.rating >= 8.8) || m.genres.includes('animation') || (m.year < 1960 && (m.votes > 1000000 || m.rating >= 8.9)))
+            .map(m => m.title)
+            .sort();
+        expect(expected.length).toBeGreaterThan(0);
+
+        const snaps = await query.get();
+        expect(snaps.map(snap => snap.val().title)).toEqual(expected);
+        expect(await query.count()).toBe(expected.length);
+
+        const { results, explain } = await db.api.query('movies', {
+            filters: [{ key: '', op: 'or', compare: [[{ key: 'year', op: '>=', compare: 2000 }], [{ key: 'rating', op: '>=', compare: 9 }]] }],
+            skip: 0,
+            take: 0,
+            order: [],
+        }, { explain: true });
+        expect((results as string[]).length).toBe(movies.filter(m => m.year >= 2000 || m.rating >= 9).length);
+        expect(explain.strategy).toBe('or');
+        expect(explain.queries.map(q => q.strategy)).toEqual(['index', 'scan']);
+
+        await expectAsync(db.query('movies').filter('', OR, []).get()).toBeRejectedWithError(/or filter must supply/);
+    });
+
+    it('is live', async () => {
+        const wait = async (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+        await db.ref('tasks').set({
+            t1: { status: 'open', priority: 5, assignee: 'john' },
+            t2: { status: 'open', priority: 1, assignee: 'me' },
+            t3: { status: 'closed', priority: 5, assignee: 'annet' },
+        });
+        const events = [] as string[];
+        const query = db.query('tasks')
+            .filter('', OR, [
+                [{ key: 'status', op: '==', compare: 'open' }, { key: 'priority', op: '>', compare: 3 }],
+                [{ key: 'assignee', op: '==', compare: 'me' }],
+            ])
+            .on('add', match => { events.push(`add ${match.ref.key}`); })
+            .on('change', match => { events.push(`change ${match.ref.key}`); })
+            .on('remove', match => { events.push(`remove ${match.ref.key}`); });
+        const refs = await query.find();
+        expect(refs.map(ref => ref.key).sort()).toEqual(['t1', 't2']);
+
+        await db.ref('tasks/t3/status').set('open'); // Now matches first branch
+        await db.ref('tasks/t1/assignee').set('me'); // Still matches, now both branches
+        await db.ref('tasks/t2/assignee').set('john'); // No match anymore
+        await db.ref('tasks/t4').set({ status: 'new', assignee: 'me' }); // New match
+        await db.ref('tasks/t5').set({ status: 'new', assignee: 'jack' }); // No match
+        await db.ref('tasks/t1').remove();
+        await wait(50);
+        expect(events).toEqual(['add t3', 'change t1', 'remove t2', 'add t4', 'remove t1']);
+
+        await query.stop();
+        await db.ref('tasks/t2/assignee').set('me');
+        await wait(50);
+        expect(events.length).toBe(5);
+    });
+});
+
+describe('Query with cursors', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+    let movies: Array<{ path: string; val: { title: string; year: number; rating: number } }>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB());
+        await db.ref('movies').set(ObjectCollection.from(await readDataSet('movies')));
+        await db.indexes.create('movies', 'year', { include: ['rating'] });
+        const { results } = await db.api.query('movies', { filters: [], order: [], skip: 0, take: 1000 }, { snapshots: true });
+        movies = results as typeof movies;
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    const getPages = async (query: { filters?: any[]; order?: Array<{ key: string; ascending: boolean }>; take: number }, check?: (explain: any) => void) => {
+        const pages = [] as string[][];
+        let cursor: boolean | string = true;
+        for (let i = 0; i < 100; i++) {
+            const result = await db.api.query('movies', { filters: query.filters ?? [], order: query.order ?? [], skip: 0, take: query.take }, { cursor, explain: true });
+            check?.(result.explain);
+            if (result.results.length === 0) { break; }
+            pages.push([...result.results as string[]]);
+            cursor = result.cursor;
+        }
+        return pages;
+    };
+    const byPath = (a: { path: string }, b: { path: string }) => a.path < b.path ? -1 : 1;
+
+    it('pages through sorted results', async () => {
+        // Sort on a non-indexed key, ties are ordered by path
+        const expected = movies.slice().sort((a, b) => b.val.rating - a.val.rating || byPath(a, b)).map(m => m.path);
+        const pages = await getPages({ order: [{ key: 'rating', ascending: false }], take: 3 });
+        expect(pages.every(page => page.length <= 3)).toBeTrue();
+        expect(pages.flat()).toEqual(expected);
+
+        // Sort index: cursors seek to their position in the index
+        const sorted = movies.slice().sort((a, b) => a.val.year - b.val.year || b.val.rating - a.val.rating || byPath(a, b)).map(m => m.path);
+        const indexPages = await getPages({ order: [{ key: 'year', ascending: true }, { key: 'rating', ascending: false }], take: 4 }, explain => {
+            expect(explain.strategy).toBe('sort-index');
+        });
+        expect(indexPages.flat()).toEqual(sorted);
+
+        // Unsorted results are ordered by path
+        const filtered = movies.filter(m => m.val.rating >= 8).sort(byPath).map(m => m.path);
+        const filteredPages = await getPages({ filters: [{ key: 'rating', op: '>=', compare: 8 }], take: 2 });
+        expect(filteredPages.flat()).toEqual(filtered);
+    });
+
+    it('seeks to the cursor position in unsorted results', async () => {
+        const items = {} as Record<string, { nr: number }>;
+        for (let i = 0; i < 300; i++) {
+            items[`item${i.toString().padStart(3, '0')}`] = { nr: i };
+        }
+        await db.ref('items').set(items);
+
+        const pages = [] as string[][];
+        let cursor: boolean | string = true;
+        for (let i = 0; i < 5; i++) {
+            const result = await db.api.query('items', { filters: [{ key: 'nr', op: '>=', compare: 100 }], order: [], skip: 0, take: 10 }, { cursor, explain: true });
+            // Only the children after the cursor up to the end of the page (and the next batch) must have been checked
+            expect(result.explain.scan.checked).toBeLessThanOrEqual(i === 0 ? 120 : 20);
+            pages.push([...result.results as string[]]);
+            cursor = result.cursor;
+        }
+        const expected = Object.keys(items).slice(100, 150).map(key => `items/${key}`);
+        expect(pages.flat()).toEqual(expected);
+
+        await db.ref('items').remove();
+    });
+
+    it('continues after the last result if data changes', async () => {
+        const query = { filters: [] as any[], order: [{ key: 'year', ascending: false }], skip: 0, take: 5 };
+        const first = await db.api.query('movies', query, { cursor: true });
+
+        // Add a movie that would be on the first page, and remove one from it
+        const added = await db.ref('movies').push({ title: 'The Future', year: 2099, rating: 5 });
+        const removed = movies.find(m => m.path === (first.results as string[])[2]);
+        await db.ref(removed.path).remove();
+
+        const second = await db.api.query('movies', query, { cursor: first.cursor });
+        const expected = movies
+            .filter(m => !(first.results as string[]).includes(m.path))
+            .sort((a, b) => b.val.year - a.val.year || byPath(a, b))
+            .slice(0, 5)
+            .map(m => m.path);
+        expect([...second.results]).toEqual(expected);
+
+        // Cursors can only be used for queries with the same sort order
+        await expectAsync(db.api.query('movies', { ...query, order: [{ key: 'rating', ascending: true }] }, { cursor: first.cursor })).toBeRejectedWithError(/another sort order/);
+
+        // Restore data for other specs
+        await added.remove();
+        await db.ref(removed.path).set(removed.val);
+    });
+});
+
+describe('Query with collation', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+    const names = ['Zoe', 'Örjan', 'anna', 'Åsa', 'Ärla', 'Bernd', 'Émile', 'item 10', 'item 2'];
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB());
+        const people = names.reduce((people, name, i) => (people[`p${i}`] = { name }, people), {} as Record<string, { name: string }>);
+        await db.ref('people').set(people);
+        await db.ref('archive/people').set(people);
+        await db.api.createIndex('archive/people', 'name', { caseSensitive: true, collation: { locale: 'sv', numeric: true } });
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    const getNames = async (path: string, query: { filters?: any[]; order: any[] }) => {
+        const { results, explain } = await db.api.query(path, { filters: query.filters ?? [], order: query.order, skip: 0, take: 100 }, { snapshots: true, explain: true });
+        return { names: (results as Array<{ val: { name: string } }>).map(r => r.val.name), explain };
+    };
+
+    it('sorts strings in memory and from indexes', async () => {
+        // Without collation, strings are sorted by their code units
+        expect((await getNames('people', { order: [{ key: 'name', ascending: true }] })).names)
+            .toEqual(['Bernd', 'Zoe', 'anna', 'item 10', 'item 2', 'Ärla', 'Åsa', 'Émile', 'Örjan']);
+
+        const german = { locale: 'de' };
+        expect((await getNames('people', { order: [{ key: 'name', ascending: true, collation: german }] })).names)
+            .toEqual(['anna', 'Ärla', 'Åsa', 'Bernd', 'Émile', 'item 10', 'item 2', 'Örjan', 'Zoe']);
+
+        const swedish = { locale: 'sv', numeric: true };
+        const expected = ['anna', 'Bernd', 'Émile', 'item 2', 'item 10', 'Zoe', 'Åsa', 'Ärla', 'Örjan'];
+        const scanned = await getNames('people', { order: [{ key: 'name', ascending: true, collation: swedish }] });
+        expect(scanned.names).toEqual(expected);
+        expect(scanned.explain.sort[0].method).toBe('memory');
+
+        // The index sorts with the same collation
+        const indexed = await getNames('archive/people', { order: [{ key: 'name', ascending: true, collation: swedish }] });
+        expect(indexed.explain.strategy).toBe('sort-index');
+        expect(indexed.names).toEqual(expected);
+        const descending = await getNames('archive/people', { order: [{ key: 'name', ascending: false, collation: swedish }] });
+        expect(descending.names).toEqual(expected.slice().reverse());
+
+        // The index can't be used to sort with another collation
+        const other = await getNames('archive/people', { order: [{ key: 'name', ascending: true, collation: german }] });
+        expect(other.explain.strategy).not.toBe('sort-index');
+        expect(other.names).toEqual(['anna', 'Ärla', 'Åsa', 'Bernd', 'Émile', 'item 10', 'item 2', 'Örjan', 'Zoe']);
+    });
+
+    it('applies the collation to range filters', async () => {
+        const swedish = { locale: 'sv', numeric: true };
+        const filters = [{ key: 'name', op: '>', compare: 'item 3' }];
+        const expected = ['item 10', 'Zoe', 'Åsa', 'Ärla', 'Örjan'];
+
+        // Range filter on a table scan uses the collation of the sort
+        const scanned = await getNames('people', { filters, order: [{ key: 'name', ascending: true, collation: swedish }] });
+        expect(scanned.explain.filters[0].method).toBe('scan');
+        expect(scanned.names).toEqual(expected);
+
+        // Range filter on the index
+        const indexed = await getNames('archive/people', { filters, order: [{ key: 'name', ascending: true, collation: swedish }] });
+        expect(indexed.explain.filters[0].method).toBe('index');
+        expect(indexed.names).toEqual(expected);
+
+        // Filters can specify their own collation
+        const between = [{ key: 'name', op: 'between', compare: ['a', 'c'], collation: { locale: 'de' } }];
+        expect((await getNames('people', { filters: between, order: [{ key: 'name', ascending: true, collation: { locale: 'de' } }] })).names)
+            .toEqual(['anna', 'Ärla', 'Åsa', 'Bernd']);
+
+        // Without a collation, the index can't be used for a range filter on strings
+        const binary = await getNames('archive/people', { filters: [{ key: 'name', op: '<', compare: 'Z' }], order: [{ key: 'name', ascending: true }] });
+        expect(binary.explain.filters[0].method).toBe('scan');
+        expect(binary.names).toEqual(['Bernd']);
+
+        // Equality filters are not affected by the collation
+        const equal = await getNames('archive/people', { filters: [{ key: 'name', op: '==', compare: 'Anna' }], order: [] });
+        expect(equal.explain.filters[0].method).toBe('index');
+        expect(equal.names).toEqual([]);
+    });
+});
@@ -1,6 +1,8 @@
 import { createTempDB } from './tempdb';
-import { AceBase } from '..';
+import { AceBase, ID } from '..';
+import type { AceBaseStorage } from '../storage/binary';
 import { ObjectCollection } from 'acebase-core';
+import { rm } from 'fs/promises';
 import { readDataSet } from './dataset';
 
 describe('database recovery', () => {
@@ -74,3 +76,89 @@ describe('database recovery', () => {
     });
 
 });
+
+describe('database integrity check', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB());
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('finds and repairs issues', async () => {
+        const movies = await readDataSet('movies') as any[];
+        const ref = db.ref('movies');
+        await ref.set(ObjectCollection.from(movies));
+        await db.indexes.create('movies', 'year');
+
+        let report = await db.recovery.check();
+        expect(report.ok).toBeTrue();
+        expect(report.records).toBeGreaterThan(movies.length);
+        expect(report.indexes.length).toBe(1);
+        expect(report.indexes[0].checked).toBeTrue();
+
+        // Remove the reference to a child without releasing its records or updating the index
+        const children = await ref.reflect('children', { limit: 1 });
+        const path = `movies/${children.list[0].key}`;
+        await db.recovery.repairNode(path, { ignoreIntact: true, markAsRemoved: false });
+
+        report = await db.recovery.check();
+        expect(report.ok).toBeFalse();
+        expect(report.brokenRecords.length).toBe(0);
+        expect(report.unreachable.length).toBeGreaterThan(0);
+        expect(report.indexes[0].orphaned).toEqual([path]);
+
+        report = await db.recovery.check({ repair: true });
+        expect(report.freeSpaceRepaired).toBeTrue();
+        expect(report.indexes[0].repaired).toBeTrue();
+
+        report = await db.recovery.check();
+        expect(report.ok).toBeTrue();
+        expect(await ref.count()).toBe(movies.length - 1);
+    });
+});
+
+describe('database integrity repair', () => {
+    let db: AceBase;
+    let dbname: string;
+
+    beforeAll(async () => {
+        // Not using createTempDB because the FST of the IPC master is spied on, it has to run in this process
+        dbname = 'test-' + ID.generate();
+        db = new AceBase(dbname, { storage: { path: __dirname }, logLevel: 'error' });
+        await db.ready();
+    });
+
+    afterAll(async () => {
+        await db.close();
+        await rm(`${__dirname}/${dbname}.acebase`, { recursive: true, maxRetries: 10 });
+    });
+
+    it('keeps writes waiting until the records are repaired', async () => {
+        const movies = await readDataSet('movies') as any[];
+        const ref = db.ref('movies');
+        await ref.set(ObjectCollection.from(movies));
+        const children = await ref.reflect('children', { limit: 1 });
+        await db.recovery.repairNode(`movies/${children.list[0].key}`, { ignoreIntact: true, markAsRemoved: false });
+
+        const storage = db.api.storage as AceBaseStorage;
+        const order = [] as string[];
+        const rebuild = storage.FST.rebuild;
+        spyOn(storage.FST, 'rebuild').and.callFake(async (...args: Parameters<typeof rebuild>) => {
+            order.push('rebuild');
+            return rebuild.apply(storage.FST, args);
+        });
+        const check = db.recovery.check({ repair: true });
+        const write = db.ref('movies/added').set({ title: 'Added while repairing' }).then(() => { order.push('write'); });
+        const [report] = await Promise.all([check, write]);
+        expect(report.freeSpaceRepaired).toBeTrue();
+        expect(order).toEqual(['rebuild', 'write']);
+
+        expect((await db.recovery.check()).ok).toBeTrue();
+        expect((await db.ref('movies/added').get()).val()).toEqual({ title: 'Added while repairing' });
+    });
+});
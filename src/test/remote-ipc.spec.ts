@@ -0,0 +1,151 @@
+import { rm } from 'fs/promises';
+import { AceBase, AceBaseIPCMasterFencedError, ID } from '..';
+import { AceBaseIPCServer } from '../ipc/server';
+import type { AceBaseStorage } from '../storage/binary';
+import { getFreePort, TestProxy } from './network';
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Waits until a condition is met, fails if that takes too long
+ */
+const waitFor = async (condition: () => boolean | Promise<boolean>, timeout = 5000) => {
+    const started = Date.now();
+    while (!await condition()) {
+        if (Date.now() - started > timeout) {
+            throw new Error(`Condition not met within ${timeout}ms`);
+        }
+        await wait(10);
+    }
+};
+
+describe('Remote IPC master failover', () => {
+    const leaseTime = 400;
+    let server: AceBaseIPCServer;
+    let proxy: TestProxy;
+    let dbname: string;
+    let master: AceBase;
+    /** Worker with the lowest id, it takes over the master role */
+    let winner: AceBase;
+    let winnerId: string;
+    /** Other worker */
+    let other: AceBase;
+
+    const ipc = (db: AceBase) => db.api.storage.ipc;
+
+    beforeEach(async () => {
+        // Not using createTempDB because all databases have to connect to the IPC server.
+        // The master connects through a proxy, so its connection can be stalled
+        dbname = 'failover-' + ID.generate();
+        const port = await getFreePort();
+        server = await AceBase.startIPCServer({ port, token: 'secret', logLevel: 'error' });
+        proxy = new TestProxy(port);
+        await proxy.start();
+
+        const open = async (role: 'master' | 'worker', port: number) => {
+            const db = new AceBase(dbname, { logLevel: 'error', storage: { path: __dirname, ipc: { port, token: 'secret', role, failover: true, leaseTime } } });
+            await db.ready();
+            return db;
+        };
+        master = await open('master', proxy.port);
+        const workers = [await open('worker', port), await open('worker', port)];
+        const ids = await Promise.all(workers.map(async db => (await db.ipc.status()).id));
+        [winner, other] = ids[0] < ids[1] ? workers : workers.reverse();
+        winnerId = ids.sort()[0];
+    }, 10000);
+
+    afterEach(async () => {
+        proxy.unfreeze();
+        await Promise.all([master, winner, other].map(db => db.close()));
+        await proxy.stop();
+        await server.stop();
+        await rm(`${__dirname}/${dbname}.acebase`, { recursive: true, maxRetries: 10 });
+    }, 10000);
+
+    it('elects the live worker with the lowest id once the lease of the master expires', async () => {
+        proxy.freeze();
+        await waitFor(() => ipc(winner).isMaster);
+        expect(ipc(other).isMaster).toBeFalse();
+        await waitFor(async () => (await other.ipc.status()).master === winnerId);
+
+        // The previous master does not know yet, but its lease expired
+        expect(ipc(master).isMaster).toBeTrue();
+        expect(ipc(master).isFenced()).toBeTrue();
+
+        // It steps down once it receives the pulse of the new master
+        proxy.unfreeze();
+        await waitFor(() => !ipc(master).isMaster);
+        const status = await master.ipc.status();
+        expect(status.master).toBe(winnerId);
+        expect(status.lockTable).toBe('master');
+    }, 10000);
+
+    it('stops granting locks once the lease of the master expires', async () => {
+        proxy.freeze();
+        await waitFor(() => ipc(master).isFenced());
+        let granted = false;
+        const request = master.api.storage.nodeLocker.lock('books', ID.generate(), true, 'fenced').then(lock => {
+            granted = true;
+            return lock;
+        });
+        await waitFor(() => ipc(winner).isMaster);
+        await wait(leaseTime);
+        expect(granted).toBeFalse();
+
+        // The lock is requested from the new master
+        proxy.unfreeze();
+        const lock = await request;
+        const status = await winner.ipc.status();
+        expect(status.locks.find(l => l.tid === lock.tid)).toEqual(jasmine.objectContaining({ holder: '[master]', state: 'granted' }));
+        await lock.release();
+    }, 10000);
+
+    it('hands over granted and pending locks to the new master', async () => {
+        const granted = await other.api.storage.nodeLocker.lock('books', ID.generate(), true, 'granted');
+        let pendingGranted = false;
+        const pending = winner.api.storage.nodeLocker.lock('books', ID.generate(), true, 'pending').then(lock => {
+            pendingGranted = true;
+            return lock;
+        });
+        await waitFor(async () => (await winner.ipc.status()).locks.some(l => l.comment === 'pending' && l.state === 'queued'));
+
+        proxy.freeze();
+        await waitFor(() => ipc(winner).isMaster);
+        await waitFor(async () => (await winner.ipc.status()).locks.length === 2);
+        const status = await winner.ipc.status();
+        expect(status.lockTable).toBe('master');
+        expect(status.locks.map(l => `${l.comment}: ${l.state}`).sort()).toEqual(['granted: granted', 'pending: queued']);
+        expect(pendingGranted).toBeFalse();
+
+        // Pending lock is granted by the new master once the handed over lock is released
+        await granted.release();
+        const lock = await pending;
+        expect(pendingGranted).toBeTrue();
+        await lock.release();
+    }, 10000);
+
+    it('aborts writes of the master that held a write lock when its lease expired', async () => {
+        await master.ref('books/dune').set({ title: 'Dune' });
+        const write = master.ref('books/dune').transaction(async () => {
+            proxy.freeze();
+            await waitFor(() => ipc(master).isFenced());
+            return { title: 'Dune', year: 1965 };
+        });
+        await expectAsync(write).toBeRejectedWithError(AceBaseIPCMasterFencedError);
+
+        // It can't allocate space or add keys to the KIT either
+        const storage = master.api.storage as AceBaseStorage;
+        await expectAsync(storage.FST.allocate(1)).toBeRejectedWithError(AceBaseIPCMasterFencedError);
+        expect(storage.KIT.getOrAdd('author')).toBe(-1);
+        expect(storage.KIT.keys).not.toContain('author');
+
+        await waitFor(() => ipc(winner).isMaster);
+        expect((await winner.ref('books/dune').get()).val()).toEqual({ title: 'Dune' });
+
+        // Writes again as a worker once it knows the new master
+        proxy.unfreeze();
+        await waitFor(() => !ipc(master).isMaster);
+        await master.ref('books/dune/year').set(1965);
+        expect((await other.ref('books/dune').get()).val()).toEqual({ title: 'Dune', year: 1965 });
+    }, 10000);
+});
@@ -1,5 +1,6 @@
-import { AceBase } from '..';
+import { AceBase, ID } from '..';
 import { createTempDB } from './tempdb';
+import { readFile, rm } from 'fs/promises';
 const ok = { ok: true };
 
 describe('schema', () => {
@@ -482,3 +483,62 @@ describe('schema', () => {
         await removeDB();
     });
 });
+
+describe('stored schema', () => {
+    it('is loaded when the database is opened', async () => {
+        // Not using createTempDB because the database is reopened, the IPC service might still be shutting down
+        const dbname = 'test-' + ID.generate();
+        const db = new AceBase(dbname, { storage: { path: __dirname }, logLevel: 'warn' });
+        await db.ready();
+
+        await db.schema.set('users/$uid', { name: 'string', 'email?': 'string' });
+        await db.schema.set('settings', { theme: '"light"|"dark"' }, true);
+        await db.schema.set('logs/*', 'string');
+        await db.schema.set('logs/*', null);
+        await db.close();
+
+        // Reopen the database, schemas must have been loaded
+        const db2 = new AceBase(dbname, { storage: { path: __dirname }, logLevel: 'warn' });
+        await db2.ready();
+        try {
+            const schemas = await db2.schema.all();
+            expect(schemas.map(s => s.path).sort()).toEqual(['settings', 'users/$uid']);
+
+            await expectAsync(db2.ref('users/user1').set({ email: 35 })).toBeRejected();
+            await expectAsync(db2.ref('users/user1').set({ name: 'Ewout', email: 'me@appy.one' })).toBeResolved();
+
+            // Schema on settings only issues warnings
+            await expectAsync(db2.ref('settings').set({ theme: 'blue' })).toBeResolved();
+        }
+        finally {
+            await db2.close();
+            await rm(`${__dirname}/${dbname}.acebase`, { recursive: true, maxRetries: 10 });
+        }
+    });
+
+    it('keeps definitions set simultaneously by multiple processes', async () => {
+        const { db, removeDB } = await createTempDB({ logLevel: 'warn' });
+        const db2 = new AceBase(db.name, { storage: { path: __dirname, ipc: 'socket' }, logLevel: 'warn' });
+        await db2.ready();
+        try {
+            // Both connect to the IPC service as workers, the service must store both definitions
+            await Promise.all([
+                db.schema.set('users/$uid', { name: String, email: /@/ }),
+                db2.schema.set('posts/$postid', { title: 'string' }),
+            ]);
+            await new Promise(resolve => setTimeout(resolve, 100)); // Wait for the schema.set notifications
+            expect((await db.schema.all()).map(s => s.path).sort()).toEqual(['posts/$postid', 'users/$uid']);
+            expect((await db2.schema.all()).map(s => s.path).sort()).toEqual(['posts/$postid', 'users/$uid']);
+            const stored = JSON.parse(await readFile(`${__dirname}/${db.name}.acebase/data-schemas.json`, 'utf8')) as Array<{ path: string }>;
+            expect(stored.map(s => s.path).sort()).toEqual(['posts/$postid', 'users/$uid']);
+
+            // Classes and regular expressions must have survived the trip to the other process
+            await expectAsync(db2.ref('users/user1').set({ name: 'Ewout', email: 'none' })).toBeRejected();
+            await expectAsync(db2.ref('users/user1').set({ name: 'Ewout', email: 'me@appy.one' })).toBeResolved();
+        }
+        finally {
+            await db2.close();
+            await removeDB();
+        }
+    });
+});
@@ -1,5 +1,6 @@
-import { AceBase } from '..';
+import { AceBase, ID } from '..';
 import type { AceBaseStorage } from '../storage/binary';
+import type { LocalStorageLike } from '../storage/custom/local-storage/interface';
 import { createTempDB } from './tempdb';
 
 describe('BETA - Transaction logging', () => {
@@ -180,7 +181,115 @@ describe('BETA - Transaction logging', () => {
 
     }, 60 * 1000 * 5);
 
+    it('recovery.restoreTo', async () => {
+        const original = {
+            books: {
+                book1: { title: 'Book 1', published: new Date('2022-01-01') },
+                book2: { title: 'Book 2', published: new Date('2022-02-01') },
+            },
+            count: 2,
+        };
+        const { cursor } = await db.api.set('library3', original);
+
+        // Make some bad changes
+        await db.ref('library3/books/book1').update({ title: 'Changed' });
+        await db.ref('library3/books/book2').remove();
+        await db.ref('library3/books/book3').set({ title: 'Book 3', published: new Date() });
+        await db.ref('library3').update({ count: 5 });
+
+        // Dry run should report changes to the books without restoring them
+        let result = await db.recovery.restoreTo({ cursor, path: 'library3/books', dryRun: true });
+        expect(result.reverted).toEqual(3);
+        expect(result.changes.map(ch => ch.path).sort()).toEqual(['library3/books/book1/title', 'library3/books/book2', 'library3/books/book3']);
+        expect(result.changes.find(ch => ch.path === 'library3/books/book2').restored).toEqual(original.books.book2);
+        expect(result.changes.find(ch => ch.path === 'library3/books/book3').restored).toBeNull();
+        let snap = await db.ref('library3/books').get();
+        expect(snap.val()).not.toEqual(original.books);
+
+        // Restore the books only
+        result = await db.recovery.restoreTo({ cursor, path: 'library3/books' });
+        expect(result.changes.length).toEqual(3);
+        snap = await db.ref('library3').get();
+        expect(snap.val()).toEqual({ ...original, count: 5 });
+
+        // Restoring the books again should not change anything
+        result = await db.recovery.restoreTo({ cursor, path: 'library3/books', dryRun: true });
+        expect(result.changes.length).toEqual(0);
+
+        // Restore the entire database
+        result = await db.recovery.restoreTo({ cursor });
+        expect(result.changes.length).toEqual(1);
+        snap = await db.ref('library3').get();
+        expect(snap.val()).toEqual(original);
+    });
+
+    it('recovery.restoreTo keeps mutations made before the cursor in the same millisecond', async () => {
+        // Generate all cursors within the same millisecond
+        spyOn(Date.prototype, 'getTime').and.returnValue(Date.now());
+        await db.ref('library4').set({ a: 1, b: 1 });
+        await db.ref('library4').update({ a: 2 });
+        const { cursor } = await db.api.update('library4', { b: 2 });
+        await db.ref('library4').update({ b: 3 });
+
+        const result = await db.recovery.restoreTo({ cursor, path: 'library4' });
+        expect(result.reverted).toEqual(1);
+        expect((await db.ref('library4').get()).val()).toEqual({ a: 2, b: 2 });
+    });
+
     afterAll(async () => {
         await removeDB();
     });
 });
+
+describe('BETA - Transaction logging with custom storage', () => {
+    let db: AceBase;
+
+    beforeAll(async () => {
+        // Use an in-memory LocalStorage provider
+        const items = new Map<string, string>();
+        const provider: LocalStorageLike = {
+            getItem: key => items.has(key) ? items.get(key) : null,
+            setItem: (key, value) => { items.set(key, value); },
+            removeItem: key => { items.delete(key); },
+            key: index => [...items.keys()][index] ?? null,
+            get length() { return items.size; },
+        };
+        db = AceBase.WithLocalStorage('test-' + ID.generate(), { provider, logLevel: 'error', transactions: { log: true } });
+        await db.ready();
+    });
+
+    afterAll(async () => {
+        await db.close();
+    });
+
+    it('ref.getMutations and ref.getChanges', async () => {
+        const fakeCursor = '00000000';
+        const songsRef = db.ref('library/songs');
+        const song1Ref = await songsRef.push({ title: 'Slow Dancing In A Burning Room', artist: 'John Mayer', released: new Date('2006-09-12') });
+        await songsRef.push({ title: 'Blue On Black', artist: 'Kenny Wayne Shepherd' });
+
+        let result = await songsRef.getMutations(fakeCursor);
+        expect(result.mutations.length).toBe(2);
+
+        // Typed values must survive the transaction log
+        const song1 = await song1Ref.getMutations(fakeCursor);
+        expect(song1.mutations.length).toBe(1);
+        const song1Value = song1.mutations[0].value as { released: Date };
+        expect(song1Value.released).toBeInstanceOf(Date);
+
+        const changes = await songsRef.getChanges(fakeCursor);
+        expect(changes.changes.length).toBe(1);
+        const cursor = changes.new_cursor;
+
+        // Update and remove, then get changes since the cursor
+        await song1Ref.update({ artist: 'John Clayton Mayer' });
+        await song1Ref.remove();
+        result = await songsRef.getMutations(cursor);
+        expect(result.mutations.length).toBe(2);
+
+        const changes2 = await songsRef.getChanges(cursor);
+        expect(changes2.changes.length).toBe(1);
+        expect(changes2.changes[0].path).toBe('library/songs');
+        expect(changes2.changes[0].value[song1Ref.key]).toBeNull();
+    });
+});
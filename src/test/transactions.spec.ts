@@ -1,5 +1,6 @@
-import { DataSnapshot } from 'acebase-core';
+import { DataSnapshot, PathInfo } from 'acebase-core';
 import { createTempDB } from './tempdb';
+import { AceBase, ID, MemoryStorageSettings } from '..';
 
 describe('transactions', () => {
 
@@ -246,4 +247,109 @@ describe('transactions', () => {
 
         await removeDB();
     });
+
+    it('can update multiple paths atomically', async () => {
+        const { db, removeDB } = await createTempDB({ transactionLogging: true });
+
+        await db.ref('queues/pending').set({ job1: { task: 'send mail' }, job2: { task: 'resize image' } });
+        await db.ref('stats').set({ done: 5 });
+        const cursor = (await db.ref('stats').getMutations()).new_cursor;
+        await new Promise(resolve => setTimeout(resolve, 10)); // Make sure the cursor is older than the next mutation
+
+        const added = [] as string[], removed = [] as string[];
+        db.ref('queues/done').on('child_added', snap => { added.push(snap.key); });
+        db.ref('queues/pending').on('child_removed', snap => { removed.push(snap.key); });
+
+        // Move job1 to done, increase counter
+        const paths = ['queues/pending/job1', 'queues/done/job1', 'stats/done'];
+        const txCursor = await db.transaction(paths, ([job, done, count]) => {
+            expect(job).toEqual({ task: 'send mail' });
+            expect(done).toBeNull();
+            expect(count).toEqual(5);
+            return [null, { ...job, status: 'done' }, count + 1];
+        });
+        expect(typeof txCursor).toEqual('string');
+        expect((await db.ref('queues').get()).val()).toEqual({
+            pending: { job2: { task: 'resize image' } },
+            done: { job1: { task: 'send mail', status: 'done' } },
+        });
+        expect((await db.ref('stats/done').get()).val()).toEqual(6);
+        expect(added).toEqual(['job1']);
+        expect(removed).toEqual(['job1']);
+
+        // All writes must have been logged as a single mutation
+        const result = await db.api.storage.getMutations({ cursor });
+        expect(result.mutations.length).toEqual(1);
+        expect(result.mutations[0].id).toEqual(txCursor as string);
+        const changes = result.mutations[0].changes.list.map(ch => PathInfo.get(result.mutations[0].changes.path).child(ch.target).path).sort();
+        expect(changes).toEqual(paths.slice().sort());
+
+        // Returning nothing cancels the transaction
+        await db.transaction(paths, () => undefined);
+        expect((await db.ref('stats/done').get()).val()).toEqual(6);
+
+        // Values that fail schema validation must prevent all writes
+        await db.schema.set('stats/done', 'number');
+        await expectAsync(db.transaction(paths, () => [{ task: 'x' }, null, 'seven'])).toBeRejected();
+        expect((await db.ref('queues/pending/job1').exists())).toBeFalse();
+        expect((await db.ref('queues/done/job1').exists())).toBeTrue();
+
+        // Overlapping paths are not allowed
+        await expectAsync(db.transaction(['queues', 'queues/done'], values => values)).toBeRejected();
+
+        await removeDB();
+    });
+
+    it('does not notify subscribers of multi-path transaction writes that are rolled back', async () => {
+        const { db, removeDB } = await createTempDB();
+
+        await db.ref('accounts').set({ a: { balance: 10 }, b: { balance: 0 } });
+        db.triggers.add('accounts/b', {
+            before: ({ newValue }: { newValue: any }) => {
+                if (newValue?.balance > 5) { throw new Error('Balance limit exceeded'); }
+            },
+        });
+        const changed = [] as string[];
+        db.ref('accounts').on('child_changed', snap => { changed.push(snap.key); });
+
+        // Second write fails after the first was written
+        const paths = ['accounts/a', 'accounts/b'];
+        await expectAsync(db.transaction(paths, ([a, b]) => [{ balance: a.balance - 10 }, { balance: b.balance + 10 }])).toBeRejected();
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(changed).toEqual([]);
+        expect((await db.ref('accounts').get()).val()).toEqual({ a: { balance: 10 }, b: { balance: 0 } });
+
+        await db.transaction(paths, ([a, b]) => [{ balance: a.balance - 5 }, { balance: b.balance + 5 }]);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(changed.sort()).toEqual(['a', 'b']);
+
+        await removeDB();
+    });
+
+    it('locks the nodes of multi-path transactions on custom storage', async () => {
+        const db = new AceBase('transactions-' + ID.generate(), { logLevel: 'error', storage: new MemoryStorageSettings() });
+        await db.ready();
+        await db.ref('counters').set({ a: 0, b: 0 });
+
+        // Write to a node while a transaction on it is running, it must be written after the transaction
+        let write: Promise<any>;
+        await db.transaction(['counters/a', 'counters/b'], async ([a, b]) => {
+            write = db.ref('counters/a').set(5);
+            await new Promise(resolve => setTimeout(resolve, 50));
+            return [a + 1, b + 1];
+        });
+        await write;
+        expect((await db.ref('counters').get()).val()).toEqual({ a: 5, b: 1 });
+
+        // Failing writes are rolled back
+        db.triggers.add('counters/b', {
+            before: ({ newValue }: { newValue: any }) => {
+                if (newValue > 1) { throw new Error('Too high'); }
+            },
+        });
+        await expectAsync(db.transaction(['counters/a', 'counters/b'], ([a, b]) => [a + 1, b + 1])).toBeRejected();
+        expect((await db.ref('counters').get()).val()).toEqual({ a: 5, b: 1 });
+
+        await db.close();
+    });
 });
@@ -0,0 +1,82 @@
+import { createTempDB } from './tempdb';
+import { AceBase } from '..';
+
+describe('triggers', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB());
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('before triggers can change and reject values', async () => {
+        const trigger = {
+            before: ({ newValue }: { newValue: any }) => {
+                if (newValue === null) { return; }
+                if (typeof newValue.total !== 'number' || newValue.total < 0) {
+                    throw new Error('Invalid order total');
+                }
+                return { ...newValue, customer: newValue.customer.toLowerCase(), updated: 1 + (newValue.updated ?? 0) };
+            },
+        };
+        db.triggers.add('orders/$id', trigger);
+
+        await db.ref('orders/o1').set({ customer: 'Ewout', total: 10 });
+        expect((await db.ref('orders/o1').get()).val()).toEqual({ customer: 'ewout', total: 10, updated: 1 });
+
+        // Updates of the node, its children and ancestors
+        await db.ref('orders/o1').update({ customer: 'Annet' });
+        expect((await db.ref('orders/o1').get()).val()).toEqual({ customer: 'annet', total: 10, updated: 2 });
+        await db.ref('orders/o1/total').set(15);
+        expect((await db.ref('orders/o1').get()).val()).toEqual({ customer: 'annet', total: 15, updated: 3 });
+        await db.ref('orders').update({ o2: { customer: 'John', total: 5 }, o3: { customer: 'Jane', total: 7 } });
+        expect((await db.ref('orders/o2').get()).val()).toEqual({ customer: 'john', total: 5, updated: 1 });
+        expect((await db.ref('orders/o3').get()).val()).toEqual({ customer: 'jane', total: 7, updated: 1 });
+
+        // Rejected writes
+        await expectAsync(db.ref('orders/o1').update({ total: -1 })).toBeRejectedWithError(/Invalid order total/);
+        await expectAsync(db.ref('orders/o4').set({ customer: 'Jack' })).toBeRejectedWithError(/Invalid order total/);
+        expect((await db.ref('orders/o1/total').get()).val()).toBe(15);
+        expect(await db.ref('orders/o4').exists()).toBeFalse();
+
+        // Data outside of the written path cannot be changed
+        await db.ref('orders/o1/address').set({ city: 'Amsterdam' }); // Adds child to orders/o1
+        expect((await db.ref('orders/o1/updated').get()).val()).toBe(4);
+        await expectAsync(db.ref('orders/o1/address').update({ city: 'Utrecht' })).toBeRejectedWithError(/outside of written path/);
+
+        db.triggers.remove('orders/$id', trigger);
+        await db.ref('orders/o1/address').update({ city: 'Utrecht' });
+        expect((await db.ref('orders/o1').get()).val()).toEqual({ customer: 'annet', total: 15, updated: 4, address: { city: 'Utrecht' } });
+    });
+
+    it('after triggers can perform follow-up writes', async () => {
+        db.triggers.add('shop/orders/$id', {
+            after: async ({ oldValue, newValue }) => {
+                if (oldValue === null || newValue === null) {
+                    const uid = (newValue ?? oldValue).uid;
+                    await db.ref(`shop/users/${uid}/orderCount`).transaction(snap => (snap.val() ?? 0) + (newValue === null ? -1 : 1));
+                }
+            },
+        });
+        const waitForCount = async (count: number) => {
+            for (let i = 0; i < 50; i++) {
+                if ((await db.ref('shop/users/u1/orderCount').get()).val() === count) { return; }
+                await new Promise(resolve => setTimeout(resolve, 20));
+            }
+            fail(`orderCount did not become ${count}`);
+        };
+
+        await db.ref('shop/orders/o1').set({ uid: 'u1', total: 10 });
+        await waitForCount(1);
+        await db.ref('shop/orders').update({ o2: { uid: 'u1', total: 5 }, o3: { uid: 'u1', total: 8 } });
+        await waitForCount(3);
+        await db.ref('shop/orders/o1/total').set(12); // Not counted
+        await db.ref('shop/orders/o2').remove();
+        await waitForCount(2);
+        db.triggers.remove('shop/orders/$id');
+    });
+});
@@ -0,0 +1,101 @@
+import { createTempDB } from './tempdb';
+import { AceBase, DataSnapshot } from '..';
+
+describe('ttl rules', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB({ config(options) {
+            options.storage.ttl = [{ path: 'sessions/$id', ttl: 3600 }, { path: 'users/$uid/tokens/$id', field: 'validUntil' }];
+        }}));
+        // Wait for the first scheduled removal to finish
+        await db.api.storage.removeExpired();
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('stores expiry dates of nodes with a ttl', async () => {
+        const start = Date.now();
+        await db.ref('sessions/s1').set({ user: 'ewout' });
+        let expires: Date = (await db.ref('sessions/s1/expires').get()).val();
+        expect(expires instanceof Date).toBeTrue();
+        expect(expires.getTime()).toBeGreaterThanOrEqual(start + 3600 * 1000);
+
+        // Updating the node must extend its lifetime
+        await new Promise(resolve => setTimeout(resolve, 10));
+        await db.ref('sessions/s1').update({ seen: new Date() });
+        const updated: Date = (await db.ref('sessions/s1/expires').get()).val();
+        expect(updated.getTime()).toBeGreaterThan(expires.getTime());
+
+        // Setting parent nodes must store expiry dates for all children, unless given
+        const later = new Date(Date.now() + 60000);
+        await db.ref('sessions').update({ s2: { user: 'annet' }, s3: { user: 'john', expires: later } });
+        expires = (await db.ref('sessions/s2/expires').get()).val();
+        expect(expires.getTime()).toBeGreaterThanOrEqual(start + 3600 * 1000);
+        expect((await db.ref('sessions/s3/expires').get()).val()).toEqual(later);
+
+        // Writing to descendants does not
+        await db.ref('sessions/s3/user').set('jack');
+        expect((await db.ref('sessions/s3/expires').get()).val()).toEqual(later);
+    });
+
+    it('removes expired nodes', async () => {
+        const now = Date.now();
+        await db.ref('users').set({
+            u1: { tokens: { t1: { validUntil: new Date(now - 1000) }, t2: { validUntil: now + 60000 } } },
+            u2: { tokens: { t3: { validUntil: now - 1 }, t4: { name: 'no expiry' } } },
+        });
+        await db.ref('sessions/s4').set({ user: 'jack', expires: new Date(now - 1000) });
+
+        const removed = [] as DataSnapshot[];
+        const subscription = db.ref('users/*/tokens').on('child_removed', snap => { removed.push(snap); });
+
+        const count = await db.api.storage.removeExpired();
+        expect(count).toBe(3); // t1, t3 and s4
+        expect((await db.ref('users/u1/tokens').get()).val()).toEqual({ t2: { validUntil: now + 60000 } });
+        expect((await db.ref('users/u2/tokens').get()).val()).toEqual({ t4: { name: 'no expiry' } });
+        expect(await db.ref('sessions/s4').exists()).toBeFalse();
+
+        // Wait for events
+        await new Promise(resolve => setTimeout(resolve, 100));
+        subscription.stop();
+        expect(removed.map(snap => snap.ref.path).sort()).toEqual(['users/u1/tokens/t1', 'users/u2/tokens/t3']);
+        expect(removed[0].context()).toEqual({ acebase_expired: true });
+
+        // Nothing is removed again
+        expect(await db.api.storage.removeExpired()).toBe(0);
+    });
+});
+
+describe('ttl rules of socket IPC workers', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB({ config(options) {
+            options.storage.ttl = [{ path: 'sessions/$id' }];
+            options.storage.ttlInterval = 0.2;
+        }}));
+        // Wait for the master's first removal with our rules
+        await db.api.storage.removeExpired();
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('are used by the IPC master to remove expired nodes', async () => {
+        const removeExpired = spyOn(db.api.storage, 'removeExpired').and.callThrough();
+        await db.ref('sessions').set({ s1: { expires: Date.now() - 1000 }, s2: { expires: Date.now() + 60000 } });
+
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        expect(await db.ref('sessions/s1').exists()).toBeFalse();
+        expect(await db.ref('sessions/s2').exists()).toBeTrue();
+
+        // This process must not have removed them itself
+        expect(removeExpired).not.toHaveBeenCalled();
+    });
+});
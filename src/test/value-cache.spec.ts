@@ -0,0 +1,68 @@
+import { createTempDB } from './tempdb';
+import { AceBase } from '..';
+import { ValueCache } from '../value-cache';
+import type { AceBaseStorage } from '../storage/binary';
+
+describe('value cache', () => {
+    let db: AceBase;
+    let removeDB: () => Promise<void>;
+
+    beforeAll(async () => {
+        ({ db, removeDB } = await createTempDB({ config(options) {
+            options.storage.valueCache = { maxBytes: 1024 * 1024 };
+        }}));
+    });
+
+    afterAll(async () => {
+        await removeDB();
+    });
+
+    it('caches values until they change', async () => {
+        const cache = (db.api.storage as AceBaseStorage).valueCache;
+        await db.ref('config').set({ theme: 'dark', limits: { users: 10, posts: 100 } });
+
+        let value = (await db.ref('config').get()).val();
+        const hits = cache.hits;
+        value.theme = 'changed'; // Must not change the cached value
+        value = (await db.ref('config').get()).val();
+        expect(cache.hits).toBe(hits + 1);
+        expect(value).toEqual({ theme: 'dark', limits: { users: 10, posts: 100 } });
+
+        // Changing a descendant must invalidate the cached value
+        await db.ref('config/limits/users').set(20);
+        value = (await db.ref('config').get()).val();
+        expect(value.limits.users).toBe(20);
+
+        // Changing an ancestor must invalidate the cached value
+        expect((await db.ref('config/limits').get()).val()).toEqual({ users: 20, posts: 100 });
+        await db.ref('config').update({ limits: { users: 30 } });
+        expect((await db.ref('config/limits').get()).val()).toEqual({ users: 30 });
+
+        // Partial reads are not cached
+        const size = cache.size;
+        expect((await db.ref('config').get({ include: ['theme'] })).val()).toEqual({ theme: 'dark' });
+        expect(cache.size).toBe(size);
+    });
+
+    it('evicts least recently used values', () => {
+        const cache = new ValueCache({ maxBytes: 1000, paths: { 'users/$uid': 400, 'config': 1000 } });
+        cache.set('posts/p1', 'not cached');
+        expect(cache.get('posts/p1')).toBeUndefined();
+
+        const user = { name: 'x'.repeat(50) }; // 16 + 8 + 16 + 100 = 140 bytes
+        cache.set('users/u1', user);
+        cache.set('users/u2', user);
+        expect(cache.get('users/u1')).toEqual(user); // u1 is now used most recently
+        cache.set('users/u3', user);
+        expect(cache.size).toBe(2);
+        expect(cache.get('users/u2')).toBeUndefined();
+        expect(cache.get('users/u1')).toEqual(user);
+
+        cache.set('config', { text: 'x'.repeat(400) }); // 840 bytes, must evict users
+        expect(cache.bytes).toBeLessThanOrEqual(1000);
+        expect(cache.get('config')).toBeDefined();
+
+        cache.invalidate('config/text');
+        expect(cache.get('config')).toBeUndefined();
+    });
+});
@@ -0,0 +1,141 @@
+import { PathInfo, PathReference, Utils } from 'acebase-core';
+const { cloneObject } = Utils;
+
+export interface ValueCacheSettings {
+    /**
+     * Memory budget in bytes for all cached values
+     * @default 10485760 (10MB)
+     */
+    maxBytes?: number;
+
+    /**
+     * Path patterns of nodes to cache, with the memory budget in bytes for all cached values matching that pattern.
+     * Patterns can contain wildcards (`*` or `$var`), eg `{ 'config': 65536, 'users/$uid/settings': 1048576 }`.
+     * If not set, values of all nodes are cached
+     */
+    paths?: Record<string, number>;
+}
+
+interface ValueCacheGroup {
+    pathInfo: PathInfo;
+    maxBytes: number;
+    bytes: number;
+}
+
+interface ValueCacheEntry {
+    value: any;
+    pathInfo: PathInfo;
+    bytes: number;
+    group: ValueCacheGroup;
+}
+
+/**
+ * Approximates the memory used by a value
+ */
+function getValueSize(value: any): number {
+    if (typeof value === 'string') { return 16 + value.length * 2; }
+    if (value instanceof ArrayBuffer) { return 16 + value.byteLength; }
+    if (value instanceof PathReference) { return 16 + value.path.length * 2; }
+    if (value === null || typeof value !== 'object' || value instanceof Date) { return 16; }
+    return Object.keys(value).reduce((bytes, key) => bytes + key.length * 2 + getValueSize(value[key]), 16);
+}
+
+/**
+ * Least recently used (LRU) cache of node values, with a memory budget for all values and optional budgets per path pattern.
+ * Values are cached per path, so an entry must be removed when the node itself, any of its descendants or any of its ancestors is changed
+ */
+export class ValueCache {
+    /** Entries in order of use, least recently used first */
+    private _entries = new Map<string, ValueCacheEntry>();
+    private _groups: ValueCacheGroup[] = null;
+    private _bytes = 0;
+    private _maxBytes: number;
+
+    public hits = 0;
+    public misses = 0;
+
+    constructor(settings: ValueCacheSettings) {
+        this._maxBytes = typeof settings.maxBytes === 'number' ? settings.maxBytes : 10 * 1024 * 1024;
+        if (settings.paths) {
+            this._groups = Object.keys(settings.paths).map(path => ({ pathInfo: PathInfo.get(path), maxBytes: settings.paths[path], bytes: 0 }));
+        }
+    }
+
+    get bytes() { return this._bytes; }
+    get size() { return this._entries.size; }
+
+    /**
+     * Gets a copy of a cached value, or `undefined` if the path is not cached
+     */
+    get(path: string) {
+        const entry = this._entries.get(path);
+        if (!entry) {
+            this.misses++;
+            return undefined;
+        }
+        // Move to the end of the list
+        this._entries.delete(path);
+        this._entries.set(path, entry);
+        this.hits++;
+        return cloneObject(entry.value);
+    }
+
+    /**
+     * Caches a copy of a node's value, if its path is cacheable and it fits the memory budget. Evicts least recently used values if needed
+     */
+    set(path: string, value: any) {
+        const pathInfo = PathInfo.get(path);
+        const group = this._groups ? this._groups.find(group => group.pathInfo.equals(pathInfo)) : null;
+        if (this._groups && !group) {
+            return;
+        }
+        this.remove(path);
+        const bytes = getValueSize(value);
+        if (bytes > this._maxBytes || (group && bytes > group.maxBytes)) {
+            return;
+        }
+        for (const [cachedPath, entry] of this._entries) {
+            if (this._bytes + bytes <= this._maxBytes && (!group || group.bytes + bytes <= group.maxBytes)) {
+                break;
+            }
+            if (this._bytes + bytes > this._maxBytes || entry.group === group) {
+                this.remove(cachedPath);
+            }
+        }
+        this._entries.set(path, { value: cloneObject(value), pathInfo, bytes, group });
+        this._bytes += bytes;
+        group && (group.bytes += bytes);
+    }
+
+    /**
+     * Removes a single cached value
+     */
+    remove(path: string) {
+        const entry = this._entries.get(path);
+        if (!entry) { return; }
+        this._entries.delete(path);
+        this._bytes -= entry.bytes;
+        entry.group && (entry.group.bytes -= entry.bytes);
+    }
+
+    /**
+     * Removes the cached values of a changed node, its ancestors and its descendants
+     */
+    invalidate(path: string) {
+        if (path === '') {
+            return this.clear();
+        }
+        const pathInfo = PathInfo.get(path);
+        for (const [cachedPath, entry] of this._entries) {
+            if (entry.pathInfo.isOnTrailOf(pathInfo)) {
+                this.remove(cachedPath);
+            }
+        }
+    }
+
+    clear() {
+        this._entries.clear();
+        this._bytes = 0;
+        this._groups?.forEach(group => group.bytes = 0);
+    }
+}